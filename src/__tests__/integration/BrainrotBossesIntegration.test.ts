@@ -7,6 +7,7 @@ import { Vector2 } from '../../utils/Vector2';
 import { CharacterManager, ITALIAN_BRAINROT_CHARACTERS } from '../../entities/Character';
 import { EncounterSystem, EnemyState } from '../../systems/EncounterSystem';
 import { KickableObject, ObjectType } from '../../entities/KickableObject';
+import { GameEventBus } from '../../systems/GameEventBus';
 
 // Minimal Phaser mocks - just enough for logic testing
 const createMinimalScene = () => ({
@@ -109,7 +110,7 @@ describe('Brainrot Bosses Integration Tests', () => {
 
     beforeEach(() => {
       const scene = createMinimalScene();
-      encounterSystem = new EncounterSystem(scene as any);
+      encounterSystem = new EncounterSystem(scene as any, new GameEventBus());
     });
 
     it('should load tutorial grove by default', () => {
@@ -242,7 +243,7 @@ describe('Brainrot Bosses Integration Tests', () => {
 
     beforeEach(() => {
       const scene = createMinimalScene();
-      encounterSystem = new EncounterSystem(scene as any);
+      encounterSystem = new EncounterSystem(scene as any, new GameEventBus());
       
       (CharacterManager as any).instance = undefined;
       ITALIAN_BRAINROT_CHARACTERS.forEach(char => {
@@ -351,7 +352,7 @@ describe('Brainrot Bosses Integration Tests', () => {
 
     it('should have escalating zone difficulty', () => {
       const scene = createMinimalScene();
-      const encounterSystem = new EncounterSystem(scene as any);
+      const encounterSystem = new EncounterSystem(scene as any, new GameEventBus());
       
       // Unlock all zones for testing
       encounterSystem.unlockZone('desert-outpost');
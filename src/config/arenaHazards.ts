@@ -0,0 +1,34 @@
+import { ArenaHazardConfig, ArenaHazardType } from '../systems/ZoneTypes';
+
+export const ARENA_HAZARDS: Record<ArenaHazardType, ArenaHazardConfig> = {
+  [ArenaHazardType.ICE_PATCH]: {
+    type: ArenaHazardType.ICE_PATCH,
+    name: 'Ice Patch',
+    color: 0xaee8ff, // Pale blue
+    solid: false,
+    playerFriction: 0.06, // Barely any grip - momentum carries you
+    playerSpeedMultiplier: 1.1,
+    slideFriction: 0.3 // Kicked stuff skates across
+  },
+
+  [ArenaHazardType.SAND_PIT]: {
+    type: ArenaHazardType.SAND_PIT,
+    name: 'Sand Pit',
+    color: 0xc2a060, // Sand
+    solid: false,
+    playerFriction: 1,
+    playerSpeedMultiplier: 0.5, // Wading through sand
+    slideFriction: 3 // Kicked stuff digs in and stops
+  },
+
+  [ArenaHazardType.PILLAR]: {
+    type: ArenaHazardType.PILLAR,
+    name: 'Pillar',
+    color: 0x8a8a8a, // Stone grey
+    solid: true,
+    health: 120, // A few good barrel kicks
+    playerFriction: 1,
+    playerSpeedMultiplier: 1,
+    slideFriction: 1
+  }
+};
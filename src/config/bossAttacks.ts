@@ -0,0 +1,117 @@
+import { BossAttack, BossAttackConfig } from '../enemies/BossAttack';
+
+// Default tuning for every built-in boss attack - damage can be overridden per phase in zones.json
+export const BOSS_ATTACKS: Record<BossAttack, BossAttackConfig> = {
+  [BossAttack.BASIC_ATTACK]: {
+    id: BossAttack.BASIC_ATTACK,
+    damage: 8,
+    cooldown: 1500,
+    weight: 3,
+    telegraphTime: 500,
+    activeTime: 150,
+    size: 90, // Swipe radius around the boss
+    color: 0xff6666
+  },
+
+  [BossAttack.SUMMON_SWARM]: {
+    id: BossAttack.SUMMON_SWARM,
+    damage: 6,
+    cooldown: 2000,
+    weight: 2,
+    telegraphTime: 900,
+    activeTime: 1200, // Swarm clouds linger
+    size: 45,
+    color: 0xffdd00 // Bee yellow
+  },
+
+  [BossAttack.CHARGE_ATTACK]: {
+    id: BossAttack.CHARGE_ATTACK,
+    damage: 15,
+    cooldown: 2000,
+    weight: 2,
+    telegraphTime: 1000,
+    activeTime: 500, // Matches the charge itself
+    size: 70, // Width of the charge lane
+    color: 0xff0000
+  },
+
+  [BossAttack.BOMB_BARRAGE]: {
+    id: BossAttack.BOMB_BARRAGE,
+    damage: 12,
+    cooldown: 2500,
+    weight: 2,
+    telegraphTime: 800,
+    activeTime: 200,
+    size: 60,
+    color: 0xff8800
+  },
+
+  [BossAttack.CHARGE_SLAM]: {
+    id: BossAttack.CHARGE_SLAM,
+    damage: 20,
+    cooldown: 2500,
+    weight: 1,
+    telegraphTime: 1500, // Lands after the charge
+    activeTime: 250,
+    size: 110,
+    color: 0xcc4400
+  },
+
+  [BossAttack.MEGA_BOMB]: {
+    id: BossAttack.MEGA_BOMB,
+    damage: 30,
+    cooldown: 3000,
+    weight: 1,
+    telegraphTime: 1500,
+    activeTime: 250,
+    size: 120,
+    color: 0xff2200
+  },
+
+  [BossAttack.ICE_DASH]: {
+    id: BossAttack.ICE_DASH,
+    damage: 12,
+    cooldown: 2000,
+    weight: 2,
+    telegraphTime: 1000,
+    activeTime: 3000, // Ice trail stays behind after the dash
+    size: 60,
+    color: 0x88ddff,
+    slow: { multiplier: 0.6, duration: 1000 }
+  },
+
+  [BossAttack.FREEZE_WAVE]: {
+    id: BossAttack.FREEZE_WAVE,
+    damage: 10,
+    cooldown: 2500,
+    weight: 1,
+    telegraphTime: 700,
+    activeTime: 1200, // Time for the wave to reach full size
+    size: 320,
+    color: 0x66ccff,
+    slow: { multiplier: 0.5, duration: 2000 }
+  },
+
+  [BossAttack.MEGA_FREEZE]: {
+    id: BossAttack.MEGA_FREEZE,
+    damage: 18,
+    cooldown: 3000,
+    weight: 1,
+    telegraphTime: 1200,
+    activeTime: 400,
+    size: 150,
+    color: 0x3399ff,
+    slow: { multiplier: 0.3, duration: 3000 }
+  },
+
+  [BossAttack.TRIPLE_DASH]: {
+    id: BossAttack.TRIPLE_DASH,
+    damage: 10,
+    cooldown: 3000,
+    weight: 1,
+    telegraphTime: 700, // Shorter wind-up per dash
+    activeTime: 400,
+    size: 60,
+    color: 0x00aaff
+  }
+};
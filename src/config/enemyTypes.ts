@@ -1,4 +1,4 @@
-import { EnemyTypeConfig, EnemyTypeId, WeightClass } from '../enemies/EnemyType';
+import { EnemyTypeConfig, EnemyTypeId, FriendlyFire, WeightClass } from '../enemies/EnemyType';
 
 export const ENEMY_TYPES: Record<EnemyTypeId, EnemyTypeConfig> = {
   [EnemyTypeId.BASIC]: {
@@ -87,9 +87,157 @@ export const ENEMY_TYPES: Record<EnemyTypeId, EnemyTypeConfig> = {
     chainDamageMultiplier: 3.0, // Massive chain damage
     explosiveRadius: 60, // Large explosion radius
     explosiveDamage: 25 // High explosive damage
+  },
+  
+  [EnemyTypeId.RANGED]: {
+    id: EnemyTypeId.RANGED,
+    name: 'Red Archer',
+    health: 5,
+    speed: 110,
+    damage: 1, // Weak up close - the arrows are the threat
+    size: 18,
+    color: 0x00aa66, // Green
+    shape: 'triangle',
+    spawnWeight: 4,
+    minWaveTime: 150, // Appears after 2.5 minutes
+    // LIGHT weight class - easy to punt once you reach them
+    weightClass: WeightClass.LIGHT,
+    kickMultiplier: 1.4,
+    chainDamageMultiplier: 0.8,
+    preferredRange: 240, // Backs off when the player closes in
+    ranged: {
+      fireInterval: 2200,
+      range: 420,
+      projectileSpeed: 260, // Slower than the player so arrows can be dodged
+      projectileDamage: 3,
+      projectileRadius: 6,
+      projectileLifetime: 2500
+    }
+  },
+  
+  [EnemyTypeId.HEALER]: {
+    id: EnemyTypeId.HEALER,
+    name: 'Monk Healer',
+    health: 8,
+    speed: 90,
+    damage: 1,
+    size: 18,
+    color: 0x66ff66, // Light green
+    shape: 'circle',
+    spawnWeight: 2,
+    minWaveTime: 240, // Appears after 4 minutes
+    // LIGHT weight class - kick it out of the pack first
+    weightClass: WeightClass.LIGHT,
+    kickMultiplier: 1.6,
+    chainDamageMultiplier: 0.6,
+    preferredRange: 180, // Hangs back behind the melee enemies
+    healAura: {
+      radius: 140,
+      interval: 3000,
+      healAmount: 3,
+      speedBuff: 1.3,
+      buffDuration: 2000
+    }
+  },
+  
+  [EnemyTypeId.SHIELDER]: {
+    id: EnemyTypeId.SHIELDER,
+    name: 'Shield Warrior',
+    health: 20,
+    speed: 80,
+    damage: 4,
+    size: 24,
+    color: 0x3366cc, // Steel blue
+    shape: 'square',
+    spawnWeight: 3,
+    minWaveTime: 210, // Appears after 3.5 minutes
+    // HEAVY weight class - barely moves from the front, flattens others from behind
+    weightClass: WeightClass.HEAVY,
+    kickMultiplier: 0.7,
+    chainDamageMultiplier: 1.8,
+    frontShield: {
+      arc: Math.PI * 2 / 3, // 120 degree shield
+      turnRate: 1.5, // Circle around it to kick the back
+      kickMultiplier: 0.2,
+      damageMultiplier: 0.25
+    }
+  },
+  
+  [EnemyTypeId.SPLITTER]: {
+    id: EnemyTypeId.SPLITTER,
+    name: 'Splitter',
+    health: 10,
+    speed: 100,
+    damage: 2,
+    size: 22,
+    color: 0xcc44cc, // Magenta
+    shape: 'circle',
+    spawnWeight: 3,
+    minWaveTime: 180, // Appears after 3 minutes
+    // MEDIUM weight class - the swarm it leaves behind does the chaining
+    weightClass: WeightClass.MEDIUM,
+    kickMultiplier: 1.0,
+    chainDamageMultiplier: 1.2,
+    splitOnDeath: {
+      enemyType: EnemyTypeId.SWARM,
+      count: 4
+    }
+  },
+  
+  [EnemyTypeId.BOMB_GOBLIN]: {
+    id: EnemyTypeId.BOMB_GOBLIN,
+    name: 'Bomb Goblin',
+    health: 6,
+    speed: 90,
+    damage: 2,
+    size: 20,
+    color: 0x333333, // Black powder
+    shape: 'circle',
+    spawnWeight: 3,
+    minWaveTime: 300, // Appears after 5 minutes
+    // EXPLOSIVE weight class - kick it into a crowd and watch it go
+    weightClass: WeightClass.EXPLOSIVE,
+    kickMultiplier: 1.3,
+    chainDamageMultiplier: 1.5,
+    explosiveRadius: 90,
+    explosiveDamage: 20,
+    fuse: {
+      fuseTime: 1500,
+      friendlyFire: FriendlyFire.REDUCED // Kicked away, so only the edge of the blast should reach you
+    }
+  },
+  
+  [EnemyTypeId.FUSE_RUNNER]: {
+    id: EnemyTypeId.FUSE_RUNNER,
+    name: 'Fuse Runner',
+    health: 3,
+    speed: 200,
+    damage: 1,
+    size: 16,
+    color: 0xff5500, // Burning orange
+    shape: 'diamond',
+    spawnWeight: 3,
+    minWaveTime: 360, // Appears after 6 minutes
+    // EXPLOSIVE weight class - light and twitchy, short fuse
+    weightClass: WeightClass.EXPLOSIVE,
+    kickMultiplier: 1.6,
+    chainDamageMultiplier: 1.0,
+    explosiveRadius: 60,
+    explosiveDamage: 12,
+    fuse: {
+      fuseTime: 800,
+      friendlyFire: FriendlyFire.FULL // Too fast to kick far - don't let it blow up at your feet
+    }
   }
 };
 
+// Share of an enemy explosion's damage the player takes under each friendly fire rule
+export const FRIENDLY_FIRE_DAMAGE: Record<FriendlyFire, number> = {
+  [FriendlyFire.NONE]: 0,
+  [FriendlyFire.REDUCED]: 0.3,
+  [FriendlyFire.FULL]: 1.0
+};
+
 // Helper function to get enemy types available at a given time
 export function getAvailableEnemyTypes(survivalTimeSeconds: number): EnemyTypeConfig[] {
   return Object.values(ENEMY_TYPES).filter(
@@ -0,0 +1,49 @@
+import { WeaponType } from '../weapons/WeaponFactory';
+import type { UpgradeRarity } from './upgrades';
+
+export interface EvolutionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  technique: string; // Upgrade id that has to be maxed
+  partner: string; // Upgrade id that has to be owned alongside it
+  weaponType: WeaponType; // Evolved weapon
+  replaces: WeaponType; // Base weapon it takes the place of
+  category: 'evolution';
+  maxLevel: number;
+  rarity: UpgradeRarity; // Shown on the card - evolutions skip the weighted draw
+  isEvolution: true;
+}
+
+// KICK EVOLUTIONS - a maxed technique plus the right partner upgrade turns into a stronger kick
+export const EVOLUTIONS: Record<string, EvolutionDefinition> = {
+  dominoKick: {
+    id: 'dominoKick',
+    name: 'Domino Kick',
+    description: 'Kicks tear through every enemy lined up behind the first',
+    icon: '🁢',
+    technique: 'multiKick',
+    partner: 'chainPower',
+    weaponType: WeaponType.DOMINO_KICK,
+    replaces: WeaponType.BRATTACK,
+    category: 'evolution',
+    maxLevel: 1,
+    rarity: 'epic',
+    isEvolution: true
+  },
+  earthquakeStomp: {
+    id: 'earthquakeStomp',
+    name: 'Earthquake Stomp',
+    description: 'Ground pound splits the earth - every hit enemy erupts',
+    icon: '🌋',
+    technique: 'groundPoundVariation',
+    partner: 'explosiveChains',
+    weaponType: WeaponType.EARTHQUAKE_STOMP,
+    replaces: WeaponType.GROUND_POUND,
+    category: 'evolution',
+    maxLevel: 1,
+    rarity: 'epic',
+    isEvolution: true
+  }
+};
@@ -1,3 +1,7 @@
+import type { UpgradeLevels } from '../managers/UpgradeManager';
+
+export type UpgradeRarity = 'common' | 'rare' | 'epic';
+
 export interface UpgradeDefinition {
   id: string;
   name: string;
@@ -6,8 +10,72 @@ export interface UpgradeDefinition {
   effect: (level: number) => any;
   getValue: (level: number) => number;
   category: 'weapon' | 'player' | 'passive';
+  rarity?: UpgradeRarity; // Defaults to common
+  weight?: number; // Overrides the rarity's base offer weight
+}
+
+export interface BouncyEffect {
+  additionalBounces: number;
+}
+
+export interface StickyEffect {
+  stickyRadius: number;
+  stickyChance: number; // 0-1 per chain hit
+}
+
+export interface ExplosiveChainEffect {
+  explosionThreshold: number; // Bounces before the enemy goes off
+  explosionDamage: number;
+}
+
+export interface MagneticEffect {
+  magnetRadius: number;
+  magnetForce: number;
+}
+
+// What the physics upgrades' effect() returns, keyed by upgrade id
+export interface PhysicsUpgradeEffects {
+  bouncyEnemies: BouncyEffect;
+  stickyEnemies: StickyEffect;
+  explosiveChains: ExplosiveChainEffect;
+  magneticKicks: MagneticEffect;
+}
+
+// Base offer weights - relative, so a common shows up ~3x as often as a rare
+export const RARITY_WEIGHTS: Record<UpgradeRarity, number> = {
+  common: 100,
+  rare: 35,
+  epic: 10
+};
+
+// Extra weight per point of luck - luck never makes commons more likely
+export const RARITY_LUCK_BONUS: Record<UpgradeRarity, number> = {
+  common: 0,
+  rare: 0.5,
+  epic: 1
+};
+
+export const RARITY_COLORS: Record<UpgradeRarity, number> = {
+  common: 0x888888,
+  rare: 0x3399ff,
+  epic: 0xaa44ff
+};
+
+// Pity rules - force one of the listed upgrades into the offer once it has been missing for too long
+export interface PityRule {
+  id: string;
+  upgradeIds: string[];
+  afterOffers: number; // Guaranteed on this offer if none showed up in the ones before
 }
 
+export const PITY_RULES: PityRule[] = [
+  {
+    id: 'techniqueUnlock',
+    upgradeIds: ['uppercutVariation', 'spinningKickVariation', 'groundPoundVariation'],
+    afterOffers: 5 // A new kick technique by level 5 at the latest
+  }
+];
+
 export const UPGRADES: Record<string, UpgradeDefinition> = {
   // === CORE KICK MECHANICS === //
   kickForce: {
@@ -17,7 +85,9 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 8,
     effect: (level) => ({ forceMultiplier: 1 + (level * 0.25) }),
     getValue: (level) => 1 + (level * 0.25),
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'common',
+    weight: 120 // Core kick stat - a little more common than the rest
   },
   kickSpeed: {
     id: 'kickSpeed', 
@@ -26,7 +96,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 6,
     effect: (level) => ({ fireRateMultiplier: 1 + (level * 0.20) }),
     getValue: (level) => 1 + (level * 0.20),
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'common'
   },
   kickRange: {
     id: 'kickRange',
@@ -35,7 +106,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 4,
     effect: (level) => ({ rangeMultiplier: 1 + (level * 0.15) }),
     getValue: (level) => 1 + (level * 0.15),
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'common'
   },
   chainPower: {
     id: 'chainPower',
@@ -44,7 +116,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 5,
     effect: (level) => ({ chainForceMultiplier: 1 + (level * 0.30) }),
     getValue: (level) => 1 + (level * 0.30),
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'rare'
   },
   multiKick: {
     id: 'multiKick',
@@ -53,7 +126,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 3,
     effect: (level) => ({ additionalTargets: level }),
     getValue: (level) => level,
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'rare'
   },
   
   // === KICK TECHNIQUE UNLOCKS === //
@@ -64,7 +138,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 1,
     effect: (level) => ({ unlockUppercut: level > 0 }),
     getValue: (level) => level,
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'rare'
   },
   spinningKickVariation: {
     id: 'spinningKickVariation',
@@ -73,7 +148,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 1,
     effect: (level) => ({ unlockSpinningKick: level > 0 }),
     getValue: (level) => level,
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'rare'
   },
   groundPoundVariation: {
     id: 'groundPoundVariation',
@@ -82,7 +158,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 1,
     effect: (level) => ({ unlockGroundPound: level > 0 }),
     getValue: (level) => level,
-    category: 'weapon'
+    category: 'weapon',
+    rarity: 'epic'
   },
   
   // === PLAYER SURVIVAL === //
@@ -93,7 +170,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 5,
     effect: (level) => ({ speedMultiplier: 1 + (level * 0.1) }),
     getValue: (level) => 1 + (level * 0.1),
-    category: 'player'
+    category: 'player',
+    rarity: 'common'
   },
   maxHealth: {
     id: 'maxHealth',
@@ -102,7 +180,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 8,
     effect: (level) => ({ healthMultiplier: 1 + (level * 0.15) }),
     getValue: (level) => 1 + (level * 0.15),
-    category: 'player'
+    category: 'player',
+    rarity: 'common'
   },
   healthRegen: {
     id: 'healthRegen',
@@ -111,7 +190,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 5,
     effect: (level) => ({ regenPerSecond: level * 1.0, instantHeal: 10 }),
     getValue: (level) => level * 1.0,
-    category: 'player'
+    category: 'player',
+    rarity: 'common'
   },
   
   // === PHYSICS MODIFICATIONS === //
@@ -120,36 +200,40 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     name: 'Bouncy Physics',
     description: 'Enemies bounce +2 more times',
     maxLevel: 4,
-    effect: (level) => ({ additionalBounces: level * 2 }),
+    effect: (level): BouncyEffect => ({ additionalBounces: level * 2 }),
     getValue: (level) => level * 2,
-    category: 'passive'
+    category: 'passive',
+    rarity: 'rare'
   },
   stickyEnemies: {
     id: 'stickyEnemies',
     name: 'Sticky Combos',
     description: 'Kicked enemies stick together (bigger projectiles)',
     maxLevel: 3,
-    effect: (level) => ({ stickyRadius: level * 15, stickyChance: level * 0.3 }),
+    effect: (level): StickyEffect => ({ stickyRadius: level * 15, stickyChance: level * 0.3 }),
     getValue: (level) => level * 0.3,
-    category: 'passive'
+    category: 'passive',
+    rarity: 'rare'
   },
   explosiveChains: {
     id: 'explosiveChains',
     name: 'Chain Explosions',
     description: 'Enemies explode after 3+ bounces',
     maxLevel: 2,
-    effect: (level) => ({ explosionThreshold: 4 - level, explosionDamage: level * 10 }),
+    effect: (level): ExplosiveChainEffect => ({ explosionThreshold: 4 - level, explosionDamage: level * 10 }),
     getValue: (level) => level,
-    category: 'passive'
+    category: 'passive',
+    rarity: 'epic'
   },
   magneticKicks: {
     id: 'magneticKicks',
     name: 'Magnetic Pull',
     description: 'Pull nearby enemies before kicking',
     maxLevel: 4,
-    effect: (level) => ({ magnetRadius: level * 20, magnetForce: level * 100 }),
+    effect: (level): MagneticEffect => ({ magnetRadius: level * 20, magnetForce: level * 100 }),
     getValue: (level) => level * 20,
-    category: 'passive'
+    category: 'passive',
+    rarity: 'rare'
   },
   
   // === ESSENTIAL SURVIVAL === //
@@ -160,7 +244,8 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 5,
     effect: (level) => ({ magnetRangeMultiplier: 1 + (level * 0.2) }),
     getValue: (level) => 1 + (level * 0.2),
-    category: 'passive'
+    category: 'passive',
+    rarity: 'common'
   },
   armor: {
     id: 'armor',
@@ -169,18 +254,32 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxLevel: 4,
     effect: (level) => ({ damageReduction: Math.min(level * 0.15, 0.6) }),
     getValue: (level) => Math.min(level * 0.15, 0.6),
-    category: 'passive'
+    category: 'passive',
+    rarity: 'common'
+  },
+  luck: {
+    id: 'luck',
+    name: 'Lucky Charm',
+    description: 'Rare and epic upgrades show up more often',
+    maxLevel: 4,
+    effect: (level) => ({ luck: level * 0.5 }),
+    getValue: (level) => level * 0.5,
+    category: 'passive',
+    rarity: 'rare'
   }
 };
 
 // Helper function to get upgrade multipliers
-export function getUpgradeValue(upgradeId: string): number {
-  const manager = (window as any).upgradeManager;
-  if (!manager) return 1;
-  
-  const level = manager.getUpgradeLevel(upgradeId);
+export function getUpgradeValue(upgradeId: string, upgrades: UpgradeLevels): number {
+  const level = upgrades.getUpgradeLevel(upgradeId);
   if (level === 0) return 1;
   
   const upgrade = UPGRADES[upgradeId];
   return upgrade ? upgrade.getValue(level) : 1;
+}
+
+// Relative chance of an upgrade being dealt - rarity weight scaled up by luck
+export function getOfferWeight(upgrade: { rarity?: UpgradeRarity, weight?: number }, luck: number = 0): number {
+  const rarity = upgrade.rarity ?? 'common';
+  return (upgrade.weight ?? RARITY_WEIGHTS[rarity]) * (1 + luck * RARITY_LUCK_BONUS[rarity]);
 }
\ No newline at end of file
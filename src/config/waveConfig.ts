@@ -1,10 +1,19 @@
+// A shape from SpawnFormations, repeated every interval while its wave lasts
+export interface WaveFormation {
+  type: string; // FormationType
+  enemyType: string; // Same names as WaveConfig.types
+  count: number;
+  interval: number; // ms between formations
+}
+
 export interface WaveConfig {
   minute: number;
   minEnemies: number;
   spawnInterval: number;
   types: string[];
   bossSpawn?: boolean;
-  specialEvent?: string;
+  specialEvent?: string; // WaveEventRegistry id, started when the minute begins
+  formations?: WaveFormation[];
 }
 
 // VS-style wave progression - TRUE VS DENSITY!
@@ -31,7 +40,11 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 2,
     minEnemies: 120,
     spawnInterval: 400,
-    types: ['basic', 'fast', 'swarm']
+    types: ['basic', 'fast', 'swarm'],
+    specialEvent: 'swarm_ring',
+    formations: [
+      { type: 'wall', enemyType: 'swarm', count: 16, interval: 20000 }
+    ]
   },
   
   // Minute 3-4: Pressure increase
@@ -39,7 +52,11 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 3,
     minEnemies: 180,
     spawnInterval: 300,
-    types: ['basic', 'fast', 'swarm']
+    types: ['basic', 'fast', 'swarm', 'ranged'],
+    specialEvent: 'gem_frenzy',
+    formations: [
+      { type: 'ring', enemyType: 'basic', count: 20, interval: 25000 }
+    ]
   },
   
   // Minute 4-5: Tank introduction
@@ -47,7 +64,11 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 4,
     minEnemies: 250,
     spawnInterval: 250,
-    types: ['basic', 'fast', 'swarm', 'tank']
+    types: ['basic', 'fast', 'swarm', 'tank', 'ranged', 'splitter'],
+    specialEvent: 'barrel_rain',
+    formations: [
+      { type: 'pincer', enemyType: 'fast', count: 24, interval: 20000 }
+    ]
   },
   
   // Minute 5-6: Major challenge
@@ -55,9 +76,12 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 5,
     minEnemies: 350,
     spawnInterval: 200,
-    types: ['basic', 'fast', 'swarm', 'tank'],
+    types: ['basic', 'fast', 'swarm', 'tank', 'ranged', 'splitter', 'shielder', 'bomb_goblin'],
     bossSpawn: true,
-    specialEvent: 'elite_wave'
+    specialEvent: 'elite_wave',
+    formations: [
+      { type: 'ring', enemyType: 'basic', count: 30, interval: 20000 }
+    ]
   },
   
   // Minute 6-7: High intensity
@@ -65,7 +89,11 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 6,
     minEnemies: 450,
     spawnInterval: 150,
-    types: ['basic', 'fast', 'swarm', 'tank']
+    types: ['basic', 'fast', 'swarm', 'tank', 'ranged', 'splitter', 'shielder', 'healer', 'bomb_goblin', 'fuse_runner'],
+    specialEvent: 'darkness',
+    formations: [
+      { type: 'spiral', enemyType: 'swarm', count: 30, interval: 20000 }
+    ]
   },
   
   // Minute 7-8: Extreme density
@@ -73,7 +101,12 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 7,
     minEnemies: 550,
     spawnInterval: 120,
-    types: ['basic', 'fast', 'swarm', 'tank']
+    types: ['basic', 'fast', 'swarm', 'tank', 'ranged', 'splitter', 'shielder', 'healer', 'bomb_goblin', 'fuse_runner'],
+    specialEvent: 'swarm_ring',
+    formations: [
+      { type: 'ring', enemyType: 'tank', count: 12, interval: 30000 },
+      { type: 'wall', enemyType: 'swarm', count: 24, interval: 15000 }
+    ]
   },
   
   // Minute 8+: VS peak intensity
@@ -81,8 +114,12 @@ export const WAVE_CONFIG: WaveConfig[] = [
     minute: 8,
     minEnemies: 650,
     spawnInterval: 100,
-    types: ['basic', 'fast', 'swarm', 'tank'],
-    bossSpawn: true
+    types: ['basic', 'fast', 'swarm', 'tank', 'ranged', 'splitter', 'shielder', 'healer', 'bomb_goblin', 'fuse_runner'],
+    bossSpawn: true,
+    formations: [
+      { type: 'pincer', enemyType: 'swarm', count: 32, interval: 15000 },
+      { type: 'spiral', enemyType: 'fast', count: 30, interval: 25000 }
+    ]
   }
 ];
 
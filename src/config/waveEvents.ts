@@ -0,0 +1,51 @@
+import { WaveEventId, WaveEventConfig } from '../waves/WaveEvent';
+
+// Tuning for every built-in wave event - WaveConfig.specialEvent names them by id
+export const WAVE_EVENTS: Record<WaveEventId, WaveEventConfig> = {
+  [WaveEventId.ELITE_WAVE]: {
+    id: WaveEventId.ELITE_WAVE,
+    banner: 'Elite wave incoming!',
+    color: '#ff66ff',
+    duration: 3000,
+    count: 8,
+    radius: 0 // Spawns just off-screen
+  },
+
+  [WaveEventId.SWARM_RING]: {
+    id: WaveEventId.SWARM_RING,
+    banner: 'Surrounded!',
+    color: '#ffdd00',
+    duration: 3000,
+    count: 32,
+    radius: 320 // Close enough to see the ring form
+  },
+
+  [WaveEventId.BARREL_RAIN]: {
+    id: WaveEventId.BARREL_RAIN,
+    banner: 'Barrel rain!',
+    color: '#ff8800',
+    duration: 12000,
+    tickInterval: 600,
+    count: 1,
+    radius: 260
+  },
+
+  [WaveEventId.GEM_FRENZY]: {
+    id: WaveEventId.GEM_FRENZY,
+    banner: 'Gem frenzy!',
+    color: '#00ff88',
+    duration: 8000,
+    tickInterval: 250,
+    count: 2,
+    radius: 220
+  },
+
+  [WaveEventId.DARKNESS]: {
+    id: WaveEventId.DARKNESS,
+    banner: 'The lights go out...',
+    color: '#8888ff',
+    duration: 20000,
+    count: 0,
+    radius: 200 // How far the player can still see
+  }
+};
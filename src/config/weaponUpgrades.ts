@@ -1,4 +1,5 @@
 import { WeaponType } from '../weapons/WeaponFactory';
+import type { UpgradeRarity } from './upgrades';
 
 export interface WeaponUpgradeDefinition {
   id: string;
@@ -9,6 +10,8 @@ export interface WeaponUpgradeDefinition {
   category: 'weapon';
   maxLevel: number;
   isWeaponUnlock: boolean;
+  rarity?: UpgradeRarity; // Defaults to common
+  weight?: number;
 }
 
 // KICK-BASED WEAPON UNLOCKS ONLY - This is a physics brawler!
@@ -0,0 +1,9 @@
+import zoneData from './zones.json';
+
+// Zone and boss ids referenced by persisted progress - read straight from zones.json
+// (no validation here so the save system doesn't depend on the zone loader)
+export const ZONE_IDS: string[] = zoneData.zones.map(zone => zone.id);
+
+export const BOSS_TYPES: string[] = zoneData.zones
+  .filter(zone => zone.boss)
+  .map(zone => zone.boss.type);
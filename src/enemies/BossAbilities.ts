@@ -0,0 +1,207 @@
+import { Vector2 } from '../utils/Vector2';
+import { BossAttack, MovementPattern } from './BossAttack';
+import type { BossAbilityExecutor, BossMovement } from './BossAbilityRegistry';
+import type { Boss } from '../entities/Boss';
+
+// Built-in boss attacks - each one turns its tuning from BOSS_ATTACKS into hazards
+export const BUILT_IN_ABILITIES: Record<BossAttack, BossAbilityExecutor> = {
+  [BossAttack.BASIC_ATTACK]: (boss, _playerPos, config) => {
+    // Swipe around the boss
+    boss.spawnHazard(config.id, { kind: 'circle', x: boss.sprite.x, y: boss.sprite.y, radius: config.size });
+  },
+
+  [BossAttack.SUMMON_SWARM]: (boss, playerPos, config) => {
+    // Swarm clouds close in around the player
+    const rotation = Math.random() * Math.PI * 2;
+    for (let i = 0; i < 4; i++) {
+      const angle = rotation + (Math.PI * 2 / 4) * i;
+      boss.spawnHazard(config.id, {
+        kind: 'circle',
+        x: playerPos.x + Math.cos(angle) * 90,
+        y: playerPos.y + Math.sin(angle) * 90,
+        radius: config.size
+      });
+    }
+  },
+
+  [BossAttack.CHARGE_ATTACK]: (boss, playerPos, config) => {
+    boss.charge(playerPos, config.id);
+  },
+
+  [BossAttack.BOMB_BARRAGE]: (boss, playerPos, config) => {
+    // Five bombs around the player, landing one after another
+    for (let i = 0; i < 5; i++) {
+      const angle = (Math.PI * 2 / 5) * i;
+      boss.spawnHazard(config.id, {
+        kind: 'circle',
+        x: playerPos.x + Math.cos(angle) * 80,
+        y: playerPos.y + Math.sin(angle) * 80,
+        radius: config.size
+      }, i * 300);
+    }
+  },
+
+  [BossAttack.CHARGE_SLAM]: (boss, playerPos, config) => {
+    // Charge, then a shockwave where it lands
+    boss.charge(playerPos, BossAttack.CHARGE_ATTACK);
+    boss.spawnHazard(config.id, { kind: 'circle', x: playerPos.x, y: playerPos.y, radius: config.size });
+  },
+
+  [BossAttack.MEGA_BOMB]: (boss, playerPos, config) => {
+    boss.spawnHazard(config.id, { kind: 'circle', x: playerPos.x, y: playerPos.y, radius: config.size });
+  },
+
+  [BossAttack.ICE_DASH]: (boss, playerPos, config) => {
+    // Dash lane stays frozen after the dash - slows anyone standing in it
+    boss.charge(playerPos, config.id);
+  },
+
+  [BossAttack.FREEZE_WAVE]: (boss, _playerPos, config) => {
+    // Expanding freeze ring from the boss
+    boss.spawnHazard(config.id, {
+      kind: 'wave',
+      x: boss.sprite.x,
+      y: boss.sprite.y,
+      maxRadius: config.size,
+      thickness: 40
+    });
+  },
+
+  [BossAttack.MEGA_FREEZE]: (boss, playerPos, config) => {
+    // Large area freeze around player
+    boss.spawnHazard(config.id, { kind: 'circle', x: playerPos.x, y: playerPos.y, radius: config.size });
+  },
+
+  [BossAttack.TRIPLE_DASH]: (boss, playerPos, config) => {
+    // Three consecutive dashes
+    for (let i = 0; i < 3; i++) {
+      boss.schedule(i * 800, () => boss.charge(playerPos, config.id));
+    }
+  }
+};
+
+// Ability time slows reach bosses too
+function moveToward(boss: Boss, dx: number, dy: number, speed: number, deltaTime: number): void {
+  boss.sprite.x += dx * speed * boss.speedMultiplier * deltaTime / 1000;
+  boss.sprite.y += dy * speed * boss.speedMultiplier * deltaTime / 1000;
+}
+
+function updateChase(boss: Boss, deltaTime: number, playerPos: Vector2, aggressive: boolean): void {
+  const speed = aggressive ? boss.speed * 1.2 : boss.speed;
+  const dx = playerPos.x - boss.sprite.x;
+  const dy = playerPos.y - boss.sprite.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance > 60) { // Don't get too close
+    moveToward(boss, dx / distance, dy / distance, speed, deltaTime);
+  }
+}
+
+function updateSwimming(boss: Boss, deltaTime: number, playerPos: Vector2, aggressive: boolean): void {
+  boss.swimTimer += deltaTime;
+
+  // Change direction periodically
+  if (boss.swimTimer > 2000) { // Every 2 seconds
+    if (aggressive) {
+      // Aggressive swimming toward player
+      const dx = playerPos.x - boss.sprite.x;
+      const dy = playerPos.y - boss.sprite.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      boss.swimDirection.set(dx / distance, dy / distance);
+    } else {
+      // Random swimming direction
+      const angle = Math.random() * Math.PI * 2;
+      boss.swimDirection.set(Math.cos(angle), Math.sin(angle));
+    }
+    boss.swimTimer = 0;
+  }
+
+  const speed = aggressive ? boss.speed * 1.1 : boss.speed * 0.8;
+  moveToward(boss, boss.swimDirection.x, boss.swimDirection.y, speed, deltaTime);
+}
+
+// Built-in movement patterns
+export const BUILT_IN_MOVEMENTS: BossMovement[] = [
+  {
+    id: MovementPattern.STATIONARY,
+    update: () => {
+      // Don't move
+    }
+  },
+  {
+    id: MovementPattern.CIRCLE,
+    update: (boss, deltaTime) => {
+      boss.circleAngle += boss.circleSpeed * deltaTime / 1000;
+      const radius = 100;
+
+      const targetX = boss.arenaCenter.x + Math.cos(boss.circleAngle) * radius;
+      const targetY = boss.arenaCenter.y + Math.sin(boss.circleAngle) * radius;
+
+      // Move toward circle position
+      const dx = targetX - boss.sprite.x;
+      const dy = targetY - boss.sprite.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      if (distance > 5) {
+        moveToward(boss, dx / distance, dy / distance, boss.speed * 0.7, deltaTime); // Slower circling
+      }
+    }
+  },
+  {
+    id: MovementPattern.CHASE,
+    update: (boss, deltaTime, playerPos) => updateChase(boss, deltaTime, playerPos, false)
+  },
+  {
+    id: MovementPattern.AGGRESSIVE,
+    update: (boss, deltaTime, playerPos) => updateChase(boss, deltaTime, playerPos, true)
+  },
+  {
+    id: MovementPattern.BERSERKER,
+    update: (boss, deltaTime, playerPos) => {
+      // Rapid, erratic movement toward player
+      const dx = playerPos.x - boss.sprite.x;
+      const dy = playerPos.y - boss.sprite.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      // Add some randomness to movement
+      const randomX = (Math.random() - 0.5) * 50;
+      const randomY = (Math.random() - 0.5) * 50;
+
+      if (distance > 40) {
+        moveToward(boss, (dx + randomX) / distance, (dy + randomY) / distance, boss.speed * 1.5, deltaTime);
+      }
+    },
+    onEnter: boss => {
+      boss.speed *= 1.5; // Increase speed in berserker phase
+    }
+  },
+  {
+    id: MovementPattern.SWIMMING,
+    update: (boss, deltaTime, playerPos) => updateSwimming(boss, deltaTime, playerPos, false)
+  },
+  {
+    id: MovementPattern.AGGRESSIVE_SWIM,
+    update: (boss, deltaTime, playerPos) => updateSwimming(boss, deltaTime, playerPos, true)
+  },
+  {
+    id: MovementPattern.FRENZY,
+    update: (boss, deltaTime, playerPos) => {
+      // Ultra-fast, chaotic movement
+      const time = Date.now() / 200; // Fast oscillation
+
+      const dx = playerPos.x - boss.sprite.x;
+      const dy = playerPos.y - boss.sprite.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+
+      // Zigzag pattern toward player
+      const perpX = -dy / distance;
+      const perpY = dx / distance;
+      const zigzag = Math.sin(time) * 30;
+
+      moveToward(boss, dx / distance + perpX * zigzag, dy / distance + perpY * zigzag, boss.speed * 2, deltaTime);
+    },
+    onEnter: boss => {
+      boss.cooldownMultiplier *= 0.5; // Attack twice as fast
+    }
+  }
+];
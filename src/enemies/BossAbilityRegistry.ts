@@ -0,0 +1,106 @@
+import { Vector2 } from '../utils/Vector2';
+import { BossAttackConfig } from './BossAttack';
+import type { Boss } from '../entities/Boss';
+import { BOSS_ATTACKS } from '../config/bossAttacks';
+import { BUILT_IN_ABILITIES, BUILT_IN_MOVEMENTS } from './BossAbilities';
+
+export interface BossAbilityExecutor {
+  (boss: Boss, playerPos: Vector2, config: BossAttackConfig): void;
+}
+
+export interface BossAbility {
+  config: BossAttackConfig;
+  execute: BossAbilityExecutor;
+}
+
+export interface BossMovement {
+  id: string;
+  update: (boss: Boss, deltaTime: number, playerPos: Vector2) => void;
+  onEnter?: (boss: Boss) => void; // Once, when a phase switches to this pattern
+}
+
+// 'summon-swarm', 'Summon Swarm' and 'summon_swarm' all name the same ability
+export function normalizeBossName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+// Every ability and movement pattern a boss phase can name - zones resolve against this at load
+export class BossAbilityRegistry {
+  private static instance: BossAbilityRegistry;
+  private abilities: Map<string, BossAbility> = new Map();
+  private movements: Map<string, BossMovement> = new Map();
+
+  private constructor() {
+    Object.values(BOSS_ATTACKS).forEach(config => {
+      this.registerAbility(config, BUILT_IN_ABILITIES[config.id as keyof typeof BUILT_IN_ABILITIES]);
+    });
+    BUILT_IN_MOVEMENTS.forEach(movement => this.registerMovement(movement));
+  }
+
+  static getInstance(): BossAbilityRegistry {
+    if (!BossAbilityRegistry.instance) {
+      BossAbilityRegistry.instance = new BossAbilityRegistry();
+    }
+    return BossAbilityRegistry.instance;
+  }
+
+  // New attacks register before zones load so phases can name them
+  registerAbility(config: BossAttackConfig, execute: BossAbilityExecutor): void {
+    const id = normalizeBossName(config.id);
+    if (this.abilities.has(id)) {
+      console.warn(`Boss ability ${id} registered twice, replacing it`);
+    }
+    this.abilities.set(id, { config: { ...config, id }, execute });
+  }
+
+  registerMovement(movement: BossMovement): void {
+    const id = normalizeBossName(movement.id);
+    if (this.movements.has(id)) {
+      console.warn(`Boss movement ${id} registered twice, replacing it`);
+    }
+    this.movements.set(id, { ...movement, id });
+  }
+
+  // Canonical id for a name, or undefined if nothing is registered under it
+  resolveAbility(name: string): string | undefined {
+    const id = normalizeBossName(name);
+    return this.abilities.has(id) ? id : undefined;
+  }
+
+  resolveMovement(name: string): string | undefined {
+    const id = normalizeBossName(name);
+    return this.movements.has(id) ? id : undefined;
+  }
+
+  getAbility(name: string): BossAbility | undefined {
+    return this.abilities.get(normalizeBossName(name));
+  }
+
+  getMovement(name: string): BossMovement | undefined {
+    return this.movements.get(normalizeBossName(name));
+  }
+
+  getAbilityIds(): string[] {
+    return Array.from(this.abilities.keys());
+  }
+
+  getMovementIds(): string[] {
+    return Array.from(this.movements.keys());
+  }
+
+  // Weighted pick from a phase's abilities - unknown names are skipped
+  pickAbility(names: string[], random: () => number = Math.random): BossAbility | undefined {
+    const candidates = names
+      .map(name => this.getAbility(name))
+      .filter((ability): ability is BossAbility => !!ability && ability.config.weight > 0);
+    if (candidates.length === 0) return undefined;
+
+    const totalWeight = candidates.reduce((sum, ability) => sum + ability.config.weight, 0);
+    let roll = random() * totalWeight;
+    for (const ability of candidates) {
+      roll -= ability.config.weight;
+      if (roll < 0) return ability;
+    }
+    return candidates[candidates.length - 1];
+  }
+}
@@ -0,0 +1,38 @@
+export enum BossAttack {
+  BASIC_ATTACK = 'basic_attack',
+  SUMMON_SWARM = 'summon_swarm',
+  CHARGE_ATTACK = 'charge_attack',
+  BOMB_BARRAGE = 'bomb_barrage',
+  CHARGE_SLAM = 'charge_slam',
+  MEGA_BOMB = 'mega_bomb',
+  ICE_DASH = 'ice_dash',
+  FREEZE_WAVE = 'freeze_wave',
+  MEGA_FREEZE = 'mega_freeze',
+  TRIPLE_DASH = 'triple_dash'
+}
+
+export enum MovementPattern {
+  STATIONARY = 'stationary',
+  CIRCLE = 'circle',
+  CHASE = 'chase',
+  AGGRESSIVE = 'aggressive',
+  BERSERKER = 'berserker',
+  SWIMMING = 'swimming',
+  AGGRESSIVE_SWIM = 'aggressive_swim',
+  FRENZY = 'frenzy'
+}
+
+export interface BossAttackConfig {
+  id: string; // BossAttack value for built-in attacks, anything for registered ones
+  damage: number; // Per hit - phases can override with BossPhase.attackDamage
+  cooldown: number; // ms before the boss attacks again
+  weight: number; // Relative chance of being picked from a phase's abilities
+  telegraphTime: number; // ms of warning before the hazard can hit
+  activeTime: number; // ms the hazard can hit
+  size: number; // Circle radius, dash/trail width or freeze wave reach
+  color: number;
+  slow?: {
+    multiplier: number; // Player speed while slowed
+    duration: number; // ms, refreshed while standing in the hazard
+  };
+}
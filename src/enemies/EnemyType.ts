@@ -24,6 +24,60 @@ export interface EnemyTypeConfig {
   chainDamageMultiplier: number; // How much damage they do when hitting others
   explosiveRadius?: number; // For explosive enemies
   explosiveDamage?: number; // For explosive enemies
+  fuse?: FuseConfig; // Explosives with a fuse arm on the kick instead of blowing straight away
+  
+  // Archetype behaviour - melee chasers leave these out
+  preferredRange?: number; // Kites at this distance from the player instead of closing in
+  ranged?: RangedAttackConfig;
+  healAura?: HealAuraConfig;
+  frontShield?: FrontShieldConfig;
+  splitOnDeath?: SplitConfig;
+}
+
+// Fires enemy projectiles at the player
+export interface RangedAttackConfig {
+  fireInterval: number; // ms between shots
+  range: number; // Only fires while the player is this close
+  projectileSpeed: number;
+  projectileDamage: number;
+  projectileRadius: number;
+  projectileLifetime: number; // ms before a miss fizzles out
+}
+
+// Pulses that heal and speed up nearby allies
+export interface HealAuraConfig {
+  radius: number;
+  interval: number; // ms between pulses
+  healAmount: number;
+  speedBuff: number; // Speed multiplier while buffed
+  buffDuration: number; // ms
+}
+
+// Kicks landing inside the front arc are mostly absorbed
+export interface FrontShieldConfig {
+  arc: number; // Total arc in radians, centred on the facing direction
+  turnRate: number; // Radians per second - slow enough to flank
+  kickMultiplier: number; // Knockback kept from a blocked kick
+  damageMultiplier: number; // Damage kept from a blocked kick
+}
+
+// Whether an enemy explosion also hurts the player
+export enum FriendlyFire {
+  NONE = 'none',
+  REDUCED = 'reduced',
+  FULL = 'full'
+}
+
+// Lit by a kick - goes off on the next enemy or wall it hits, or when the fuse burns out
+export interface FuseConfig {
+  fuseTime: number; // ms
+  friendlyFire: FriendlyFire;
+}
+
+// Breaks into smaller enemies flying outward on death
+export interface SplitConfig {
+  enemyType: EnemyTypeId;
+  count: number;
 }
 
 export enum EnemyTypeId {
@@ -31,5 +85,11 @@ export enum EnemyTypeId {
   FAST = 'fast',
   TANK = 'tank',
   SWARM = 'swarm',
-  ELITE = 'elite'
+  ELITE = 'elite',
+  RANGED = 'ranged',
+  HEALER = 'healer',
+  SHIELDER = 'shielder',
+  SPLITTER = 'splitter',
+  BOMB_GOBLIN = 'bomb_goblin',
+  FUSE_RUNNER = 'fuse_runner'
 }
\ No newline at end of file
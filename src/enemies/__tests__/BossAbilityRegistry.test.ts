@@ -0,0 +1,127 @@
+import { BossAbilityRegistry, normalizeBossName } from '../BossAbilityRegistry';
+import { BossAttack, BossAttackConfig, MovementPattern } from '../BossAttack';
+import { BOSS_ATTACKS } from '../../config/bossAttacks';
+import { Vector2 } from '../../utils/Vector2';
+
+function createAttackConfig(overrides: Partial<BossAttackConfig> = {}): BossAttackConfig {
+  return {
+    id: 'test-laser',
+    damage: 5,
+    cooldown: 1000,
+    weight: 1,
+    telegraphTime: 300,
+    activeTime: 100,
+    size: 40,
+    color: 0xffffff,
+    ...overrides
+  };
+}
+
+describe('BossAbilityRegistry', () => {
+  const registry = BossAbilityRegistry.getInstance();
+
+  describe('built-ins', () => {
+    it('should register every BossAttack with its tuning', () => {
+      Object.values(BossAttack).forEach(attack => {
+        const ability = registry.getAbility(attack);
+        expect(ability?.config).toEqual(BOSS_ATTACKS[attack]);
+        expect(typeof ability?.execute).toBe('function');
+      });
+    });
+
+    it('should register every MovementPattern', () => {
+      expect(registry.getMovementIds()).toEqual(expect.arrayContaining(Object.values(MovementPattern)));
+    });
+  });
+
+  describe('name resolution', () => {
+    it('should normalise kebab-case, spaces and capitals', () => {
+      expect(normalizeBossName('summon-swarm')).toBe('summon_swarm');
+      expect(normalizeBossName(' Mega Bomb ')).toBe('mega_bomb');
+      expect(normalizeBossName('TRIPLE_DASH')).toBe('triple_dash');
+    });
+
+    it('should resolve registered names and reject unknown ones', () => {
+      expect(registry.resolveAbility('charge-attack')).toBe(BossAttack.CHARGE_ATTACK);
+      expect(registry.resolveMovement('aggressive-swim')).toBe(MovementPattern.AGGRESSIVE_SWIM);
+      expect(registry.resolveAbility('laser-beam')).toBeUndefined();
+      expect(registry.resolveMovement('teleport')).toBeUndefined();
+    });
+  });
+
+  describe('registration', () => {
+    it('should let new attacks register and be executed by name', () => {
+      const execute = jest.fn();
+      registry.registerAbility(createAttackConfig({ id: 'Sky Laser' }), execute);
+
+      const ability = registry.getAbility('sky-laser');
+      const boss = {} as any;
+      ability!.execute(boss, new Vector2(1, 2), ability!.config);
+
+      expect(ability!.config.id).toBe('sky_laser');
+      expect(registry.getAbilityIds()).toContain('sky_laser');
+      expect(execute).toHaveBeenCalledWith(boss, new Vector2(1, 2), expect.objectContaining({ cooldown: 1000 }));
+    });
+
+    it('should let new movement patterns register', () => {
+      const update = jest.fn();
+      registry.registerMovement({ id: 'hover', update });
+
+      expect(registry.resolveMovement('Hover')).toBe('hover');
+      expect(registry.getMovement('hover')?.update).toBe(update);
+    });
+  });
+
+  describe('pickAbility', () => {
+    beforeAll(() => {
+      registry.registerAbility(createAttackConfig({ id: 'light', weight: 1 }), jest.fn());
+      registry.registerAbility(createAttackConfig({ id: 'heavy', weight: 3 }), jest.fn());
+      registry.registerAbility(createAttackConfig({ id: 'never', weight: 0 }), jest.fn());
+    });
+
+    it('should pick by weight', () => {
+      expect(registry.pickAbility(['light', 'heavy'], () => 0.2)?.config.id).toBe('light');
+      expect(registry.pickAbility(['light', 'heavy'], () => 0.3)?.config.id).toBe('heavy');
+      expect(registry.pickAbility(['light', 'heavy'], () => 0.99)?.config.id).toBe('heavy');
+    });
+
+    it('should skip unknown and zero-weight abilities', () => {
+      expect(registry.pickAbility(['laser-beam', 'never', 'light'], () => 0.9)?.config.id).toBe('light');
+      expect(registry.pickAbility(['laser-beam', 'never'])).toBeUndefined();
+      expect(registry.pickAbility([])).toBeUndefined();
+    });
+  });
+
+  describe('built-in abilities', () => {
+    it('should spawn staggered bomb hazards for bomb barrage', () => {
+      const boss = { sprite: { x: 0, y: 0 }, spawnHazard: jest.fn(), charge: jest.fn(), schedule: jest.fn() } as any;
+      const ability = registry.getAbility(BossAttack.BOMB_BARRAGE)!;
+
+      ability.execute(boss, new Vector2(100, 100), ability.config);
+
+      expect(boss.spawnHazard).toHaveBeenCalledTimes(5);
+      expect(boss.spawnHazard.mock.calls.map((call: any[]) => call[2])).toEqual([0, 300, 600, 900, 1200]);
+    });
+
+    it('should schedule three charges for triple dash', () => {
+      const boss = { sprite: { x: 0, y: 0 }, spawnHazard: jest.fn(), charge: jest.fn(), schedule: jest.fn((_delay: number, callback: () => void) => callback()) } as any;
+      const ability = registry.getAbility(BossAttack.TRIPLE_DASH)!;
+
+      ability.execute(boss, new Vector2(100, 100), ability.config);
+
+      expect(boss.schedule.mock.calls.map((call: any[]) => call[0])).toEqual([0, 800, 1600]);
+      expect(boss.charge).toHaveBeenCalledTimes(3);
+      expect(boss.charge).toHaveBeenCalledWith(new Vector2(100, 100), BossAttack.TRIPLE_DASH);
+    });
+
+    it('should apply frenzy and berserker phase effects on enter', () => {
+      const boss = { speed: 100, cooldownMultiplier: 1 } as any;
+
+      registry.getMovement(MovementPattern.BERSERKER)!.onEnter!(boss);
+      registry.getMovement(MovementPattern.FRENZY)!.onEnter!(boss);
+
+      expect(boss.speed).toBe(150);
+      expect(boss.cooldownMultiplier).toBe(0.5);
+    });
+  });
+});
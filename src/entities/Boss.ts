@@ -3,36 +3,25 @@ import { Enemy } from './Enemy';
 import { Vector2 } from '../utils/Vector2';
 import { EnemyTypeConfig } from '../enemies/EnemyType';
 import { BossConfig, BossPhase } from '../systems/EncounterSystem';
+import { BossAbility, BossAbilityRegistry, normalizeBossName } from '../enemies/BossAbilityRegistry';
+import { BossHazardSpec, BossHazardShape } from '../systems/BossHazardSystem';
+import { GameEventBus } from '../systems/GameEventBus';
 
-export enum BossAttack {
-  BASIC_ATTACK = 'basic_attack',
-  SUMMON_SWARM = 'summon_swarm',
-  CHARGE_ATTACK = 'charge_attack',
-  BOMB_BARRAGE = 'bomb_barrage',
-  CHARGE_SLAM = 'charge_slam',
-  MEGA_BOMB = 'mega_bomb',
-  ICE_DASH = 'ice_dash',
-  FREEZE_WAVE = 'freeze_wave',
-  MEGA_FREEZE = 'mega_freeze',
-  TRIPLE_DASH = 'triple_dash'
-}
+// Enums live with the attack tuning types - re-exported for existing imports
+export { BossAttack, MovementPattern } from '../enemies/BossAttack';
 
-export enum MovementPattern {
-  STATIONARY = 'stationary',
-  CIRCLE = 'circle',
-  CHASE = 'chase',
-  AGGRESSIVE = 'aggressive',
-  BERSERKER = 'berserker',
-  SWIMMING = 'swimming',
-  AGGRESSIVE_SWIM = 'aggressive_swim',
-  FRENZY = 'frenzy'
+export interface SpawnHazardCallback {
+  (spec: BossHazardSpec): void;
 }
 
+const CHARGE_DURATION = 500; // ms the boss spends charging once the lane goes live
+
 export class Boss extends Enemy {
   public bossConfig: BossConfig;
   public currentPhase: number = 0;
   public lastAttackTime: number = 0;
-  public attackCooldown: number = 2000; // 2 seconds between attacks
+  public attackCooldown: number = 2000; // Wait after the last attack - set by each ability's cooldown
+  public cooldownMultiplier: number = 1; // Phase effects like frenzy speed up every cooldown
   public arenaCenter: Vector2;
   public arenaRadius: number;
   
@@ -44,14 +33,16 @@ export class Boss extends Enemy {
   public swimDirection: Vector2 = new Vector2(1, 0);
   public swimTimer: number = 0;
   
+  // Attacks hand their hitboxes to the scene's BossHazardSystem
+  public onSpawnHazard?: SpawnHazardCallback;
+  
   // Visual effects
   private phaseTransitionEffect?: Phaser.GameObjects.Graphics;
-  private attackWarning?: Phaser.GameObjects.Graphics;
   private healthBarBg?: Phaser.GameObjects.Graphics;
   private healthBarFill?: Phaser.GameObjects.Graphics;
   private nameText?: Phaser.GameObjects.Text;
   
-  constructor(scene: Scene, bossConfig: BossConfig) {
+  constructor(scene: Scene, bossConfig: BossConfig, private events?: GameEventBus) {
     super(scene);
     
     this.bossConfig = bossConfig;
@@ -88,11 +79,6 @@ export class Boss extends Enemy {
     this.phaseTransitionEffect = scene.add.graphics();
     this.phaseTransitionEffect.setDepth(90);
     this.phaseTransitionEffect.setVisible(false);
-    
-    // Attack warning indicator
-    this.attackWarning = scene.add.graphics();
-    this.attackWarning.setDepth(89);
-    this.attackWarning.setVisible(false);
   }
 
   spawn(x: number, y: number, enemyType: EnemyTypeConfig): void {
@@ -121,7 +107,7 @@ export class Boss extends Enemy {
     this.updateBossMovement(deltaTime, playerPos);
     
     // Handle boss attacks
-    this.updateBossAttacks(deltaTime, playerPos);
+    this.updateBossAttacks(playerPos);
     
     // Update boss UI
     this.updateBossUI();
@@ -155,14 +141,9 @@ export class Boss extends Enemy {
     
     // Phase-specific effects
     const newPhase = this.bossConfig.phases[this.currentPhase];
-    switch (newPhase.movementPattern) {
-      case 'berserker':
-        this.speed *= 1.5; // Increase speed in berserker phase
-        break;
-      case 'frenzy':
-        this.attackCooldown *= 0.5; // Attack twice as fast
-        break;
-    }
+    BossAbilityRegistry.getInstance().getMovement(newPhase.movementPattern)?.onEnter?.(this);
+    
+    this.events?.emit('bossPhaseChanged', { boss: this, phaseIndex: this.currentPhase, phase: newPhase });
   }
 
   private showPhaseTransition(): void {
@@ -198,204 +179,75 @@ export class Boss extends Enemy {
     if (this.isDying || this.isCharging) return;
     
     const currentPhase = this.bossConfig.phases[this.currentPhase];
-    const pattern = currentPhase.movementPattern as MovementPattern;
-    
-    switch (pattern) {
-      case MovementPattern.STATIONARY:
-        // Don't move
-        break;
-        
-      case MovementPattern.CIRCLE:
-        this.updateCircleMovement(deltaTime);
-        break;
-        
-      case MovementPattern.CHASE:
-      case MovementPattern.AGGRESSIVE:
-        this.updateChaseMovement(deltaTime, playerPos, pattern === MovementPattern.AGGRESSIVE);
-        break;
-        
-      case MovementPattern.BERSERKER:
-        this.updateBerserkerMovement(deltaTime, playerPos);
-        break;
-        
-      case MovementPattern.SWIMMING:
-      case MovementPattern.AGGRESSIVE_SWIM:
-        this.updateSwimmingMovement(deltaTime, playerPos, pattern === MovementPattern.AGGRESSIVE_SWIM);
-        break;
-        
-      case MovementPattern.FRENZY:
-        this.updateFrenzyMovement(deltaTime, playerPos);
-        break;
-    }
-  }
-
-  private updateCircleMovement(deltaTime: number): void {
-    this.circleAngle += this.circleSpeed * deltaTime / 1000;
-    const radius = 100;
-    
-    const targetX = this.arenaCenter.x + Math.cos(this.circleAngle) * radius;
-    const targetY = this.arenaCenter.y + Math.sin(this.circleAngle) * radius;
-    
-    // Move toward circle position
-    const dx = targetX - this.sprite.x;
-    const dy = targetY - this.sprite.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    if (distance > 5) {
-      const moveSpeed = this.speed * 0.7; // Slower circling
-      this.sprite.x += (dx / distance) * moveSpeed * deltaTime / 1000;
-      this.sprite.y += (dy / distance) * moveSpeed * deltaTime / 1000;
-    }
-  }
-
-  private updateChaseMovement(deltaTime: number, playerPos: Vector2, aggressive: boolean): void {
-    const speed = aggressive ? this.speed * 1.2 : this.speed;
-    const dx = playerPos.x - this.sprite.x;
-    const dy = playerPos.y - this.sprite.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    if (distance > 60) { // Don't get too close
-      this.sprite.x += (dx / distance) * speed * deltaTime / 1000;
-      this.sprite.y += (dy / distance) * speed * deltaTime / 1000;
-    }
-  }
-
-  private updateBerserkerMovement(deltaTime: number, playerPos: Vector2): void {
-    // Rapid, erratic movement toward player
-    const speed = this.speed * 1.5;
-    const dx = playerPos.x - this.sprite.x;
-    const dy = playerPos.y - this.sprite.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Add some randomness to movement
-    const randomX = (Math.random() - 0.5) * 50;
-    const randomY = (Math.random() - 0.5) * 50;
-    
-    if (distance > 40) {
-      this.sprite.x += ((dx + randomX) / distance) * speed * deltaTime / 1000;
-      this.sprite.y += ((dy + randomY) / distance) * speed * deltaTime / 1000;
-    }
-  }
-
-  private updateSwimmingMovement(deltaTime: number, playerPos: Vector2, aggressive: boolean): void {
-    this.swimTimer += deltaTime;
-    
-    // Change direction periodically
-    if (this.swimTimer > 2000) { // Every 2 seconds
-      if (aggressive) {
-        // Aggressive swimming toward player
-        const dx = playerPos.x - this.sprite.x;
-        const dy = playerPos.y - this.sprite.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        this.swimDirection.set(dx / distance, dy / distance);
-      } else {
-        // Random swimming direction
-        const angle = Math.random() * Math.PI * 2;
-        this.swimDirection.set(Math.cos(angle), Math.sin(angle));
-      }
-      this.swimTimer = 0;
-    }
-    
-    const speed = aggressive ? this.speed * 1.1 : this.speed * 0.8;
-    this.sprite.x += this.swimDirection.x * speed * deltaTime / 1000;
-    this.sprite.y += this.swimDirection.y * speed * deltaTime / 1000;
+    BossAbilityRegistry.getInstance().getMovement(currentPhase.movementPattern)?.update(this, deltaTime, playerPos);
   }
 
-  private updateFrenzyMovement(deltaTime: number, playerPos: Vector2): void {
-    // Ultra-fast, chaotic movement
-    const speed = this.speed * 2;
-    const time = Date.now() / 200; // Fast oscillation
-    
-    const dx = playerPos.x - this.sprite.x;
-    const dy = playerPos.y - this.sprite.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Zigzag pattern toward player
-    const perpX = -dy / distance;
-    const perpY = dx / distance;
-    const zigzag = Math.sin(time) * 30;
-    
-    this.sprite.x += (dx / distance + perpX * zigzag) * speed * deltaTime / 1000;
-    this.sprite.y += (dy / distance + perpY * zigzag) * speed * deltaTime / 1000;
-  }
-
-  private updateBossAttacks(deltaTime: number, playerPos: Vector2): void {
+  private updateBossAttacks(playerPos: Vector2): void {
     const currentTime = Date.now();
     if (currentTime - this.lastAttackTime < this.attackCooldown) return;
     
+    // Weighted pick from the current phase
     const currentPhase = this.bossConfig.phases[this.currentPhase];
-    const availableAttacks = currentPhase.abilities;
-    
-    if (availableAttacks.length === 0) return;
+    const ability = BossAbilityRegistry.getInstance().pickAbility(currentPhase.abilities);
+    if (!ability) return;
     
-    // Choose random attack from current phase
-    const attackName = availableAttacks[Math.floor(Math.random() * availableAttacks.length)];
-    this.executeAttack(attackName as BossAttack, playerPos);
+    this.executeAttack(ability, playerPos);
     
     this.lastAttackTime = currentTime;
+    this.attackCooldown = ability.config.cooldown * this.cooldownMultiplier;
   }
 
-  private executeAttack(attack: BossAttack, playerPos: Vector2): void {
-    console.log(`Boss executing attack: ${attack}`);
-    
-    switch (attack) {
-      case BossAttack.SUMMON_SWARM:
-        this.executeSummonSwarm();
-        break;
-        
-      case BossAttack.CHARGE_ATTACK:
-        this.executeChargeAttack(playerPos);
-        break;
-        
-      case BossAttack.BOMB_BARRAGE:
-        this.executeBombBarrage(playerPos);
-        break;
-        
-      case BossAttack.CHARGE_SLAM:
-        this.executeChargeSlam(playerPos);
-        break;
-        
-      case BossAttack.MEGA_BOMB:
-        this.executeMegaBomb(playerPos);
-        break;
-        
-      case BossAttack.ICE_DASH:
-        this.executeIceDash(playerPos);
-        break;
-        
-      case BossAttack.FREEZE_WAVE:
-        this.executeFreezeWave();
-        break;
-        
-      case BossAttack.MEGA_FREEZE:
-        this.executeMegaFreeze(playerPos);
-        break;
-        
-      case BossAttack.TRIPLE_DASH:
-        this.executeTripleDash(playerPos);
-        break;
-    }
+  private executeAttack(ability: BossAbility, playerPos: Vector2): void {
+    console.log(`Boss executing attack: ${ability.config.id}`);
+    ability.execute(this, playerPos, ability.config);
   }
 
-  private executeSummonSwarm(): void {
-    // TODO: Spawn swarm enemies around the boss
-    console.log("Boss summons swarm enemies!");
+  // Damage for an attack in the current phase - zones.json can override the default
+  getAttackDamage(attack: string): number {
+    const id = normalizeBossName(attack);
+    const override = this.bossConfig.phases[this.currentPhase]?.attackDamage?.[id];
+    return override ?? BossAbilityRegistry.getInstance().getAbility(id)?.config.damage ?? 0;
   }
 
-  private executeChargeAttack(playerPos: Vector2): void {
-    this.chargeTarget = playerPos.clone();
+  // Hands an attack's hitbox to the scene, tuned from the attack's registry config
+  spawnHazard(attack: string, shape: BossHazardShape, extraTelegraph: number = 0): void {
+    const config = BossAbilityRegistry.getInstance().getAbility(attack)?.config;
+    if (!config) return;
+    
+    this.onSpawnHazard?.({
+      shape,
+      telegraphTime: config.telegraphTime + extraTelegraph,
+      activeTime: config.activeTime,
+      damage: this.getAttackDamage(attack),
+      color: config.color,
+      slow: config.slow
+    });
+  }
+
+  // Telegraphed dash at the target - the lane is the hitbox
+  charge(target: Vector2, attack: string): void {
+    const config = BossAbilityRegistry.getInstance().getAbility(attack)?.config;
+    if (!config) return;
+    
+    this.chargeTarget = target.clone();
     this.isCharging = true;
     
-    // Show warning line
-    this.showAttackWarning(this.sprite.x, this.sprite.y, playerPos.x, playerPos.y);
+    this.spawnHazard(attack, {
+      kind: 'line',
+      x1: this.sprite.x,
+      y1: this.sprite.y,
+      x2: target.x,
+      y2: target.y,
+      width: config.size
+    });
     
     // Execute charge after warning
-    this.scene.time.delayedCall(1000, () => {
+    this.schedule(config.telegraphTime, () => {
       if (this.chargeTarget) {
         const chargeSpeed = this.speed * 3;
         const dx = this.chargeTarget.x - this.sprite.x;
         const dy = this.chargeTarget.y - this.sprite.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
+        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
         
         // Apply charge velocity
         this.knockbackVelocity.set(
@@ -403,7 +255,7 @@ export class Boss extends Enemy {
           (dy / distance) * chargeSpeed
         );
         
-        this.scene.time.delayedCall(500, () => {
+        this.schedule(CHARGE_DURATION, () => {
           this.isCharging = false;
           this.chargeTarget = null;
         });
@@ -411,116 +263,8 @@ export class Boss extends Enemy {
     });
   }
 
-  private executeBombBarrage(playerPos: Vector2): void {
-    // Create multiple explosion warning areas
-    for (let i = 0; i < 5; i++) {
-      this.scene.time.delayedCall(i * 300, () => {
-        const angle = (Math.PI * 2 / 5) * i;
-        const radius = 80;
-        const bombX = playerPos.x + Math.cos(angle) * radius;
-        const bombY = playerPos.y + Math.sin(angle) * radius;
-        
-        this.showExplosionWarning(bombX, bombY);
-        
-        this.scene.time.delayedCall(800, () => {
-          // TODO: Create actual explosion damage area
-          console.log(`Bomb explodes at ${bombX}, ${bombY}`);
-        });
-      });
-    }
-  }
-
-  private executeChargeSlam(playerPos: Vector2): void {
-    // Similar to charge attack but with area damage on impact
-    this.executeChargeAttack(playerPos);
-    
-    this.scene.time.delayedCall(1500, () => {
-      // TODO: Create slam damage area
-      console.log("Boss slam creates shockwave!");
-    });
-  }
-
-  private executeMegaBomb(playerPos: Vector2): void {
-    this.showExplosionWarning(playerPos.x, playerPos.y, 120); // Larger warning
-    
-    this.scene.time.delayedCall(1500, () => {
-      // TODO: Create massive explosion
-      console.log("MEGA BOMB EXPLOSION!");
-    });
-  }
-
-  private executeIceDash(playerPos: Vector2): void {
-    // Fast dash that leaves ice trail
-    this.executeChargeAttack(playerPos);
-    // TODO: Add ice trail visual effect
-  }
-
-  private executeFreezeWave(): void {
-    // Expanding freeze wave from boss position
-    console.log("Boss creates freeze wave!");
-    // TODO: Implement expanding freeze effect
-  }
-
-  private executeMegaFreeze(playerPos: Vector2): void {
-    // Large area freeze around player
-    this.showExplosionWarning(playerPos.x, playerPos.y, 150);
-    
-    this.scene.time.delayedCall(1200, () => {
-      console.log("MEGA FREEZE!");
-      // TODO: Create large freeze area
-    });
-  }
-
-  private executeTripleDash(playerPos: Vector2): void {
-    // Three consecutive dashes
-    for (let i = 0; i < 3; i++) {
-      this.scene.time.delayedCall(i * 800, () => {
-        this.executeChargeAttack(playerPos);
-      });
-    }
-  }
-
-  private showAttackWarning(startX: number, startY: number, endX: number, endY: number): void {
-    if (!this.attackWarning) return;
-    
-    this.attackWarning.setVisible(true);
-    this.attackWarning.clear();
-    this.attackWarning.lineStyle(3, 0xff0000, 0.8);
-    this.attackWarning.lineBetween(startX, startY, endX, endY);
-    
-    // Flash warning
-    this.scene.tweens.add({
-      targets: this.attackWarning,
-      alpha: { from: 1, to: 0 },
-      duration: 200,
-      yoyo: true,
-      repeat: 4,
-      onComplete: () => {
-        if (this.attackWarning) {
-          this.attackWarning.setVisible(false);
-          this.attackWarning.setAlpha(1);
-        }
-      }
-    });
-  }
-
-  private showExplosionWarning(x: number, y: number, radius: number = 60): void {
-    const warning = this.scene.add.graphics();
-    warning.setDepth(88);
-    warning.lineStyle(2, 0xff0000, 0.7);
-    warning.strokeCircle(x, y, radius);
-    
-    // Flash warning
-    this.scene.tweens.add({
-      targets: warning,
-      alpha: { from: 1, to: 0 },
-      duration: 150,
-      yoyo: true,
-      repeat: 5,
-      onComplete: () => {
-        warning.destroy();
-      }
-    });
+  schedule(delay: number, callback: () => void): void {
+    this.scene.time.delayedCall(delay, callback);
   }
 
   private updateBossUI(): void {
@@ -597,10 +341,6 @@ export class Boss extends Enemy {
       this.phaseTransitionEffect.destroy();
       this.phaseTransitionEffect = undefined;
     }
-    if (this.attackWarning) {
-      this.attackWarning.destroy();
-      this.attackWarning = undefined;
-    }
   }
 
   reset(): void {
@@ -617,6 +357,7 @@ export class Boss extends Enemy {
     
     // Reset to original attack cooldown and speed
     this.attackCooldown = 2000;
+    this.cooldownMultiplier = 1;
     
     this.cleanupBossUI();
   }
@@ -1,5 +1,7 @@
 import { Scene } from 'phaser';
 import { Vector2 } from '../utils/Vector2';
+import { UnlockCondition, UnlockProgress, areUnlockConditionsMet, createEmptyUnlockProgress } from './UnlockConditions';
+import type { UpgradeAction } from '../managers/UpgradeManager';
 
 export interface CharacterAbility {
   id: string;
@@ -14,6 +16,7 @@ export interface AbilityEffect {
   type: 'kick_modifier' | 'area_attack' | 'movement' | 'environmental';
   kickForceMultiplier?: number;
   kickRangeMultiplier?: number;
+  kickSpeedMultiplier?: number;
   areaRadius?: number;
   damage?: number;
   movementSpeedBonus?: number;
@@ -31,8 +34,10 @@ export interface CharacterConfig {
   baseKickRange: number;
   specialAbilities: CharacterAbility[];
   passiveAbility?: CharacterAbility;
+  upgradeCharges?: Partial<Record<UpgradeAction, number>>; // Level-up screen charges the run starts with
   spriteKey: string;
-  unlockRequirement: string;
+  unlockRequirement: string; // Player-facing text for unlockConditions
+  unlockConditions?: UnlockCondition[]; // All must hold - none means unlocked from the start
   isUnlocked: boolean;
 }
 
@@ -79,6 +84,11 @@ export class Character {
   getKickRange(): number {
     return this.config.baseKickRange;
   }
+
+  // Flat px/s from a movement passive like Athletic Prowess
+  getPassiveSpeedBonus(): number {
+    return this.config.passiveAbility?.effect.movementSpeedBonus ?? 0;
+  }
 }
 
 // Italian Brainrot Character Definitions
@@ -179,6 +189,7 @@ export const ITALIAN_BRAINROT_CHARACTERS: CharacterConfig[] = [
     },
     spriteKey: 'zombie-male-idle', // Placeholder until we have banana monkey sprite
     unlockRequirement: 'Defeat Swarm King Chimpanzini',
+    unlockConditions: [{ type: 'boss_defeated', bossType: 'swarm-king' }],
     isUnlocked: false
   },
 
@@ -228,6 +239,7 @@ export const ITALIAN_BRAINROT_CHARACTERS: CharacterConfig[] = [
     },
     spriteKey: 'black-warrior-idle', // Crocodile-like tank sprite
     unlockRequirement: 'Defeat Bombardiro Crocodilo',
+    unlockConditions: [{ type: 'boss_defeated', bossType: 'desert-bomber' }],
     isUnlocked: false
   },
 
@@ -279,6 +291,7 @@ export const ITALIAN_BRAINROT_CHARACTERS: CharacterConfig[] = [
     },
     spriteKey: 'red-lancer-idle', // Shark-like elite sprite
     unlockRequirement: 'Defeat Tralalero Tralala',
+    unlockConditions: [{ type: 'boss_defeated', bossType: 'ice-shark' }],
     isUnlocked: false
   },
 
@@ -324,11 +337,14 @@ export const ITALIAN_BRAINROT_CHARACTERS: CharacterConfig[] = [
       effect: {
         type: 'kick_modifier',
         kickForceMultiplier: 1.0,
+        kickSpeedMultiplier: 1.15,
         specialEffect: 'ninja_kicks'
       }
     },
+    upgradeCharges: { banish: 2 }, // Picks its targets
     spriteKey: 'yellow-monk-idle', // Ninja-like monk sprite
     unlockRequirement: 'Defeat 100 enemies with critical hits',
+    unlockConditions: [{ type: 'critical_kills', kills: 100 }],
     isUnlocked: false
   },
 
@@ -376,8 +392,10 @@ export const ITALIAN_BRAINROT_CHARACTERS: CharacterConfig[] = [
         specialEffect: 'temporal_aura'
       }
     },
+    upgradeCharges: { reroll: 3, skip: 1 }, // Sees the level-ups that could have been
     spriteKey: 'zombie-female-idle', // Cactus-like sprite placeholder
     unlockRequirement: 'Complete Tutorial Grove in under 5 minutes',
+    unlockConditions: [{ type: 'zone_cleared', zoneId: 'tutorial-grove', maxTime: 5 * 60 * 1000 }],
     isUnlocked: false
   }
 ];
@@ -458,26 +476,22 @@ export class CharacterManager {
     };
   }
 
-  // Method to unlock character by boss defeat
+  // Unlock every locked character whose conditions now hold - returns the newly unlocked ids
+  evaluateUnlocks(progress: UnlockProgress): string[] {
+    const unlocked: string[] = [];
+    ITALIAN_BRAINROT_CHARACTERS.forEach(config => {
+      if (this.unlockedCharacters.has(config.id)) return;
+      if (areUnlockConditionsMet(config.unlockConditions, progress) && this.unlockCharacter(config.id)) {
+        unlocked.push(config.id);
+      }
+    });
+    return unlocked;
+  }
+
+  // Unlock whatever a single boss kill is enough for
   unlockCharacterByBoss(bossType: string): boolean {
-    let characterId: string;
-    
-    switch (bossType) {
-      case 'swarm-king':
-        characterId = 'chimpanzini-bananini';
-        break;
-      case 'desert-bomber':
-        characterId = 'bombardiro-crocodilo';
-        break;
-      case 'ice-shark':
-        characterId = 'tralalero-tralala';
-        break;
-      default:
-        console.warn(`Unknown boss type: ${bossType}`);
-        return false;
-    }
-    
-    return this.unlockCharacter(characterId);
+    const progress = { ...createEmptyUnlockProgress(), bossesDefeated: [bossType] };
+    return this.evaluateUnlocks(progress).length > 0;
   }
 
   // Save/load functionality
@@ -491,16 +505,32 @@ export class CharacterManager {
   loadProgress(saveData: string): boolean {
     try {
       const data = JSON.parse(saveData);
-      this.unlockedCharacters = new Set(data.unlockedCharacters);
-      
+      if (!Array.isArray(data?.unlockedCharacters)) {
+        console.error('Failed to load character progress: unlockedCharacters is missing');
+        return false;
+      }
+
+      // Drop ids of characters that were renamed or removed since the save was written
+      const knownIds = new Set(ITALIAN_BRAINROT_CHARACTERS.map(char => char.id));
+      const unlocked = data.unlockedCharacters.filter((id: unknown) => {
+        const known = typeof id === 'string' && knownIds.has(id);
+        if (!known) {
+          console.warn('Dropping unknown character id from save:', id);
+        }
+        return known;
+      });
+      this.unlockedCharacters = new Set(['br-br-patapim', ...unlocked]);
+
       // Update character unlock status
       ITALIAN_BRAINROT_CHARACTERS.forEach(char => {
         char.isUnlocked = this.unlockedCharacters.has(char.id);
       });
       
-      // Set current character
+      // Set current character - a locked or unknown selection falls back to the default
       if (data.currentCharacter && this.isCharacterUnlocked(data.currentCharacter)) {
         this.setCurrentCharacter(data.currentCharacter);
+      } else {
+        this.setCurrentCharacter('br-br-patapim');
       }
       
       return true;
@@ -139,7 +139,7 @@ export class DiscoveryChest {
     return distance <= threshold;
   }
   
-  collect(onRewardComplete: () => void): void {
+  collect(onRewardComplete: (rewards: ChestReward[]) => void): void {
     if (this.isCollected) return;
     
     this.isCollected = true;
@@ -217,6 +217,27 @@ export class DiscoveryChest {
       icon: '0xFF0000'
     });
     
+    // Level-up screen charges
+    rewards.push({
+      type: 'upgradeCharge',
+      action: 'reroll',
+      value: 2,
+      name: 'Lucky Dice',
+      description: 'Reroll your upgrade choices twice',
+      icon: '0xFFFFFF'
+    });
+    
+    if (Math.random() < 0.25) {
+      rewards.push({
+        type: 'upgradeCharge',
+        action: 'banish',
+        value: 1,
+        name: 'Banishing Seal',
+        description: 'Banish an upgrade for the rest of the run',
+        icon: '0x9370DB'
+      });
+    }
+    
     // Random third reward (30% chance for upgrade token)
     if (Math.random() < 0.3) {
       rewards.push({
@@ -231,13 +252,13 @@ export class DiscoveryChest {
     return rewards;
   }
   
-  private showRewardWindow(rewards: ChestReward[], onComplete: () => void): void {
+  private showRewardWindow(rewards: ChestReward[], onComplete: (rewards: ChestReward[]) => void): void {
     const scene = this.sprite.scene;
     
     // Launch reward scene
     scene.scene.launch('ChestRewardScene', {
       rewards: rewards,
-      onComplete: onComplete
+      onComplete: () => onComplete(rewards)
     });
     
     // Pause the game scene
@@ -6,6 +6,12 @@ import { ENEMY_TYPES } from '../config/enemyTypes';
 import { NoiseGenerator } from '../utils/NoiseGenerator';
 import { EnemyVariationConfig as VariationConfig } from '../config/enemyVariations';
 
+// Speed kept on each bounce off a wall or another enemy
+const BOUNCE_DAMPING = 0.85;
+const KITE_TOLERANCE = 30; // Dead zone around the preferred range so kiters don't jitter
+const KITE_RETREAT_SPEED = 0.7; // Backing off is slower than closing in - the player can catch them
+const FUSE_LENGTH = 12; // Unlit fuse, shrinks as it burns
+
 export class Enemy {
   public sprite: GameObjects.Sprite;
   public velocity: Vector2 = new Vector2();
@@ -20,7 +26,7 @@ export class Enemy {
   public get x(): number { return this.sprite.x; }
   public get y(): number { return this.sprite.y; }
   public get radius(): number { return this.hitboxRadius; }
-  public movementType: 'homing' | 'straight' | 'stationary' | 'patrol'; // Extended for zone-based encounters
+  public movementType: 'homing' | 'straight' | 'stationary' | 'patrol' | 'kiting'; // Extended for zone-based encounters
   public movementAngle: number; // For straight-line movement
   public spawnTime: number; // Track when spawned for despawning
   public isDying: boolean = false; // Track if enemy is playing death animation
@@ -28,12 +34,26 @@ export class Enemy {
   public knockbackVelocity: Vector2 = new Vector2();
   public knockbackDecay: number = 0.94; // Slower decay for longer flying distance
   public isKnockedBack: boolean = false; // Can this enemy hit other enemies?
+  public surfaceFriction: number = 1; // Set by ArenaSystem - below 1 slides further
+  public speedMultiplier: number = 1; // Set by AbilitySystem - time slows and freezes
+  public facingAngle: number = 0; // Radians - shielders turn slowly, everyone else snaps to the player
+  // Archetype state - set by EnemyArchetypeSystem
+  public attackCooldown: number = 0; // ms until the next shot or heal pulse
+  public buffMultiplier: number = 1; // Healer speed buff
+  public buffRemaining: number = 0; // ms left on the buff
+  public hasSplit: boolean = false;
+  public fuseRemaining: number = 0; // ms left on a lit fuse - set by WeaponSystem when an explosive is kicked
   private knockbackThreshold: number = 80; // Lower threshold for longer projectile state
+  // Physics upgrades - set by WeaponSystem when kicked, cleared when the flight ends
+  public bouncesRemaining: number = 0; // Bouncy Physics - extra wall/enemy bounces
+  public bounceCount: number = 0; // Impacts this flight - Chain Explosions go off on these
+  public stickyRadius: number = 0; // Sticky Combos - extra reach from enemies stuck to this one
   
   // Visual trail for knocked-back enemies
   private trailPoints: Array<{x: number, y: number, alpha: number}> = [];
   private lastTrailTime: number = 0;
   private trailGraphics?: GameObjects.Graphics;
+  private fuseGraphics?: GameObjects.Graphics; // Only created for enemies with a fuse
   
   private scene: Scene;
   
@@ -100,6 +120,9 @@ export class Enemy {
       this.movementType = 'straight';
       // Use provided angle for coordinated swarm movement, or random if not provided
       this.movementAngle = movementAngle !== undefined ? movementAngle : Math.random() * Math.PI * 2;
+    } else if (enemyType.preferredRange !== undefined) {
+      // Ranged and support enemies hold their distance
+      this.movementType = 'kiting';
     } else {
       this.movementType = 'homing';
     }
@@ -233,6 +256,24 @@ export class Enemy {
       case 'swarm':
         idleTexture = 'yellow-monk-idle';     // Yellow monk for swarm (agile)
         break;
+      case 'ranged':
+        idleTexture = 'red-archer-idle';      // Red archer for ranged
+        break;
+      case 'healer':
+        idleTexture = 'yellow-monk-idle';     // Monk again, tinted green for healer
+        break;
+      case 'shielder':
+        idleTexture = 'red-warrior-idle';     // Red warrior carries the shield
+        break;
+      case 'splitter':
+        idleTexture = 'zombie-male-idle';     // Bloated zombie for splitter
+        break;
+      case 'bomb_goblin':
+        idleTexture = 'yellow-monk-idle';     // Small monk, soot black, carrying the bomb
+        break;
+      case 'fuse_runner':
+        idleTexture = 'zombie-female-idle';   // Fast zombie, burning orange
+        break;
       default:
         idleTexture = 'zombie-male-idle';
     }
@@ -255,6 +296,18 @@ export class Enemy {
         return 0.25; // Red lancer: very large sprite, scale way down (320×320)
       case 'swarm':
         return 0.3;  // Yellow monk: medium sprite, scale down (192×192)
+      case 'ranged':
+        return 0.3;  // Red archer: 192×192
+      case 'healer':
+        return 0.32; // Yellow monk, a touch bigger than the swarm
+      case 'shielder':
+        return 0.38; // Red warrior: 192×192, nearly tank sized
+      case 'splitter':
+        return 0.95; // Male zombie, swollen
+      case 'bomb_goblin':
+        return 0.26; // Yellow monk, squat
+      case 'fuse_runner':
+        return 0.6;  // Female zombie, small
       default:
         return 0.8;
     }
@@ -349,6 +402,60 @@ export class Enemy {
           idleFrameRate: 4,
           walkFrameRate: 10
         };
+      case 'ranged':
+        return {
+          idleTexture: 'red-archer-idle',
+          walkTexture: 'red-archer-run',
+          idleFrames: 6,
+          walkFrames: 4,
+          idleFrameRate: 4,
+          walkFrameRate: 8
+        };
+      case 'healer':
+        return {
+          idleTexture: 'yellow-monk-idle',
+          walkTexture: 'yellow-monk-run',
+          idleFrames: 6,
+          walkFrames: 6,
+          idleFrameRate: 3,
+          walkFrameRate: 8
+        };
+      case 'shielder':
+        return {
+          idleTexture: 'red-warrior-idle',
+          walkTexture: 'red-warrior-run',
+          idleFrames: 8,
+          walkFrames: 6,
+          idleFrameRate: 3,
+          walkFrameRate: 6
+        };
+      case 'splitter':
+        return {
+          idleTexture: 'zombie-male-idle',
+          walkTexture: 'zombie-male-walk',
+          idleFrames: 15,
+          walkFrames: 10,
+          idleFrameRate: 4,
+          walkFrameRate: 6
+        };
+      case 'bomb_goblin':
+        return {
+          idleTexture: 'yellow-monk-idle',
+          walkTexture: 'yellow-monk-run',
+          idleFrames: 6,
+          walkFrames: 6,
+          idleFrameRate: 4,
+          walkFrameRate: 8
+        };
+      case 'fuse_runner':
+        return {
+          idleTexture: 'zombie-female-idle',
+          walkTexture: 'zombie-female-walk',
+          idleFrames: 15,
+          walkFrames: 10,
+          idleFrameRate: 6,
+          walkFrameRate: 12
+        };
       default:
         return {
           idleTexture: 'zombie-male-idle',
@@ -384,6 +491,30 @@ export class Enemy {
         // Swarm monks: light yellow for visibility
         this.sprite.setTint(0xffffdd);
         break;
+      case 'ranged':
+        // Archers: green so they stand out from the red melee crowd
+        this.sprite.setTint(0xaaffcc);
+        break;
+      case 'healer':
+        // Healer monks: strong green, reads as support
+        this.sprite.setTint(0x88ff88);
+        break;
+      case 'shielder':
+        // Shield warriors: steel blue
+        this.sprite.setTint(0xaabbff);
+        break;
+      case 'splitter':
+        // Splitters: magenta, swollen with swarm
+        this.sprite.setTint(0xff88ff);
+        break;
+      case 'bomb_goblin':
+        // Bomb goblins: sooty grey
+        this.sprite.setTint(0x777777);
+        break;
+      case 'fuse_runner':
+        // Fuse runners: burning orange
+        this.sprite.setTint(0xffaa66);
+        break;
       default:
         // No tint for default
         this.sprite.clearTint();
@@ -407,6 +538,86 @@ export class Enemy {
     this.isKnockedBack = knockbackMagnitude > this.knockbackThreshold;
   }
   
+  // Hit a wall or another enemy mid-flight - normal points away from the surface
+  registerImpact(normalX: number, normalY: number): boolean {
+    this.bounceCount++;
+    if (this.bouncesRemaining <= 0) return false;
+    
+    this.bouncesRemaining--;
+    
+    // Reflect off the surface if we're flying into it
+    const dot = this.knockbackVelocity.x * normalX + this.knockbackVelocity.y * normalY;
+    if (dot < 0) {
+      this.knockbackVelocity.x = (this.knockbackVelocity.x - 2 * dot * normalX) * BOUNCE_DAMPING;
+      this.knockbackVelocity.y = (this.knockbackVelocity.y - 2 * dot * normalY) * BOUNCE_DAMPING;
+    }
+    return true;
+  }
+  
+  private bounceOffWorldBounds(): void {
+    // Same bounds the player is kept inside
+    const margin = 100;
+    const worldWidth = this.scene.scale.width * 8;
+    const worldHeight = this.scene.scale.height * 8;
+    
+    if (this.sprite.x < margin) {
+      this.sprite.x = margin;
+      this.registerImpact(1, 0);
+    } else if (this.sprite.x > worldWidth - margin) {
+      this.sprite.x = worldWidth - margin;
+      this.registerImpact(-1, 0);
+    }
+    
+    if (this.sprite.y < margin) {
+      this.sprite.y = margin;
+      this.registerImpact(0, 1);
+    } else if (this.sprite.y > worldHeight - margin) {
+      this.sprite.y = worldHeight - margin;
+      this.registerImpact(0, -1);
+    }
+  }
+  
+  private endFlight(): void {
+    this.isKnockedBack = false; // No longer a projectile
+    this.trailPoints = []; // Clear trail
+    this.bouncesRemaining = 0;
+    this.bounceCount = 0;
+    this.stickyRadius = 0;
+  }
+  
+  private renderFuse(): void {
+    const fuse = this.enemyType.fuse;
+    if (!fuse || this.isDying) {
+      this.fuseGraphics?.setVisible(false);
+      return;
+    }
+    
+    if (!this.fuseGraphics) {
+      this.fuseGraphics = this.scene.add.graphics();
+      this.fuseGraphics.setDepth(9); // Just over the enemy
+    }
+    
+    const g = this.fuseGraphics;
+    g.clear();
+    g.setVisible(true);
+    
+    // Fuse sticks out of the top and burns down once lit
+    const isLit = this.fuseRemaining > 0;
+    const burnLeft = isLit ? Math.min(1, this.fuseRemaining / fuse.fuseTime) : 1;
+    const baseY = this.sprite.y - this.hitboxRadius;
+    const tipY = baseY - FUSE_LENGTH * burnLeft;
+    g.lineStyle(2, 0x8b6b3d, 1);
+    g.lineBetween(this.sprite.x, baseY, this.sprite.x, tipY);
+    
+    if (isLit) {
+      // Spark flickers faster the closer it gets
+      const flickerInterval = 40 + 120 * burnLeft;
+      const bright = Math.floor(Date.now() / flickerInterval) % 2 === 0;
+      g.fillStyle(bright ? 0xffff66 : 0xff4400, 1);
+      g.fillCircle(this.sprite.x, tipY, bright ? 4 : 3);
+    }
+  }
+  
   private renderTrail(): void {
     if (!this.trailGraphics) return;
     
@@ -415,12 +626,13 @@ export class Enemy {
     if (this.trailPoints.length > 1) {
       this.trailGraphics.setVisible(true);
       
-      // Draw trail as connected circles with fading alpha
+      // Draw trail as connected circles with fading alpha - cyan while bounces are left
+      const trailColor = this.bouncesRemaining > 0 ? 0x66FFFF : 0xFF6600;
       for (let i = 0; i < this.trailPoints.length; i++) {
         const point = this.trailPoints[i];
         const size = 3 + (i / this.trailPoints.length) * 2; // Growing size
         
-        this.trailGraphics.fillStyle(0xFF6600, point.alpha); // Orange trail
+        this.trailGraphics.fillStyle(trailColor, point.alpha);
         this.trailGraphics.fillCircle(point.x, point.y, size);
       }
     } else {
@@ -437,6 +649,11 @@ export class Enemy {
       this.sprite.x += this.knockbackVelocity.x * deltaTime / 1000;
       this.sprite.y += this.knockbackVelocity.y * deltaTime / 1000;
       
+      // Bouncy enemies ricochet off the world edges, armed explosives go off on them
+      if (this.bouncesRemaining > 0 || this.fuseRemaining > 0) {
+        this.bounceOffWorldBounds();
+      }
+      
       // Create trail effect for knocked-back enemies
       if (this.isKnockedBack && Date.now() - this.lastTrailTime > 50) { // Every 50ms
         this.trailPoints.push({
@@ -452,23 +669,22 @@ export class Enemy {
         }
       }
       
-      // Decay knockback over time
-      this.knockbackVelocity.x *= this.knockbackDecay;
-      this.knockbackVelocity.y *= this.knockbackDecay;
+      // Decay knockback over time (ice keeps it sliding, sand digs it in)
+      const decay = Math.pow(this.knockbackDecay, this.surfaceFriction);
+      this.knockbackVelocity.x *= decay;
+      this.knockbackVelocity.y *= decay;
       
       // Stop knockback when it's negligible
       if (Math.abs(this.knockbackVelocity.x) < 1 && Math.abs(this.knockbackVelocity.y) < 1) {
         this.knockbackVelocity.set(0, 0);
-        this.isKnockedBack = false; // No longer a projectile
-        this.trailPoints = []; // Clear trail
+        this.endFlight();
       }
       
       // Check if still fast enough to be a projectile
       const currentMagnitude = Math.sqrt(this.knockbackVelocity.x * this.knockbackVelocity.x + 
                                         this.knockbackVelocity.y * this.knockbackVelocity.y);
       if (currentMagnitude < this.knockbackThreshold) {
-        this.isKnockedBack = false;
-        this.trailPoints = []; // Clear trail
+        this.endFlight();
       }
     }
     
@@ -480,6 +696,7 @@ export class Enemy {
     
     // Render trail
     this.renderTrail();
+    this.renderFuse();
     
     // Skip normal AI movement if dying (but knockback still works!)
     if (this.isDying) return;
@@ -490,14 +707,26 @@ export class Enemy {
       return;
     }
     
+    // Healer buff wears off
+    if (this.buffRemaining > 0) {
+      this.buffRemaining -= deltaTime;
+      if (this.buffRemaining <= 0) {
+        this.buffRemaining = 0;
+        this.buffMultiplier = 1;
+      }
+    }
+    
+    this.updateFacing(deltaTime, playerPos);
+    
+    const speed = this.speed * this.speedMultiplier * this.buffMultiplier;
     let moveX = 0;
     let moveY = 0;
     
     switch (this.movementType) {
       case 'straight':
         // VS-style straight-line movement for swarm enemies
-        moveX = Math.cos(this.movementAngle) * this.speed * deltaTime / 1000;
-        moveY = Math.sin(this.movementAngle) * this.speed * deltaTime / 1000;
+        moveX = Math.cos(this.movementAngle) * speed * deltaTime / 1000;
+        moveY = Math.sin(this.movementAngle) * speed * deltaTime / 1000;
         
         this.velocity.x = moveX * 1000 / deltaTime;
         this.velocity.y = moveY * 1000 / deltaTime;
@@ -518,8 +747,8 @@ export class Enemy {
         
         if (distance > stopDistance) {
           // Normalize and apply speed toward player
-          moveX = (dx / distance) * this.speed * deltaTime / 1000;
-          moveY = (dy / distance) * this.speed * deltaTime / 1000;
+          moveX = (dx / distance) * speed * deltaTime / 1000;
+          moveY = (dy / distance) * speed * deltaTime / 1000;
           
           this.velocity.x = moveX * 1000 / deltaTime;
           this.velocity.y = moveY * 1000 / deltaTime;
@@ -534,6 +763,31 @@ export class Enemy {
         }
         break;
         
+      case 'kiting': {
+        // Ranged and support enemies close in or back off to their preferred range
+        const kiteDx = playerPos.x - this.sprite.x;
+        const kiteDy = playerPos.y - this.sprite.y;
+        const kiteDistance = Math.sqrt(kiteDx * kiteDx + kiteDy * kiteDy);
+        const preferredRange = this.enemyType.preferredRange ?? 0;
+        
+        let step = 0;
+        if (kiteDistance > preferredRange + KITE_TOLERANCE) {
+          step = speed;
+        } else if (kiteDistance < preferredRange - KITE_TOLERANCE) {
+          step = -speed * KITE_RETREAT_SPEED;
+        }
+        
+        if (step !== 0 && kiteDistance > 0) {
+          moveX = (kiteDx / kiteDistance) * step * deltaTime / 1000;
+          moveY = (kiteDy / kiteDistance) * step * deltaTime / 1000;
+          this.sprite.x += moveX;
+          this.sprite.y += moveY;
+        }
+        this.velocity.x = moveX * 1000 / deltaTime;
+        this.velocity.y = moveY * 1000 / deltaTime;
+        break;
+      }
+        
       case 'stationary':
         // Stationary enemies don't move (unless knocked back)
         this.velocity.x = 0;
@@ -550,6 +804,30 @@ export class Enemy {
     this.updateEnemyAnimation(moveX, moveY);
   }
   
+  private updateFacing(deltaTime: number, playerPos: Vector2): void {
+    const target = Math.atan2(playerPos.y - this.sprite.y, playerPos.x - this.sprite.x);
+    const shield = this.enemyType.frontShield;
+    if (!shield) {
+      this.facingAngle = target;
+      return;
+    }
+    
+    // Shielders turn slowly so the player can get around them
+    const diff = Math.atan2(Math.sin(target - this.facingAngle), Math.cos(target - this.facingAngle));
+    const maxTurn = shield.turnRate * deltaTime / 1000;
+    this.facingAngle += Math.max(-maxTurn, Math.min(maxTurn, diff));
+  }
+  
+  // Is a kick from this point landing on the shield?
+  isShielding(fromX: number, fromY: number): boolean {
+    const shield = this.enemyType.frontShield;
+    if (!shield || this.isDying) return false;
+    
+    const toSource = Math.atan2(fromY - this.sprite.y, fromX - this.sprite.x);
+    const diff = Math.atan2(Math.sin(toSource - this.facingAngle), Math.cos(toSource - this.facingAngle));
+    return Math.abs(diff) <= shield.arc / 2;
+  }
+  
   private updateEnemyAnimation(moveX: number, moveY: number): void {
     // Update facing direction
     if (moveX > 0) {
@@ -654,6 +932,19 @@ export class Enemy {
     // Reset knockback and trail
     this.knockbackVelocity.set(0, 0);
     this.isKnockedBack = false;
+    this.bouncesRemaining = 0;
+    this.bounceCount = 0;
+    this.stickyRadius = 0;
+    this.surfaceFriction = 1;
+    this.speedMultiplier = 1;
+    this.facingAngle = 0;
+    this.attackCooldown = 0;
+    this.buffMultiplier = 1;
+    this.buffRemaining = 0;
+    this.hasSplit = false;
+    this.fuseRemaining = 0;
+    this.fuseGraphics?.clear();
+    this.fuseGraphics?.setVisible(false);
     this.trailPoints = [];
     if (this.trailGraphics) {
       this.trailGraphics.clear();
@@ -1,6 +1,7 @@
 import { GameObjects, Scene } from 'phaser';
 import { Vector2 } from '../utils/Vector2';
 import { GameConfig } from '../config/game';
+import { GameEventBus } from '../systems/GameEventBus';
 
 export enum ObjectType {
   BARREL = 'barrel',
@@ -41,6 +42,7 @@ export class KickableObject {
   public weight: number;
   public bounceDecay: number;
   public rotationSpeed: number = 0;
+  public surfaceFriction: number = 1; // Set by ArenaSystem - below 1 slides further
   
   // Visual effects
   private trailPoints: Array<{x: number, y: number, alpha: number}> = [];
@@ -96,7 +98,7 @@ export class KickableObject {
     }
   };
 
-  constructor(scene: Scene, x: number, y: number, objectType: ObjectType) {
+  constructor(scene: Scene, x: number, y: number, objectType: ObjectType, private events?: GameEventBus) {
     this.config = KickableObject.OBJECT_CONFIGS[objectType];
     
     // Create proper object graphics instead of confusing enemy sprites
@@ -347,6 +349,7 @@ export class KickableObject {
     this.sprite.setActive(false);
     
     console.log(`${this.config.type} broken with ${this.config.breakEffect} effect!`);
+    this.events?.emit('objectBroken', { object: this, x: this.sprite.x, y: this.sprite.y });
   }
 
   private playBreakEffect(): void {
@@ -510,9 +513,10 @@ export class KickableObject {
         }
       }
       
-      // Apply bounce decay
-      this.velocity.x *= this.bounceDecay;
-      this.velocity.y *= this.bounceDecay;
+      // Apply bounce decay (ice keeps it sliding, sand digs it in)
+      const decay = Math.pow(this.bounceDecay, this.surfaceFriction);
+      this.velocity.x *= decay;
+      this.velocity.y *= decay;
       
       // Stop flying when velocity is too low
       const speed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.y * this.velocity.y);
@@ -585,6 +589,7 @@ export class KickableObject {
     this.isBroken = false;
     this.breakEffectPlayed = false;
     this.rotationSpeed = 0;
+    this.surfaceFriction = 1;
     this.sprite.rotation = 0;
     this.health = this.maxHealth;
     this.trailPoints = [];
@@ -2,7 +2,9 @@ import { GameObjects, Scene } from 'phaser';
 import { GameConfig } from '../config/game';
 import { Vector2 } from '../utils/Vector2';
 import { VirtualJoystick } from '../mobile/VirtualJoystick';
-import { CharacterManager, Character } from './Character';
+import { CharacterManager, Character, CharacterAbility } from './Character';
+import { KickStatPipeline, KickStats, REFERENCE_KICK_STATS } from '../systems/KickStatPipeline';
+import { RunContext } from '../managers/RunContext';
 
 export class Player {
   public sprite: GameObjects.Sprite;
@@ -15,11 +17,23 @@ export class Player {
   public experienceToNext: number;
   // Character system
   public currentCharacter: Character;
+  // Ground under the player - set by ArenaSystem (1 = normal ground)
+  public surfaceFriction: number = 1;
+  public surfaceSpeedMultiplier: number = 1;
+  // Active character ability buffs - set by AbilitySystem
+  public kickForceMultiplier: number = 1;
+  public kickRangeMultiplier: number = 1;
+  public speedBonus: number = 0; // Flat px/s on top of base speed
+  public isInvincible: boolean = false;
   
   private keys: any;
   private lastDamageTime: number = 0;
   private damageFlashDuration: number = 100; // Brief visual feedback only
   
+  // Freeze slows from boss attacks
+  private slowMultiplier: number = 1;
+  private slowRemaining: number = 0; // ms, counted down in update so menus don't eat it
+  
   // Mobile controls
   private virtualJoystick?: VirtualJoystick;
   private isMobile: boolean;
@@ -34,10 +48,9 @@ export class Player {
   private isAttacking: boolean = false;
   private attackAnimationDuration: number = 300; // ms
 
-  constructor(scene: Scene, x: number, y: number) {
-    // Get current character from CharacterManager
-    const characterManager = CharacterManager.getInstance();
-    this.currentCharacter = characterManager.getCurrentCharacter();
+  constructor(scene: Scene, x: number, y: number, private context: RunContext) {
+    // The run's character - picked in CharacterSelectScene
+    this.currentCharacter = context.character;
     
     // Create player sprite based on current character
     this.sprite = scene.add.sprite(x, y, this.currentCharacter.config.spriteKey, 0);
@@ -94,41 +107,76 @@ export class Player {
       this.sprite.clearAlpha();
       this.sprite.setAlpha(1);
     }
+    
+    this.updateSlow(deltaTime);
+  }
+  
+  // Strongest active slow wins - getting hit again extends it
+  applySlow(multiplier: number, duration: number): void {
+    this.slowMultiplier = this.isSlowed() ? Math.min(this.slowMultiplier, multiplier) : multiplier;
+    this.slowRemaining = Math.max(this.slowRemaining, duration);
+    this.sprite.setTint(0x88ccff); // Frosty blue
+  }
+  
+  isSlowed(): boolean {
+    return this.slowRemaining > 0;
+  }
+
+  private updateSlow(deltaTime: number): void {
+    if (this.slowRemaining <= 0) return;
+    
+    // Thaw out once the slow wears off
+    this.slowRemaining = Math.max(0, this.slowRemaining - deltaTime);
+    if (this.slowRemaining === 0) {
+      this.slowMultiplier = 1;
+      this.sprite.clearTint();
+    }
   }
 
   private handleMovement(): void {
     // Apply speed upgrade multiplier
-    const upgradeManager = (window as any).upgradeManager;
-    const speedMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('moveSpeed') * 0.1)) : 1;
+    const speedMultiplier = 1 + (this.context.getUpgradeLevel('moveSpeed') * 0.1);
     
-    const speed = GameConfig.player.speed * speedMultiplier;
-    this.velocity.set(0, 0);
+    const slow = this.isSlowed() ? this.slowMultiplier : 1;
+    const speed = (GameConfig.player.speed + this.currentCharacter.getPassiveSpeedBonus() + this.speedBonus) * speedMultiplier * this.surfaceSpeedMultiplier * slow;
+    const target = new Vector2();
     
     // Check joystick first (if available)
     if (this.virtualJoystick && this.virtualJoystick.isActive()) {
       // Use joystick movement
       const joystickVelocity = this.virtualJoystick.getVelocity(speed);
-      this.velocity.x = joystickVelocity.x;
-      this.velocity.y = joystickVelocity.y;
+      target.x = joystickVelocity.x;
+      target.y = joystickVelocity.y;
     } else if (this.keys) {
       // Use keyboard movement (WASD + Arrow keys work on all platforms)
-      if (this.keys.A.isDown || this.keys.LEFT.isDown) this.velocity.x = -speed;
-      if (this.keys.D.isDown || this.keys.RIGHT.isDown) this.velocity.x = speed;
-      if (this.keys.W.isDown || this.keys.UP.isDown) this.velocity.y = -speed;
-      if (this.keys.S.isDown || this.keys.DOWN.isDown) this.velocity.y = speed;
+      if (this.keys.A.isDown || this.keys.LEFT.isDown) target.x = -speed;
+      if (this.keys.D.isDown || this.keys.RIGHT.isDown) target.x = speed;
+      if (this.keys.W.isDown || this.keys.UP.isDown) target.y = -speed;
+      if (this.keys.S.isDown || this.keys.DOWN.isDown) target.y = speed;
       
       // Normalize diagonal movement
-      if (this.velocity.x !== 0 && this.velocity.y !== 0) {
-        this.velocity.multiply(0.707); // 1/sqrt(2)
+      if (target.x !== 0 && target.y !== 0) {
+        target.multiply(0.707); // 1/sqrt(2)
       }
     }
+    
+    if (this.surfaceFriction >= 1) {
+      this.velocity.copy(target);
+      return;
+    }
+    
+    // Slippery ground - ease toward the input instead of snapping to it
+    this.velocity.x += (target.x - this.velocity.x) * this.surfaceFriction;
+    this.velocity.y += (target.y - this.velocity.y) * this.surfaceFriction;
+    if (Math.abs(this.velocity.x) < 1) this.velocity.x = 0;
+    if (Math.abs(this.velocity.y) < 1) this.velocity.y = 0;
   }
 
   takeDamage(amount: number): void {
+    if (this.isInvincible) return;
+    
     // Apply percentage-based armor reduction (fixed from game-breaking flat reduction)
-    const upgradeManager = (window as any).upgradeManager;
-    const armorLevel = upgradeManager ? upgradeManager.getUpgradeLevel('armor') : 0;
+    const armorLevel = this.context.getUpgradeLevel('armor');
     
     // Percentage-based damage reduction with 60% cap and minimum 1 damage
     const damageReduction = Math.min(armorLevel * 0.15, 0.6); // 15% per level, max 60%
@@ -185,6 +233,7 @@ export class Player {
       this.experience -= this.experienceToNext;
       this.level++;
       this.experienceToNext = this.calculateXPRequired(this.level);
+      this.context.events.emit('levelUp', { level: this.level });
       return true; // Level up!
     }
     
@@ -355,27 +404,32 @@ export class Player {
   }
   
   // Character ability methods
+  // Base stats, passive, upgrades and active buffs as multipliers
+  getKickStats(): KickStats {
+    return KickStatPipeline.getCurrentStats(this.currentCharacter, this, this.context.upgrades);
+  }
+
   getKickForce(): number {
-    return this.currentCharacter.getKickForce();
+    return REFERENCE_KICK_STATS.force * this.getKickStats().force;
   }
 
   getKickSpeed(): number {
-    return this.currentCharacter.getKickSpeed();
+    return REFERENCE_KICK_STATS.speed * this.getKickStats().speed;
   }
 
   getKickRange(): number {
-    return this.currentCharacter.getKickRange();
+    return REFERENCE_KICK_STATS.range * this.getKickStats().range;
   }
 
   canUseCharacterAbility(abilityId: string): boolean {
     return this.currentCharacter.canUseAbility(abilityId);
   }
 
-  useCharacterAbility(abilityId: string): any {
+  useCharacterAbility(abilityId: string): CharacterAbility | null {
     return this.currentCharacter.useAbility(abilityId);
   }
 
-  getCharacterAbilities(): any[] {
+  getCharacterAbilities(): CharacterAbility[] {
     return this.currentCharacter.config.specialAbilities;
   }
 
@@ -0,0 +1,54 @@
+// Declarative character unlock conditions - evaluated against persisted progress
+export type UnlockCondition =
+  | { type: 'boss_defeated'; bossType: string }
+  | { type: 'zone_cleared'; zoneId: string; maxTime?: number } // ms, fastest clear must come in under it
+  | { type: 'combo_reached'; combo: number }
+  | { type: 'total_kills'; kills: number }
+  | { type: 'critical_kills'; kills: number };
+
+// Everything conditions can look at - built from the save by SaveManager
+export interface UnlockProgress {
+  bossesDefeated: string[];
+  bestClearTimes: Record<string, number>; // zone id -> fastest clear, ms
+  bestCombo: number;
+  totalKills: number;
+  criticalKills: number;
+}
+
+export function createEmptyUnlockProgress(): UnlockProgress {
+  return {
+    bossesDefeated: [],
+    bestClearTimes: {},
+    bestCombo: 0,
+    totalKills: 0,
+    criticalKills: 0
+  };
+}
+
+export function isUnlockConditionMet(condition: UnlockCondition, progress: UnlockProgress): boolean {
+  switch (condition.type) {
+    case 'boss_defeated':
+      return progress.bossesDefeated.includes(condition.bossType);
+
+    case 'zone_cleared': {
+      const clearTime = progress.bestClearTimes[condition.zoneId];
+      if (clearTime === undefined) return false;
+      return condition.maxTime === undefined || clearTime < condition.maxTime;
+    }
+
+    case 'combo_reached':
+      return progress.bestCombo >= condition.combo;
+
+    case 'total_kills':
+      return progress.totalKills >= condition.kills;
+
+    case 'critical_kills':
+      return progress.criticalKills >= condition.kills;
+  }
+}
+
+// Every condition has to hold - an empty list never unlocks (default characters start unlocked)
+export function areUnlockConditionsMet(conditions: UnlockCondition[] | undefined, progress: UnlockProgress): boolean {
+  if (!conditions || conditions.length === 0) return false;
+  return conditions.every(condition => isUnlockConditionMet(condition, progress));
+}
@@ -1,4 +1,5 @@
 import { IWeaponBehavior } from '../weapons/IWeaponBehavior';
+import { UpgradeLevels } from '../managers/UpgradeManager';
 
 export interface WeaponConfig {
   damage: number;
@@ -24,7 +25,7 @@ export class Weapon {
     this.behavior = config.behavior;
   }
   
-  canFire(currentTime: number): boolean {
+  canFire(currentTime: number, upgrades?: UpgradeLevels): boolean {
     // Validate inputs
     if (isNaN(currentTime) || !isFinite(currentTime)) {
       console.error('Invalid currentTime in canFire:', currentTime);
@@ -32,9 +33,8 @@ export class Weapon {
     }
     
     // Apply fire rate multiplier from upgrades
-    const upgradeManager = (window as any).upgradeManager;
-    const fireRateMultiplier = upgradeManager && upgradeManager.getUpgradeLevel ? 
-      (1 + (upgradeManager.getUpgradeLevel('fireRate') * 0.15)) : 1;
+    const fireRateMultiplier = upgrades ? 
+      (1 + (upgrades.getUpgradeLevel('fireRate') * 0.15)) : 1;
     
     const actualFireRate = this.fireRate * fireRateMultiplier;
     
@@ -52,15 +52,14 @@ export class Weapon {
     this.lastFireTime = currentTime;
   }
   
-  getDamage(): number {
+  getDamage(upgrades?: UpgradeLevels): number {
     // Apply damage multiplier from upgrades
-    const upgradeManager = (window as any).upgradeManager;
-    const damageMultiplier = upgradeManager && upgradeManager.getUpgradeLevel ? 
-      (1 + (upgradeManager.getUpgradeLevel('damage') * 0.10)) : 1;
+    const damageMultiplier = upgrades ? 
+      (1 + (upgrades.getUpgradeLevel('damage') * 0.10)) : 1;
     
     // Apply projectile count penalty (prevents multi-shot from being overpowered)
-    const projectileCount = upgradeManager && upgradeManager.getUpgradeLevel ? 
-      upgradeManager.getUpgradeLevel('projectileCount') : 0;
+    const projectileCount = upgrades ? 
+      upgrades.getUpgradeLevel('projectileCount') : 0;
     const projectilePenalty = projectileCount > 0 ? Math.pow(0.8, projectileCount) : 1; // 20% reduction per additional projectile
     
     return this.damage * damageMultiplier * projectilePenalty;
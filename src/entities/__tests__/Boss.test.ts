@@ -2,6 +2,8 @@ import { Boss, BossAttack, MovementPattern } from '../Boss';
 import { Vector2 } from '../../utils/Vector2';
 import { BossConfig } from '../../systems/EncounterSystem';
 import { ENEMY_TYPES } from '../../config/enemyTypes';
+import { BOSS_ATTACKS } from '../../config/bossAttacks';
+import { BossAbility, BossAbilityRegistry } from '../../enemies/BossAbilityRegistry';
 
 // Mock Phaser Scene and dependencies
 const mockScene = {
@@ -28,11 +30,25 @@ const mockScene = {
     sprite: jest.fn(() => ({
       setScale: jest.fn(),
       setTint: jest.fn(),
+      clearTint: jest.fn(),
+      setVisible: jest.fn(),
+      setActive: jest.fn(),
+      setAlpha: jest.fn(),
+      setDepth: jest.fn(),
+      setFlipX: jest.fn(),
+      setPosition: jest.fn(),
+      setTexture: jest.fn(),
+      play: jest.fn(),
+      anims: { currentAnim: null },
       x: 100,
       y: 100,
+      depth: 0,
       active: true
     }))
   },
+  anims: {
+    exists: jest.fn(() => true)
+  },
   cameras: {
     main: {
       worldView: {
@@ -96,7 +112,7 @@ describe('Boss', () => {
     });
 
     it('should create boss UI elements', () => {
-      expect(mockScene.add.graphics).toHaveBeenCalledTimes(3); // healthBarBg, healthBarFill, phaseTransitionEffect, attackWarning
+      expect(mockScene.add.graphics).toHaveBeenCalledTimes(4); // Enemy trail, healthBarBg, healthBarFill, phaseTransitionEffect
       expect(mockScene.add.text).toHaveBeenCalledWith(
         0, 0, 'Test Boss',
         expect.objectContaining({
@@ -153,7 +169,6 @@ describe('Boss', () => {
 
     it('should modify boss properties during phase transitions', () => {
       const originalSpeed = boss.speed;
-      const originalCooldown = boss.attackCooldown;
       
       // Test berserker phase transition
       boss.currentPhase = 1;
@@ -166,7 +181,7 @@ describe('Boss', () => {
       boss.currentPhase = 1;
       boss['enterNextPhase']();
       
-      expect(boss.attackCooldown).toBe(originalCooldown * 0.5);
+      expect(boss.cooldownMultiplier).toBe(0.5);
     });
   });
 
@@ -256,7 +271,7 @@ describe('Boss', () => {
     it('should execute attacks when cooldown is ready', () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
       
-      boss['updateBossAttacks'](16, playerPos);
+      boss['updateBossAttacks'](playerPos);
       
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining('Boss executing attack:')
@@ -269,7 +284,7 @@ describe('Boss', () => {
       boss.lastAttackTime = Date.now(); // Just attacked
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
       
-      boss['updateBossAttacks'](16, playerPos);
+      boss['updateBossAttacks'](playerPos);
       
       expect(consoleSpy).not.toHaveBeenCalledWith(
         expect.stringContaining('Boss executing attack:')
@@ -283,10 +298,10 @@ describe('Boss', () => {
       boss.lastAttackTime = 0;
       
       const executeAttackSpy = jest.spyOn(boss as any, 'executeAttack');
-      boss['updateBossAttacks'](16, playerPos);
+      boss['updateBossAttacks'](playerPos);
       
-      const calledAttack = executeAttackSpy.mock.calls[0][0];
-      expect(['summon-swarm', 'charge-attack']).toContain(calledAttack);
+      const calledAttack = (executeAttackSpy.mock.calls[0][0] as BossAbility).config.id;
+      expect([BossAttack.SUMMON_SWARM, BossAttack.CHARGE_ATTACK]).toContain(calledAttack);
     });
   });
 
@@ -298,37 +313,73 @@ describe('Boss', () => {
       playerPos = new Vector2(300, 300);
     });
 
+    const useAbility = (name: string) => {
+      const ability = BossAbilityRegistry.getInstance().getAbility(name)!;
+      ability.execute(boss, playerPos, ability.config);
+    };
+
     it('should execute summon swarm attack', () => {
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const onSpawnHazard = jest.fn();
+      boss.onSpawnHazard = onSpawnHazard;
       
-      boss['executeSummonSwarm']();
+      useAbility(BossAttack.SUMMON_SWARM);
       
-      expect(consoleSpy).toHaveBeenCalledWith('Boss summons swarm enemies!');
-      consoleSpy.mockRestore();
+      expect(onSpawnHazard).toHaveBeenCalledTimes(4);
     });
 
-    it('should execute charge attack with warning', () => {
-      boss['executeChargeAttack'](playerPos);
+    it('should execute charge attack with a lane hazard', () => {
+      const onSpawnHazard = jest.fn();
+      boss.onSpawnHazard = onSpawnHazard;
+      
+      useAbility(BossAttack.CHARGE_ATTACK);
       
       expect(boss.chargeTarget).toEqual(playerPos);
       expect(boss.isCharging).toBe(true);
       expect(mockScene.time.delayedCall).toHaveBeenCalled();
+      expect(onSpawnHazard.mock.calls[0][0].shape.kind).toBe('line');
     });
 
-    it('should execute bomb barrage with multiple bombs', () => {
-      boss['executeBombBarrage'](playerPos);
+    it('should execute bomb barrage with staggered bombs', () => {
+      const onSpawnHazard = jest.fn();
+      boss.onSpawnHazard = onSpawnHazard;
+      
+      useAbility(BossAttack.BOMB_BARRAGE);
       
-      expect(mockScene.time.delayedCall).toHaveBeenCalledTimes(5); // 5 bombs
+      expect(onSpawnHazard).toHaveBeenCalledTimes(5); // 5 bombs
+      const telegraphs = onSpawnHazard.mock.calls.map(call => call[0].telegraphTime);
+      expect(telegraphs[4] - telegraphs[0]).toBe(1200);
     });
 
-    it('should execute mega bomb with warning', () => {
-      boss['executeMegaBomb'](playerPos);
+    it('should execute mega bomb at the player', () => {
+      const onSpawnHazard = jest.fn();
+      boss.onSpawnHazard = onSpawnHazard;
       
-      expect(mockScene.time.delayedCall).toHaveBeenCalled();
+      useAbility(BossAttack.MEGA_BOMB);
+      
+      expect(onSpawnHazard).toHaveBeenCalledWith(expect.objectContaining({
+        shape: { kind: 'circle', x: 300, y: 300, radius: BOSS_ATTACKS[BossAttack.MEGA_BOMB].size },
+        damage: BOSS_ATTACKS[BossAttack.MEGA_BOMB].damage
+      }));
+    });
+
+    it('should use phase damage overrides', () => {
+      boss.bossConfig.phases[0].attackDamage = { [BossAttack.MEGA_BOMB]: 99 };
+      
+      expect(boss.getAttackDamage(BossAttack.MEGA_BOMB)).toBe(99);
+      expect(boss.getAttackDamage(BossAttack.BOMB_BARRAGE)).toBe(BOSS_ATTACKS[BossAttack.BOMB_BARRAGE].damage);
+    });
+
+    it('should attach slows to freeze attacks', () => {
+      const onSpawnHazard = jest.fn();
+      boss.onSpawnHazard = onSpawnHazard;
+      
+      useAbility(BossAttack.FREEZE_WAVE);
+      
+      expect(onSpawnHazard.mock.calls[0][0].slow).toEqual(BOSS_ATTACKS[BossAttack.FREEZE_WAVE].slow);
     });
 
     it('should execute triple dash attack', () => {
-      boss['executeTripleDash'](playerPos);
+      useAbility(BossAttack.TRIPLE_DASH);
       
       expect(mockScene.time.delayedCall).toHaveBeenCalledTimes(3); // 3 dashes
     });
@@ -339,27 +390,6 @@ describe('Boss', () => {
       boss.spawn(500, 400, ENEMY_TYPES.elite);
     });
 
-    it('should show attack warnings', () => {
-      const mockWarning = {
-        setVisible: jest.fn(),
-        clear: jest.fn(),
-        lineStyle: jest.fn(),
-        lineBetween: jest.fn()
-      };
-      boss['attackWarning'] = mockWarning as any;
-      
-      boss['showAttackWarning'](100, 100, 200, 200);
-      
-      expect(mockWarning.setVisible).toHaveBeenCalledWith(true);
-      expect(mockWarning.lineBetween).toHaveBeenCalledWith(100, 100, 200, 200);
-    });
-
-    it('should show explosion warnings', () => {
-      boss['showExplosionWarning'](300, 300, 60);
-      
-      expect(mockScene.add.graphics).toHaveBeenCalled();
-    });
-
     it('should update boss UI with health bar', () => {
       boss.health = 500; // 50% health
       const mockHealthBar = {
@@ -438,7 +468,7 @@ describe('Boss', () => {
       boss.bossConfig.phases[0].abilities = [];
       boss.lastAttackTime = 0;
       
-      expect(() => boss['updateBossAttacks'](16, new Vector2(300, 300))).not.toThrow();
+      expect(() => boss['updateBossAttacks'](new Vector2(300, 300))).not.toThrow();
     });
 
     it('should handle invalid movement patterns gracefully', () => {
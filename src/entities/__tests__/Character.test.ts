@@ -335,6 +335,33 @@ describe('CharacterManager', () => {
       // Should stay on default character since bombardiro-crocodilo is not unlocked
       expect(manager.getCurrentCharacter().config.id).toBe('br-br-patapim');
     });
+
+    it('should drop unknown character ids when loading', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const saveData = JSON.stringify({
+        unlockedCharacters: ['br-br-patapim', 'removed-character', 'tralalero-tralala'],
+        currentCharacter: 'removed-character'
+      });
+
+      const result = manager.loadProgress(saveData);
+      expect(result).toBe(true);
+
+      expect(manager.isCharacterUnlocked('removed-character')).toBe(false);
+      expect(manager.isCharacterUnlocked('tralalero-tralala')).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith('Dropping unknown character id from save:', 'removed-character');
+      warnSpy.mockRestore();
+    });
+
+    it('should keep current progress when unlockedCharacters is missing', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = manager.loadProgress(JSON.stringify({ currentCharacter: 'br-br-patapim' }));
+      expect(result).toBe(false);
+
+      expect(manager.isCharacterUnlocked('br-br-patapim')).toBe(true);
+      expect(manager.isCharacterUnlocked('chimpanzini-bananini')).toBe(true);
+      errorSpy.mockRestore();
+    });
   });
 
   describe('console output verification', () => {
@@ -0,0 +1,56 @@
+import { Player } from '../Player';
+
+// Real Player slow logic without the sprite and input setup
+function createPlayer(): Player {
+  const player = Object.create(Player.prototype) as Player;
+  Object.assign(player, {
+    sprite: { setTint: jest.fn(), clearTint: jest.fn() },
+    slowMultiplier: 1,
+    slowRemaining: 0
+  });
+  return player;
+}
+
+describe('Player', () => {
+  describe('freeze slows', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hold the slow while no game time passes', () => {
+      const player = createPlayer();
+      jest.spyOn(Date, 'now').mockReturnValue(10000);
+
+      player.applySlow(0.5, 2000);
+      (Date.now as jest.Mock).mockReturnValue(60000); // Sat in the pause menu
+      player['updateSlow'](0);
+
+      expect(player.isSlowed()).toBe(true);
+      expect(player['slowMultiplier']).toBe(0.5);
+    });
+
+    it('should thaw out once the slow has run its course', () => {
+      const player = createPlayer();
+
+      player.applySlow(0.5, 2000);
+      player['updateSlow'](1999);
+      expect(player.isSlowed()).toBe(true);
+
+      player['updateSlow'](1);
+      expect(player.isSlowed()).toBe(false);
+      expect(player['slowMultiplier']).toBe(1);
+      expect(player.sprite.clearTint).toHaveBeenCalled();
+    });
+
+    it('should keep the strongest slow and the longest duration', () => {
+      const player = createPlayer();
+
+      player.applySlow(0.3, 1000);
+      player.applySlow(0.6, 3000);
+      player['updateSlow'](2000);
+
+      expect(player.isSlowed()).toBe(true);
+      expect(player['slowMultiplier']).toBe(0.3);
+    });
+  });
+});
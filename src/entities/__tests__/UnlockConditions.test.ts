@@ -0,0 +1,86 @@
+import {
+  UnlockProgress,
+  areUnlockConditionsMet,
+  createEmptyUnlockProgress,
+  isUnlockConditionMet
+} from '../UnlockConditions';
+import { CharacterManager, ITALIAN_BRAINROT_CHARACTERS } from '../Character';
+
+function createProgress(overrides: Partial<UnlockProgress> = {}): UnlockProgress {
+  return { ...createEmptyUnlockProgress(), ...overrides };
+}
+
+describe('UnlockConditions', () => {
+  describe('isUnlockConditionMet', () => {
+    it('should check defeated bosses', () => {
+      const condition = { type: 'boss_defeated' as const, bossType: 'ice-shark' };
+
+      expect(isUnlockConditionMet(condition, createProgress())).toBe(false);
+      expect(isUnlockConditionMet(condition, createProgress({ bossesDefeated: ['ice-shark'] }))).toBe(true);
+    });
+
+    it('should require a clear under the time limit', () => {
+      const condition = { type: 'zone_cleared' as const, zoneId: 'tutorial-grove', maxTime: 300000 };
+
+      expect(isUnlockConditionMet(condition, createProgress())).toBe(false);
+      expect(isUnlockConditionMet(condition, createProgress({ bestClearTimes: { 'tutorial-grove': 300000 } }))).toBe(false);
+      expect(isUnlockConditionMet(condition, createProgress({ bestClearTimes: { 'tutorial-grove': 299000 } }))).toBe(true);
+    });
+
+    it('should accept any clear when there is no time limit', () => {
+      const condition = { type: 'zone_cleared' as const, zoneId: 'desert-outpost' };
+
+      expect(isUnlockConditionMet(condition, createProgress({ bestClearTimes: { 'desert-outpost': 900000 } }))).toBe(true);
+    });
+
+    it('should compare combo and kill thresholds', () => {
+      const progress = createProgress({ bestCombo: 20, totalKills: 500, criticalKills: 99 });
+
+      expect(isUnlockConditionMet({ type: 'combo_reached', combo: 20 }, progress)).toBe(true);
+      expect(isUnlockConditionMet({ type: 'total_kills', kills: 501 }, progress)).toBe(false);
+      expect(isUnlockConditionMet({ type: 'critical_kills', kills: 100 }, progress)).toBe(false);
+    });
+  });
+
+  describe('areUnlockConditionsMet', () => {
+    it('should need every condition and never unlock from an empty list', () => {
+      const conditions = [
+        { type: 'boss_defeated' as const, bossType: 'swarm-king' },
+        { type: 'combo_reached' as const, combo: 10 }
+      ];
+
+      expect(areUnlockConditionsMet(conditions, createProgress({ bossesDefeated: ['swarm-king'] }))).toBe(false);
+      expect(areUnlockConditionsMet(conditions, createProgress({ bossesDefeated: ['swarm-king'], bestCombo: 10 }))).toBe(true);
+      expect(areUnlockConditionsMet([], createProgress())).toBe(false);
+      expect(areUnlockConditionsMet(undefined, createProgress())).toBe(false);
+    });
+  });
+
+  describe('CharacterManager.evaluateUnlocks', () => {
+    beforeEach(() => {
+      (CharacterManager as any).instance = undefined;
+      ITALIAN_BRAINROT_CHARACTERS.forEach(char => {
+        char.isUnlocked = char.id === 'br-br-patapim';
+      });
+      jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should unlock each character whose conditions hold, only once', () => {
+      const manager = CharacterManager.getInstance();
+      const progress = createProgress({ bossesDefeated: ['swarm-king', 'ice-shark'], criticalKills: 100 });
+
+      expect(manager.evaluateUnlocks(progress)).toEqual(['chimpanzini-bananini', 'tralalero-tralala', 'cappuccino-assassino']);
+      expect(manager.evaluateUnlocks(progress)).toEqual([]);
+    });
+
+    it('should give every locked character a condition', () => {
+      ITALIAN_BRAINROT_CHARACTERS.filter(config => !config.isUnlocked).forEach(config => {
+        expect(config.unlockConditions?.length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -35,9 +35,6 @@ describe('Weapon', () => {
       behavior: mockBehavior
     };
     weapon = new Weapon(weaponConfig);
-    
-    // Clear any global upgrade manager
-    (window as any).upgradeManager = undefined;
   });
 
   describe('constructor', () => {
@@ -72,18 +69,16 @@ describe('Weapon', () => {
       const mockUpgradeManager = {
         getUpgradeLevel: jest.fn().mockReturnValue(2) // +30% fire rate
       };
-      (window as any).upgradeManager = mockUpgradeManager;
 
       weapon.updateFireTime(0);
       // Base fire rate 2 * 1.3 = 2.6, interval = 384ms
-      expect(weapon.canFire(300)).toBe(false);
-      expect(weapon.canFire(385)).toBe(true);
+      expect(weapon.canFire(300, mockUpgradeManager)).toBe(false);
+      expect(weapon.canFire(385, mockUpgradeManager)).toBe(true);
     });
 
-    it('should handle missing upgrade manager gracefully', () => {
-      (window as any).upgradeManager = null;
+    it('should handle missing upgrades gracefully', () => {
       weapon.updateFireTime(0);
-      expect(weapon.canFire(500)).toBe(true);
+      expect(weapon.canFire(500, undefined)).toBe(true);
     });
   });
 
@@ -104,19 +99,12 @@ describe('Weapon', () => {
       const mockUpgradeManager = {
         getUpgradeLevel: jest.fn().mockReturnValue(3) // +45% damage
       };
-      (window as any).upgradeManager = mockUpgradeManager;
 
-      expect(weapon.getDamage()).toBe(14.5); // 10 * 1.45
+      expect(weapon.getDamage(mockUpgradeManager)).toBe(14.5); // 10 * 1.45
     });
 
-    it('should handle missing upgrade manager gracefully', () => {
-      (window as any).upgradeManager = null;
-      expect(weapon.getDamage()).toBe(10);
-    });
-
-    it('should handle upgrade manager without damage method', () => {
-      (window as any).upgradeManager = { someOtherMethod: () => {} };
-      expect(weapon.getDamage()).toBe(10);
+    it('should handle missing upgrades gracefully', () => {
+      expect(weapon.getDamage(undefined)).toBe(10);
     });
   });
 
@@ -154,14 +142,13 @@ describe('Weapon', () => {
           return 0;
         })
       };
-      (window as any).upgradeManager = mockUpgradeManager;
 
-      expect(weapon.getDamage()).toBe(16); // 10 * 1.6
+      expect(weapon.getDamage(mockUpgradeManager)).toBe(16); // 10 * 1.6
       
       weapon.updateFireTime(0);
       // Fire rate 2 * 1.3 = 2.6, interval = 384ms
-      expect(weapon.canFire(300)).toBe(false);
-      expect(weapon.canFire(400)).toBe(true);
+      expect(weapon.canFire(300, mockUpgradeManager)).toBe(false);
+      expect(weapon.canFire(400, mockUpgradeManager)).toBe(true);
     });
   });
 
@@ -180,16 +167,15 @@ describe('Weapon', () => {
       const mockUpgradeManager = {
         getUpgradeLevel: jest.fn().mockReturnValue(100) // +1500% multiplier
       };
-      (window as any).upgradeManager = mockUpgradeManager;
 
-      const damage = weapon.getDamage();
+      const damage = weapon.getDamage(mockUpgradeManager);
       expect(damage).toBeGreaterThan(0);
       expect(Number.isFinite(damage)).toBe(true);
       expect(damage).toBe(160); // 10 * (1 + 100 * 0.15)
       
       // Fire rate should also handle extreme values
       weapon.updateFireTime(0);
-      const canFireResult = weapon.canFire(100);
+      const canFireResult = weapon.canFire(100, mockUpgradeManager);
       expect(typeof canFireResult).toBe('boolean');
     });
 
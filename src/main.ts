@@ -4,6 +4,12 @@ import { GameScene } from './scenes/GameScene';
 import { UpgradeScene } from './scenes/UpgradeScene';
 import { PauseScene } from './scenes/PauseScene';
 import { ChestRewardScene } from './scenes/ChestRewardScene';
+import { ModeSelectScene } from './scenes/ModeSelectScene';
+import { ZoneSelectScene } from './scenes/ZoneSelectScene';
+import { CharacterSelectScene } from './scenes/CharacterSelectScene';
+import { ZoneEditorScene } from './scenes/ZoneEditorScene';
+import { BossIntroScene } from './scenes/BossIntroScene';
+import { VictoryScene } from './scenes/VictoryScene';
 import { DeviceDetection } from './mobile/DeviceDetection';
 import { MobileConfig } from './mobile/MobileConfig';
 import './analysis/runBalance'; // Load balance tools
@@ -56,7 +62,7 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false
     }
   },
-  scene: [BootScene, GameScene, UpgradeScene, PauseScene, ChestRewardScene],
+  scene: [BootScene, ModeSelectScene, ZoneSelectScene, CharacterSelectScene, GameScene, UpgradeScene, PauseScene, ChestRewardScene, BossIntroScene, VictoryScene, ZoneEditorScene],
   input: {
     activePointers: deviceInfo.hasTouch ? 4 : 1
   }
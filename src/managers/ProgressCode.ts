@@ -0,0 +1,86 @@
+import { GameSettings } from './SaveSchema';
+
+// Bump the prefix if the snapshot layout ever changes incompatibly
+export const PROGRESS_CODE_PREFIX = 'BRB1';
+
+export interface ProgressSnapshot {
+  characters: {
+    unlockedCharacters: string[]; // CharacterManager.saveProgress() format
+    currentCharacter: string;
+  };
+  zones: string[];
+  bossesDefeated: string[];
+  settings: GameSettings;
+}
+
+export class ProgressCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressCodeError';
+  }
+}
+
+// FNV-1a - not cryptographic, just catches typos, truncation and hand edits
+export function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+// URL-safe base64 so the code survives chat apps and copy/paste
+function toBase64Url(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function encodeProgressCode(snapshot: ProgressSnapshot): string {
+  const payload = toBase64Url(JSON.stringify(snapshot));
+  return `${PROGRESS_CODE_PREFIX}.${payload}.${checksum(PROGRESS_CODE_PREFIX + payload)}`;
+}
+
+export function decodeProgressCode(code: string): ProgressSnapshot {
+  // Pasted codes often pick up spaces or line breaks
+  const parts = code.replace(/\s+/g, '').split('.');
+  if (parts.length !== 3) {
+    throw new ProgressCodeError('That doesn\'t look like a progress code');
+  }
+
+  const [prefix, payload, expectedChecksum] = parts;
+  if (prefix !== PROGRESS_CODE_PREFIX) {
+    throw new ProgressCodeError('This progress code is from an unsupported game version');
+  }
+
+  if (checksum(prefix + payload) !== expectedChecksum.toLowerCase()) {
+    throw new ProgressCodeError('Progress code is damaged or has been edited');
+  }
+
+  let snapshot: any;
+  try {
+    snapshot = JSON.parse(fromBase64Url(payload));
+  } catch (error) {
+    throw new ProgressCodeError('Progress code could not be read');
+  }
+
+  if (
+    !isStringArray(snapshot?.characters?.unlockedCharacters) ||
+    typeof snapshot.characters.currentCharacter !== 'string' ||
+    !isStringArray(snapshot.zones) ||
+    !isStringArray(snapshot.bossesDefeated) ||
+    typeof snapshot.settings !== 'object'
+  ) {
+    throw new ProgressCodeError('Progress code is missing progress data');
+  }
+
+  return snapshot;
+}
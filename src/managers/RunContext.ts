@@ -0,0 +1,38 @@
+import { Character, CharacterManager } from '../entities/Character';
+import { KickStatPipeline, KickStats } from '../systems/KickStatPipeline';
+import { GameEventBus } from '../systems/GameEventBus';
+import { SeededRandom } from '../utils/SeededRandom';
+import { UpgradeManager, UpgradeLevels, UpgradeAction } from './UpgradeManager';
+
+export interface RunContextOptions {
+  character?: Character; // Defaults to the selected character
+  seed?: number; // Defaults to a random seed
+}
+
+// Everything that belongs to a single run - created by GameScene and passed to the systems that need it
+export class RunContext implements UpgradeLevels {
+  public readonly character: Character;
+  public readonly random: SeededRandom;
+  public readonly upgrades: UpgradeManager;
+  public readonly events: GameEventBus = new GameEventBus(); // Nothing outlives the run, subscribers included
+
+  constructor(options: RunContextOptions = {}) {
+    this.character = options.character ?? CharacterManager.getInstance().getCurrentCharacter();
+    this.random = new SeededRandom(options.seed);
+    this.upgrades = new UpgradeManager(() => this.random.next());
+    
+    // Character perks - reroll, banish and skip charges to start the run with
+    Object.entries(this.character.config.upgradeCharges ?? {}).forEach(([action, amount]) => {
+      this.upgrades.addCharges(action as UpgradeAction, amount);
+    });
+  }
+
+  getUpgradeLevel(id: string): number {
+    return this.upgrades.getUpgradeLevel(id);
+  }
+
+  // Character base stats, passive and kick upgrades - no temporary buffs
+  getKickStats(): KickStats {
+    return KickStatPipeline.getRunStats(this.character, this.upgrades);
+  }
+}
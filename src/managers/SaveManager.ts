@@ -0,0 +1,279 @@
+import { CharacterManager } from '../entities/Character';
+import { UnlockProgress } from '../entities/UnlockConditions';
+import { SaveStorage, createDefaultStorage } from './SaveStorage';
+import {
+  SaveData,
+  GameSettings,
+  SurvivalRecord,
+  SURVIVAL_LEADERBOARD_SIZE,
+  createDefaultSaveData,
+  validateSaveData,
+  validateSettings
+} from './SaveSchema';
+import { migrateSave } from './SaveMigrations';
+import { ProgressSnapshot, encodeProgressCode, decodeProgressCode } from './ProgressCode';
+
+export { SAVE_VERSION, createDefaultSaveData } from './SaveSchema';
+export type { SaveData, LifetimeStats, GameSettings, SurvivalRecord } from './SaveSchema';
+
+export const SAVE_KEY = 'brainrot-bosses-save';
+// Last save that loaded cleanly - used to recover from a corrupted main save
+export const SAVE_BACKUP_KEY = `${SAVE_KEY}-backup`;
+// Unreadable saves are parked here instead of being silently overwritten
+export const SAVE_CORRUPTED_KEY = `${SAVE_KEY}-corrupted`;
+
+export interface RunSummary {
+  survivalTime: number;
+  enemiesKilled: number;
+  damageDealt: number;
+  totalXP: number;
+  bestCombo?: number;
+  criticalKills?: number;
+}
+
+export interface CharacterUnlockedCallback {
+  (characterId: string): void;
+}
+
+export class SaveManager {
+  private static instance: SaveManager;
+  private storage: SaveStorage;
+  private data: SaveData;
+
+  public onCharacterUnlocked?: CharacterUnlockedCallback;
+
+  private constructor() {
+    this.storage = createDefaultStorage();
+    this.data = createDefaultSaveData();
+  }
+
+  static getInstance(): SaveManager {
+    if (!SaveManager.instance) {
+      SaveManager.instance = new SaveManager();
+    }
+    return SaveManager.instance;
+  }
+
+  // Swap the persistence backend (e.g. in-memory storage for tests)
+  setStorage(storage: SaveStorage): void {
+    this.storage = storage;
+  }
+
+  load(): SaveData {
+    const raw = this.storage.read(SAVE_KEY);
+
+    if (raw === null) {
+      this.data = createDefaultSaveData();
+      this.applyToCharacterManager();
+      return this.data;
+    }
+
+    const loaded = this.parseSave(raw);
+    if (loaded) {
+      this.data = loaded;
+      this.storage.write(SAVE_BACKUP_KEY, JSON.stringify(loaded));
+    } else {
+      this.data = this.recoverFromCorruption(raw);
+    }
+
+    this.applyToCharacterManager();
+
+    // Persist migrated/cleaned data so the next load starts from the current schema
+    if (JSON.stringify(this.data) !== raw) {
+      this.save();
+    }
+    return this.data;
+  }
+
+  save(): boolean {
+    this.checkCharacterUnlocks();
+    this.syncFromCharacterManager();
+    return this.storage.write(SAVE_KEY, JSON.stringify(this.data));
+  }
+
+  getData(): Readonly<SaveData> {
+    return this.data;
+  }
+
+  getUnlockedZones(): string[] {
+    return [...this.data.zones.unlocked];
+  }
+
+  isZoneUnlocked(zoneId: string): boolean {
+    return this.data.zones.unlocked.includes(zoneId);
+  }
+
+  unlockZone(zoneId: string): void {
+    if (this.isZoneUnlocked(zoneId)) return;
+
+    this.data.zones.unlocked.push(zoneId);
+    this.save();
+  }
+
+  getBestClearTime(zoneId: string): number | null {
+    return this.data.zones.bestClearTimes[zoneId] ?? null;
+  }
+
+  // Returns true when this clear beat the previous best
+  recordZoneClear(zoneId: string, clearTime: number): boolean {
+    const best = this.getBestClearTime(zoneId);
+    const isNewBest = best === null || clearTime < best;
+    if (isNewBest) {
+      this.data.zones.bestClearTimes[zoneId] = clearTime;
+    }
+    this.save();
+    return isNewBest;
+  }
+
+  isBossDefeated(bossType: string): boolean {
+    return this.data.bossesDefeated.includes(bossType);
+  }
+
+  recordBossDefeat(bossType: string): void {
+    if (!this.isBossDefeated(bossType)) {
+      this.data.bossesDefeated.push(bossType);
+    }
+    this.save();
+  }
+
+  getSurvivalLeaderboard(): SurvivalRecord[] {
+    return this.data.survivalLeaderboard.map(record => ({ ...record }));
+  }
+
+  // Returns the run's 1-based leaderboard place, or null when it didn't make the board
+  recordSurvivalRun(record: SurvivalRecord): number | null {
+    const leaderboard = this.data.survivalLeaderboard;
+    const index = leaderboard.findIndex(entry => record.survivalTime > entry.survivalTime);
+    const place = index === -1 ? leaderboard.length : index;
+
+    if (place >= SURVIVAL_LEADERBOARD_SIZE) {
+      return null;
+    }
+
+    leaderboard.splice(place, 0, { ...record });
+    leaderboard.length = Math.min(leaderboard.length, SURVIVAL_LEADERBOARD_SIZE);
+    this.save();
+    return place + 1;
+  }
+
+  recordUpgradePicked(upgradeId: string): void {
+    const picked = this.data.stats.upgradesPicked;
+    picked[upgradeId] = (picked[upgradeId] || 0) + 1;
+    this.save();
+  }
+
+  recordRun(summary: RunSummary): void {
+    const stats = this.data.stats;
+    stats.runsPlayed++;
+    stats.totalKills += summary.enemiesKilled;
+    stats.totalDamageDealt += Math.round(summary.damageDealt);
+    stats.totalXP += summary.totalXP;
+    stats.totalPlayTime += summary.survivalTime;
+    stats.bestSurvivalTime = Math.max(stats.bestSurvivalTime, summary.survivalTime);
+    stats.bestCombo = Math.max(stats.bestCombo, summary.bestCombo || 0);
+    stats.criticalKills += summary.criticalKills || 0;
+    this.save();
+  }
+
+  // What character unlock conditions are checked against
+  getUnlockProgress(): UnlockProgress {
+    return {
+      bossesDefeated: [...this.data.bossesDefeated],
+      bestClearTimes: { ...this.data.zones.bestClearTimes },
+      bestCombo: this.data.stats.bestCombo,
+      totalKills: this.data.stats.totalKills,
+      criticalKills: this.data.stats.criticalKills
+    };
+  }
+
+  getSettings(): GameSettings {
+    return { ...this.data.settings };
+  }
+
+  updateSettings(settings: Partial<GameSettings>): void {
+    this.data.settings = validateSettings({ ...this.data.settings, ...settings });
+    this.save();
+  }
+
+  // Shareable snapshot of unlocks and settings - lifetime stats stay on this device
+  exportProgressCode(): string {
+    const snapshot: ProgressSnapshot = {
+      characters: JSON.parse(CharacterManager.getInstance().saveProgress()),
+      zones: [...this.data.zones.unlocked],
+      bossesDefeated: [...this.data.bossesDefeated],
+      settings: { ...this.data.settings }
+    };
+    return encodeProgressCode(snapshot);
+  }
+
+  // Throws ProgressCodeError with a player-facing message for bad or tampered codes
+  importProgressCode(code: string): void {
+    const snapshot = decodeProgressCode(code);
+
+    this.data = validateSaveData({
+      ...this.data,
+      characters: {
+        unlocked: snapshot.characters.unlockedCharacters,
+        selected: snapshot.characters.currentCharacter
+      },
+      zones: { ...this.data.zones, unlocked: snapshot.zones },
+      bossesDefeated: snapshot.bossesDefeated,
+      settings: snapshot.settings
+    });
+
+    this.applyToCharacterManager();
+    this.save();
+    console.log('💾 Progress imported from code');
+  }
+
+  reset(): void {
+    this.data = createDefaultSaveData();
+    this.storage.remove(SAVE_KEY);
+    this.applyToCharacterManager();
+  }
+
+  private parseSave(raw: string): SaveData | null {
+    try {
+      return migrateSave(JSON.parse(raw));
+    } catch (error) {
+      console.error('Failed to load save data:', error);
+      return null;
+    }
+  }
+
+  private recoverFromCorruption(raw: string): SaveData {
+    this.storage.write(SAVE_CORRUPTED_KEY, raw);
+
+    const backup = this.storage.read(SAVE_BACKUP_KEY);
+    const restored = backup !== null ? this.parseSave(backup) : null;
+    if (restored) {
+      console.warn('⚠️ Save data was corrupted, restored progress from backup');
+      return restored;
+    }
+
+    console.warn('⚠️ Save data was corrupted and no backup was usable, starting fresh');
+    return createDefaultSaveData();
+  }
+
+  // Every save re-checks unlock conditions, so any recorded progress can unlock a character
+  private checkCharacterUnlocks(): void {
+    const unlocked = CharacterManager.getInstance().evaluateUnlocks(this.getUnlockProgress());
+    unlocked.forEach(characterId => this.onCharacterUnlocked?.(characterId));
+  }
+
+  private applyToCharacterManager(): void {
+    // CharacterManager owns its own JSON format - feed it through loadProgress
+    CharacterManager.getInstance().loadProgress(JSON.stringify({
+      unlockedCharacters: this.data.characters.unlocked,
+      currentCharacter: this.data.characters.selected
+    }));
+  }
+
+  private syncFromCharacterManager(): void {
+    const characterProgress = JSON.parse(CharacterManager.getInstance().saveProgress());
+    this.data.characters = {
+      unlocked: characterProgress.unlockedCharacters,
+      selected: characterProgress.currentCharacter
+    };
+  }
+}
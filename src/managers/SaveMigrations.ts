@@ -0,0 +1,114 @@
+import { SAVE_VERSION, SaveData, validateSaveData } from './SaveSchema';
+
+export class SaveMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+// Each migration upgrades a save from version N to N + 1
+export type SaveMigration = (data: any) => any;
+
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v0: the bare CharacterManager.saveProgress() blob - { unlockedCharacters, currentCharacter }
+  // Migrations spell out their output shape so later schema changes don't alter them
+  0: (data: any) => ({
+    version: 1,
+    characters: {
+      unlocked: data.unlockedCharacters,
+      selected: data.currentCharacter
+    },
+    zones: {
+      unlocked: ['tutorial-grove']
+    },
+    bossesDefeated: [],
+    stats: {
+      runsPlayed: 0,
+      totalKills: 0,
+      totalDamageDealt: 0,
+      totalXP: 0,
+      totalPlayTime: 0,
+      bestSurvivalTime: 0,
+      upgradesPicked: {}
+    }
+  }),
+
+  // v1 -> v2: settings are now part of the save
+  1: (data: any) => ({
+    ...data,
+    version: 2,
+    settings: {
+      soundEnabled: true,
+      volume: 0.4
+    }
+  }),
+
+  // v2 -> v3: zones remember their best clear time
+  2: (data: any) => ({
+    ...data,
+    version: 3,
+    zones: {
+      ...data.zones,
+      bestClearTimes: {}
+    }
+  }),
+
+  // v3 -> v4: lifetime stats track what character unlock conditions need
+  3: (data: any) => ({
+    ...data,
+    version: 4,
+    stats: {
+      ...data.stats,
+      bestCombo: 0,
+      criticalKills: 0
+    }
+  }),
+
+  // v4 -> v5: Endless Survival keeps its own leaderboard
+  4: (data: any) => ({
+    ...data,
+    version: 5,
+    survivalLeaderboard: []
+  })
+};
+
+export function detectSaveVersion(data: any): number {
+  if (!data || typeof data !== 'object') {
+    throw new SaveMigrationError('Save data is not an object');
+  }
+
+  if (typeof data.version === 'number') {
+    return data.version;
+  }
+
+  // Pre-versioning saves only held character progress
+  if (Array.isArray(data.unlockedCharacters)) {
+    return 0;
+  }
+
+  throw new SaveMigrationError('Unrecognised save format');
+}
+
+// Run every migration from the save's version up to SAVE_VERSION, then drop unknown ids
+export function migrateSave(data: any): SaveData {
+  let version = detectSaveVersion(data);
+
+  if (version > SAVE_VERSION) {
+    throw new SaveMigrationError(`Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+  }
+
+  let migrated = data;
+  while (version < SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new SaveMigrationError(`No migration from save version ${version}`);
+    }
+
+    migrated = migration(migrated);
+    version++;
+    console.log(`💾 Migrated save to version ${version}`);
+  }
+
+  return validateSaveData(migrated);
+}
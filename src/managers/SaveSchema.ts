@@ -0,0 +1,217 @@
+import { ITALIAN_BRAINROT_CHARACTERS } from '../entities/Character';
+import { UPGRADES } from '../config/upgrades';
+import { WEAPON_UPGRADES } from '../config/weaponUpgrades';
+import { ZONE_IDS, BOSS_TYPES } from '../config/zones';
+
+// Bump whenever the persisted shape changes and add a migration in SaveMigrations.ts
+export const SAVE_VERSION = 5;
+
+export const DEFAULT_CHARACTER_ID = 'br-br-patapim';
+export const DEFAULT_ZONE_ID = 'tutorial-grove';
+
+// Endless Survival keeps this many runs, longest first
+export const SURVIVAL_LEADERBOARD_SIZE = 10;
+
+export interface LifetimeStats {
+  runsPlayed: number;
+  totalKills: number;
+  totalDamageDealt: number;
+  totalXP: number;
+  totalPlayTime: number; // ms
+  bestSurvivalTime: number; // ms
+  bestCombo: number;
+  criticalKills: number;
+  upgradesPicked: Record<string, number>; // upgrade id -> times picked
+}
+
+export interface SurvivalRecord {
+  survivalTime: number; // ms
+  enemiesKilled: number;
+  bossesDefeated: number;
+  characterId: string;
+  date: number; // Epoch ms the run ended
+}
+
+export interface GameSettings {
+  soundEnabled: boolean;
+  volume: number; // 0-1
+}
+
+export interface SaveData {
+  version: number;
+  characters: {
+    unlocked: string[];
+    selected: string;
+  };
+  zones: {
+    unlocked: string[];
+    bestClearTimes: Record<string, number>; // zone id -> fastest boss kill, ms
+  };
+  bossesDefeated: string[];
+  stats: LifetimeStats;
+  survivalLeaderboard: SurvivalRecord[];
+  settings: GameSettings;
+}
+
+export function createDefaultSaveData(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    characters: {
+      unlocked: [DEFAULT_CHARACTER_ID],
+      selected: DEFAULT_CHARACTER_ID
+    },
+    zones: {
+      unlocked: [DEFAULT_ZONE_ID],
+      bestClearTimes: {}
+    },
+    bossesDefeated: [],
+    stats: {
+      runsPlayed: 0,
+      totalKills: 0,
+      totalDamageDealt: 0,
+      totalXP: 0,
+      totalPlayTime: 0,
+      bestSurvivalTime: 0,
+      bestCombo: 0,
+      criticalKills: 0,
+      upgradesPicked: {}
+    },
+    survivalLeaderboard: [],
+    settings: createDefaultSettings()
+  };
+}
+
+export function createDefaultSettings(): GameSettings {
+  return {
+    soundEnabled: true,
+    volume: 0.4
+  };
+}
+
+// Keep only string ids the game still knows about - renamed/removed content is dropped, not fatal
+function filterKnownIds(ids: unknown, known: Set<string>, label: string): string[] {
+  if (!Array.isArray(ids)) return [];
+
+  const result: string[] = [];
+  ids.forEach(id => {
+    if (typeof id === 'string' && known.has(id)) {
+      if (!result.includes(id)) result.push(id);
+    } else {
+      console.warn(`⚠️ Dropping unknown ${label} id from save:`, id);
+    }
+  });
+  return result;
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : 0;
+}
+
+export function validateSettings(settings: any): GameSettings {
+  const defaults = createDefaultSettings();
+  const volume = settings?.volume;
+  return {
+    soundEnabled: typeof settings?.soundEnabled === 'boolean' ? settings.soundEnabled : defaults.soundEnabled,
+    volume: typeof volume === 'number' && isFinite(volume) ? Math.max(0, Math.min(1, volume)) : defaults.volume
+  };
+}
+
+// Malformed runs are dropped; the rest are re-sorted and trimmed to the leaderboard size
+function validateLeaderboard(records: unknown, characterIds: Set<string>): SurvivalRecord[] {
+  if (!Array.isArray(records)) return [];
+
+  const result: SurvivalRecord[] = [];
+  records.forEach(record => {
+    if (toCount(record?.survivalTime) > 0 && characterIds.has(record.characterId)) {
+      result.push({
+        survivalTime: record.survivalTime,
+        enemiesKilled: toCount(record.enemiesKilled),
+        bossesDefeated: toCount(record.bossesDefeated),
+        characterId: record.characterId,
+        date: toCount(record.date)
+      });
+    } else {
+      console.warn('⚠️ Dropping invalid survival record from save:', record);
+    }
+  });
+
+  return result
+    .sort((a, b) => b.survivalTime - a.survivalTime)
+    .slice(0, SURVIVAL_LEADERBOARD_SIZE);
+}
+
+// Normalise a current-version save: unknown ids are dropped with a warning, missing fields get defaults
+export function validateSaveData(data: any): SaveData {
+  const characterIds = new Set(ITALIAN_BRAINROT_CHARACTERS.map(char => char.id));
+  const upgradeIds = new Set([...Object.keys(UPGRADES), ...Object.keys(WEAPON_UPGRADES)]);
+
+  const unlockedCharacters = filterKnownIds(data?.characters?.unlocked, characterIds, 'character');
+  if (!unlockedCharacters.includes(DEFAULT_CHARACTER_ID)) {
+    unlockedCharacters.unshift(DEFAULT_CHARACTER_ID);
+  }
+
+  let selected = data?.characters?.selected;
+  if (!unlockedCharacters.includes(selected)) {
+    if (selected !== undefined) {
+      console.warn('⚠️ Selected character is not unlocked, falling back to default:', selected);
+    }
+    selected = DEFAULT_CHARACTER_ID;
+  }
+
+  const unlockedZones = filterKnownIds(data?.zones?.unlocked, new Set(ZONE_IDS), 'zone');
+  if (!unlockedZones.includes(DEFAULT_ZONE_ID)) {
+    unlockedZones.unshift(DEFAULT_ZONE_ID);
+  }
+
+  const bestClearTimes: Record<string, number> = {};
+  const rawClearTimes = data?.zones?.bestClearTimes;
+  if (rawClearTimes && typeof rawClearTimes === 'object') {
+    Object.keys(rawClearTimes).forEach(id => {
+      if (!ZONE_IDS.includes(id)) {
+        console.warn('⚠️ Dropping unknown zone id from save:', id);
+      } else if (toCount(rawClearTimes[id]) > 0) {
+        bestClearTimes[id] = rawClearTimes[id];
+      }
+    });
+  }
+
+  const upgradesPicked: Record<string, number> = {};
+  const rawPicked = data?.stats?.upgradesPicked;
+  if (rawPicked && typeof rawPicked === 'object') {
+    Object.keys(rawPicked).forEach(id => {
+      if (upgradeIds.has(id)) {
+        upgradesPicked[id] = toCount(rawPicked[id]);
+      } else {
+        console.warn('⚠️ Dropping unknown upgrade id from save:', id);
+      }
+    });
+  }
+
+  const stats = data?.stats || {};
+
+  return {
+    version: SAVE_VERSION,
+    characters: {
+      unlocked: unlockedCharacters,
+      selected
+    },
+    zones: {
+      unlocked: unlockedZones,
+      bestClearTimes
+    },
+    bossesDefeated: filterKnownIds(data?.bossesDefeated, new Set(BOSS_TYPES), 'boss'),
+    stats: {
+      runsPlayed: toCount(stats.runsPlayed),
+      totalKills: toCount(stats.totalKills),
+      totalDamageDealt: toCount(stats.totalDamageDealt),
+      totalXP: toCount(stats.totalXP),
+      totalPlayTime: toCount(stats.totalPlayTime),
+      bestSurvivalTime: toCount(stats.bestSurvivalTime),
+      bestCombo: toCount(stats.bestCombo),
+      criticalKills: toCount(stats.criticalKills),
+      upgradesPicked
+    },
+    survivalLeaderboard: validateLeaderboard(data?.survivalLeaderboard, characterIds),
+    settings: validateSettings(data?.settings)
+  };
+}
@@ -0,0 +1,71 @@
+export interface SaveStorage {
+  read(key: string): string | null;
+  write(key: string, value: string): boolean;
+  remove(key: string): void;
+}
+
+// Browser persistence - survives page reloads
+export class LocalStorageBackend implements SaveStorage {
+  read(key: string): string | null {
+    try {
+      return window.localStorage.getItem(key);
+    } catch (error) {
+      console.warn('localStorage read failed:', error);
+      return null;
+    }
+  }
+
+  write(key: string, value: string): boolean {
+    try {
+      window.localStorage.setItem(key, value);
+      return true;
+    } catch (error) {
+      // Quota exceeded or storage disabled (e.g. private browsing)
+      console.warn('localStorage write failed:', error);
+      return false;
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      window.localStorage.removeItem(key);
+    } catch (error) {
+      console.warn('localStorage remove failed:', error);
+    }
+  }
+}
+
+// Volatile persistence - used by Jest and as a fallback when localStorage is missing
+export class MemoryStorageBackend implements SaveStorage {
+  private data: Map<string, string> = new Map();
+
+  read(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  write(key: string, value: string): boolean {
+    this.data.set(key, value);
+    return true;
+  }
+
+  remove(key: string): void {
+    this.data.delete(key);
+  }
+}
+
+export function createDefaultStorage(): SaveStorage {
+  // Keep tests isolated from the real browser storage
+  if (process.env.NODE_ENV === 'test' || typeof window === 'undefined') {
+    return new MemoryStorageBackend();
+  }
+
+  try {
+    // Accessing localStorage can throw when storage is blocked
+    if (window.localStorage) {
+      return new LocalStorageBackend();
+    }
+  } catch (error) {
+    console.warn('localStorage unavailable, progress will not persist:', error);
+  }
+  return new MemoryStorageBackend();
+}
@@ -1,31 +1,37 @@
-import { UPGRADES, UpgradeDefinition } from '../config/upgrades';
-import { WEAPON_UPGRADES, WeaponUpgradeDefinition, hasWeapon, unlockWeapon } from '../config/weaponUpgrades';
+import { UPGRADES, UpgradeDefinition, PITY_RULES, getOfferWeight } from '../config/upgrades';
+import { WEAPON_UPGRADES, WeaponUpgradeDefinition, hasWeapon } from '../config/weaponUpgrades';
+import { EVOLUTIONS, EvolutionDefinition } from '../config/evolutions';
+import { DrawStage, drawWeighted, getInclusionProbabilities } from '../utils/WeightedDraw';
 
-export class UpgradeManager {
+// Anything the UpgradeScene can offer
+export type UpgradeOffer = UpgradeDefinition | WeaponUpgradeDefinition | EvolutionDefinition;
+
+// Offers dealt by weight - evolutions are added on top
+type RegularOffer = UpgradeDefinition | WeaponUpgradeDefinition;
+
+// Level-up screen actions - charges come from chests and character perks
+export type UpgradeAction = 'reroll' | 'banish' | 'skip';
+
+// Read-only view of upgrade levels - what weapons, the player and pickups need
+export interface UpgradeLevels {
+  getUpgradeLevel(id: string): number;
+}
+
+// Owned by a RunContext - one per run, so nothing carries over between runs or tests
+export class UpgradeManager implements UpgradeLevels {
   private upgradeLevels: Map<string, number> = new Map();
-  private static instance: UpgradeManager;
+  private evolutions: Set<string> = new Set();
+  private banished: Set<string> = new Set(); // Out of the offer pool for the rest of the run
+  private charges: Map<UpgradeAction, number> = new Map();
+  private offersWithout: Map<string, number> = new Map(); // Pity rule id -> offers dealt since it last showed up
 
-  private constructor() {
+  constructor(private random: () => number = Math.random) {
     // Initialize all upgrades at level 0
     Object.keys(UPGRADES).forEach(id => {
       this.upgradeLevels.set(id, 0);
     });
   }
 
-  static getInstance(): UpgradeManager {
-    if (!UpgradeManager.instance) {
-      UpgradeManager.instance = new UpgradeManager();
-      // Only freeze in production to allow test cleanup
-      if (process.env.NODE_ENV !== 'test') {
-        Object.defineProperty(UpgradeManager, 'instance', {
-          writable: false,
-          configurable: false
-        });
-      }
-    }
-    return UpgradeManager.instance;
-  }
-
   getUpgradeLevel(id: string): number {
     return this.upgradeLevels.get(id) || 0;
   }
@@ -66,53 +72,137 @@ export class UpgradeManager {
     return true;
   }
 
-  getRandomUpgrades(count: number): (UpgradeDefinition | WeaponUpgradeDefinition)[] {
-    // Get all available regular upgrades
-    const availableRegular = Object.values(UPGRADES).filter(upgrade => 
-      this.canUpgrade(upgrade.id)
-    );
-    
-    // Get available weapon unlocks
-    const weaponUnlocks = Object.values(WEAPON_UPGRADES).filter(weapon =>
-      !hasWeapon(weapon.id)
-    );
-    
-    // Categorize regular upgrades
-    const weaponCategoryUpgrades = availableRegular.filter(upgrade => 
-      upgrade.category === 'weapon'
-    );
-    const nonWeaponUpgrades = availableRegular.filter(upgrade => 
-      upgrade.category !== 'weapon'
-    );
-    
-    // Combine all weapon-related upgrades (weapon category + weapon unlocks)
-    const allWeaponUpgrades = [...weaponCategoryUpgrades, ...weaponUnlocks];
-    
-    // Guarantee at least 2 weapon upgrades (if available)
-    const selectedUpgrades: (UpgradeDefinition | WeaponUpgradeDefinition)[] = [];
-    const minWeaponUpgrades = Math.min(2, allWeaponUpgrades.length);
-    
-    // Select guaranteed weapon upgrades
-    if (minWeaponUpgrades > 0) {
-      const shuffledWeaponUpgrades = this.fisherYatesShuffle([...allWeaponUpgrades]);
-      selectedUpgrades.push(...shuffledWeaponUpgrades.slice(0, minWeaponUpgrades));
-    }
+  hasEvolution(id: string): boolean {
+    return this.evolutions.has(id);
+  }
+
+  // Technique maxed, partner owned and not evolved yet
+  canEvolve(id: string): boolean {
+    const evolution = EVOLUTIONS[id];
+    if (!evolution || this.hasEvolution(id)) return false;
     
-    // Fill remaining slots with any available upgrades
-    const remainingSlots = count - selectedUpgrades.length;
-    if (remainingSlots > 0) {
-      // Get all remaining options (excluding already selected)
-      const usedIds = new Set(selectedUpgrades.map(u => u.id));
-      const remainingOptions = [...allWeaponUpgrades, ...nonWeaponUpgrades]
-        .filter(upgrade => !usedIds.has(upgrade.id));
-      
-      // Shuffle and take remaining slots
-      const shuffledRemaining = this.fisherYatesShuffle([...remainingOptions]);
-      selectedUpgrades.push(...shuffledRemaining.slice(0, remainingSlots));
-    }
+    const technique = UPGRADES[evolution.technique];
+    return !!technique &&
+      this.getUpgradeLevel(evolution.technique) >= technique.maxLevel &&
+      this.getUpgradeLevel(evolution.partner) > 0;
+  }
+
+  applyEvolution(id: string): boolean {
+    if (!this.canEvolve(id)) return false;
+    
+    this.evolutions.add(id);
+    return true;
+  }
+
+  getAvailableEvolutions(): EvolutionDefinition[] {
+    return Object.values(EVOLUTIONS).filter(evolution => this.canEvolve(evolution.id));
+  }
+
+  getCharges(action: UpgradeAction): number {
+    return this.charges.get(action) || 0;
+  }
+
+  addCharges(action: UpgradeAction, amount: number = 1): void {
+    this.charges.set(action, this.getCharges(action) + amount);
+  }
+
+  useCharge(action: UpgradeAction): boolean {
+    const remaining = this.getCharges(action);
+    if (remaining <= 0) return false;
+    
+    this.charges.set(action, remaining - 1);
+    return true;
+  }
+
+  isBanished(id: string): boolean {
+    return this.banished.has(id);
+  }
+
+  // Spends a banish charge - the upgrade is never offered again this run
+  banish(id: string): boolean {
+    if (this.isBanished(id) || !this.useCharge('banish')) return false;
+    
+    this.banished.add(id);
+    return true;
+  }
+
+  getRandomUpgrades(count: number): UpgradeOffer[] {
+    // Ready evolutions always make the offer, in front of the regular picks
+    const evolutions = this.getOfferedEvolutions(count);
     
-    // Use Fisher-Yates shuffle for unbiased randomization
-    return this.fisherYatesShuffle(selectedUpgrades);
+    // Weighted by rarity and luck, then shuffled for unbiased card order
+    const picks = drawWeighted(this.getOfferStages(count - evolutions.length), upgrade => this.getWeight(upgrade), this.random);
+    this.updatePityCounters(picks);
+    
+    return [...evolutions, ...this.fisherYatesShuffle(picks)];
+  }
+
+  // Exact chance of each upgrade showing up in the next offer - for balance tooling, rolls nothing
+  getOfferProbabilities(count: number): Map<string, number> {
+    const probabilities = new Map<string, number>();
+    const evolutions = this.getOfferedEvolutions(count);
+    evolutions.forEach(evolution => probabilities.set(evolution.id, 1));
+    
+    getInclusionProbabilities(this.getOfferStages(count - evolutions.length), upgrade => this.getWeight(upgrade))
+      .forEach((probability, upgrade) => probabilities.set(upgrade.id, probability));
+    
+    return probabilities;
+  }
+
+  getLuck(): number {
+    const level = this.getUpgradeLevel('luck');
+    return level > 0 ? UPGRADES.luck?.getValue(level) ?? 0 : 0;
+  }
+
+  private getWeight(upgrade: RegularOffer): number {
+    return getOfferWeight(upgrade, this.getLuck());
+  }
+
+  private getOfferedEvolutions(count: number): EvolutionDefinition[] {
+    return this.getAvailableEvolutions()
+      .filter(evolution => !this.isBanished(evolution.id))
+      .slice(0, Math.max(0, count));
+  }
+
+  private getOfferStages(count: number): DrawStage<RegularOffer>[] {
+    if (count <= 0) return [];
+    
+    // Regular upgrades plus weapon unlocks that can still be taken
+    const pool: RegularOffer[] = [
+      ...Object.values(UPGRADES).filter(upgrade => this.canUpgrade(upgrade.id)),
+      ...Object.values(WEAPON_UPGRADES).filter(weapon => !hasWeapon(weapon.id))
+    ].filter(upgrade => !this.isBanished(upgrade.id));
+    const isWeapon = (upgrade: RegularOffer) => upgrade.category === 'weapon';
+    const slotsLeft = (picked: RegularOffer[]) => count - picked.length;
+    
+    // Overdue pity rules get the first slots
+    const pityStages = PITY_RULES
+      .filter(rule => (this.offersWithout.get(rule.id) || 0) >= rule.afterOffers - 1)
+      .map((rule): DrawStage<RegularOffer> => ({
+        draws: picked => Math.min(1, slotsLeft(picked)),
+        candidates: () => pool.filter(upgrade => rule.upgradeIds.includes(upgrade.id))
+      }));
+    
+    return [
+      ...pityStages,
+      // Guarantee at least 2 weapon upgrades (if available)
+      {
+        draws: picked => Math.min(slotsLeft(picked), Math.max(0, 2 - picked.filter(isWeapon).length)),
+        candidates: () => pool.filter(isWeapon)
+      },
+      // Fill remaining slots with any available upgrades
+      {
+        draws: slotsLeft,
+        candidates: () => pool
+      }
+    ];
+  }
+
+  private updatePityCounters(picks: RegularOffer[]): void {
+    PITY_RULES.forEach(rule => {
+      const offered = picks.some(upgrade => rule.upgradeIds.includes(upgrade.id));
+      this.offersWithout.set(rule.id, offered ? 0 : (this.offersWithout.get(rule.id) || 0) + 1);
+    });
   }
 
   getUpgradeStats(): Map<string, number> {
@@ -122,6 +212,10 @@ export class UpgradeManager {
 
   reset(): void {
     this.upgradeLevels.clear();
+    this.evolutions.clear();
+    this.banished.clear();
+    this.charges.clear();
+    this.offersWithout.clear();
     Object.keys(UPGRADES).forEach(id => {
       this.upgradeLevels.set(id, 0);
     });
@@ -131,7 +225,7 @@ export class UpgradeManager {
     const shuffled = [...array]; // Create a copy
     
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     
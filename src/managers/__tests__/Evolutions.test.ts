@@ -0,0 +1,103 @@
+import { RunContext } from '../RunContext';
+import { EVOLUTIONS } from '../../config/evolutions';
+import { UPGRADES } from '../../config/upgrades';
+import { WeaponFactory } from '../../weapons/WeaponFactory';
+import { DominoKickBehavior } from '../../weapons/behaviors/DominoKickBehavior';
+import { EarthquakeStompBehavior } from '../../weapons/behaviors/EarthquakeStompBehavior';
+import { Vector2 } from '../../utils/Vector2';
+
+describe('Kick evolutions', () => {
+  let context: RunContext;
+
+  const pick = (id: string, times: number = 1) => {
+    for (let i = 0; i < times; i++) {
+      context.upgrades.applyUpgrade(id);
+    }
+  };
+
+  const behaviorNames = () => WeaponFactory.createKickVariationWeapons(context)
+    .map(weapon => weapon.behavior.constructor.name);
+
+  beforeEach(() => {
+    context = new RunContext({ seed: 42 });
+  });
+
+  it('should declare techniques and partners that exist in UPGRADES', () => {
+    Object.values(EVOLUTIONS).forEach(evolution => {
+      expect(UPGRADES[evolution.technique]).toBeDefined();
+      expect(UPGRADES[evolution.partner]).toBeDefined();
+    });
+  });
+
+  it('should only unlock once the technique is maxed and the partner is owned', () => {
+    pick('multiKick', UPGRADES.multiKick.maxLevel - 1);
+    pick('chainPower');
+    expect(context.upgrades.canEvolve('dominoKick')).toBe(false);
+
+    pick('multiKick');
+    expect(context.upgrades.canEvolve('dominoKick')).toBe(true);
+    expect(context.upgrades.getAvailableEvolutions().map(evolution => evolution.id)).toEqual(['dominoKick']);
+  });
+
+  it('should lead the offer with ready evolutions', () => {
+    pick('groundPoundVariation');
+    pick('explosiveChains');
+
+    const offers = context.upgrades.getRandomUpgrades(3);
+
+    expect(offers).toHaveLength(3);
+    expect(offers[0].id).toBe('earthquakeStomp');
+    expect(offers.slice(1).some(offer => 'isEvolution' in offer)).toBe(false);
+  });
+
+  it('should only evolve once per run', () => {
+    pick('groundPoundVariation');
+    pick('explosiveChains');
+
+    expect(context.upgrades.applyEvolution('earthquakeStomp')).toBe(true);
+    expect(context.upgrades.applyEvolution('earthquakeStomp')).toBe(false);
+    expect(context.upgrades.getAvailableEvolutions()).toHaveLength(0);
+
+    context.upgrades.reset();
+    expect(context.upgrades.hasEvolution('earthquakeStomp')).toBe(false);
+  });
+
+  it('should swap the base kick for its evolution in the run loadout', () => {
+    pick('groundPoundVariation');
+    pick('explosiveChains');
+    expect(behaviorNames()).toEqual(['BrAttackBehavior', 'GroundPoundBehavior']);
+
+    context.upgrades.applyEvolution('earthquakeStomp');
+    expect(behaviorNames()).toEqual(['BrAttackBehavior', 'EarthquakeStompBehavior']);
+  });
+
+  describe('behaviors', () => {
+    const enemyAt = (x: number, y: number): any => ({ sprite: { active: true, x, y }, isDying: false });
+    const origin = new Vector2(0, 0);
+
+    it('Domino Kick should hit the nearest enemy and everyone lined up behind it', () => {
+      const first = enemyAt(30, 0);
+      const behind = enemyAt(120, 10);
+      const offLine = enemyAt(120, 80);
+      const tooFar = enemyAt(400, 0);
+
+      const targets = new DominoKickBehavior().getTargets(origin, [tooFar, offLine, behind, first], 35, 8);
+
+      expect(targets).toEqual([first, behind]);
+    });
+
+    it('Domino Kick should do nothing when no enemy is in kick range', () => {
+      expect(new DominoKickBehavior().getTargets(origin, [enemyAt(60, 0)], 35, 8)).toEqual([]);
+    });
+
+    it('Earthquake Stomp should reach further than its range with more targets', () => {
+      const enemies = Array.from({ length: 20 }, (_, i) => enemyAt(80, i));
+      const pool = { acquire: jest.fn(() => ({})) } as any;
+
+      const fires = new EarthquakeStompBehavior().fire(origin, enemies, pool, 14, 60);
+
+      expect(fires).toHaveLength(16);
+      expect(fires[0].projectile.weaponType).toBe('earthquakestomp');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  encodeProgressCode,
+  decodeProgressCode,
+  checksum,
+  ProgressCodeError,
+  ProgressSnapshot,
+  PROGRESS_CODE_PREFIX
+} from '../ProgressCode';
+
+describe('ProgressCode', () => {
+  const snapshot: ProgressSnapshot = {
+    characters: {
+      unlockedCharacters: ['br-br-patapim', 'chimpanzini-bananini'],
+      currentCharacter: 'chimpanzini-bananini'
+    },
+    zones: ['tutorial-grove', 'desert-outpost'],
+    bossesDefeated: ['swarm-king'],
+    settings: { soundEnabled: false, volume: 0.7 }
+  };
+
+  it('should round-trip a snapshot', () => {
+    const code = encodeProgressCode(snapshot);
+
+    expect(decodeProgressCode(code)).toEqual(snapshot);
+  });
+
+  it('should produce a prefixed, copy-paste safe code', () => {
+    const code = encodeProgressCode(snapshot);
+
+    expect(code.startsWith(`${PROGRESS_CODE_PREFIX}.`)).toBe(true);
+    expect(code).toMatch(/^[A-Za-z0-9._-]+$/);
+  });
+
+  it('should ignore whitespace picked up while pasting', () => {
+    const code = encodeProgressCode(snapshot);
+    const pasted = `  ${code.slice(0, 20)}\n${code.slice(20)}  `;
+
+    expect(decodeProgressCode(pasted)).toEqual(snapshot);
+  });
+
+  it('should compute a stable 8 character checksum', () => {
+    expect(checksum('brainrot')).toBe(checksum('brainrot'));
+    expect(checksum('brainrot')).toHaveLength(8);
+    expect(checksum('brainrot')).not.toBe(checksum('brainrod'));
+  });
+
+  describe('rejecting bad codes', () => {
+    it('should reject text that is not a code', () => {
+      expect(() => decodeProgressCode('hello world')).toThrow('That doesn\'t look like a progress code');
+    });
+
+    it('should reject codes with an unknown prefix', () => {
+      const code = encodeProgressCode(snapshot).replace(PROGRESS_CODE_PREFIX, 'BRB9');
+
+      expect(() => decodeProgressCode(code)).toThrow('unsupported game version');
+    });
+
+    it('should reject tampered payloads', () => {
+      const [prefix, payload, sum] = encodeProgressCode(snapshot).split('.');
+      const tampered = payload.slice(0, -2) + (payload.endsWith('AA') ? 'BB' : 'AA');
+
+      expect(() => decodeProgressCode(`${prefix}.${tampered}.${sum}`)).toThrow('damaged or has been edited');
+    });
+
+    it('should reject truncated codes', () => {
+      const code = encodeProgressCode(snapshot);
+
+      expect(() => decodeProgressCode(code.slice(0, -3))).toThrow(ProgressCodeError);
+    });
+
+    it('should reject well-signed codes without progress data', () => {
+      const payload = btoa(JSON.stringify({ zones: [] }));
+      const code = `${PROGRESS_CODE_PREFIX}.${payload}.${checksum(PROGRESS_CODE_PREFIX + payload)}`;
+
+      expect(() => decodeProgressCode(code)).toThrow('missing progress data');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { RunContext } from '../RunContext';
+import { CharacterManager } from '../../entities/Character';
+import { WeaponFactory } from '../../weapons/WeaponFactory';
+
+describe('RunContext', () => {
+  beforeEach(() => {
+    (CharacterManager as any).instance = undefined;
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should default to the selected character', () => {
+    const manager = CharacterManager.getInstance();
+    manager.unlockCharacter('bombardiro-crocodilo');
+    manager.setCurrentCharacter('bombardiro-crocodilo');
+
+    expect(new RunContext().character.config.id).toBe('bombardiro-crocodilo');
+  });
+
+  it('should start the run with the character perk charges', () => {
+    const manager = CharacterManager.getInstance();
+    manager.unlockCharacter('lirili-larila');
+    manager.setCurrentCharacter('lirili-larila');
+
+    const context = new RunContext();
+
+    expect(context.upgrades.getCharges('reroll')).toBe(3);
+    expect(context.upgrades.getCharges('skip')).toBe(1);
+    expect(context.upgrades.getCharges('banish')).toBe(0);
+  });
+
+  it('should keep two runs side by side without sharing upgrades', () => {
+    const first = new RunContext({ seed: 1 });
+    const second = new RunContext({ seed: 1 });
+
+    first.upgrades.applyUpgrade('kickRange');
+    first.upgrades.applyUpgrade('uppercutVariation');
+
+    expect(first.getKickStats().range).toBeGreaterThan(second.getKickStats().range);
+    expect(WeaponFactory.createKickVariationWeapons(first)).toHaveLength(2);
+    expect(WeaponFactory.createKickVariationWeapons(second)).toHaveLength(1);
+  });
+
+  it('should give every run its own event subscribers', () => {
+    const onLevelUp = jest.fn();
+    new RunContext({ seed: 1 }).events.on('levelUp', onLevelUp);
+
+    new RunContext({ seed: 1 }).events.emit('levelUp', { level: 2 });
+
+    expect(onLevelUp).not.toHaveBeenCalled();
+  });
+
+  it('should replay the same rolls and offers for the same seed', () => {
+    const first = new RunContext({ seed: 1234 });
+    const second = new RunContext({ seed: 1234 });
+
+    const offers = (context: RunContext) => context.upgrades.getRandomUpgrades(3).map(upgrade => upgrade.id);
+
+    expect(offers(first)).toEqual(offers(second));
+    expect(first.random.next()).toBe(second.random.next());
+  });
+});
@@ -0,0 +1,399 @@
+import {
+  SaveManager,
+  SAVE_KEY,
+  SAVE_BACKUP_KEY,
+  SAVE_CORRUPTED_KEY,
+  SAVE_VERSION,
+  createDefaultSaveData
+} from '../SaveManager';
+import { ProgressCodeError } from '../ProgressCode';
+import { MemoryStorageBackend, LocalStorageBackend, createDefaultStorage } from '../SaveStorage';
+import { CharacterManager, ITALIAN_BRAINROT_CHARACTERS } from '../../entities/Character';
+
+describe('SaveManager', () => {
+  let saveManager: SaveManager;
+  let storage: MemoryStorageBackend;
+
+  beforeEach(() => {
+    // Clear singleton instances
+    (SaveManager as any).instance = undefined;
+    (CharacterManager as any).instance = undefined;
+    ITALIAN_BRAINROT_CHARACTERS.forEach(char => {
+      char.isUnlocked = char.id === 'br-br-patapim';
+    });
+
+    jest.spyOn(console, 'log').mockImplementation();
+
+    storage = new MemoryStorageBackend();
+    saveManager = SaveManager.getInstance();
+    saveManager.setStorage(storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('storage backends', () => {
+    it('should use in-memory storage under Jest', () => {
+      expect(createDefaultStorage()).toBeInstanceOf(MemoryStorageBackend);
+    });
+
+    it('should round-trip values in memory storage', () => {
+      expect(storage.read('missing')).toBeNull();
+      storage.write('key', 'value');
+      expect(storage.read('key')).toBe('value');
+      storage.remove('key');
+      expect(storage.read('key')).toBeNull();
+    });
+
+    it('should round-trip values through localStorage', () => {
+      const backend = new LocalStorageBackend();
+      backend.write('brainrot-test-key', 'value');
+      expect(backend.read('brainrot-test-key')).toBe('value');
+      backend.remove('brainrot-test-key');
+      expect(backend.read('brainrot-test-key')).toBeNull();
+    });
+  });
+
+  describe('loading', () => {
+    it('should start from defaults when nothing is saved', () => {
+      const data = saveManager.load();
+
+      expect(data).toEqual(createDefaultSaveData());
+      expect(data.version).toBe(SAVE_VERSION);
+      expect(saveManager.isZoneUnlocked('tutorial-grove')).toBe(true);
+    });
+
+    it('should restore character unlocks and selection into CharacterManager', () => {
+      storage.write(SAVE_KEY, JSON.stringify({
+        ...createDefaultSaveData(),
+        characters: {
+          unlocked: ['br-br-patapim', 'bombardiro-crocodilo'],
+          selected: 'bombardiro-crocodilo'
+        }
+      }));
+
+      saveManager.load();
+
+      const characterManager = CharacterManager.getInstance();
+      expect(characterManager.isCharacterUnlocked('bombardiro-crocodilo')).toBe(true);
+      expect(characterManager.getCurrentCharacter().config.id).toBe('bombardiro-crocodilo');
+    });
+
+    it('should fall back to defaults for unreadable data', () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      storage.write(SAVE_KEY, '{not json');
+
+      const data = saveManager.load();
+      expect(data).toEqual(createDefaultSaveData());
+    });
+
+    it('should persist legacy saves in the current schema', () => {
+      storage.write(SAVE_KEY, JSON.stringify({
+        unlockedCharacters: ['br-br-patapim', 'tralalero-tralala'],
+        currentCharacter: 'tralalero-tralala'
+      }));
+
+      saveManager.load();
+
+      const persisted = JSON.parse(storage.read(SAVE_KEY)!);
+      expect(persisted.version).toBe(SAVE_VERSION);
+      expect(persisted.characters.selected).toBe('tralalero-tralala');
+    });
+  });
+
+  describe('corrupted save recovery', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    it('should keep a backup of the last save that loaded cleanly', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+      saveManager.load();
+
+      const backup = JSON.parse(storage.read(SAVE_BACKUP_KEY)!);
+      expect(backup.zones.unlocked).toContain('desert-outpost');
+    });
+
+    it('should restore progress from the backup when the main save is corrupted', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+      saveManager.load();
+
+      storage.write(SAVE_KEY, '{"version": 1, "zones": ');
+      const data = saveManager.load();
+
+      expect(data.zones.unlocked).toContain('desert-outpost');
+      expect(JSON.parse(storage.read(SAVE_KEY)!).zones.unlocked).toContain('desert-outpost');
+    });
+
+    it('should park the corrupted save instead of discarding it', () => {
+      storage.write(SAVE_KEY, '{not json');
+
+      saveManager.load();
+
+      expect(storage.read(SAVE_CORRUPTED_KEY)).toBe('{not json');
+      expect(JSON.parse(storage.read(SAVE_KEY)!)).toEqual(createDefaultSaveData());
+    });
+
+    it('should treat saves from a newer game version as unreadable', () => {
+      const futureSave = JSON.stringify({ ...createDefaultSaveData(), version: SAVE_VERSION + 1 });
+      storage.write(SAVE_KEY, futureSave);
+
+      const data = saveManager.load();
+
+      expect(data).toEqual(createDefaultSaveData());
+      expect(storage.read(SAVE_CORRUPTED_KEY)).toBe(futureSave);
+    });
+  });
+
+  describe('saving', () => {
+    it('should persist character unlocks made through CharacterManager', () => {
+      saveManager.load();
+      CharacterManager.getInstance().unlockCharacter('chimpanzini-bananini');
+      CharacterManager.getInstance().setCurrentCharacter('chimpanzini-bananini');
+
+      expect(saveManager.save()).toBe(true);
+
+      const persisted = JSON.parse(storage.read(SAVE_KEY)!);
+      expect(persisted.characters.unlocked).toContain('chimpanzini-bananini');
+      expect(persisted.characters.selected).toBe('chimpanzini-bananini');
+    });
+
+    it('should persist zone unlocks and boss defeats', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+      saveManager.recordBossDefeat('swarm-king');
+
+      const persisted = JSON.parse(storage.read(SAVE_KEY)!);
+      expect(persisted.zones.unlocked).toEqual(['tutorial-grove', 'desert-outpost']);
+      expect(persisted.bossesDefeated).toEqual(['swarm-king']);
+    });
+
+    it('should not duplicate zone unlocks or boss defeats', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+      saveManager.unlockZone('desert-outpost');
+      saveManager.recordBossDefeat('swarm-king');
+      saveManager.recordBossDefeat('swarm-king');
+
+      expect(saveManager.getUnlockedZones()).toEqual(['tutorial-grove', 'desert-outpost']);
+      expect(saveManager.getData().bossesDefeated).toEqual(['swarm-king']);
+    });
+
+    it('should survive a reload with a fresh manager', () => {
+      saveManager.load();
+      saveManager.unlockZone('arctic-lab');
+
+      (SaveManager as any).instance = undefined;
+      const reloaded = SaveManager.getInstance();
+      reloaded.setStorage(storage);
+      reloaded.load();
+
+      expect(reloaded.isZoneUnlocked('arctic-lab')).toBe(true);
+    });
+  });
+
+  describe('zone clear times', () => {
+    it('should keep the fastest clear per zone', () => {
+      saveManager.load();
+
+      expect(saveManager.getBestClearTime('tutorial-grove')).toBeNull();
+      expect(saveManager.recordZoneClear('tutorial-grove', 300000)).toBe(true);
+      expect(saveManager.recordZoneClear('tutorial-grove', 320000)).toBe(false);
+      expect(saveManager.recordZoneClear('tutorial-grove', 250000)).toBe(true);
+
+      expect(saveManager.getBestClearTime('tutorial-grove')).toBe(250000);
+      expect(JSON.parse(storage.read(SAVE_KEY)!).zones.bestClearTimes).toEqual({ 'tutorial-grove': 250000 });
+    });
+
+    it('should keep clear times when importing a progress code', () => {
+      saveManager.load();
+      const code = saveManager.exportProgressCode();
+      saveManager.recordZoneClear('tutorial-grove', 300000);
+
+      saveManager.importProgressCode(code);
+
+      expect(saveManager.getBestClearTime('tutorial-grove')).toBe(300000);
+    });
+  });
+
+  describe('survival leaderboard', () => {
+    const run = (survivalTime: number) => ({
+      survivalTime,
+      enemiesKilled: 100,
+      bossesDefeated: 0,
+      characterId: 'br-br-patapim',
+      date: 0
+    });
+
+    it('should rank runs longest first and report their place', () => {
+      saveManager.load();
+
+      expect(saveManager.recordSurvivalRun(run(120000))).toBe(1);
+      expect(saveManager.recordSurvivalRun(run(300000))).toBe(1);
+      expect(saveManager.recordSurvivalRun(run(200000))).toBe(2);
+
+      expect(saveManager.getSurvivalLeaderboard().map(record => record.survivalTime)).toEqual([300000, 200000, 120000]);
+      expect(JSON.parse(storage.read(SAVE_KEY)!).survivalLeaderboard).toHaveLength(3);
+    });
+
+    it('should only keep the top runs', () => {
+      saveManager.load();
+      for (let i = 1; i <= 10; i++) {
+        saveManager.recordSurvivalRun(run(i * 60000));
+      }
+
+      expect(saveManager.recordSurvivalRun(run(30000))).toBeNull();
+      expect(saveManager.recordSurvivalRun(run(90000))).toBe(10);
+
+      const leaderboard = saveManager.getSurvivalLeaderboard();
+      expect(leaderboard).toHaveLength(10);
+      expect(leaderboard[9].survivalTime).toBe(90000);
+    });
+  });
+
+  describe('lifetime stats', () => {
+    it('should accumulate run summaries', () => {
+      saveManager.load();
+      saveManager.recordRun({ survivalTime: 60000, enemiesKilled: 40, damageDealt: 512.6, totalXP: 90 });
+      saveManager.recordRun({ survivalTime: 30000, enemiesKilled: 10, damageDealt: 100, totalXP: 20 });
+
+      const stats = saveManager.getData().stats;
+      expect(stats.runsPlayed).toBe(2);
+      expect(stats.totalKills).toBe(50);
+      expect(stats.totalDamageDealt).toBe(613);
+      expect(stats.totalXP).toBe(110);
+      expect(stats.totalPlayTime).toBe(90000);
+      expect(stats.bestSurvivalTime).toBe(60000);
+    });
+
+    it('should count upgrade picks', () => {
+      saveManager.load();
+      saveManager.recordUpgradePicked('kickForce');
+      saveManager.recordUpgradePicked('kickForce');
+      saveManager.recordUpgradePicked('armor');
+
+      expect(saveManager.getData().stats.upgradesPicked).toEqual({ kickForce: 2, armor: 1 });
+    });
+
+    it('should track best combo and critical kills', () => {
+      saveManager.load();
+      saveManager.recordRun({ survivalTime: 1000, enemiesKilled: 5, damageDealt: 10, totalXP: 3, bestCombo: 12, criticalKills: 4 });
+      saveManager.recordRun({ survivalTime: 1000, enemiesKilled: 5, damageDealt: 10, totalXP: 3, bestCombo: 7, criticalKills: 3 });
+
+      const stats = saveManager.getData().stats;
+      expect(stats.bestCombo).toBe(12);
+      expect(stats.criticalKills).toBe(7);
+    });
+  });
+
+  describe('character unlock conditions', () => {
+    it('should unlock a character for a fast enough zone clear and persist it', () => {
+      const onCharacterUnlocked = jest.fn();
+      saveManager.load();
+      saveManager.onCharacterUnlocked = onCharacterUnlocked;
+
+      saveManager.recordZoneClear('tutorial-grove', 6 * 60 * 1000);
+      expect(onCharacterUnlocked).not.toHaveBeenCalled();
+
+      saveManager.recordZoneClear('tutorial-grove', 4 * 60 * 1000);
+      expect(onCharacterUnlocked).toHaveBeenCalledWith('lirili-larila');
+    });
+
+    it('should unlock from lifetime critical kills across runs', () => {
+      saveManager.load();
+
+      saveManager.recordRun({ survivalTime: 1000, enemiesKilled: 80, damageDealt: 10, totalXP: 3, criticalKills: 60 });
+      expect(CharacterManager.getInstance().isCharacterUnlocked('cappuccino-assassino')).toBe(false);
+
+      saveManager.recordRun({ survivalTime: 1000, enemiesKilled: 80, damageDealt: 10, totalXP: 3, criticalKills: 40 });
+      expect(CharacterManager.getInstance().isCharacterUnlocked('cappuccino-assassino')).toBe(true);
+      expect(saveManager.getData().characters.unlocked).toContain('cappuccino-assassino');
+    });
+
+    it('should unlock boss characters when the boss defeat is recorded', () => {
+      saveManager.load();
+      saveManager.recordBossDefeat('desert-bomber');
+
+      expect(saveManager.getData().characters.unlocked).toContain('bombardiro-crocodilo');
+    });
+  });
+
+  describe('settings', () => {
+    it('should persist setting changes', () => {
+      saveManager.load();
+      saveManager.updateSettings({ soundEnabled: false });
+
+      expect(saveManager.getSettings()).toEqual({ soundEnabled: false, volume: 0.4 });
+      expect(JSON.parse(storage.read(SAVE_KEY)!).settings.soundEnabled).toBe(false);
+    });
+
+    it('should clamp volume', () => {
+      saveManager.load();
+      saveManager.updateSettings({ volume: 5 });
+
+      expect(saveManager.getSettings().volume).toBe(1);
+    });
+  });
+
+  describe('progress codes', () => {
+    it('should carry unlocks and settings to another device', () => {
+      saveManager.load();
+      CharacterManager.getInstance().unlockCharacter('bombardiro-crocodilo');
+      CharacterManager.getInstance().setCurrentCharacter('bombardiro-crocodilo');
+      saveManager.unlockZone('desert-outpost');
+      saveManager.recordBossDefeat('swarm-king');
+      saveManager.updateSettings({ volume: 0.8 });
+      const code = saveManager.exportProgressCode();
+
+      // Fresh device
+      (SaveManager as any).instance = undefined;
+      (CharacterManager as any).instance = undefined;
+      const otherDevice = SaveManager.getInstance();
+      otherDevice.setStorage(new MemoryStorageBackend());
+      otherDevice.load();
+
+      otherDevice.importProgressCode(code);
+
+      expect(otherDevice.isZoneUnlocked('desert-outpost')).toBe(true);
+      expect(otherDevice.isBossDefeated('swarm-king')).toBe(true);
+      expect(otherDevice.getSettings().volume).toBe(0.8);
+      expect(CharacterManager.getInstance().getCurrentCharacter().config.id).toBe('bombardiro-crocodilo');
+    });
+
+    it('should keep local lifetime stats when importing', () => {
+      saveManager.load();
+      const code = saveManager.exportProgressCode();
+      saveManager.recordRun({ survivalTime: 1000, enemiesKilled: 5, damageDealt: 10, totalXP: 3 });
+
+      saveManager.importProgressCode(code);
+
+      expect(saveManager.getData().stats.runsPlayed).toBe(1);
+    });
+
+    it('should leave progress untouched when a code is rejected', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+      const code = saveManager.exportProgressCode();
+
+      expect(() => saveManager.importProgressCode(code.slice(0, -1) + 'x')).toThrow(ProgressCodeError);
+      expect(saveManager.isZoneUnlocked('desert-outpost')).toBe(true);
+    });
+  });
+
+  describe('reset', () => {
+    it('should wipe persisted progress', () => {
+      saveManager.load();
+      saveManager.unlockZone('desert-outpost');
+
+      saveManager.reset();
+
+      expect(storage.read(SAVE_KEY)).toBeNull();
+      expect(saveManager.isZoneUnlocked('desert-outpost')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { migrateSave, detectSaveVersion, SAVE_MIGRATIONS, SaveMigrationError } from '../SaveMigrations';
+import { SAVE_VERSION, createDefaultSaveData, createDefaultSettings, validateSaveData } from '../SaveSchema';
+import saveV0 from './fixtures/save-v0.json';
+import saveV1 from './fixtures/save-v1.json';
+import saveV2 from './fixtures/save-v2.json';
+import saveV3 from './fixtures/save-v3.json';
+import saveV4 from './fixtures/save-v4.json';
+import saveV5 from './fixtures/save-v5.json';
+import saveV1UnknownIds from './fixtures/save-v1-unknown-ids.json';
+
+// Every historical save version must have a fixture here
+const FIXTURES_BY_VERSION: Record<number, any> = {
+  0: saveV0,
+  1: saveV1,
+  2: saveV2,
+  3: saveV3,
+  4: saveV4,
+  5: saveV5
+};
+
+describe('SaveMigrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('migration chain', () => {
+    it('should have a fixture for every historical version', () => {
+      for (let version = 0; version <= SAVE_VERSION; version++) {
+        expect(FIXTURES_BY_VERSION[version]).toBeDefined();
+      }
+    });
+
+    it('should have a migration for every version below the current one', () => {
+      for (let version = 0; version < SAVE_VERSION; version++) {
+        expect(SAVE_MIGRATIONS[version]).toBeDefined();
+      }
+    });
+
+    it.each(Object.keys(FIXTURES_BY_VERSION).map(Number))(
+      'should migrate a version %i fixture to the current schema',
+      (version) => {
+        const fixture = JSON.parse(JSON.stringify(FIXTURES_BY_VERSION[version]));
+
+        const migrated = migrateSave(fixture);
+
+        expect(migrated.version).toBe(SAVE_VERSION);
+        expect(validateSaveData(migrated)).toEqual(migrated);
+      }
+    );
+  });
+
+  describe('version detection', () => {
+    it('should detect legacy character-only saves as version 0', () => {
+      expect(detectSaveVersion(saveV0)).toBe(0);
+    });
+
+    it('should read the explicit version field', () => {
+      expect(detectSaveVersion(saveV1)).toBe(1);
+      expect(detectSaveVersion(saveV2)).toBe(2);
+      expect(detectSaveVersion(saveV3)).toBe(3);
+      expect(detectSaveVersion(saveV4)).toBe(4);
+      expect(detectSaveVersion(saveV5)).toBe(5);
+    });
+
+    it('should reject unrecognised data', () => {
+      expect(() => detectSaveVersion({ foo: 'bar' })).toThrow(SaveMigrationError);
+      expect(() => detectSaveVersion(null)).toThrow(SaveMigrationError);
+      expect(() => detectSaveVersion('save')).toThrow(SaveMigrationError);
+    });
+
+    it('should reject saves from a newer game version', () => {
+      expect(() => migrateSave({ ...saveV5, version: SAVE_VERSION + 1 })).toThrow(SaveMigrationError);
+    });
+  });
+
+  describe('v0 -> v1', () => {
+    it('should carry over character progress and default everything else', () => {
+      const migrated = migrateSave(saveV0);
+
+      expect(migrated.characters).toEqual({
+        unlocked: ['br-br-patapim', 'chimpanzini-bananini'],
+        selected: 'chimpanzini-bananini'
+      });
+      expect(migrated.zones).toEqual(createDefaultSaveData().zones);
+      expect(migrated.stats).toEqual(createDefaultSaveData().stats);
+    });
+  });
+
+  describe('v1 -> v2', () => {
+    it('should keep existing progress and add default settings', () => {
+      const migrated = SAVE_MIGRATIONS[1](saveV1);
+
+      expect(migrated).toEqual({ ...saveV1, version: 2, settings: createDefaultSettings() });
+    });
+  });
+
+  describe('v2 -> v3', () => {
+    it('should start every zone without a best clear time', () => {
+      const migrated = SAVE_MIGRATIONS[2](saveV2);
+
+      expect(migrated.version).toBe(3);
+      expect(migrated.zones).toEqual({ unlocked: saveV2.zones.unlocked, bestClearTimes: {} });
+    });
+  });
+
+  describe('v3 -> v4', () => {
+    it('should start the unlock condition stats at zero', () => {
+      const migrated = SAVE_MIGRATIONS[3](saveV3);
+
+      expect(migrated.version).toBe(4);
+      expect(migrated.stats).toEqual({ ...saveV3.stats, bestCombo: 0, criticalKills: 0 });
+    });
+  });
+
+  describe('v4 -> v5', () => {
+    it('should start with an empty survival leaderboard', () => {
+      const migrated = SAVE_MIGRATIONS[4](saveV4);
+
+      expect(migrated).toEqual({ ...saveV4, version: 5, survivalLeaderboard: [] });
+    });
+  });
+
+  describe('validation', () => {
+    it('should keep a valid current save unchanged', () => {
+      expect(migrateSave(saveV5)).toEqual(saveV5);
+    });
+
+    it('should drop malformed survival records and keep the rest longest first', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      const [best, second] = saveV5.survivalLeaderboard;
+
+      const migrated = validateSaveData({
+        ...saveV5,
+        survivalLeaderboard: [second, { ...best, characterId: 'sahur-impostor' }, { survivalTime: 'forever' }, best]
+      });
+
+      expect(migrated.survivalLeaderboard).toEqual([best, second]);
+    });
+
+    it('should drop best clear times for unknown zones or invalid times', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      const migrated = validateSaveData({
+        ...saveV5,
+        zones: { unlocked: ['tutorial-grove'], bestClearTimes: { 'tutorial-grove': -1, 'volcano-depths': 5000 } }
+      });
+
+      expect(migrated.zones.bestClearTimes).toEqual({});
+    });
+
+    it('should clamp settings into range', () => {
+      const migrated = validateSaveData({ ...saveV5, settings: { soundEnabled: 'yes', volume: 3 } });
+
+      expect(migrated.settings).toEqual({ soundEnabled: true, volume: 1 });
+    });
+
+    it('should drop unknown ids with a warning instead of throwing', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const migrated = migrateSave(saveV1UnknownIds);
+
+      expect(migrated.characters.unlocked).toEqual(['br-br-patapim', 'tralalero-tralala']);
+      expect(migrated.characters.selected).toBe('br-br-patapim');
+      expect(migrated.zones.unlocked).toEqual(['tutorial-grove']);
+      expect(migrated.bossesDefeated).toEqual(['swarm-king']);
+      expect(migrated.stats.upgradesPicked).toEqual({ kickForce: 2 });
+      expect(warnSpy).toHaveBeenCalled();
+    });
+
+    it('should always keep the default character and zone unlocked', () => {
+      const migrated = validateSaveData({ characters: { unlocked: [] }, zones: { unlocked: [] } });
+
+      expect(migrated.characters.unlocked).toEqual(['br-br-patapim']);
+      expect(migrated.zones.unlocked).toEqual(['tutorial-grove']);
+    });
+
+    it('should reset malformed stats to zero', () => {
+      const migrated = validateSaveData({
+        ...saveV5,
+        stats: { runsPlayed: 'many', totalKills: -4, totalXP: NaN, upgradesPicked: null }
+      });
+
+      expect(migrated.stats).toEqual(createDefaultSaveData().stats);
+    });
+  });
+});
@@ -4,6 +4,8 @@ import { WEAPON_UPGRADES, hasWeapon, unlockWeapon } from '../../config/weaponUpg
 
 // Mock dependencies
 jest.mock('../../config/upgrades', () => ({
+  ...jest.requireActual('../../config/upgrades'),
+  PITY_RULES: [],
   UPGRADES: {
     damage: {
       id: 'damage',
@@ -35,45 +37,17 @@ describe('UpgradeManager - Potential Bugs', () => {
   let upgradeManager: UpgradeManager;
 
   beforeEach(() => {
-    // Clear singleton
-    (UpgradeManager as any).instance = undefined;
     jest.clearAllMocks();
-    upgradeManager = UpgradeManager.getInstance();
+    upgradeManager = new UpgradeManager();
   });
 
-  describe('singleton bugs', () => {
-    it('BUG: singleton can be corrupted by prototype manipulation', () => {
-      const instance1 = UpgradeManager.getInstance();
-      
-      // Malicious code could do this:
-      (UpgradeManager as any).instance = null;
-      
-      const instance2 = UpgradeManager.getInstance();
-      
-      // Different instances! State lost!
-      expect(instance1).not.toBe(instance2);
-      
-      // Player loses all upgrades mid-game!
-    });
-
-    it('BUG: race condition in getInstance() with concurrent calls', () => {
-      (UpgradeManager as any).instance = undefined;
-      
-      const instances: UpgradeManager[] = [];
-      const promises: Promise<void>[] = [];
+  describe('run isolation', () => {
+    it('should not leak upgrades from a previous run', () => {
+      upgradeManager.applyUpgrade('kickForce');
       
-      // Simulate concurrent calls
-      for (let i = 0; i < 10; i++) {
-        promises.push(new Promise(resolve => {
-          setTimeout(() => {
-            instances.push(UpgradeManager.getInstance());
-            resolve();
-          }, 0);
-        }));
-      }
+      const nextRun = new UpgradeManager();
       
-      // In theory all should be same instance
-      // But constructor isn't atomic!
+      expect(nextRun.getUpgradeLevel('kickForce')).toBe(0);
     });
   });
 
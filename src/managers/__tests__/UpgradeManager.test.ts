@@ -1,9 +1,12 @@
 import { UpgradeManager } from '../UpgradeManager';
+import { Weapon } from '../../entities/Weapon';
 import { UPGRADES, UpgradeDefinition } from '../../config/upgrades';
 import { WEAPON_UPGRADES, hasWeapon, unlockWeapon } from '../../config/weaponUpgrades';
 
 // Mock dependencies
 jest.mock('../../config/upgrades', () => ({
+  ...jest.requireActual('../../config/upgrades'),
+  PITY_RULES: [],
   UPGRADES: {
     damage: {
       id: 'damage',
@@ -52,31 +55,30 @@ describe('UpgradeManager', () => {
   let upgradeManager: UpgradeManager;
 
   beforeEach(() => {
-    // Clear singleton instance
-    (UpgradeManager as any).instance = undefined;
-    
     // Reset all mocks
     jest.clearAllMocks();
     (hasWeapon as jest.Mock).mockReturnValue(false);
     
-    // Get instance
-    upgradeManager = UpgradeManager.getInstance();
+    // Fresh manager per test - one per run in the game
+    upgradeManager = new UpgradeManager();
   });
 
-  describe('singleton pattern', () => {
-    it('should return same instance on multiple calls', () => {
-      const instance1 = UpgradeManager.getInstance();
-      const instance2 = UpgradeManager.getInstance();
+  describe('per-run instances', () => {
+    it('should keep separate runs independent', () => {
+      const otherRun = new UpgradeManager();
+      upgradeManager.applyUpgrade('damage');
       
-      expect(instance1).toBe(instance2);
+      expect(upgradeManager.getUpgradeLevel('damage')).toBe(1);
+      expect(otherRun.getUpgradeLevel('damage')).toBe(0);
     });
 
-    it('should maintain state across getInstance calls', () => {
-      const instance1 = UpgradeManager.getInstance();
-      instance1.applyUpgrade('damage');
+    it('should offer the same upgrades for the same random source', () => {
+      const seeded = () => new UpgradeManager(() => 0.42);
       
-      const instance2 = UpgradeManager.getInstance();
-      expect(instance2.getUpgradeLevel('damage')).toBe(1);
+      const first = seeded().getRandomUpgrades(3).map(upgrade => upgrade.id);
+      const second = seeded().getRandomUpgrades(3).map(upgrade => upgrade.id);
+      
+      expect(first).toEqual(second);
     });
   });
 
@@ -226,6 +228,47 @@ describe('UpgradeManager', () => {
     });
   });
 
+  describe('reroll, banish and skip charges', () => {
+    it('should start without charges and spend them one at a time', () => {
+      expect(upgradeManager.useCharge('reroll')).toBe(false);
+
+      upgradeManager.addCharges('reroll', 2);
+
+      expect(upgradeManager.useCharge('reroll')).toBe(true);
+      expect(upgradeManager.getCharges('reroll')).toBe(1);
+      expect(upgradeManager.getCharges('skip')).toBe(0);
+    });
+
+    it('should need a charge to banish', () => {
+      expect(upgradeManager.banish('damage')).toBe(false);
+      expect(upgradeManager.isBanished('damage')).toBe(false);
+
+      upgradeManager.addCharges('banish');
+
+      expect(upgradeManager.banish('damage')).toBe(true);
+      expect(upgradeManager.getCharges('banish')).toBe(0);
+    });
+
+    it('should never offer a banished upgrade again', () => {
+      upgradeManager.addCharges('banish');
+      upgradeManager.banish('damage');
+
+      for (let i = 0; i < 20; i++) {
+        expect(upgradeManager.getRandomUpgrades(3).map(u => u.id)).not.toContain('damage');
+      }
+    });
+
+    it('should clear charges and banishes on reset', () => {
+      upgradeManager.addCharges('banish', 2);
+      upgradeManager.banish('damage');
+
+      upgradeManager.reset();
+
+      expect(upgradeManager.isBanished('damage')).toBe(false);
+      expect(upgradeManager.getCharges('banish')).toBe(0);
+    });
+  });
+
   describe('getUpgradeStats', () => {
     it('should return current upgrade levels', () => {
       upgradeManager.applyUpgrade('damage');
@@ -266,15 +309,16 @@ describe('UpgradeManager', () => {
   });
 
   describe('integration with weapon system', () => {
-    it('should work with global window.upgradeManager', () => {
-      // Set global reference (as used by Weapon class)
-      (window as any).upgradeManager = upgradeManager;
+    it('should drive weapon stats when passed to them', () => {
+      const weapon = new Weapon({ damage: 10, fireRate: 2, projectileSpeed: 300, range: 150, behavior: {} as any });
       
       upgradeManager.applyUpgrade('damage');
       upgradeManager.applyUpgrade('fireRate');
       
-      expect((window as any).upgradeManager.getUpgradeLevel('damage')).toBe(1);
-      expect((window as any).upgradeManager.getUpgradeLevel('fireRate')).toBe(1);
+      expect(weapon.getDamage(upgradeManager)).toBeCloseTo(11);
+      weapon.updateFireTime(0);
+      expect(weapon.canFire(450, upgradeManager)).toBe(true); // 2 * 1.15 shots/s = 435ms interval
+      expect(weapon.canFire(450)).toBe(false);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { UpgradeManager } from '../UpgradeManager';
+import { PITY_RULES, getOfferWeight } from '../../config/upgrades';
+
+describe('Weighted upgrade offers', () => {
+  let upgradeManager: UpgradeManager;
+
+  const total = (probabilities: Map<string, number>) =>
+    [...probabilities.values()].reduce((sum, probability) => sum + probability, 0);
+
+  beforeEach(() => {
+    upgradeManager = new UpgradeManager(() => 0.5);
+  });
+
+  it('should scale rare and epic weights with luck but leave commons alone', () => {
+    expect(getOfferWeight({ rarity: 'common' }, 2)).toBe(100);
+    expect(getOfferWeight({ rarity: 'epic' }, 2)).toBe(30);
+    expect(getOfferWeight({ rarity: 'rare', weight: 50 })).toBe(50);
+  });
+
+  it('should deal commons more often than epics', () => {
+    const probabilities = upgradeManager.getOfferProbabilities(3);
+
+    expect(total(probabilities)).toBeCloseTo(3);
+    expect(probabilities.get('moveSpeed')!).toBeGreaterThan(probabilities.get('explosiveChains')!);
+  });
+
+  it('should make epics more likely with luck', () => {
+    const before = upgradeManager.getOfferProbabilities(3).get('groundPoundVariation')!;
+
+    for (let i = 0; i < 4; i++) {
+      upgradeManager.applyUpgrade('luck');
+    }
+
+    expect(upgradeManager.getLuck()).toBe(2);
+    expect(upgradeManager.getOfferProbabilities(3).get('groundPoundVariation')!).toBeGreaterThan(before);
+  });
+
+  it('should leave banished upgrades out of the odds', () => {
+    upgradeManager.addCharges('banish');
+    upgradeManager.banish('moveSpeed');
+
+    expect(upgradeManager.getOfferProbabilities(3).has('moveSpeed')).toBe(false);
+  });
+
+  it('should guarantee a technique unlock once the pity rule is due', () => {
+    const rule = PITY_RULES.find(pity => pity.id === 'techniqueUnlock')!;
+    upgradeManager['offersWithout'].set(rule.id, rule.afterOffers - 1);
+
+    const probabilities = upgradeManager.getOfferProbabilities(3);
+    const expectedTechniques = rule.upgradeIds.reduce((sum, id) => sum + (probabilities.get(id) || 0), 0);
+    expect(expectedTechniques).toBeGreaterThanOrEqual(1 - 1e-9); // At least one in every possible offer
+
+    const offer = upgradeManager.getRandomUpgrades(3).map(upgrade => upgrade.id);
+    expect(offer.some(id => rule.upgradeIds.includes(id))).toBe(true);
+    expect(upgradeManager['offersWithout'].get(rule.id)).toBe(0);
+  });
+
+  it('should count offers without a technique towards the pity rule', () => {
+    for (const id of ['uppercutVariation', 'spinningKickVariation', 'groundPoundVariation']) {
+      upgradeManager.addCharges('banish');
+      upgradeManager.banish(id);
+    }
+
+    upgradeManager.getRandomUpgrades(3);
+    upgradeManager.getRandomUpgrades(3);
+
+    expect(upgradeManager['offersWithout'].get('techniqueUnlock')).toBe(2);
+  });
+});
@@ -1,4 +1,5 @@
 import { Scene } from 'phaser';
+import { SaveManager } from '../managers/SaveManager';
 
 export class BootScene extends Scene {
   constructor() {
@@ -13,8 +14,11 @@ export class BootScene extends Scene {
     // Create placeholder graphics
     this.createPlaceholderGraphics();
     
-    // Start game scene
-    this.scene.start('GameScene');
+    // Restore persistent progress (character unlocks, zones, stats)
+    SaveManager.getInstance().load();
+    
+    // Main menu - zones or Endless Survival
+    this.scene.start('ModeSelectScene');
   }
 
   private createPlaceholderGraphics(): void {
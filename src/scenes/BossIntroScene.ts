@@ -0,0 +1,91 @@
+import { Scene } from 'phaser';
+
+export interface BossIntroData {
+  bossName: string;
+  bossTitle?: string;
+  zoneName: string;
+}
+
+const INTRO_DURATION = 2500;
+
+// Title card shown over the paused GameScene when a boss fight starts
+export class BossIntroScene extends Scene {
+  private introData!: BossIntroData;
+  private isClosing: boolean = false;
+
+  constructor() {
+    super({ key: 'BossIntroScene' });
+  }
+
+  init(data: BossIntroData): void {
+    this.introData = data;
+    this.isClosing = false;
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    const isMobile = (window as any).isMobile || false;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.6);
+
+    // Cinematic letterbox bars slide in
+    const barHeight = height * 0.15;
+    const topBar = this.add.rectangle(width / 2, -barHeight / 2, width, barHeight, 0x000000);
+    const bottomBar = this.add.rectangle(width / 2, height + barHeight / 2, width, barHeight, 0x000000);
+    this.tweens.add({ targets: topBar, y: barHeight / 2, duration: 300, ease: 'Power2' });
+    this.tweens.add({ targets: bottomBar, y: height - barHeight / 2, duration: 300, ease: 'Power2' });
+
+    const warning = this.add.text(width / 2, height / 2 - (isMobile ? 80 : 110), '⚠️ WARNING ⚠️', {
+      fontSize: isMobile ? '24px' : '32px',
+      fontFamily: 'Arial Black',
+      color: '#ff3333',
+      stroke: '#000000',
+      strokeThickness: 4
+    });
+    warning.setOrigin(0.5);
+    this.tweens.add({ targets: warning, alpha: 0.2, duration: 250, yoyo: true, repeat: -1 });
+
+    // Boss name slams in from the right
+    const name = this.add.text(width + 400, height / 2 - 20, this.introData.bossName.toUpperCase(), {
+      fontSize: isMobile ? '32px' : '52px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#ff0000',
+      strokeThickness: 8,
+      align: 'center',
+      wordWrap: { width: width * 0.9 }
+    });
+    name.setOrigin(0.5);
+    this.tweens.add({ targets: name, x: width / 2, duration: 450, delay: 200, ease: 'Back.easeOut' });
+
+    const subtitle = this.add.text(width / 2, height / 2 + (isMobile ? 30 : 45), this.introData.bossTitle || this.introData.zoneName, {
+      fontSize: isMobile ? '18px' : '24px',
+      fontFamily: 'Arial',
+      fontStyle: 'italic',
+      color: '#ffcc00',
+      stroke: '#000000',
+      strokeThickness: 3
+    });
+    subtitle.setOrigin(0.5);
+    subtitle.setAlpha(0);
+    this.tweens.add({ targets: subtitle, alpha: 1, duration: 400, delay: 650 });
+
+    this.cameras.main.shake(300, 0.01);
+
+    // Tap or press any key to skip
+    this.time.delayedCall(INTRO_DURATION, () => this.startFight());
+    this.time.delayedCall(500, () => {
+      this.input.once('pointerdown', () => this.startFight());
+      this.input.keyboard?.once('keydown', () => this.startFight());
+    });
+  }
+
+  private startFight(): void {
+    if (this.isClosing) return;
+    this.isClosing = true;
+
+    console.log(`⚔️ Boss fight: ${this.introData.bossName}`);
+    this.scene.resume('GameScene');
+    this.scene.stop();
+  }
+}
@@ -0,0 +1,335 @@
+import { Scene } from 'phaser';
+import { Character, CharacterConfig, CharacterManager } from '../entities/Character';
+import { SaveManager } from '../managers/SaveManager';
+import { KickStatPipeline, KickStats } from '../systems/KickStatPipeline';
+import { ABILITY_KEYS } from '../ui/AbilityHUD';
+import type { GameMode } from './ModeSelectScene';
+
+export interface CharacterSelectData {
+  zoneId?: string;
+  mode?: GameMode;
+}
+
+// Idle sheets for every character spriteKey - same files and frame sizes GameScene loads
+const PORTRAIT_SHEETS: Record<string, { path: string; frameWidth: number; frameHeight: number }> = {
+  'patapim-idle': { path: 'patapim-idle.png', frameWidth: 192, frameHeight: 192 },
+  'zombie-male-idle': { path: 'zombie-male-idle.png', frameWidth: 53, frameHeight: 64 },
+  'zombie-female-idle': { path: 'zombie-female-idle.png', frameWidth: 58, frameHeight: 64 },
+  'black-warrior-idle': { path: 'enemies/black-warrior-idle.png', frameWidth: 192, frameHeight: 192 },
+  'red-lancer-idle': { path: 'enemies/red-lancer-idle.png', frameWidth: 320, frameHeight: 320 },
+  'yellow-monk-idle': { path: 'enemies/yellow-monk-idle.png', frameWidth: 192, frameHeight: 192 }
+};
+
+const STAT_ROWS: { key: keyof KickStats; label: string; color: number }[] = [
+  { key: 'force', label: 'FORCE', color: 0xff6633 },
+  { key: 'speed', label: 'SPEED', color: 0x33ddff },
+  { key: 'range', label: 'RANGE', color: 0x66ff66 }
+];
+
+// Pick a character before the run - portraits, kick stat comparison, abilities and unlock requirements
+export class CharacterSelectScene extends Scene {
+  private zoneId!: string;
+  private mode: GameMode = 'zones';
+  private isMobile: boolean = false;
+  private characters: CharacterConfig[] = [];
+  private stats: Map<string, KickStats> = new Map();
+  private maxStats!: KickStats;
+  private selectedIndex: number = 0;
+  private cardFrames: Phaser.GameObjects.Graphics[] = [];
+  private details?: Phaser.GameObjects.Container;
+
+  constructor() {
+    super({ key: 'CharacterSelectScene' });
+  }
+
+  init(data: CharacterSelectData): void {
+    this.zoneId = data?.zoneId || 'tutorial-grove';
+    this.mode = data?.mode || 'zones';
+    this.cardFrames = [];
+    this.details = undefined;
+  }
+
+  preload(): void {
+    Object.entries(PORTRAIT_SHEETS).forEach(([key, sheet]) => {
+      if (this.textures.exists(key)) return;
+      this.load.spritesheet(key, sheet.path, { frameWidth: sheet.frameWidth, frameHeight: sheet.frameHeight });
+    });
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    this.isMobile = (window as any).isMobile || false;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a1a);
+
+    const title = this.add.text(width / 2, this.isMobile ? 30 : 50, 'SELECT CHARACTER', {
+      fontSize: this.isMobile ? '28px' : '42px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 6
+    });
+    title.setOrigin(0.5);
+
+    const characterManager = CharacterManager.getInstance();
+    this.characters = characterManager.getAllCharacters();
+
+    // Kick stats without upgrades, so the bars compare characters on equal footing
+    this.characters.forEach(config => {
+      const character = new Character(config);
+      this.stats.set(config.id, KickStatPipeline.combine(
+        KickStatPipeline.getCharacterStats(character),
+        KickStatPipeline.getPassiveStats(character)
+      ));
+    });
+    const allStats = Array.from(this.stats.values());
+    this.maxStats = {
+      force: Math.max(...allStats.map(stats => stats.force)),
+      speed: Math.max(...allStats.map(stats => stats.speed)),
+      range: Math.max(...allStats.map(stats => stats.range))
+    };
+
+    const currentId = characterManager.getCurrentCharacter().config.id;
+    this.selectedIndex = Math.max(0, this.characters.findIndex(config => config.id === currentId));
+
+    this.characters.forEach((config, index) => this.createCard(config, index));
+    this.createBackButton();
+    this.showCharacter(this.selectedIndex);
+
+    this.input.keyboard?.on('keydown-LEFT', () => this.moveSelection(-1));
+    this.input.keyboard?.on('keydown-RIGHT', () => this.moveSelection(1));
+    this.input.keyboard?.on('keydown-ENTER', () => this.startRun());
+    this.input.keyboard?.on('keydown-SPACE', () => this.startRun());
+    this.input.keyboard?.on('keydown-ESC', () => this.goBack());
+  }
+
+  private createCard(config: CharacterConfig, index: number): void {
+    const { width } = this.scale;
+    const total = this.characters.length;
+    const gap = this.isMobile ? 8 : 16;
+    const cardSize = Math.min(this.isMobile ? 90 : 130, (width - gap * (total + 1)) / total);
+    const rowWidth = total * cardSize + (total - 1) * gap;
+    const x = (width - rowWidth) / 2 + index * (cardSize + gap) + cardSize / 2;
+    const y = (this.isMobile ? 60 : 100) + cardSize / 2;
+    const unlocked = CharacterManager.getInstance().isCharacterUnlocked(config.id);
+
+    const container = this.add.container(x, y);
+
+    const frame = this.add.graphics();
+    container.add(frame);
+    this.cardFrames[index] = frame;
+
+    const portrait = this.add.sprite(0, -8, config.spriteKey, 0);
+    portrait.setScale((cardSize * 0.75) / Math.max(portrait.width, portrait.height));
+    if (!unlocked) {
+      portrait.setTint(0x000000); // Silhouette until unlocked
+    }
+    container.add(portrait);
+
+    const name = this.add.text(0, cardSize / 2 - 6, unlocked ? config.name : '🔒 ???', {
+      fontSize: this.isMobile ? '10px' : '12px',
+      fontFamily: 'Arial',
+      color: unlocked ? '#ffffff' : '#888888',
+      align: 'center',
+      wordWrap: { width: cardSize - 8 }
+    });
+    name.setOrigin(0.5, 1);
+    container.add(name);
+
+    // Locked cards stay tappable so their unlock requirement can be read
+    const hitArea = this.add.rectangle(0, 0, cardSize, cardSize, 0x000000, 0);
+    hitArea.setInteractive({ useHandCursor: !this.isMobile });
+    hitArea.on('pointerdown', () => {
+      if (this.selectedIndex === index && unlocked) {
+        this.startRun();
+      } else {
+        this.showCharacter(index);
+      }
+    });
+    container.add(hitArea);
+
+    frame.setData('size', cardSize);
+    frame.setData('unlocked', unlocked);
+  }
+
+  private drawCardFrames(): void {
+    this.cardFrames.forEach((frame, index) => {
+      const size: number = frame.getData('size');
+      const unlocked: boolean = frame.getData('unlocked');
+      const selected = index === this.selectedIndex;
+
+      frame.clear();
+      frame.fillStyle(unlocked ? 0x2a2a3a : 0x202020, 1);
+      frame.fillRoundedRect(-size / 2, -size / 2, size, size, 10);
+      frame.lineStyle(selected ? 4 : 2, selected ? 0xffdd00 : unlocked ? 0x666688 : 0x444444);
+      frame.strokeRoundedRect(-size / 2, -size / 2, size, size, 10);
+    });
+  }
+
+  private moveSelection(step: number): void {
+    const total = this.characters.length;
+    this.showCharacter((this.selectedIndex + step + total) % total);
+  }
+
+  private showCharacter(index: number): void {
+    this.selectedIndex = index;
+    this.drawCardFrames();
+    this.details?.destroy();
+
+    const { width, height } = this.scale;
+    const config = this.characters[index];
+    const unlocked = CharacterManager.getInstance().isCharacterUnlocked(config.id);
+    const top = this.isMobile ? 170 : 270;
+    const panelWidth = Math.min(width * 0.92, 900);
+    const columnWidth = this.isMobile ? panelWidth : panelWidth / 2 - 20;
+    const left = (width - panelWidth) / 2;
+
+    this.details = this.add.container(0, 0);
+
+    const heading = this.add.text(width / 2, top, `${config.name} - ${config.title}`, {
+      fontSize: this.isMobile ? '18px' : '26px',
+      fontFamily: 'Arial Black',
+      color: unlocked ? '#ffdd00' : '#888888',
+      stroke: '#000000',
+      strokeThickness: 4,
+      align: 'center',
+      wordWrap: { width: panelWidth }
+    });
+    heading.setOrigin(0.5, 0);
+    this.details.add(heading);
+
+    const description = this.add.text(width / 2, heading.y + heading.height + 6, config.description, {
+      fontSize: this.isMobile ? '13px' : '16px',
+      fontFamily: 'Arial',
+      color: '#cccccc',
+      align: 'center',
+      wordWrap: { width: panelWidth }
+    });
+    description.setOrigin(0.5, 0);
+    this.details.add(description);
+
+    const columnTop = description.y + description.height + (this.isMobile ? 12 : 24);
+    const statsHeight = this.createStatBars(config, left, columnTop, columnWidth);
+
+    const abilityX = this.isMobile ? left : left + panelWidth / 2 + 20;
+    const abilityY = this.isMobile ? columnTop + statsHeight + 12 : columnTop;
+    this.createAbilityList(config, abilityX, abilityY, columnWidth);
+
+    this.createStartButton(width / 2, height - (this.isMobile ? 40 : 60), unlocked, config.unlockRequirement);
+  }
+
+  // Returns the height used so the ability list can stack under it on mobile
+  private createStatBars(config: CharacterConfig, x: number, y: number, columnWidth: number): number {
+    const stats = this.stats.get(config.id)!;
+    const labelWidth = this.isMobile ? 60 : 80;
+    const barWidth = columnWidth - labelWidth - 50;
+    const barHeight = this.isMobile ? 12 : 16;
+    const rowHeight = barHeight + (this.isMobile ? 10 : 16);
+
+    const bars = this.add.graphics();
+    this.details!.add(bars);
+
+    STAT_ROWS.forEach((row, index) => {
+      const rowY = y + index * rowHeight;
+      const fill = stats[row.key] / this.maxStats[row.key];
+
+      const label = this.add.text(x, rowY, row.label, {
+        fontSize: this.isMobile ? '12px' : '15px',
+        fontFamily: 'Arial Black',
+        color: '#ffffff'
+      });
+      this.details!.add(label);
+
+      bars.fillStyle(0x333333, 1);
+      bars.fillRect(x + labelWidth, rowY + 2, barWidth, barHeight);
+      bars.fillStyle(row.color, 1);
+      bars.fillRect(x + labelWidth, rowY + 2, barWidth * fill, barHeight);
+      bars.lineStyle(1, 0x888888, 1);
+      bars.strokeRect(x + labelWidth, rowY + 2, barWidth, barHeight);
+
+      const value = this.add.text(x + labelWidth + barWidth + 8, rowY, `${Math.round(stats[row.key] * 100)}%`, {
+        fontSize: this.isMobile ? '12px' : '15px',
+        fontFamily: 'monospace',
+        color: '#ffffff'
+      });
+      this.details!.add(value);
+    });
+
+    return STAT_ROWS.length * rowHeight;
+  }
+
+  private createAbilityList(config: CharacterConfig, x: number, y: number, columnWidth: number): void {
+    const lines = config.specialAbilities.map((ability, slot) => {
+      const key = this.isMobile ? '' : `[${ABILITY_KEYS[slot] ?? '-'}] `;
+      return `${key}${ability.name} (${ability.cooldown / 1000}s)\n  ${ability.description}`;
+    });
+    if (config.passiveAbility) {
+      lines.push(`Passive: ${config.passiveAbility.name}\n  ${config.passiveAbility.description}`);
+    }
+    const charges = Object.entries(config.upgradeCharges ?? {}).map(([action, amount]) => `${amount} ${action}`);
+    if (charges.length > 0) {
+      lines.push(`Level-up perks: ${charges.join(', ')}`);
+    }
+
+    const text = this.add.text(x, y, lines.join('\n'), {
+      fontSize: this.isMobile ? '12px' : '14px',
+      fontFamily: 'Arial',
+      color: '#ffffff',
+      lineSpacing: this.isMobile ? 2 : 4,
+      wordWrap: { width: columnWidth }
+    });
+    this.details!.add(text);
+  }
+
+  private createStartButton(x: number, y: number, unlocked: boolean, unlockRequirement: string): void {
+    const label = unlocked ? 'START RUN' : `🔒 ${unlockRequirement}`;
+    const button = this.add.text(x, y, label, {
+      fontSize: this.isMobile ? '18px' : '26px',
+      fontFamily: 'Arial Black',
+      color: unlocked ? '#00ff00' : '#ff6666',
+      backgroundColor: '#000000',
+      padding: { x: 20, y: 10 },
+      stroke: '#000000',
+      strokeThickness: 3,
+      align: 'center',
+      wordWrap: { width: this.scale.width * 0.9 }
+    });
+    button.setOrigin(0.5);
+    this.details!.add(button);
+
+    if (!unlocked) return;
+
+    button.setInteractive({ useHandCursor: !this.isMobile });
+    button.on('pointerover', () => button.setScale(1.05));
+    button.on('pointerout', () => button.setScale(1));
+    button.on('pointerdown', () => this.startRun());
+  }
+
+  private createBackButton(): void {
+    const back = this.add.text(20, this.isMobile ? 20 : 30, this.mode === 'survival' ? '< MODES' : '< ZONES', {
+      fontSize: this.isMobile ? '16px' : '20px',
+      fontFamily: 'Arial Black',
+      color: '#aaaaaa'
+    });
+    back.setInteractive({ useHandCursor: !this.isMobile });
+    back.on('pointerdown', () => this.goBack());
+  }
+
+  private goBack(): void {
+    this.scene.start(this.mode === 'survival' ? 'ModeSelectScene' : 'ZoneSelectScene');
+  }
+
+  private startRun(): void {
+    const config = this.characters[this.selectedIndex];
+    const characterManager = CharacterManager.getInstance();
+    if (!characterManager.isCharacterUnlocked(config.id)) return;
+
+    if (characterManager.getCurrentCharacter().config.id !== config.id) {
+      characterManager.setCurrentCharacter(config.id);
+      SaveManager.getInstance().save();
+    }
+
+    console.log(`🦵 ${config.name} enters the fight`);
+    this.scene.start('GameScene', { zoneId: this.zoneId, mode: this.mode });
+  }
+}
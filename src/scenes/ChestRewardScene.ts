@@ -1,8 +1,10 @@
 import { Scene } from 'phaser';
+import type { UpgradeAction } from '../managers/UpgradeManager';
 
 interface ChestReward {
-  type: 'xp' | 'health' | 'upgrade' | 'weapon';
+  type: 'xp' | 'health' | 'upgrade' | 'weapon' | 'upgradeCharge';
   value: number;
+  action?: UpgradeAction; // Which level-up charge an upgradeCharge reward grants
   name: string;
   description: string;
   icon: string; // Color hex for now, could be sprite key later
@@ -229,6 +231,16 @@ export class ChestRewardScene extends Scene {
         graphics.fillRect(-6, 3, 12, 1);
         break;
         
+      case 'upgradeCharge':
+        // Dice for rerolls, seal for banishes and skips
+        graphics.fillStyle(0xFFFFFF, 1);
+        graphics.fillRoundedRect(-7, -7, 14, 14, 3);
+        graphics.fillStyle(reward.action === 'reroll' ? 0x000000 : 0x9370DB, 1);
+        graphics.fillCircle(-3, -3, 1.5);
+        graphics.fillCircle(0, 0, 1.5);
+        graphics.fillCircle(3, 3, 1.5);
+        break;
+        
       case 'weapon':
         // Weapon Icon
         graphics.fillStyle(0xC0C0C0, 1);
@@ -1,13 +1,23 @@
 import { Scene } from 'phaser';
 import { Player } from '../entities/Player';
 import { MovementSystem } from '../systems/MovementSystem';
-import { EncounterSystem } from '../systems/EncounterSystem';
+import { EncounterSystem, GameZone, BossConfig } from '../systems/EncounterSystem';
+import { Enemy } from '../entities/Enemy';
+import { Boss } from '../entities/Boss';
+import { KickableObject } from '../entities/KickableObject';
 import { CollisionSystem } from '../systems/CollisionSystem';
+import { SpawnSystem } from '../systems/SpawnSystem';
+import { ArenaSystem } from '../systems/ArenaSystem';
+import { BossHazardSystem } from '../systems/BossHazardSystem';
+import { EnemyArchetypeSystem } from '../systems/EnemyArchetypeSystem';
+import { AbilitySystem } from '../systems/AbilitySystem';
+import { loadZoneDefinitions, zoneToDefinition } from '../systems/ZoneLoader';
 import { WeaponSystem } from '../systems/WeaponSystem';
 import { PickupSystem } from '../systems/PickupSystem';
 import { WeaponEffectSystem } from '../systems/WeaponEffectSystem';
 import { GameConfig } from '../config/game';
-import { UpgradeManager } from '../managers/UpgradeManager';
+import { RunContext } from '../managers/RunContext';
+import { SaveManager } from '../managers/SaveManager';
 import { WeaponFactory } from '../weapons/WeaponFactory';
 import { VirtualJoystick } from '../mobile/VirtualJoystick';
 import { TouchInputManager } from '../mobile/TouchInputManager';
@@ -19,18 +29,34 @@ import { ENEMY_TYPES } from '../config/enemyTypes';
 import { ScreenShake } from '../utils/ScreenShake';
 import { ParticleEffects } from '../utils/ParticleEffects';
 import { DiscoveryChest } from '../entities/DiscoveryChest';
+import { ChestReward } from './ChestRewardScene';
+import type { GameMode } from './ModeSelectScene';
+import { AbilityHUD, ABILITY_KEYS } from '../ui/AbilityHUD';
 import { ProgressionBalanceTester } from '../tests/ProgressionBalanceTest';
 import { WeaponBalanceTester } from '../tests/WeaponBalanceTest';
+import { UpgradeOfferAnalyzer } from '../tests/UpgradeOfferAnalysis';
 
 export class GameScene extends Scene {
+  private runContext!: RunContext;
   private player!: Player;
   private movementSystem!: MovementSystem;
   private encounterSystem!: EncounterSystem;
+  private spawnSystem?: SpawnSystem; // Endless Survival only
+  private arenaSystem!: ArenaSystem;
+  private bossHazardSystem!: BossHazardSystem;
+  private enemyArchetypeSystem!: EnemyArchetypeSystem;
+  private abilitySystem!: AbilitySystem;
+  private abilityHUD!: AbilityHUD;
   private collisionSystem!: CollisionSystem;
   private weaponSystem!: WeaponSystem;
   private pickupSystem!: PickupSystem;
   private weaponEffectSystem!: WeaponEffectSystem;
   
+  // Zone picked in ZoneSelectScene, or Endless Survival
+  private zoneId: string = 'tutorial-grove';
+  private mode: GameMode = 'zones';
+  private survivalBossesDefeated: number = 0;
+  
   // UI elements
   private healthBar!: Phaser.GameObjects.Graphics;
   private healthText!: Phaser.GameObjects.Text;
@@ -48,6 +74,13 @@ export class GameScene extends Scene {
   private enemiesKilled: number = 0;
   private totalXP: number = 0;
   private damageDealt: number = 0;
+  // Run stats for character unlock conditions
+  private bestCombo: number = 0;
+  private criticalKills: number = 0;
+  
+  // Boss fight stats for the victory screen
+  private bossFightStats: { startTime: number; bossDamage: number; bestCombo: number; comboHits: number } | null = null;
+  private unlockedCharacterId: string | null = null;
   
   // Pause button
   private pauseButton!: Phaser.GameObjects.Container;
@@ -69,10 +102,28 @@ export class GameScene extends Scene {
   // Discovery objects
   private discoveryChest?: DiscoveryChest;
   
+  // Darkness wave event overlay
+  private darkness?: Phaser.GameObjects.Graphics;
+  private darknessLight?: Phaser.GameObjects.Graphics;
+  
   constructor() {
     super({ key: 'GameScene' });
   }
 
+  init(data: { zoneId?: string; mode?: GameMode }): void {
+    this.zoneId = data?.zoneId || 'tutorial-grove';
+    this.mode = data?.mode || 'zones';
+    this.spawnSystem = undefined;
+    this.survivalBossesDefeated = 0;
+    this.darkness = undefined; // Destroyed along with the last run's display list
+    this.darknessLight = undefined;
+    this.bossFightStats = null;
+    this.unlockedCharacterId = null;
+    this.bestCombo = 0;
+    this.criticalKills = 0;
+    this.isGameOver = false; // Victory screen leaves straight from a cleared run
+  }
+
   preload(): void {
     // Load player patapim spritesheets
     this.load.spritesheet('patapim-idle', 'patapim-idle.png', {
@@ -158,11 +209,31 @@ export class GameScene extends Scene {
       frameWidth: 192,
       frameHeight: 192
     });
+    
+    // Red Archer (Ranged Enemies) - 6 idle / 4 run frames of 192x192
+    this.load.spritesheet('red-archer-idle', 'enemies/red-archer-idle.png', {
+      frameWidth: 192,
+      frameHeight: 192
+    });
+    this.load.spritesheet('red-archer-run', 'enemies/red-archer-run.png', {
+      frameWidth: 192,
+      frameHeight: 192
+    });
+    
+    // Red Warrior (Shielder Enemies) - 8 idle / 6 run frames of 192x192
+    this.load.spritesheet('red-warrior-idle', 'enemies/red-warrior-idle.png', {
+      frameWidth: 192,
+      frameHeight: 192
+    });
+    this.load.spritesheet('red-warrior-run', 'enemies/red-warrior-run.png', {
+      frameWidth: 192,
+      frameHeight: 192
+    });
   }
 
   create(): void {
-    // Initialize upgrade manager globally
-    (window as any).upgradeManager = UpgradeManager.getInstance();
+    // Fresh upgrades, character, RNG and event bus for this run - handed to the systems that need them
+    this.runContext = new RunContext();
     
     // Check if mobile
     this.isMobile = (window as any).isMobile || false;
@@ -174,22 +245,42 @@ export class GameScene extends Scene {
     
     this.createInterestingBackground(worldWidth, worldHeight);
     
-    // Initialize player in tutorial grove area (not world center)
-    this.player = new Player(this, 600, 400); // Center of tutorial grove (1200x800)
+    // Zones come first so the player can spawn inside the selected one
+    this.encounterSystem = new EncounterSystem(this, this.runContext.events);
+    this.arenaSystem = new ArenaSystem(this);
+    this.bossHazardSystem = new BossHazardSystem(this);
+    this.enemyArchetypeSystem = new EnemyArchetypeSystem(this);
+    this.encounterSystem.restoreUnlockedZones(SaveManager.getInstance().getUnlockedZones());
+    if (!this.encounterSystem.getZone(this.zoneId)?.isUnlocked) {
+      console.warn(`Zone ${this.zoneId} is locked, falling back to Tutorial Grove`);
+      this.zoneId = 'tutorial-grove';
+    }
+    const startZone = this.encounterSystem.getZone(this.zoneId)!;
+    
+    // Zones start in the middle of the selected zone, survival in the open at world center
+    const start = this.mode === 'survival'
+      ? { x: worldWidth / 2, y: worldHeight / 2 }
+      : { x: startZone.bounds.x + startZone.bounds.width / 2, y: startZone.bounds.y + startZone.bounds.height / 2 };
+    this.player = new Player(this, start.x, start.y, this.runContext);
     
     // Initialize systems with larger world
     this.movementSystem = new MovementSystem();
-    this.encounterSystem = new EncounterSystem(this);
     this.collisionSystem = new CollisionSystem(worldWidth, worldHeight);
-    this.weaponSystem = new WeaponSystem(this);
-    this.pickupSystem = new PickupSystem(this);
+    this.weaponSystem = new WeaponSystem(this, this.runContext);
+    this.pickupSystem = new PickupSystem(this, this.runContext);
     this.weaponEffectSystem = new WeaponEffectSystem(this);
+    this.abilitySystem = new AbilitySystem(this, this.runContext.events);
     
     // Connect weapon effect system to weapon system
     this.weaponSystem.setWeaponEffectSystem(this.weaponEffectSystem);
     
     // Initialize audio
     this.soundManager = new SoundManager(this);
+    const settings = SaveManager.getInstance().getSettings();
+    this.soundManager.setVolume(settings.volume);
+    if (!settings.soundEnabled) {
+      this.soundManager.setEnabled(false);
+    }
     
     // Initialize visual effects
     this.screenShake = new ScreenShake(this);
@@ -198,24 +289,26 @@ export class GameScene extends Scene {
     // Connect visual effects to weapon system
     this.weaponSystem.setVisualEffects(this.screenShake, this.particleEffects);
     
-    // Set up weapon system callbacks
-    this.weaponSystem.onEnemyDeath = (x: number, y: number) => {
-      this.enemiesKilled++; // Track kills
-      
-      // SATISFYING KILL FEEDBACK!
-      this.screenShake.shake(3, 150); // Light screen shake
-      this.particleEffects.createDeathExplosion(x, y, 0xff0000);
-      this.particleEffects.createXPBurst(x, y);
-      this.soundManager.play('death', { volume: 0.2 });
-      
-      if (Math.random() <= GameConfig.progression.xpGemDropChance) {
-        // VS-style: gems sit still until player approaches
-        this.pickupSystem.spawnGem(x, y, 1);
+    // Kills, damage, combos and level ups arrive through the event bus
+    this.subscribeToGameEvents();
+    
+    this.bossHazardSystem.onPlayerHit = (_hazard, damage: number) => {
+      this.screenShake.shake(Math.min(12, 4 + damage / 4), 200);
+    };
+    
+    this.enemyArchetypeSystem.onPlayerHit = () => {
+      this.screenShake.shake(3, 100);
+    };
+    this.enemyArchetypeSystem.onSpawnEnemy = (x, y, enemyType, direction) => {
+      if (this.spawnSystem) {
+        this.spawnSystem.spawnEnemyAt(x, y, enemyType, direction);
+      } else {
+        this.encounterSystem.spawnEnemyAt(x, y, enemyType, direction);
       }
     };
     
-    this.weaponSystem.onDamageDealt = (damage: number) => {
-      this.damageDealt += damage; // Track total damage
+    this.abilitySystem.onAbilityUsed = () => {
+      this.screenShake.shake(5, 200);
     };
     
     // Set up camera to follow player in the larger world
@@ -234,11 +327,29 @@ export class GameScene extends Scene {
       worldHeight + margin * 2
     );
     
-    // Load initial zone (Tutorial Grove)
-    this.encounterSystem.loadZone('tutorial-grove');
+    // Load the selected zone, or start the wave timeline
+    if (this.mode === 'survival') {
+      this.startSurvival();
+    } else {
+      this.encounterSystem.loadZone(this.zoneId);
+    }
+    this.encounterSystem.onZoneCleared = (zone: GameZone) => {
+      this.onZoneCleared(zone);
+    };
+    this.encounterSystem.onBossFightStarted = (boss: BossConfig) => {
+      this.onBossFightStarted(boss);
+    };
+    this.encounterSystem.onBossDefeated = (_boss: BossConfig, unlockedCharacterId: string | null) => {
+      this.unlockedCharacterId = unlockedCharacterId;
+    };
+    // Other unlock conditions (fast clears, kill counts) are met when the run is recorded
+    SaveManager.getInstance().onCharacterUnlocked = (characterId: string) => {
+      this.unlockedCharacterId = this.unlockedCharacterId ?? characterId;
+    };
     
     // Create UI (but not pause button yet)
     this.createUI();
+    this.createAbilityControls();
     
     // Create mobile controls if needed
     if (this.isMobile) {
@@ -273,9 +384,13 @@ export class GameScene extends Scene {
     if (typeof window !== 'undefined') {
       (window as any).testProgression = () => ProgressionBalanceTester.quickBalanceCheck();
       (window as any).testWeapons = () => WeaponBalanceTester.quickWeaponTest();
+      (window as any).testUpgradeOffers = () => UpgradeOfferAnalyzer.quickOfferCheck(this.runContext.upgrades);
+      (window as any).testWaveEvent = (id: string) => this.spawnSystem?.startSpecialEvent(id, this.player.getPosition()) ?? false;
       console.log('🧪 Balance testing available!');
       console.log('  📈 testProgression() - Test XP and enemy balance');
       console.log('  ⚔️ testWeapons() - Test weapon DPS and effectiveness');
+      console.log('  🎲 testUpgradeOffers() - Odds of each upgrade on the next level-up');
+      console.log('  🌊 testWaveEvent(id) - Start a wave event now (Endless Survival only)');
     }
   }
 
@@ -695,9 +810,17 @@ export class GameScene extends Scene {
     this.updateUI();
     
     // Update systems
-    const enemies = this.encounterSystem.getActiveEnemies();
+    const enemies = this.getActiveEnemies();
+    this.abilitySystem.update(delta, this.player, enemies);
     this.movementSystem.update(delta, this.player, enemies);
-    this.encounterSystem.update(delta, this.player.getPosition());
+    if (this.spawnSystem) {
+      this.spawnSystem.update(this.survivalTime, this.player.getPosition());
+    } else {
+      this.encounterSystem.update(delta, this.player.getPosition());
+    }
+    this.arenaSystem.update(this.player, this.getBoss(), enemies, this.getActiveObjects());
+    this.bossHazardSystem.update(delta, this.player);
+    this.enemyArchetypeSystem.update(delta, this.player, enemies);
     this.collisionSystem.update(this.accumulatedTime, this.player, enemies);
     this.weaponSystem.update(delta, this.accumulatedTime, this.player, enemies);
     this.weaponEffectSystem.update(delta, this.player);
@@ -708,10 +831,10 @@ export class GameScene extends Scene {
       
       // Check if player is near chest
       if (this.discoveryChest.isPlayerNear(this.player.getPosition())) {
-        this.discoveryChest.collect(() => {
+        this.discoveryChest.collect((rewards) => {
           // Resume game when reward window closes
           this.scene.resume();
-          this.onDiscoveryChestCollected();
+          this.onDiscoveryChestCollected(rewards);
         });
       }
     }
@@ -721,19 +844,65 @@ export class GameScene extends Scene {
     if (xpCollected > 0) {
       this.soundManager.play('pickup', { volume: 0.3 });
       // Apply XP bonus upgrade
-      const upgradeManager = UpgradeManager.getInstance();
-      const xpMultiplier = 1 + (upgradeManager.getUpgradeLevel('xpBonus') * 0.2);
+      const xpMultiplier = 1 + (this.runContext.getUpgradeLevel('xpBonus') * 0.2);
       const actualXP = Math.floor(xpCollected * xpMultiplier);
       
-      const leveledUp = this.player.addExperience(actualXP);
+      this.player.addExperience(actualXP); // Level ups arrive as levelUp events
       this.totalXP += actualXP; // Track total XP
-      if (leveledUp) {
-        this.soundManager.play('levelup', { volume: 0.5 });
-        this.onLevelUp();
-      }
     }
   }
 
+  private subscribeToGameEvents(): void {
+    const events = this.runContext.events;
+    
+    events.on('enemyKilled', ({ x, y, isCritical }) => {
+      this.enemiesKilled++; // Track kills
+      if (isCritical) {
+        this.criticalKills++;
+      }
+      
+      // SATISFYING KILL FEEDBACK!
+      this.screenShake.shake(3, 150); // Light screen shake
+      this.particleEffects.createDeathExplosion(x, y, 0xff0000);
+      this.particleEffects.createXPBurst(x, y);
+      this.soundManager.play('death', { volume: 0.2 });
+      
+      if (Math.random() <= GameConfig.progression.xpGemDropChance) {
+        // VS-style: gems sit still until player approaches
+        this.pickupSystem.spawnGem(x, y, 1);
+      }
+    });
+    
+    events.on('damageDealt', ({ amount, target }) => {
+      this.damageDealt += amount; // Track total damage
+      if (this.bossFightStats && target instanceof Boss) {
+        this.bossFightStats.bossDamage += amount;
+      }
+    });
+    
+    // Track combos, and during boss fights for the victory screen
+    events.on('comboChanged', ({ count }) => {
+      if (count === 0) return;
+      this.bestCombo = Math.max(this.bestCombo, count);
+      if (!this.bossFightStats) return;
+      this.bossFightStats.comboHits++;
+      this.bossFightStats.bestCombo = Math.max(this.bossFightStats.bestCombo, count);
+    });
+    
+    events.on('levelUp', () => {
+      this.soundManager.play('levelup', { volume: 0.5 });
+      this.onLevelUp();
+    });
+    
+    events.on('bossPhaseChanged', () => {
+      this.screenShake.shake(8, 300);
+    });
+    
+    events.on('objectBroken', () => {
+      this.soundManager.play('hit', { volume: 0.3 });
+    });
+  }
+
   private createUI(): void {
     // Clean, minimal HUD design
     const padding = 16;
@@ -797,6 +966,26 @@ export class GameScene extends Scene {
     // REMOVED - Cleanup complete
   }
 
+  private createAbilityControls(): void {
+    this.abilityHUD = new AbilityHUD(this, this.player.getCharacterAbilities(), this.isMobile);
+    this.abilityHUD.onActivate = (slot: number) => this.useAbility(slot);
+    
+    ABILITY_KEYS.forEach((key, slot) => {
+      this.input.keyboard!.off(`keydown-${key}`); // Scene restarts keep old handlers
+      this.input.keyboard!.on(`keydown-${key}`, () => this.useAbility(slot));
+    });
+  }
+
+  private useAbility(slot: number): void {
+    if (this.isGameOver) return;
+    this.abilitySystem.useAbility(
+      slot,
+      this.player,
+      this.getActiveEnemies(),
+      this.getActiveObjects()
+    );
+  }
+
   private updateUI(): void {
     // Clean, minimal UI updates
     const padding = 16;
@@ -856,6 +1045,8 @@ export class GameScene extends Scene {
       this.xpBar.fillRect(1, xpY + 1, (this.scale.width - 2) * xpPercent, xpHeight - 2);
     }
     
+    this.abilityHUD.update(this.abilitySystem.getCooldowns(this.player));
+    
     // REMOVED - Keep UI minimal
   }
 
@@ -931,6 +1122,12 @@ export class GameScene extends Scene {
     this.input.keyboard!.on('keydown-ESC', () => {
       this.pauseGame();
     });
+
+    // F2 opens the zone editor overlay
+    this.input.keyboard!.off('keydown-F2');
+    this.input.keyboard!.on('keydown-F2', () => {
+      this.openZoneEditor();
+    });
   }
   
   private setupPauseButtonEvents(): void {
@@ -1009,7 +1206,7 @@ export class GameScene extends Scene {
       enemiesKilled: this.enemiesKilled,
       totalXP: this.totalXP,
       damageDealt: this.damageDealt,
-      activeEnemies: this.encounterSystem.getActiveEnemies().length
+      activeEnemies: this.getActiveEnemies().length
     };
     
     // Launch pause scene
@@ -1017,6 +1214,17 @@ export class GameScene extends Scene {
     this.scene.pause();
   }
 
+  private openZoneEditor(): void {
+    if (this.isGameOver || this.spawnSystem) return;
+
+    // Clean copy from zones.json - the live zone carries aggro states and save unlocks
+    const zone = loadZoneDefinitions().find(z => z.id === this.zoneId);
+    if (!zone) return;
+
+    this.scene.launch('ZoneEditorScene', { zone: zoneToDefinition(zone) });
+    this.scene.pause();
+  }
+
   private gameOver(): void {
     if (this.isGameOver) return; // Prevent multiple game over calls
     
@@ -1032,11 +1240,17 @@ export class GameScene extends Scene {
       this.healthRegenTimer = undefined;
     }
     
+    // Fold this run into the lifetime stats
+    this.recordRun();
+    const survivalPlace = this.spawnSystem ? this.recordSurvivalRun() : null;
+    const survivalLine = survivalPlace !== null ? `\nLeaderboard #${survivalPlace}!` : '';
+    
     // Show game over text
     const gameOverText = this.add.text(
       this.scale.width / 2,
       this.scale.height / 2,
-      `GAME OVER\nSurvived: ${Math.floor(this.survivalTime / 1000)}s\nPress R to restart`,
+      `GAME OVER\nSurvived: ${Math.floor(this.survivalTime / 1000)}s${survivalLine}\nPress R to restart\n` +
+        `Press Z for ${this.spawnSystem ? 'mode' : 'zone'} select`,
       {
         fontSize: '48px',
         color: '#ff0000',
@@ -1054,6 +1268,173 @@ export class GameScene extends Scene {
       this.isGameOver = false;
       this.scene.restart();
     });
+    this.input.keyboard!.once('keydown-Z', () => {
+      this.isGameOver = false;
+      this.scene.start(this.spawnSystem ? 'ModeSelectScene' : 'ZoneSelectScene');
+    });
+  }
+
+  // Wave timeline from SpawnSystem, with the zone bosses rotating through bossSpawn minutes
+  private startSurvival(): void {
+    const roster = this.encounterSystem.getAllZones()
+      .map(zone => zone.boss)
+      .filter((boss): boss is BossConfig => boss !== undefined);
+    this.spawnSystem = new SpawnSystem(this, this.runContext, roster);
+    
+    this.spawnSystem.onBossSpawned = (boss: BossConfig) => {
+      // Boss attacks become hazards that can actually hit the player
+      const bossEnemy = this.spawnSystem?.getBoss();
+      if (bossEnemy) {
+        bossEnemy.onSpawnHazard = spec => this.bossHazardSystem.spawn(spec);
+      }
+      this.screenShake.shake(10, 400);
+      this.showWaveBanner(`${boss.name} approaches!`, '#ff4444');
+    };
+    this.spawnSystem.onBossDefeated = (boss: BossConfig) => {
+      this.survivalBossesDefeated++;
+      this.bossHazardSystem.clear();
+      this.showWaveBanner(`${boss.name} defeated!`, '#ffd700');
+    };
+    this.spawnSystem.setEventEffects({
+      announce: (text: string, color: string) => this.showWaveBanner(text, color),
+      spawnGem: (x: number, y: number, value: number) => this.pickupSystem.spawnGem(x, y, value),
+      setDarkness: (radius: number | null) => this.setDarkness(radius)
+    });
+  }
+  
+  // Everything outside a circle around the player goes dark - null lifts it
+  private setDarkness(radius: number | null): void {
+    this.darkness?.destroy();
+    this.darknessLight?.destroy();
+    this.darkness = undefined;
+    this.darknessLight = undefined;
+    if (radius === null) return;
+    
+    const { width, height } = this.scale;
+    this.darknessLight = this.make.graphics({}, false);
+    this.darknessLight.fillStyle(0xffffff);
+    this.darknessLight.fillCircle(width / 2, height / 2, radius);
+    
+    const mask = this.darknessLight.createGeometryMask();
+    mask.setInvertAlpha(true);
+    
+    this.darkness = this.add.graphics();
+    this.darkness.fillStyle(0x000000, 0.92);
+    this.darkness.fillRect(0, 0, width, height);
+    this.darkness.setScrollFactor(0);
+    this.darkness.setDepth(90); // Over the world, under the HUD
+    this.darkness.setMask(mask);
+  }
+  
+  private showWaveBanner(message: string, color: string): void {
+    const banner = this.add.text(this.scale.width / 2, 140, message, {
+      fontSize: this.isMobile ? '26px' : '36px',
+      fontFamily: 'Arial Black',
+      color,
+      stroke: '#000000',
+      strokeThickness: 5
+    });
+    banner.setOrigin(0.5);
+    banner.setScrollFactor(0);
+    banner.setDepth(200);
+    
+    this.tweens.add({
+      targets: banner,
+      alpha: 0,
+      delay: 1500,
+      duration: 1000,
+      onComplete: () => banner.destroy()
+    });
+  }
+  
+  // The active mode's enemies, boss and kickable objects
+  private getActiveEnemies(): Enemy[] {
+    return this.spawnSystem ? this.spawnSystem.getActiveEnemies() : this.encounterSystem.getActiveEnemies();
+  }
+  
+  private getBoss(): Boss | null {
+    return this.spawnSystem ? this.spawnSystem.getBoss() : this.encounterSystem.getBoss();
+  }
+  
+  private getActiveObjects(): KickableObject[] {
+    return this.spawnSystem ? this.spawnSystem.getActiveObjects() : this.encounterSystem.getActiveObjects();
+  }
+
+  private onBossFightStarted(boss: BossConfig): void {
+    this.bossFightStats = {
+      startTime: this.survivalTime,
+      bossDamage: 0,
+      bestCombo: 0,
+      comboHits: 0
+    };
+    
+    // Close the arena ring around the fight
+    this.arenaSystem.activate(boss);
+    
+    // Boss attacks become hazards that can actually hit the player
+    const bossEnemy = this.encounterSystem.getBoss();
+    if (bossEnemy) {
+      bossEnemy.onSpawnHazard = spec => this.bossHazardSystem.spawn(spec);
+    }
+    
+    if (this.virtualJoystick) {
+      this.virtualJoystick.setEnabled(false);
+    }
+    
+    // Title card, resumes us when it's done
+    this.scene.launch('BossIntroScene', {
+      bossName: boss.name,
+      bossTitle: boss.title,
+      zoneName: this.encounterSystem.getZone(this.zoneId)?.name || ''
+    });
+    this.scene.pause();
+  }
+  
+  private onZoneCleared(zone: GameZone): void {
+    this.isGameOver = true; // Stop the run, the boss is down
+    this.arenaSystem.deactivate();
+    this.bossHazardSystem.clear();
+    this.enemyArchetypeSystem.clear();
+    this.abilitySystem.clear(this.player);
+    
+    const saveManager = SaveManager.getInstance();
+    const isNewBest = saveManager.recordZoneClear(zone.id, this.survivalTime);
+    this.recordRun();
+    
+    const stats = this.bossFightStats;
+    this.scene.launch('VictoryScene', {
+      zoneName: zone.name,
+      bossName: zone.boss?.name || '',
+      fightTime: stats ? this.survivalTime - stats.startTime : this.survivalTime,
+      clearTime: this.survivalTime,
+      isNewBest,
+      bossDamage: stats?.bossDamage || 0,
+      bestCombo: stats?.bestCombo || 0,
+      comboHits: stats?.comboHits || 0,
+      unlockedCharacterId: this.unlockedCharacterId
+    });
+    this.scene.pause();
+  }
+  
+  private recordSurvivalRun(): number | null {
+    return SaveManager.getInstance().recordSurvivalRun({
+      survivalTime: this.survivalTime,
+      enemiesKilled: this.enemiesKilled,
+      bossesDefeated: this.survivalBossesDefeated,
+      characterId: this.player.currentCharacter.config.id,
+      date: Date.now()
+    });
+  }
+  
+  private recordRun(): void {
+    SaveManager.getInstance().recordRun({
+      survivalTime: this.survivalTime,
+      enemiesKilled: this.enemiesKilled,
+      damageDealt: this.damageDealt,
+      totalXP: this.totalXP,
+      bestCombo: this.bestCombo,
+      criticalKills: this.criticalKills
+    });
   }
   
   private onLevelUp(): void {
@@ -1066,6 +1447,7 @@ export class GameScene extends Scene {
     
     // Launch upgrade scene
     this.scene.launch('UpgradeScene', {
+      upgrades: this.runContext.upgrades,
       onComplete: (upgrade: any) => {
         // Stop the upgrade scene
         this.scene.stop('UpgradeScene');
@@ -1074,6 +1456,9 @@ export class GameScene extends Scene {
         this.scene.resume();
         this.physics.resume();
         
+        // Skipped - nothing to apply
+        if (!upgrade) return;
+        
         // Apply upgrade effects
         this.applyUpgradeEffects(upgrade);
         
@@ -1087,13 +1472,19 @@ export class GameScene extends Scene {
     // Check if it's a weapon unlock
     if (upgrade.isWeaponUnlock) {
       // Add the new weapon to the weapon system
-      const weapon = WeaponFactory.createWeapon(upgrade.weaponType);
+      const weapon = WeaponFactory.createWeapon(upgrade.weaponType, this.runContext.getKickStats());
       this.weaponSystem.addWeapon(weapon);
       return;
     }
     
+    // Evolutions replace the base kick they grew out of
+    if (upgrade.isEvolution) {
+      this.weaponSystem.evolveWeapon(upgrade);
+      return;
+    }
+    
     // Handle specific upgrade effects that need immediate application
-    const upgradeManager = UpgradeManager.getInstance();
+    const upgradeManager = this.runContext.upgrades;
     
     switch(upgrade.id) {
       case 'maxHealth':
@@ -1114,6 +1505,12 @@ export class GameScene extends Scene {
         // Update weapon system for multi-shot
         this.weaponSystem.updateWeaponsForUpgrades();
         break;
+        
+      case 'kickSpeed':
+      case 'kickRange':
+        // Kick weapons bake speed and range in when built - rebuild the ones already equipped
+        this.weaponSystem.refreshKickWeapons();
+        break;
     }
     
     // Upgrade applied successfully
@@ -1122,7 +1519,7 @@ export class GameScene extends Scene {
   private healthRegenTimer?: Phaser.Time.TimerEvent;
   
   private startHealthRegen(): void {
-    const upgradeManager = UpgradeManager.getInstance();
+    const upgradeManager = this.runContext.upgrades;
     const regenLevel = upgradeManager.getUpgradeLevel('healthRegen');
     
     if (regenLevel > 0 && !this.healthRegenTimer) {
@@ -1170,7 +1567,7 @@ export class GameScene extends Scene {
     });
   }
   
-  private onDiscoveryChestCollected(): void {
+  private onDiscoveryChestCollected(rewards: ChestReward[]): void {
     // Apply the actual rewards (XP and health were already applied in the reward window)
     const rewardXP = this.player.experienceToNext * 0.5; // 50% of current level XP requirement
     this.player.addExperience(Math.floor(rewardXP));
@@ -1179,6 +1576,13 @@ export class GameScene extends Scene {
     // Health boost
     this.player.health = Math.min(this.player.maxHealth, this.player.health + 20);
     
+    // Reroll / banish / skip charges for the level-up screen
+    rewards.forEach(reward => {
+      if (reward.type === 'upgradeCharge' && reward.action) {
+        this.runContext.upgrades.addCharges(reward.action, reward.value);
+      }
+    });
+    
     // Discovery chest rewards applied successfully
   }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { Scene } from 'phaser';
+import { CharacterManager } from '../entities/Character';
+import { SaveManager } from '../managers/SaveManager';
+
+export type GameMode = 'zones' | 'survival';
+
+interface ModeCard {
+  mode: GameMode;
+  title: string;
+  color: number;
+  lines: string[];
+}
+
+const LEADERBOARD_ROWS = 5;
+
+// Main menu - zone campaign or Endless Survival
+export class ModeSelectScene extends Scene {
+  private isMobile: boolean = false;
+
+  constructor() {
+    super({ key: 'ModeSelectScene' });
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    this.isMobile = (window as any).isMobile || false;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a1a);
+
+    const title = this.add.text(width / 2, this.isMobile ? 40 : 70, 'SELECT MODE', {
+      fontSize: this.isMobile ? '32px' : '48px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 6
+    });
+    title.setOrigin(0.5);
+
+    const cards: ModeCard[] = [
+      {
+        mode: 'zones',
+        title: 'ZONES',
+        color: 0x2e7d32,
+        lines: ['Clear hand-built zones', 'Defeat their bosses', 'Unlock new characters']
+      },
+      {
+        mode: 'survival',
+        title: 'ENDLESS SURVIVAL',
+        color: 0x8e2424,
+        lines: ['Waves never stop', 'Bosses every few minutes', '', ...this.getLeaderboardLines()]
+      }
+    ];
+
+    cards.forEach((card, index) => {
+      this.createModeCard(card, index, cards.length);
+
+      // Number keys as a desktop shortcut
+      this.input.keyboard?.on(`keydown-${['ONE', 'TWO'][index]}`, () => this.selectMode(card.mode));
+    });
+  }
+
+  private createModeCard(card: ModeCard, index: number, total: number): void {
+    const { width, height } = this.scale;
+
+    let cardWidth: number;
+    let cardHeight: number;
+    let x: number;
+    let y: number;
+
+    if (this.isMobile) {
+      // Mobile: stacked list
+      const top = 80;
+      const gap = 16;
+      cardWidth = width * 0.9;
+      cardHeight = (height - top - gap * total) / total;
+      x = width / 2;
+      y = top + index * (cardHeight + gap) + cardHeight / 2;
+    } else {
+      // Desktop: side by side
+      const gap = 40;
+      cardWidth = Math.min(380, (width - gap * (total + 1)) / total);
+      cardHeight = 440;
+      const rowWidth = total * cardWidth + (total - 1) * gap;
+      x = (width - rowWidth) / 2 + index * (cardWidth + gap) + cardWidth / 2;
+      y = height / 2 + 40;
+    }
+
+    const container = this.add.container(x, y);
+
+    const background = this.add.graphics();
+    const drawCard = (highlight: boolean) => {
+      background.clear();
+      background.fillStyle(card.color, 1);
+      background.fillRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 12);
+      background.lineStyle(highlight ? 5 : 3, 0xffffff);
+      background.strokeRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 12);
+    };
+    drawCard(false);
+    container.add(background);
+
+    const name = this.add.text(0, -cardHeight / 2 + (this.isMobile ? 12 : 24), card.title, {
+      fontSize: this.isMobile ? '22px' : '28px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 4
+    });
+    name.setOrigin(0.5, 0);
+    container.add(name);
+
+    const details = this.add.text(0, this.isMobile ? 8 : 0, card.lines.join('\n'), {
+      fontSize: this.isMobile ? '13px' : '17px',
+      fontFamily: 'Arial',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+      lineSpacing: this.isMobile ? 1 : 6,
+      wordWrap: { width: cardWidth - 24 }
+    });
+    details.setOrigin(0.5, this.isMobile ? 0.4 : 0.5);
+    container.add(details);
+
+    const status = this.add.text(0, cardHeight / 2 - (this.isMobile ? 12 : 24), 'PLAY', {
+      fontSize: this.isMobile ? '18px' : '24px',
+      fontFamily: 'Arial Black',
+      color: '#00ff00',
+      stroke: '#000000',
+      strokeThickness: 4
+    });
+    status.setOrigin(0.5, 1);
+    container.add(status);
+
+    const hitArea = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x000000, 0);
+    hitArea.setInteractive({ useHandCursor: !this.isMobile });
+    container.add(hitArea);
+
+    hitArea.on('pointerover', () => {
+      drawCard(true);
+      container.setScale(1.03);
+    });
+    hitArea.on('pointerout', () => {
+      drawCard(false);
+      container.setScale(1);
+    });
+    hitArea.on('pointerdown', () => this.selectMode(card.mode));
+  }
+
+  private getLeaderboardLines(): string[] {
+    const leaderboard = SaveManager.getInstance().getSurvivalLeaderboard();
+    if (leaderboard.length === 0) {
+      return ['No survival runs yet'];
+    }
+
+    const characters = CharacterManager.getInstance().getAllCharacters();
+    const rows = leaderboard.slice(0, LEADERBOARD_ROWS).map((record, index) => {
+      const character = characters.find(c => c.id === record.characterId);
+      return `${index + 1}. ${this.formatTime(record.survivalTime)}  ${character ? character.name : record.characterId}`;
+    });
+    return ['🏆 Longest runs', ...rows];
+  }
+
+  private formatTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  private selectMode(mode: GameMode): void {
+    if (mode === 'zones') {
+      this.scene.start('ZoneSelectScene');
+      return;
+    }
+
+    console.log('⏳ Entering Endless Survival');
+    this.scene.start('CharacterSelectScene', { mode });
+  }
+}
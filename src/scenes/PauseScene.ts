@@ -1,10 +1,13 @@
 import { Scene } from 'phaser';
+import { SaveManager } from '../managers/SaveManager';
+import { ProgressCodeError } from '../managers/ProgressCode';
 
 export class PauseScene extends Scene {
   private stats: any = {};
   private background!: Phaser.GameObjects.Rectangle;
   private container!: Phaser.GameObjects.Container;
   private isMobile: boolean = false;
+  private progressStatusText!: Phaser.GameObjects.Text;
 
   constructor() {
     super({ key: 'PauseScene' });
@@ -64,6 +67,9 @@ export class PauseScene extends Scene {
     resumeText.setOrigin(0.5);
 
     this.container.add([resumeButton, hitArea, resumeText]);
+
+    // Export/import progress between devices
+    this.createProgressButtons(this.isMobile ? buttonY + 75 : 310);
     
     hitArea.on('pointerover', () => {
       resumeButton.clear();
@@ -192,6 +198,90 @@ export class PauseScene extends Scene {
     this.container.add([statsContainer, tipText]);
   }
 
+  private createProgressButtons(y: number): void {
+    const buttonWidth = this.isMobile ? 170 : 150;
+    const buttonHeight = this.isMobile ? 50 : 40;
+    const gap = 20;
+
+    this.createSmallButton(-(buttonWidth + gap) / 2, y, buttonWidth, buttonHeight, 'EXPORT CODE', 0x3366cc, () => {
+      this.exportProgress();
+    });
+    this.createSmallButton((buttonWidth + gap) / 2, y, buttonWidth, buttonHeight, 'IMPORT CODE', 0xcc6633, () => {
+      this.importProgress();
+    });
+
+    this.progressStatusText = this.add.text(0, y + buttonHeight / 2 + 20, '', {
+      fontSize: this.isMobile ? '16px' : '18px',
+      fontFamily: 'Arial',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+      wordWrap: { width: this.isMobile ? this.scale.width * 0.9 : 500 }
+    });
+    this.progressStatusText.setOrigin(0.5, 0);
+    this.container.add(this.progressStatusText);
+  }
+
+  private createSmallButton(x: number, y: number, width: number, height: number, label: string, color: number, onClick: () => void): void {
+    const button = this.add.graphics();
+    const draw = (fill: number) => {
+      button.clear();
+      button.fillStyle(fill);
+      button.fillRoundedRect(x - width/2, y - height/2, width, height, 8);
+      button.lineStyle(2, 0xffffff);
+      button.strokeRoundedRect(x - width/2, y - height/2, width, height, 8);
+    };
+    draw(color);
+
+    const hitArea = this.add.rectangle(x, y, width, height, 0x000000, 0);
+    hitArea.setInteractive({ useHandCursor: !this.isMobile });
+
+    const text = this.add.text(x, y, label, {
+      fontSize: this.isMobile ? '18px' : '16px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5);
+
+    hitArea.on('pointerover', () => draw(Phaser.Display.Color.IntegerToColor(color).lighten(15).color));
+    hitArea.on('pointerout', () => draw(color));
+    hitArea.on('pointerdown', onClick);
+
+    this.container.add([button, hitArea, text]);
+  }
+
+  private exportProgress(): void {
+    const code = SaveManager.getInstance().exportProgressCode();
+
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(code)
+        .then(() => this.showProgressStatus('Progress code copied to clipboard!', '#88ff88'))
+        .catch(() => window.prompt('Copy your progress code:', code));
+    } else {
+      // No clipboard API (older mobile browsers) - let the player copy it by hand
+      window.prompt('Copy your progress code:', code);
+    }
+  }
+
+  private importProgress(): void {
+    const code = window.prompt('Paste your progress code:');
+    if (!code) return;
+
+    try {
+      SaveManager.getInstance().importProgressCode(code);
+      this.showProgressStatus('Progress imported! New unlocks apply from your next run.', '#88ff88');
+    } catch (error) {
+      const message = error instanceof ProgressCodeError ? error.message : 'Progress code could not be imported';
+      this.showProgressStatus(message, '#ff6666');
+    }
+  }
+
+  private showProgressStatus(message: string, color: string): void {
+    this.progressStatusText.setText(message);
+    this.progressStatusText.setColor(color);
+  }
+
   private resumeGame(): void {
     this.scene.resume('GameScene');
     this.scene.stop();
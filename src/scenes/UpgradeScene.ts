@@ -1,18 +1,25 @@
 import { Scene } from 'phaser';
-import { UpgradeManager } from '../managers/UpgradeManager';
-import { UpgradeDefinition } from '../config/upgrades';
+import { UpgradeManager, UpgradeOffer, UpgradeAction } from '../managers/UpgradeManager';
+import { SaveManager } from '../managers/SaveManager';
 import { WeaponUpgradeDefinition, unlockWeapon } from '../config/weaponUpgrades';
+import { RARITY_COLORS } from '../config/upgrades';
 
 export class UpgradeScene extends Scene {
-  private upgradeManager: UpgradeManager;
-  private selectedUpgrade?: UpgradeDefinition | WeaponUpgradeDefinition;
-  private onUpgradeSelected?: (upgrade: UpgradeDefinition | WeaponUpgradeDefinition) => void;
+  private upgradeManager!: UpgradeManager;
+  private selectedUpgrade?: UpgradeOffer | null; // null once skipped
+  private onUpgradeSelected?: (upgrade: UpgradeOffer | null) => void;
   private isMobile: boolean = false;
+  private offers: UpgradeOffer[] = [];
+  private isBanishing: boolean = false; // Next card click banishes instead of picking
   
   // Upgrade icon mappings
-  private getUpgradeIcon(upgrade: UpgradeDefinition | WeaponUpgradeDefinition): { symbol: string, bgColor: number } {
+  private getUpgradeIcon(upgrade: UpgradeOffer): { symbol: string, bgColor: number } {
     const isWeapon = 'isWeaponUnlock' in upgrade;
     
+    if ('isEvolution' in upgrade) {
+      return { symbol: upgrade.icon, bgColor: 0xffcc00 };
+    }
+    
     if (isWeapon) {
       // Weapon upgrades already have icons
       const weaponUpgrade = upgrade as WeaponUpgradeDefinition;
@@ -34,7 +41,8 @@ export class UpgradeScene extends Scene {
       // Passive upgrades
       'xpMagnet': { symbol: '🧲', bgColor: 0x6666ff },
       'xpBonus': { symbol: '✨', bgColor: 0x6666ff },
-      'armor': { symbol: '🛡️', bgColor: 0x6666ff }
+      'armor': { symbol: '🛡️', bgColor: 0x6666ff },
+      'luck': { symbol: '🍀', bgColor: 0x6666ff }
     };
     
     return upgradeIcons[upgrade.id] || { symbol: '❓', bgColor: 0x666666 };
@@ -42,19 +50,27 @@ export class UpgradeScene extends Scene {
 
   constructor() {
     super({ key: 'UpgradeScene' });
-    this.upgradeManager = UpgradeManager.getInstance();
   }
 
-  create(data: { onComplete: (upgrade: UpgradeDefinition | WeaponUpgradeDefinition) => void }): void {
-    // Reset selection state
+  create(data: { upgrades: UpgradeManager; onComplete: (upgrade: UpgradeOffer | null) => void }): void {
+    // Reset selection state - upgrades belong to the run that launched us
+    this.upgradeManager = data.upgrades;
     this.selectedUpgrade = undefined;
     this.onUpgradeSelected = data.onComplete;
+    this.isBanishing = false;
     
     // Check if mobile
     this.isMobile = (window as any).isMobile || false;
     
+    this.showOffers(this.upgradeManager.getRandomUpgrades(3));
+  }
+
+  // Draws the whole screen - called again after a reroll or banish
+  private showOffers(upgrades: UpgradeOffer[]): void {
+    this.offers = upgrades;
+    
     // Clear any existing content
-    this.children.removeAll();
+    this.children.removeAll(true);
     
     // Dark overlay
     const bg = this.add.rectangle(
@@ -66,10 +82,15 @@ export class UpgradeScene extends Scene {
       0.9
     );
     
-    // No title - cleaner without it
-    
-    // Get upgrades
-    const upgrades = this.upgradeManager.getRandomUpgrades(3);
+    // No title - only a hint while banishing
+    if (this.isBanishing) {
+      const hint = this.add.text(this.scale.width / 2, this.isMobile ? 30 : 60, 'CHOOSE AN UPGRADE TO BANISH', {
+        fontSize: this.isMobile ? '16px' : '22px',
+        color: '#ff6666',
+        fontFamily: 'Arial Black'
+      });
+      hint.setOrigin(0.5);
+    }
     
     // Modern card layout - always centered
     if (this.isMobile) {
@@ -102,6 +123,80 @@ export class UpgradeScene extends Scene {
     }
     
     // Remove hint - cleaner without it
+    
+    this.createActionBar();
+  }
+
+  // Reroll / banish / skip - dimmed when out of charges
+  private createActionBar(): void {
+    const actions: { action: UpgradeAction, label: string, onClick: () => void }[] = [
+      { action: 'reroll', label: 'REROLL', onClick: () => this.reroll() },
+      { action: 'banish', label: this.isBanishing ? 'CANCEL' : 'BANISH', onClick: () => this.toggleBanish() },
+      { action: 'skip', label: 'SKIP', onClick: () => this.skip() }
+    ];
+    
+    const spacing = this.isMobile ? 110 : 180;
+    const y = this.scale.height - (this.isMobile ? 30 : 50);
+    const startX = this.scale.width / 2 - spacing;
+    
+    actions.forEach(({ action, label, onClick }, index) => {
+      const charges = this.upgradeManager.getCharges(action);
+      const isActive = action === 'banish' && this.isBanishing;
+      
+      const button = this.add.text(startX + index * spacing, y, `${label} (${charges})`, {
+        fontSize: this.isMobile ? '14px' : '18px',
+        color: isActive ? '#ff6666' : '#ffffff',
+        fontFamily: 'Arial Black',
+        backgroundColor: '#1a1a1a',
+        padding: { x: 12, y: 6 }
+      });
+      button.setOrigin(0.5);
+      
+      if (charges <= 0) {
+        button.setAlpha(0.4);
+        return;
+      }
+      
+      button.setInteractive({ useHandCursor: true });
+      button.on('pointerover', () => button.setBackgroundColor('#2a2a2a'));
+      button.on('pointerout', () => button.setBackgroundColor('#1a1a1a'));
+      button.on('pointerdown', onClick);
+    });
+  }
+
+  private reroll(): void {
+    if (this.selectedUpgrade !== undefined || !this.upgradeManager.useCharge('reroll')) return;
+    
+    this.isBanishing = false;
+    this.showOffers(this.upgradeManager.getRandomUpgrades(3));
+  }
+
+  private toggleBanish(): void {
+    if (this.selectedUpgrade !== undefined) return;
+    
+    this.isBanishing = !this.isBanishing;
+    this.showOffers(this.offers);
+  }
+
+  private banishUpgrade(upgrade: UpgradeOffer): void {
+    if (!this.upgradeManager.banish(upgrade.id)) return;
+    
+    // Deal a fresh hand without it
+    this.isBanishing = false;
+    this.showOffers(this.upgradeManager.getRandomUpgrades(3));
+  }
+
+  private skip(): void {
+    if (this.selectedUpgrade !== undefined || !this.upgradeManager.useCharge('skip')) return;
+    
+    this.selectedUpgrade = null;
+    
+    // Notify the game scene - nothing was picked
+    if (this.onUpgradeSelected) {
+      this.onUpgradeSelected(null);
+    }
+    
+    this.scene.stop();
   }
 
   private createModernCard(
@@ -109,7 +204,7 @@ export class UpgradeScene extends Scene {
     y: number, 
     width: number, 
     height: number, 
-    upgrade: UpgradeDefinition | WeaponUpgradeDefinition
+    upgrade: UpgradeOffer
   ): void {
     // Modern flat card design
     const cardContainer = this.add.container(x + width/2, y + height/2);
@@ -120,6 +215,22 @@ export class UpgradeScene extends Scene {
     card.fillRect(-width/2, -height/2, width, height);
     cardContainer.add(card);
     
+    // Rarity border and tag
+    const rarity = upgrade.rarity ?? 'common';
+    const rarityColor = RARITY_COLORS[rarity];
+    const border = this.add.graphics();
+    border.lineStyle(rarity === 'common' ? 1 : 2, rarityColor, 1);
+    border.strokeRect(-width/2, -height/2, width, height);
+    cardContainer.add(border);
+    
+    const rarityTag = this.add.text(width/2 - 10, -height/2 + 8, rarity.toUpperCase(), {
+      fontSize: '11px',
+      color: `#${rarityColor.toString(16).padStart(6, '0')}`,
+      fontFamily: 'Arial Black'
+    });
+    rarityTag.setOrigin(1, 0);
+    cardContainer.add(rarityTag);
+    
     // Interactive zone
     const hitZone = this.add.rectangle(0, 0, width, height, 0x000000, 0);
     hitZone.setInteractive();
@@ -127,14 +238,16 @@ export class UpgradeScene extends Scene {
     
     // Current level or weapon unlock
     const isWeapon = 'isWeaponUnlock' in upgrade;
-    const currentLevel = isWeapon ? 0 : this.upgradeManager.getUpgradeLevel(upgrade.id);
+    const isEvolution = 'isEvolution' in upgrade;
+    const currentLevel = isWeapon || isEvolution ? 0 : this.upgradeManager.getUpgradeLevel(upgrade.id);
     const levelText = isWeapon ? 'NEW WEAPON!' : (currentLevel > 0 ? `Lv ${currentLevel}` : 'NEW!');
     
     // Category color
     const categoryColors = {
       weapon: 0xff6666,
       player: 0x66ff66,
-      passive: 0x6666ff
+      passive: 0x6666ff,
+      evolution: 0xffcc00
     };
     
     // Category accent line - minimal
@@ -169,7 +282,7 @@ export class UpgradeScene extends Scene {
       cardContainer.add(icon);
       
       // Level indicator for non-weapons
-      if (!isWeapon) {
+      if (!isWeapon && !isEvolution) {
         const levelBadge = this.add.graphics();
         levelBadge.fillStyle(iconInfo.bgColor, 0.8);
         levelBadge.fillCircle(iconX + 20, -20, 12);
@@ -218,7 +331,8 @@ export class UpgradeScene extends Scene {
       cardContainer.add(name);
       
       // Status below name
-      const statusText = isWeapon ? 'NEW WEAPON' : `LEVEL ${currentLevel}/${upgrade.maxLevel}`;
+      const statusText = isEvolution ? 'EVOLUTION' :
+        isWeapon ? 'NEW WEAPON' : `LEVEL ${currentLevel}/${upgrade.maxLevel}`;
       const status = this.add.text(0, -height/2 + 90, statusText, {
         fontSize: '14px',
         color: categoryColors[upgrade.category],
@@ -258,7 +372,7 @@ export class UpgradeScene extends Scene {
       cardContainer.add(icon);
       
       // Level indicator for non-weapons
-      if (!isWeapon) {
+      if (!isWeapon && !isEvolution) {
         const levelBadge = this.add.graphics();
         levelBadge.fillStyle(iconInfo.bgColor, 0.9);
         levelBadge.fillCircle(35, height/2 - 115, 15);
@@ -308,22 +422,29 @@ export class UpgradeScene extends Scene {
       card.fillStyle(0x3a3a3a, 1);
       card.fillRect(-width/2, -height/2, width, height);
       
-      // Select immediately
-      this.selectUpgrade(upgrade);
+      // Select immediately - or banish it
+      if (this.isBanishing) {
+        this.banishUpgrade(upgrade);
+      } else {
+        this.selectUpgrade(upgrade);
+      }
     });
   }
 
-  private selectUpgrade(upgrade: UpgradeDefinition | WeaponUpgradeDefinition): void {
-    if (this.selectedUpgrade) return; // Prevent multiple selections
+  private selectUpgrade(upgrade: UpgradeOffer): void {
+    if (this.selectedUpgrade !== undefined) return; // Prevent multiple selections
     
     this.selectedUpgrade = upgrade;
     
-    // Apply the upgrade or unlock weapon
-    if ('isWeaponUnlock' in upgrade) {
+    // Apply the upgrade, evolution or unlock weapon
+    if ('isEvolution' in upgrade) {
+      this.upgradeManager.applyEvolution(upgrade.id);
+    } else if ('isWeaponUnlock' in upgrade) {
       unlockWeapon(upgrade.id);
     } else {
       this.upgradeManager.applyUpgrade(upgrade.id);
     }
+    SaveManager.getInstance().recordUpgradePicked(upgrade.id);
     
     // Notify the game scene
     if (this.onUpgradeSelected) {
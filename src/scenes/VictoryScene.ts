@@ -0,0 +1,203 @@
+import { Scene } from 'phaser';
+import { CharacterManager } from '../entities/Character';
+import { SaveManager } from '../managers/SaveManager';
+
+export interface VictoryData {
+  zoneName: string;
+  bossName: string;
+  fightTime: number;
+  clearTime: number;
+  isNewBest: boolean;
+  bossDamage: number; // Only hits that landed on the boss, not its adds
+  bestCombo: number;
+  comboHits: number;
+  unlockedCharacterId: string | null;
+}
+
+// Boss fight summary over the paused GameScene, with the character unlock reveal
+export class VictoryScene extends Scene {
+  private victory!: VictoryData;
+  private isMobile: boolean = false;
+
+  constructor() {
+    super({ key: 'VictoryScene' });
+  }
+
+  init(data: VictoryData): void {
+    this.victory = data;
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    this.isMobile = (window as any).isMobile || false;
+
+    const background = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85);
+    background.setInteractive(); // Block clicks to the game underneath
+
+    const title = this.add.text(width / 2, this.isMobile ? 50 : 80, 'VICTORY!', {
+      fontSize: this.isMobile ? '40px' : '64px',
+      fontFamily: 'Arial Black',
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 8
+    });
+    title.setOrigin(0.5);
+    title.setScale(0);
+    this.tweens.add({ targets: title, scale: 1, duration: 500, ease: 'Back.easeOut' });
+
+    const subtitle = this.add.text(width / 2, title.y + (this.isMobile ? 38 : 55), `${this.victory.bossName} defeated - ${this.victory.zoneName} cleared`, {
+      fontSize: this.isMobile ? '16px' : '20px',
+      fontFamily: 'Arial',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: width * 0.9 }
+    });
+    subtitle.setOrigin(0.5);
+
+    this.createStats(width / 2, this.isMobile ? 150 : 220);
+
+    const character = this.getUnlockedCharacter();
+    if (character) {
+      this.time.delayedCall(900, () => this.revealCharacter(character.name, character.title, character.description));
+    }
+
+    this.createButtons(character?.id, character?.name);
+  }
+
+  private createStats(x: number, y: number): void {
+    const clearLine = `Clear Time: ${this.formatTime(this.victory.clearTime)}${this.victory.isNewBest ? '  NEW BEST!' : ''}`;
+    const lines = [
+      `Fight Time: ${this.formatTime(this.victory.fightTime)}`,
+      clearLine,
+      `Boss Damage: ${Math.floor(this.victory.bossDamage).toLocaleString()}`,
+      `Best Combo: ${this.victory.bestCombo}x  (${this.victory.comboHits} chain hits)`
+    ];
+
+    lines.forEach((line, index) => {
+      const text = this.add.text(x, y + index * (this.isMobile ? 26 : 34), line, {
+        fontSize: this.isMobile ? '18px' : '24px',
+        fontFamily: 'Arial',
+        color: line === clearLine && this.victory.isNewBest ? '#00ff00' : '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 3
+      });
+      text.setOrigin(0.5);
+      text.setAlpha(0);
+      this.tweens.add({ targets: text, alpha: 1, duration: 300, delay: 300 + index * 120 });
+    });
+  }
+
+  private getUnlockedCharacter() {
+    const id = this.victory.unlockedCharacterId;
+    if (!id) return undefined;
+    return CharacterManager.getInstance().getAllCharacters().find(character => character.id === id);
+  }
+
+  private revealCharacter(name: string, title: string, description: string): void {
+    const { width, height } = this.scale;
+    const y = height / 2 + (this.isMobile ? 60 : 90);
+
+    const container = this.add.container(width / 2, y);
+
+    const panel = this.add.graphics();
+    const panelWidth = Math.min(560, width * 0.9);
+    const panelHeight = this.isMobile ? 130 : 160;
+    panel.fillStyle(0x2a1a4a, 0.95);
+    panel.fillRoundedRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight, 14);
+    panel.lineStyle(4, 0xffd700);
+    panel.strokeRoundedRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight, 14);
+    container.add(panel);
+
+    const header = this.add.text(0, -panelHeight / 2 + 18, '🎉 NEW CHARACTER UNLOCKED! 🎉', {
+      fontSize: this.isMobile ? '16px' : '20px',
+      fontFamily: 'Arial Black',
+      color: '#ffd700'
+    });
+    header.setOrigin(0.5);
+
+    const nameText = this.add.text(0, -8, name, {
+      fontSize: this.isMobile ? '26px' : '34px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#ff00ff',
+      strokeThickness: 4
+    });
+    nameText.setOrigin(0.5);
+
+    const details = this.add.text(0, panelHeight / 2 - 30, `${title}\n${description}`, {
+      fontSize: this.isMobile ? '12px' : '15px',
+      fontFamily: 'Arial',
+      color: '#dddddd',
+      align: 'center',
+      wordWrap: { width: panelWidth - 30 }
+    });
+    details.setOrigin(0.5);
+    container.add([header, nameText, details]);
+
+    // Pop the card in, then pulse the name
+    container.setScale(0);
+    this.tweens.add({ targets: container, scale: 1, duration: 600, ease: 'Back.easeOut' });
+    this.tweens.add({ targets: nameText, scale: 1.1, duration: 600, delay: 600, yoyo: true, repeat: -1 });
+    this.cameras.main.flash(300, 255, 215, 0);
+
+    console.log(`✨ Revealed unlocked character: ${name}`);
+  }
+
+  private createButtons(characterId?: string, characterName?: string): void {
+    const { width, height } = this.scale;
+    const y = height - (this.isMobile ? 50 : 70);
+
+    if (characterId && characterName) {
+      this.createButton(width / 2 - (this.isMobile ? 110 : 150), y, `PLAY AS ${characterName.split(' ')[0].toUpperCase()}`, 0xaa00ff, () => {
+        this.switchCharacter(characterId);
+      });
+      this.createButton(width / 2 + (this.isMobile ? 110 : 150), y, 'CONTINUE', 0x00aa00, () => this.continueToZoneSelect());
+      this.input.keyboard?.once('keydown-P', () => this.switchCharacter(characterId));
+    } else {
+      this.createButton(width / 2, y, 'CONTINUE', 0x00aa00, () => this.continueToZoneSelect());
+    }
+
+    this.input.keyboard?.once('keydown-ENTER', () => this.continueToZoneSelect());
+    this.input.keyboard?.once('keydown-SPACE', () => this.continueToZoneSelect());
+  }
+
+  private createButton(x: number, y: number, label: string, color: number, onClick: () => void): void {
+    const buttonWidth = this.isMobile ? 190 : 260;
+    const buttonHeight = this.isMobile ? 50 : 56;
+
+    const button = this.add.graphics();
+    button.fillStyle(color);
+    button.fillRoundedRect(x - buttonWidth / 2, y - buttonHeight / 2, buttonWidth, buttonHeight, 10);
+    button.lineStyle(3, 0xffffff);
+    button.strokeRoundedRect(x - buttonWidth / 2, y - buttonHeight / 2, buttonWidth, buttonHeight, 10);
+
+    const text = this.add.text(x, y, label, {
+      fontSize: this.isMobile ? '16px' : '20px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff'
+    });
+    text.setOrigin(0.5);
+
+    const hitArea = this.add.rectangle(x, y, buttonWidth, buttonHeight, 0x000000, 0);
+    hitArea.setInteractive({ useHandCursor: !this.isMobile });
+    hitArea.on('pointerdown', onClick);
+  }
+
+  private switchCharacter(characterId: string): void {
+    if (CharacterManager.getInstance().setCurrentCharacter(characterId)) {
+      SaveManager.getInstance().save();
+    }
+    this.continueToZoneSelect();
+  }
+
+  private continueToZoneSelect(): void {
+    this.scene.stop('GameScene');
+    this.scene.start('ZoneSelectScene');
+  }
+
+  private formatTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,326 @@
+import { Scene } from 'phaser';
+import { ZoneDefinition } from '../systems/ZoneLoader';
+import { ZoneEditorModel, EditorTool } from '../systems/ZoneEditorModel';
+import { ArenaHazardType } from '../systems/ZoneTypes';
+import { ARENA_HAZARDS } from '../config/arenaHazards';
+
+type DragMode = 'move' | 'aggro' | 'arena' | null;
+
+const TOOL_KEYS: { key: string; tool: EditorTool }[] = [
+  { key: 'ONE', tool: 'enemy' },
+  { key: 'TWO', tool: 'object' },
+  { key: 'THREE', tool: 'patrol' },
+  { key: 'FOUR', tool: 'boss' }
+];
+
+// Debug overlay on top of a paused GameScene - edits a copy of the current zone
+export class ZoneEditorScene extends Scene {
+  private model!: ZoneEditorModel;
+  private graphics!: Phaser.GameObjects.Graphics;
+  private labels!: Phaser.GameObjects.Container;
+  private toolText!: Phaser.GameObjects.Text;
+  private statusText!: Phaser.GameObjects.Text;
+  private gameCamera!: Phaser.Cameras.Scene2D.Camera;
+  private originalZoom: number = 1;
+  private dragMode: DragMode = null;
+  private dragIndex: number = -1;
+
+  constructor() {
+    super({ key: 'ZoneEditorScene' });
+  }
+
+  init(data: { zone: ZoneDefinition }): void {
+    this.model = new ZoneEditorModel(data.zone);
+    this.dragMode = null;
+  }
+
+  create(): void {
+    // Mirror the game camera so overlay shapes line up with the world
+    this.gameCamera = this.scene.get('GameScene').cameras.main;
+    this.originalZoom = this.gameCamera.zoom;
+
+    this.graphics = this.add.graphics();
+    this.labels = this.add.container(0, 0);
+
+    const hudStyle = {
+      fontSize: '16px',
+      fontFamily: 'Arial',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 3
+    };
+
+    this.toolText = this.add.text(10, 10, '', hudStyle);
+    this.toolText.setScrollFactor(0);
+    this.toolText.setDepth(1000);
+
+    const help = this.add.text(10, this.scale.height - 10, [
+      '1 Enemy  2 Object  3 Patrol  4 Boss  |  T Cycle type  |  DEL Delete / undo waypoint',
+      'Drag to move, drag circle handles for radius  |  Wheel Zoom  |  E Export JSON  |  F2/ESC Close'
+    ].join('\n'), { ...hudStyle, fontSize: '14px' });
+    help.setOrigin(0, 1);
+    help.setScrollFactor(0);
+    help.setDepth(1000);
+
+    this.statusText = this.add.text(this.scale.width - 10, 10, '', { ...hudStyle, align: 'right' });
+    this.statusText.setOrigin(1, 0);
+    this.statusText.setScrollFactor(0);
+    this.statusText.setDepth(1000);
+
+    this.setupInput();
+    this.redraw();
+
+    console.log(`🛠️ Zone editor opened for ${this.model.zone.name}`);
+  }
+
+  update(): void {
+    const camera = this.cameras.main;
+    camera.setZoom(this.gameCamera.zoom);
+    camera.setScroll(this.gameCamera.scrollX, this.gameCamera.scrollY);
+  }
+
+  private setupInput(): void {
+    const keyboard = this.input.keyboard!;
+
+    TOOL_KEYS.forEach(({ key, tool }) => {
+      keyboard.on(`keydown-${key}`, () => {
+        this.model.tool = tool;
+        this.redraw();
+      });
+    });
+
+    keyboard.on('keydown-T', () => {
+      if (this.model.tool === 'object') {
+        this.model.cycleObjectType();
+      } else {
+        this.model.cycleEnemyType();
+      }
+      this.redraw();
+    });
+
+    const deleteHandler = () => {
+      if (this.model.tool === 'patrol') {
+        this.model.removeLastPatrolPoint();
+      } else {
+        this.model.deleteSelection();
+      }
+      this.redraw();
+    };
+    keyboard.on('keydown-DELETE', deleteHandler);
+    keyboard.on('keydown-BACKSPACE', deleteHandler);
+
+    keyboard.on('keydown-E', () => this.exportZone());
+    keyboard.on('keydown-F2', () => this.closeEditor());
+    keyboard.on('keydown-ESC', () => this.closeEditor());
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      const { x, y } = this.toWorld(pointer);
+      this.handlePointerDown(x, y);
+      this.redraw();
+    });
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (!this.dragMode || !pointer.isDown) return;
+      const { x, y } = this.toWorld(pointer);
+      this.handleDrag(x, y);
+      this.redraw();
+    });
+
+    this.input.on('pointerup', () => {
+      this.dragMode = null;
+    });
+
+    // Zoom the paused game camera so whole zones fit on screen
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: unknown, _dx: number, dy: number) => {
+      const zoom = Phaser.Math.Clamp(this.gameCamera.zoom - dy * 0.001, 0.25, 2);
+      this.gameCamera.setZoom(zoom);
+    });
+  }
+
+  private toWorld(pointer: Phaser.Input.Pointer): { x: number; y: number } {
+    const point = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    return { x: point.x, y: point.y };
+  }
+
+  private handlePointerDown(x: number, y: number): void {
+    const model = this.model;
+    const handleRadius = 12 / this.cameras.main.zoom;
+
+    // Radius handles first - they sit on top of everything else
+    const aggroIndex = model.hitTestAggroHandle(x, y, handleRadius);
+    if (aggroIndex !== null) {
+      model.selection = { kind: 'enemy', index: aggroIndex };
+      this.dragMode = 'aggro';
+      this.dragIndex = aggroIndex;
+      return;
+    }
+    if (model.hitTestArenaHandle(x, y, handleRadius)) {
+      model.selection = { kind: 'boss' };
+      this.dragMode = 'arena';
+      return;
+    }
+
+    // Patrol tool keeps the enemy selected and adds waypoints instead
+    if (model.tool === 'patrol') {
+      if (!model.addPatrolPoint(x, y)) {
+        const hit = model.hitTest(x, y);
+        model.selection = hit?.kind === 'enemy' ? hit : null;
+        if (!hit) this.setStatus('Select an enemy to draw its patrol path', '#ffaa00');
+      }
+      return;
+    }
+
+    const hit = model.hitTest(x, y, 20 / this.cameras.main.zoom);
+    if (hit) {
+      model.selection = hit;
+      this.dragMode = 'move';
+      return;
+    }
+
+    switch (model.tool) {
+      case 'enemy':
+        model.placeEnemy(x, y);
+        break;
+      case 'object':
+        model.placeObject(x, y);
+        break;
+      case 'boss':
+        model.selection = { kind: 'boss' };
+        model.moveSelection(x, y);
+        break;
+    }
+    this.dragMode = 'move';
+  }
+
+  private handleDrag(x: number, y: number): void {
+    const model = this.model;
+
+    if (this.dragMode === 'aggro') {
+      const enemy = model.zone.enemies[this.dragIndex];
+      if (enemy) model.setAggroRadius(this.dragIndex, Math.hypot(x - enemy.position.x, y - enemy.position.y));
+    } else if (this.dragMode === 'arena' && model.zone.boss) {
+      const boss = model.zone.boss;
+      model.setArenaRadius(Math.hypot(x - boss.position.x, y - boss.position.y));
+    } else if (this.dragMode === 'move') {
+      model.moveSelection(x, y);
+    }
+  }
+
+  private redraw(): void {
+    const g = this.graphics;
+    const zone = this.model.zone;
+    const selection = this.model.selection;
+    g.clear();
+    this.labels.removeAll(true);
+
+    // Zone bounds
+    g.lineStyle(2, 0xffffff, 0.5);
+    g.strokeRect(zone.bounds.x, zone.bounds.y, zone.bounds.width, zone.bounds.height);
+
+    // Boss arena
+    if (zone.boss) {
+      const boss = zone.boss;
+      const selected = selection?.kind === 'boss';
+      g.fillStyle(0xff0000, 0.1);
+      g.fillCircle(boss.position.x, boss.position.y, boss.arenaRadius);
+      g.lineStyle(selected ? 4 : 2, 0xff0000, 0.9);
+      g.strokeCircle(boss.position.x, boss.position.y, boss.arenaRadius);
+      (boss.hazards || []).forEach(hazard => {
+        const color = ARENA_HAZARDS[hazard.type as ArenaHazardType]?.color ?? 0xffffff;
+        g.fillStyle(color, 0.4);
+        g.fillCircle(boss.position.x + hazard.offset.x, boss.position.y + hazard.offset.y, hazard.radius);
+      });
+      g.fillStyle(0xff0000, 1);
+      g.fillCircle(boss.position.x, boss.position.y, 14);
+      this.drawHandle(boss.position.x + boss.arenaRadius, boss.position.y, 0xff0000);
+      this.addLabel(boss.position.x, boss.position.y - 24, `${boss.name} (${boss.arenaRadius})`, '#ff6666');
+    }
+
+    // Enemies with aggro circles and patrol paths
+    zone.enemies.forEach((enemy, index) => {
+      const selected = selection?.kind === 'enemy' && selection.index === index;
+      const { x, y } = enemy.position;
+
+      g.lineStyle(selected ? 3 : 1, 0xffaa00, selected ? 0.9 : 0.5);
+      g.strokeCircle(x, y, enemy.aggroRadius);
+      this.drawHandle(x + enemy.aggroRadius, y, 0xffaa00);
+
+      if (enemy.patrolPath && enemy.patrolPath.length > 0) {
+        g.lineStyle(2, 0x00ffff, 0.8);
+        g.beginPath();
+        g.moveTo(enemy.patrolPath[0].x, enemy.patrolPath[0].y);
+        enemy.patrolPath.slice(1).forEach(point => g.lineTo(point.x, point.y));
+        g.strokePath();
+        g.fillStyle(0x00ffff, 1);
+        enemy.patrolPath.forEach(point => g.fillCircle(point.x, point.y, 4));
+      }
+
+      g.fillStyle(selected ? 0xffffff : 0xffaa00, 1);
+      g.fillCircle(x, y, 10);
+      this.addLabel(x, y - 20, enemy.enemyType, '#ffaa00');
+    });
+
+    // Kickable objects
+    zone.kickableObjects.forEach((object, index) => {
+      const selected = selection?.kind === 'object' && selection.index === index;
+      g.fillStyle(selected ? 0xffffff : 0x8b4513, 1);
+      g.fillRect(object.position.x - 10, object.position.y - 10, 20, 20);
+      this.addLabel(object.position.x, object.position.y - 20, object.type, '#d2a679');
+    });
+
+    const type = this.model.tool === 'object' ? this.model.objectType : this.model.enemyType;
+    this.toolText.setText([
+      `ZONE EDITOR - ${zone.name}`,
+      `Tool: ${this.model.tool.toUpperCase()}  Type: ${type}`,
+      `Enemies: ${zone.enemies.length}  Objects: ${zone.kickableObjects.length}`
+    ].join('\n'));
+  }
+
+  private drawHandle(x: number, y: number, color: number): void {
+    this.graphics.fillStyle(color, 1);
+    this.graphics.fillRect(x - 5, y - 5, 10, 10);
+  }
+
+  private addLabel(x: number, y: number, text: string, color: string): void {
+    const label = this.add.text(x, y, text, {
+      fontSize: '12px',
+      fontFamily: 'Arial',
+      color,
+      stroke: '#000000',
+      strokeThickness: 2
+    });
+    label.setOrigin(0.5, 1);
+    this.labels.add(label);
+  }
+
+  private exportZone(): void {
+    const errors = this.model.validate();
+    if (errors.length > 0) {
+      console.warn('⚠️ Zone has validation errors:\n  - ' + errors.join('\n  - '));
+      this.setStatus(`Can't export:\n${errors.slice(0, 3).join('\n')}`, '#ff6666');
+      return;
+    }
+
+    const json = this.model.toJson();
+    console.log(`📋 Zone JSON for ${this.model.zone.id}:\n${json}`);
+
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(json)
+        .then(() => this.setStatus('Zone JSON copied to clipboard', '#00ff00'))
+        .catch(() => this.setStatus('Zone JSON logged to console', '#00ff00'));
+    } else {
+      this.setStatus('Zone JSON logged to console', '#00ff00');
+    }
+  }
+
+  private setStatus(message: string, color: string): void {
+    this.statusText.setText(message);
+    this.statusText.setColor(color);
+  }
+
+  private closeEditor(): void {
+    this.gameCamera.setZoom(this.originalZoom);
+    this.scene.resume('GameScene');
+    this.scene.stop();
+  }
+}
@@ -0,0 +1,194 @@
+import { Scene } from 'phaser';
+import { GameZone } from '../systems/EncounterSystem';
+import { loadZoneDefinitions } from '../systems/ZoneLoader';
+import { CharacterManager } from '../entities/Character';
+import { SaveManager } from '../managers/SaveManager';
+
+export class ZoneSelectScene extends Scene {
+  private isMobile: boolean = false;
+
+  constructor() {
+    super({ key: 'ZoneSelectScene' });
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    this.isMobile = (window as any).isMobile || false;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x1a1a1a);
+
+    // Title
+    const title = this.add.text(width / 2, this.isMobile ? 40 : 70, 'SELECT ZONE', {
+      fontSize: this.isMobile ? '32px' : '48px',
+      fontFamily: 'Arial Black',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 6
+    });
+    title.setOrigin(0.5);
+
+    // Same zone definitions EncounterSystem uses, with persisted unlocks applied
+    const saveManager = SaveManager.getInstance();
+    const zones = loadZoneDefinitions();
+    zones.forEach(zone => {
+      if (saveManager.isZoneUnlocked(zone.id)) {
+        zone.isUnlocked = true;
+      }
+    });
+
+    zones.forEach((zone, index) => {
+      this.createZoneCard(zone, index, zones.length);
+
+      // Number keys as a desktop shortcut
+      this.input.keyboard?.on(`keydown-${['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE'][index]}`, () => {
+        this.selectZone(zone);
+      });
+    });
+
+    this.createBackButton();
+    this.input.keyboard?.on('keydown-ESC', () => this.scene.start('ModeSelectScene'));
+  }
+
+  private createBackButton(): void {
+    const back = this.add.text(20, this.isMobile ? 20 : 30, '< MODES', {
+      fontSize: this.isMobile ? '16px' : '20px',
+      fontFamily: 'Arial Black',
+      color: '#aaaaaa'
+    });
+    back.setInteractive({ useHandCursor: !this.isMobile });
+    back.on('pointerdown', () => this.scene.start('ModeSelectScene'));
+  }
+
+  private createZoneCard(zone: GameZone, index: number, total: number): void {
+    const { width, height } = this.scale;
+
+    let cardWidth: number;
+    let cardHeight: number;
+    let x: number;
+    let y: number;
+
+    if (this.isMobile) {
+      // Mobile: stacked list
+      const top = 80;
+      const gap = 12;
+      cardWidth = width * 0.9;
+      cardHeight = (height - top - gap * total) / total;
+      x = width / 2;
+      y = top + index * (cardHeight + gap) + cardHeight / 2;
+    } else {
+      // Desktop: row of cards
+      const gap = 24;
+      cardWidth = Math.min(300, (width - gap * (total + 1)) / total);
+      cardHeight = 420;
+      const rowWidth = total * cardWidth + (total - 1) * gap;
+      x = (width - rowWidth) / 2 + index * (cardWidth + gap) + cardWidth / 2;
+      y = height / 2 + 40;
+    }
+
+    const container = this.add.container(x, y);
+
+    // Card background in the zone's theme colour
+    const card = this.add.graphics();
+    const drawCard = (highlight: boolean) => {
+      card.clear();
+      card.fillStyle(zone.theme.backgroundColor, zone.isUnlocked ? 1 : 0.35);
+      card.fillRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 12);
+      card.lineStyle(highlight ? 5 : 3, zone.isUnlocked ? zone.theme.ambientColor : 0x555555);
+      card.strokeRoundedRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight, 12);
+    };
+    drawCard(false);
+    container.add(card);
+
+    const textColor = zone.isUnlocked ? '#ffffff' : '#888888';
+    const lines = this.getZoneDetails(zone);
+
+    const name = this.add.text(0, -cardHeight / 2 + (this.isMobile ? 12 : 24), zone.name, {
+      fontSize: this.isMobile ? '22px' : '26px',
+      fontFamily: 'Arial Black',
+      color: textColor,
+      stroke: '#000000',
+      strokeThickness: 4
+    });
+    name.setOrigin(0.5, 0);
+    container.add(name);
+
+    const details = this.add.text(0, this.isMobile ? 8 : -20, lines.join('\n'), {
+      fontSize: this.isMobile ? '14px' : '17px',
+      fontFamily: 'Arial',
+      color: textColor,
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center',
+      lineSpacing: this.isMobile ? 2 : 8,
+      wordWrap: { width: cardWidth - 24 }
+    });
+    details.setOrigin(0.5, this.isMobile ? 0.4 : 0.5);
+    container.add(details);
+
+    const status = this.add.text(0, cardHeight / 2 - (this.isMobile ? 12 : 24), zone.isUnlocked ? 'PLAY' : '🔒 LOCKED', {
+      fontSize: this.isMobile ? '18px' : '24px',
+      fontFamily: 'Arial Black',
+      color: zone.isUnlocked ? '#00ff00' : '#ff6666',
+      stroke: '#000000',
+      strokeThickness: 4
+    });
+    status.setOrigin(0.5, 1);
+    container.add(status);
+
+    if (!zone.isUnlocked) return;
+
+    const hitArea = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x000000, 0);
+    hitArea.setInteractive({ useHandCursor: !this.isMobile });
+    container.add(hitArea);
+
+    hitArea.on('pointerover', () => {
+      drawCard(true);
+      container.setScale(1.03);
+    });
+    hitArea.on('pointerout', () => {
+      drawCard(false);
+      container.setScale(1);
+    });
+    hitArea.on('pointerdown', () => {
+      this.selectZone(zone);
+    });
+  }
+
+  private getZoneDetails(zone: GameZone): string[] {
+    const saveManager = SaveManager.getInstance();
+    const characterManager = CharacterManager.getInstance();
+    const lines: string[] = [];
+
+    if (zone.boss) {
+      const defeated = saveManager.isBossDefeated(zone.boss.type);
+      lines.push(`Boss: ${zone.boss.name}${defeated ? ' ✓' : ''}`);
+    }
+
+    if (zone.requiredCharacters.length > 0) {
+      const required = zone.requiredCharacters.map(id => {
+        const character = characterManager.getAllCharacters().find(c => c.id === id);
+        const mark = characterManager.isCharacterUnlocked(id) ? '✓' : '✗';
+        return `${mark} ${character ? character.name : id}`;
+      });
+      lines.push(`Requires: ${required.join(', ')}`);
+    }
+
+    const bestTime = saveManager.getBestClearTime(zone.id);
+    lines.push(`Best clear: ${bestTime !== null ? this.formatTime(bestTime) : '--:--'}`);
+
+    return lines;
+  }
+
+  private formatTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  private selectZone(zone: GameZone): void {
+    if (!zone.isUnlocked) return;
+
+    console.log(`🗺️ Entering ${zone.name}`);
+    this.scene.start('CharacterSelectScene', { zoneId: zone.id });
+  }
+}
@@ -0,0 +1,203 @@
+import { Scene } from 'phaser';
+import { Player } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { KickableObject } from '../entities/KickableObject';
+import { CharacterAbility } from '../entities/Character';
+import { Vector2 } from '../utils/Vector2';
+import { GameEventBus } from './GameEventBus';
+
+export interface AbilityUsedCallback {
+  (ability: CharacterAbility, slot: number): void;
+}
+
+export interface AbilityCooldown {
+  ability: CharacterAbility;
+  remaining: number; // ms
+  progress: number; // 0 = just used, 1 = ready
+  isActive: boolean; // Buff still running
+}
+
+interface TimedEffect {
+  ability: CharacterAbility;
+  expiresAt: number;
+}
+
+const DEFAULT_BUFF_DURATION = 3000; // Kick buffs without a duration still need to wear off
+const AREA_LAUNCH_FORCE = 900;
+const OBJECT_LAUNCH_FORCE = 600;
+const TIME_SLOW_MULTIPLIER = 0.3;
+
+// Character special abilities: input slots -> cooldown -> effects on enemies, objects and the player
+export class AbilitySystem {
+  private scene: Scene;
+  private timedEffects: TimedEffect[] = [];
+  private frozenEnemies: Map<Enemy, number> = new Map(); // Enemy -> frozen until
+  private slowedEnemies: Set<Enemy> = new Set();
+  private readyAt: Map<string, number> = new Map(); // Ability id -> usable again at, per run not per character
+  private clock: number = 0; // ms of unpaused play - timers stop with the scene
+  private events: GameEventBus;
+
+  public onAbilityUsed?: AbilityUsedCallback;
+
+  constructor(scene: Scene, events: GameEventBus) {
+    this.scene = scene;
+    this.events = events;
+  }
+
+  useAbility(slot: number, player: Player, enemies: Enemy[], objects: KickableObject[]): boolean {
+    const ability = player.getCharacterAbilities()[slot];
+    if (!ability || this.getCooldownRemaining(ability) > 0) return false;
+    this.readyAt.set(ability.id, this.clock + ability.cooldown);
+
+    const effect = ability.effect;
+    switch (effect.type) {
+      case 'area_attack':
+        this.executeAreaAttack(ability, player, enemies, objects);
+        break;
+
+      case 'kick_modifier':
+      case 'movement':
+      case 'environmental':
+        this.timedEffects.push({ ability, expiresAt: this.clock + (effect.duration ?? DEFAULT_BUFF_DURATION) });
+        break;
+    }
+
+    console.log(`✨ ${ability.name}!`);
+    this.onAbilityUsed?.(ability, slot);
+    this.applyTimedEffects(player, enemies);
+    return true;
+  }
+
+  update(deltaTime: number, player: Player, enemies: Enemy[]): void {
+    this.clock += deltaTime;
+    this.timedEffects = this.timedEffects.filter(effect => effect.expiresAt > this.clock);
+    this.frozenEnemies.forEach((until, enemy) => {
+      if (until <= this.clock || !enemy.sprite.active) this.frozenEnemies.delete(enemy);
+    });
+    this.applyTimedEffects(player, enemies);
+  }
+
+  getCooldowns(player: Player): AbilityCooldown[] {
+    return player.getCharacterAbilities().map(ability => {
+      const remaining = this.getCooldownRemaining(ability);
+      return {
+        ability,
+        remaining,
+        progress: ability.cooldown > 0 ? 1 - remaining / ability.cooldown : 1,
+        isActive: this.timedEffects.some(effect => effect.ability === ability)
+      };
+    });
+  }
+
+  // Drops every running effect - buffs, freezes and slows
+  clear(player: Player): void {
+    this.timedEffects = [];
+    this.frozenEnemies.clear();
+    this.applyTimedEffects(player, []);
+  }
+
+  private getCooldownRemaining(ability: CharacterAbility): number {
+    return Math.max(0, (this.readyAt.get(ability.id) ?? 0) - this.clock);
+  }
+
+  private applyTimedEffects(player: Player, enemies: Enemy[]): void {
+    let kickForce = 1;
+    let kickRange = 1;
+    let speedBonus = 0;
+    let invincible = false;
+    let timeSlow = false;
+
+    this.timedEffects.forEach(({ ability }) => {
+      const effect = ability.effect;
+      kickForce *= effect.kickForceMultiplier ?? 1;
+      kickRange *= effect.kickRangeMultiplier ?? 1;
+      speedBonus += effect.movementSpeedBonus ?? 0;
+      invincible = invincible || effect.specialEffect === 'invincibility';
+      timeSlow = timeSlow || effect.type === 'environmental';
+    });
+
+    player.kickForceMultiplier = kickForce;
+    player.kickRangeMultiplier = kickRange;
+    player.speedBonus = speedBonus;
+    player.isInvincible = invincible;
+
+    // Give enemies that left a slow their speed back
+    this.slowedEnemies.forEach(enemy => enemy.speedMultiplier = 1);
+    this.slowedEnemies.clear();
+
+    enemies.forEach(enemy => {
+      if (!enemy.sprite.active) return;
+      const multiplier = this.frozenEnemies.has(enemy) ? 0 : timeSlow ? TIME_SLOW_MULTIPLIER : 1;
+      if (multiplier < 1) {
+        enemy.speedMultiplier = multiplier;
+        this.slowedEnemies.add(enemy);
+      }
+    });
+  }
+
+  private executeAreaAttack(ability: CharacterAbility, player: Player, enemies: Enemy[], objects: KickableObject[]): void {
+    const effect = ability.effect;
+    const origin = player.getPosition();
+    const radius = effect.areaRadius ?? 100;
+    const damage = effect.damage ?? 0;
+
+    // Tidal wave pushes everything the way the player is moving instead of outward
+    const waveDirection = effect.specialEffect === 'tidal_wave' && (player.velocity.x !== 0 || player.velocity.y !== 0)
+      ? player.velocity.clone().normalize()
+      : null;
+
+    enemies.forEach(enemy => {
+      if (!enemy.sprite.active || enemy.isDying) return;
+      if (Math.hypot(enemy.x - origin.x, enemy.y - origin.y) > radius + enemy.hitboxRadius) return;
+
+      const direction = waveDirection || this.getDirection(origin, enemy.x, enemy.y);
+      const force = AREA_LAUNCH_FORCE * (enemy.enemyType.kickMultiplier || 1);
+      const killed = damage > 0 ? enemy.takeDamage(damage) : false;
+      enemy.applyKnockback(direction.x * force, direction.y * force);
+
+      // Temporal shockwave holds them in place
+      if (effect.duration && effect.specialEffect === 'time_freeze') {
+        this.frozenEnemies.set(enemy, this.clock + effect.duration);
+      }
+      if (damage > 0) {
+        this.events.emit('damageDealt', { amount: damage, source: 'ability', target: enemy });
+      }
+      if (killed) {
+        this.events.emit('enemyKilled', { x: enemy.x, y: enemy.y, isCritical: false, source: 'ability' });
+      }
+    });
+
+    objects.forEach(object => {
+      if (object.isBroken) return;
+      if (Math.hypot(object.x - origin.x, object.y - origin.y) > radius + object.radius) return;
+
+      const direction = waveDirection || this.getDirection(origin, object.x, object.y);
+      object.applyKick(direction.x * OBJECT_LAUNCH_FORCE, direction.y * OBJECT_LAUNCH_FORCE, player.getKickForce());
+    });
+
+    this.showAreaEffect(origin, radius);
+  }
+
+  private getDirection(origin: Vector2, x: number, y: number): Vector2 {
+    const direction = new Vector2(x - origin.x, y - origin.y);
+    return direction.magnitude() > 0 ? direction.normalize() : new Vector2(1, 0);
+  }
+
+  private showAreaEffect(origin: Vector2, radius: number): void {
+    const ring = this.scene.add.graphics();
+    ring.setDepth(15);
+    ring.lineStyle(6, 0xffdd00, 0.9);
+    ring.strokeCircle(0, 0, radius);
+    ring.setPosition(origin.x, origin.y);
+    ring.setScale(0.2);
+
+    this.scene.tweens.add({
+      targets: ring,
+      scale: 1,
+      alpha: 0,
+      duration: 350,
+      ease: 'Power2',
+      onComplete: () => ring.destroy()
+    });
+  }
+}
@@ -0,0 +1,314 @@
+import { Scene } from 'phaser';
+import { Player } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { KickableObject } from '../entities/KickableObject';
+import { Vector2 } from '../utils/Vector2';
+import { ARENA_HAZARDS } from '../config/arenaHazards';
+import { ArenaHazardConfig, BossConfig } from './ZoneTypes';
+
+export interface ActiveHazard {
+  config: ArenaHazardConfig;
+  position: Vector2;
+  radius: number;
+  health: number;
+  isDestroyed: boolean;
+}
+
+export interface HazardDestroyedCallback {
+  (hazard: ActiveHazard): void;
+}
+
+interface SurfaceEntity {
+  surfaceFriction: number;
+}
+
+const PLAYER_RADIUS = 20;
+const WALL_BOUNCE = 0.8; // Velocity kept when bouncing off the ring or a pillar
+const WALL_CATCH_DEPTH = 40; // Only bounce things that just crossed the ring, not ones outside it
+const KNOCKED_ENEMY_IMPACT_DAMAGE = 20;
+
+// Boss arena: a ring that keeps the player and boss in, plus per-boss ground hazards
+export class ArenaSystem {
+  private scene: Scene;
+  private center: Vector2 = new Vector2();
+  private radius: number = 0;
+  private active: boolean = false;
+  private hazards: ActiveHazard[] = [];
+  private graphics?: Phaser.GameObjects.Graphics;
+  private affected: Set<SurfaceEntity> = new Set();
+  private player?: Player;
+
+  public onHazardDestroyed?: HazardDestroyedCallback;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  activate(boss: BossConfig): void {
+    this.center = boss.position.clone();
+    this.radius = boss.arenaRadius;
+    this.hazards = (boss.hazards || []).map(hazard => {
+      const config = ARENA_HAZARDS[hazard.type];
+      return {
+        config,
+        position: this.center.clone().add(hazard.offset),
+        radius: hazard.radius,
+        health: config.health ?? Infinity,
+        isDestroyed: false
+      };
+    });
+    this.active = true;
+
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(2); // On the ground, under objects and enemies
+    this.draw();
+
+    console.log(`🏟️ Arena closed around ${boss.name} with ${this.hazards.length} hazards`);
+  }
+
+  deactivate(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.hazards = [];
+    this.graphics?.destroy();
+    this.graphics = undefined;
+
+    // Give everything its normal grip back
+    this.affected.forEach(entity => entity.surfaceFriction = 1);
+    this.affected.clear();
+    if (this.player) {
+      this.player.surfaceSpeedMultiplier = 1;
+      this.player = undefined;
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getCenter(): Vector2 {
+    return this.center.clone();
+  }
+
+  getRadius(): number {
+    return this.radius;
+  }
+
+  getHazards(): ActiveHazard[] {
+    return this.hazards.filter(hazard => !hazard.isDestroyed);
+  }
+
+  // Ground hazard (ice, sand) under a point - solid ones are never stood on
+  getSurfaceAt(x: number, y: number): ActiveHazard | undefined {
+    return this.hazards.find(hazard =>
+      !hazard.isDestroyed &&
+      !hazard.config.solid &&
+      Math.hypot(x - hazard.position.x, y - hazard.position.y) <= hazard.radius
+    );
+  }
+
+  update(player: Player, boss: Enemy | null, enemies: Enemy[], objects: KickableObject[]): void {
+    if (!this.active) return;
+
+    this.updatePlayer(player);
+
+    if (boss && boss.sprite.active) {
+      this.confineToRing(boss.sprite, boss.hitboxRadius);
+      this.pushOutOfPillars(boss.sprite, boss.hitboxRadius);
+    }
+
+    enemies.forEach(enemy => {
+      if (enemy === boss || !enemy.sprite.active) return;
+      this.applySlideSurface(enemy, enemy.sprite.x, enemy.sprite.y);
+      if (enemy.isKnockedBack) {
+        const hitRing = this.bounceOffRing(enemy.sprite, enemy.knockbackVelocity);
+        const hitPillar = this.bounceOffPillars(enemy.sprite, enemy.knockbackVelocity, enemy.hitboxRadius, KNOCKED_ENEMY_IMPACT_DAMAGE);
+        // Wall hits count as impacts - Chain Explosions and lit fuses go off on these
+        if (hitRing || hitPillar) {
+          enemy.bounceCount++;
+        }
+      }
+    });
+
+    objects.forEach(object => {
+      if (object.isBroken) return;
+      this.applySlideSurface(object, object.x, object.y);
+      if (object.isFlying) {
+        this.bounceOffRing(object.sprite, object.velocity);
+        if (this.bounceOffPillars(object.sprite, object.velocity, object.radius, object.config.damage)) {
+          object.takeDamage(5);
+        }
+      }
+    });
+  }
+
+  private updatePlayer(player: Player): void {
+    this.player = player;
+
+    const surface = this.getSurfaceAt(player.sprite.x, player.sprite.y);
+    player.surfaceFriction = surface ? surface.config.playerFriction : 1;
+    player.surfaceSpeedMultiplier = surface ? surface.config.playerSpeedMultiplier : 1;
+
+    // Sliding into the ring kills the slide
+    if (this.confineToRing(player.sprite, PLAYER_RADIUS)) {
+      player.velocity.multiply(0.5);
+    }
+    this.pushOutOfPillars(player.sprite, PLAYER_RADIUS);
+  }
+
+  private applySlideSurface(entity: SurfaceEntity, x: number, y: number): void {
+    const surface = this.getSurfaceAt(x, y);
+    entity.surfaceFriction = surface ? surface.config.slideFriction : 1;
+    this.affected.add(entity);
+  }
+
+  // Keeps a combatant inside the ring - returns true if it had to be pushed back
+  private confineToRing(position: { x: number; y: number }, entityRadius: number): boolean {
+    const limit = Math.max(0, this.radius - entityRadius);
+    const dx = position.x - this.center.x;
+    const dy = position.y - this.center.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance <= limit) return false;
+
+    const scale = distance > 0 ? limit / distance : 0;
+    position.x = this.center.x + dx * scale;
+    position.y = this.center.y + dy * scale;
+    return true;
+  }
+
+  // Returns true on a hit
+  private bounceOffRing(position: { x: number; y: number }, velocity: Vector2): boolean {
+    const dx = position.x - this.center.x;
+    const dy = position.y - this.center.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance <= this.radius || distance > this.radius + WALL_CATCH_DEPTH) return false;
+
+    const normal = new Vector2(-dx / distance, -dy / distance); // Points back inward
+    if (!reflect(velocity, normal)) return false;
+
+    position.x = this.center.x + (dx / distance) * this.radius;
+    position.y = this.center.y + (dy / distance) * this.radius;
+    return true;
+  }
+
+  private pushOutOfPillars(position: { x: number; y: number }, entityRadius: number): void {
+    this.getPillars().forEach(pillar => {
+      pushOutOfCircle(position, pillar.position, pillar.radius + entityRadius);
+    });
+  }
+
+  // Kicked things ricochet off pillars and chip them - returns true on a hit
+  private bounceOffPillars(position: { x: number; y: number }, velocity: Vector2, entityRadius: number, impactDamage: number): boolean {
+    let hit = false;
+
+    this.getPillars().forEach(pillar => {
+      const minDistance = pillar.radius + entityRadius;
+      const dx = position.x - pillar.position.x;
+      const dy = position.y - pillar.position.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance >= minDistance) return;
+
+      const normal = distance > 0 ? new Vector2(dx / distance, dy / distance) : new Vector2(1, 0);
+      if (!reflect(velocity, normal)) return;
+
+      pushOutOfCircle(position, pillar.position, minDistance);
+      this.damageHazard(pillar, impactDamage);
+      hit = true;
+    });
+
+    return hit;
+  }
+
+  private getPillars(): ActiveHazard[] {
+    return this.hazards.filter(hazard => hazard.config.solid && !hazard.isDestroyed);
+  }
+
+  private damageHazard(hazard: ActiveHazard, amount: number): void {
+    hazard.health -= amount;
+    if (hazard.health <= 0) {
+      hazard.isDestroyed = true;
+      this.playCrumbleEffect(hazard);
+      console.log(`💥 ${hazard.config.name} destroyed!`);
+      this.onHazardDestroyed?.(hazard);
+    }
+    this.draw();
+  }
+
+  private draw(): void {
+    const g = this.graphics;
+    if (!g) return;
+    g.clear();
+
+    // Arena floor and ring
+    g.fillStyle(0x000000, 0.15);
+    g.fillCircle(this.center.x, this.center.y, this.radius);
+    g.lineStyle(6, 0xff3333, 0.8);
+    g.strokeCircle(this.center.x, this.center.y, this.radius);
+    g.lineStyle(2, 0xffaa00, 0.6);
+    g.strokeCircle(this.center.x, this.center.y, this.radius - 8);
+
+    this.getHazards().forEach(hazard => {
+      const { x, y } = hazard.position;
+      if (hazard.config.solid) {
+        // Pillars fade as they crack
+        const integrity = hazard.config.health ? hazard.health / hazard.config.health : 1;
+        g.fillStyle(hazard.config.color, 0.5 + integrity * 0.5);
+        g.fillCircle(x, y, hazard.radius);
+        g.lineStyle(3, 0x444444, 1);
+        g.strokeCircle(x, y, hazard.radius);
+      } else {
+        g.fillStyle(hazard.config.color, 0.45);
+        g.fillCircle(x, y, hazard.radius);
+        g.lineStyle(2, hazard.config.color, 0.8);
+        g.strokeCircle(x, y, hazard.radius);
+      }
+    });
+  }
+
+  private playCrumbleEffect(hazard: ActiveHazard): void {
+    for (let i = 0; i < 10; i++) {
+      const chunk = this.scene.add.graphics();
+      chunk.setDepth(18);
+      chunk.fillStyle(hazard.config.color, 1);
+      chunk.fillRect(-4, -4, 8, 8);
+      chunk.setPosition(hazard.position.x, hazard.position.y);
+
+      const angle = Math.random() * Math.PI * 2;
+      const distance = hazard.radius + Math.random() * 40;
+      this.scene.tweens.add({
+        targets: chunk,
+        x: hazard.position.x + Math.cos(angle) * distance,
+        y: hazard.position.y + Math.sin(angle) * distance,
+        alpha: 0,
+        duration: 600,
+        ease: 'Power2',
+        onComplete: () => chunk.destroy()
+      });
+    }
+  }
+}
+
+// Mirrors velocity across a surface normal - false if already moving away from it
+function reflect(velocity: Vector2, normal: Vector2): boolean {
+  const dot = velocity.x * normal.x + velocity.y * normal.y;
+  if (dot >= 0) return false;
+
+  velocity.x = (velocity.x - 2 * dot * normal.x) * WALL_BOUNCE;
+  velocity.y = (velocity.y - 2 * dot * normal.y) * WALL_BOUNCE;
+  return true;
+}
+
+function pushOutOfCircle(position: { x: number; y: number }, center: Vector2, minDistance: number): void {
+  const dx = position.x - center.x;
+  const dy = position.y - center.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance >= minDistance) return;
+
+  if (distance === 0) {
+    position.x = center.x + minDistance;
+    return;
+  }
+  position.x = center.x + (dx / distance) * minDistance;
+  position.y = center.y + (dy / distance) * minDistance;
+}
@@ -0,0 +1,182 @@
+import { Scene } from 'phaser';
+import { Player } from '../entities/Player';
+
+export type BossHazardShape =
+  | { kind: 'circle'; x: number; y: number; radius: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width: number }
+  | { kind: 'wave'; x: number; y: number; maxRadius: number; thickness: number }; // Ring that grows over the active time
+
+export interface BossHazardSpec {
+  shape: BossHazardShape;
+  telegraphTime: number;
+  activeTime: number;
+  damage: number;
+  color: number;
+  slow?: { multiplier: number; duration: number };
+}
+
+export type BossHazardPhase = 'telegraph' | 'active' | 'done';
+
+export interface BossHazard {
+  spec: BossHazardSpec;
+  elapsed: number;
+  phase: BossHazardPhase;
+  hasHit: boolean; // Damage lands once per hazard, slows keep refreshing
+}
+
+export interface BossHazardHitCallback {
+  (hazard: BossHazard, damage: number): void;
+}
+
+interface ActiveBossHazard extends BossHazard {
+  graphics: Phaser.GameObjects.Graphics;
+}
+
+const PLAYER_RADIUS = 20;
+
+// Timed boss attack areas: telegraph -> active frames that hit the player -> cleanup
+export class BossHazardSystem {
+  private scene: Scene;
+  private hazards: ActiveBossHazard[] = [];
+
+  public onPlayerHit?: BossHazardHitCallback;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  spawn(spec: BossHazardSpec): BossHazard {
+    const graphics = this.scene.add.graphics();
+    graphics.setDepth(88); // Under the boss, over the ground
+
+    const hazard: ActiveBossHazard = {
+      spec,
+      elapsed: 0,
+      phase: spec.telegraphTime > 0 ? 'telegraph' : 'active',
+      hasHit: false,
+      graphics
+    };
+    this.hazards.push(hazard);
+    this.draw(hazard);
+    return hazard;
+  }
+
+  update(deltaTime: number, player: Player): void {
+    this.hazards.forEach(hazard => {
+      hazard.elapsed += deltaTime;
+      hazard.phase = getPhase(hazard);
+
+      if (hazard.phase === 'active' && hazardContains(hazard, player.sprite.x, player.sprite.y, PLAYER_RADIUS)) {
+        this.hitPlayer(hazard, player);
+      }
+      this.draw(hazard);
+    });
+
+    // Cleanup
+    this.hazards = this.hazards.filter(hazard => {
+      if (hazard.phase !== 'done') return true;
+      hazard.graphics.destroy();
+      return false;
+    });
+  }
+
+  getHazards(): BossHazard[] {
+    return [...this.hazards];
+  }
+
+  clear(): void {
+    this.hazards.forEach(hazard => hazard.graphics.destroy());
+    this.hazards = [];
+  }
+
+  private hitPlayer(hazard: ActiveBossHazard, player: Player): void {
+    const { damage, slow } = hazard.spec;
+
+    if (slow) {
+      player.applySlow(slow.multiplier, slow.duration);
+    }
+    if (hazard.hasHit || damage <= 0) return;
+
+    hazard.hasHit = true;
+    player.takeDamage(damage);
+    this.onPlayerHit?.(hazard, damage);
+  }
+
+  private draw(hazard: ActiveBossHazard): void {
+    const g = hazard.graphics;
+    const { shape, color, telegraphTime } = hazard.spec;
+    g.clear();
+    if (hazard.phase === 'done') return;
+
+    if (hazard.phase === 'telegraph') {
+      // Outline plus a fill that grows until the hazard goes live
+      const progress = telegraphTime > 0 ? hazard.elapsed / telegraphTime : 1;
+      g.lineStyle(2, color, 0.8);
+      g.fillStyle(color, 0.1 + progress * 0.25);
+    } else {
+      g.lineStyle(3, 0xffffff, 0.9);
+      g.fillStyle(color, 0.6);
+    }
+
+    switch (shape.kind) {
+      case 'circle':
+        g.fillCircle(shape.x, shape.y, shape.radius);
+        g.strokeCircle(shape.x, shape.y, shape.radius);
+        break;
+
+      case 'line':
+        g.lineStyle(shape.width, color, hazard.phase === 'telegraph' ? 0.25 : 0.6);
+        g.lineBetween(shape.x1, shape.y1, shape.x2, shape.y2);
+        break;
+
+      case 'wave':
+        if (hazard.phase === 'telegraph') {
+          g.strokeCircle(shape.x, shape.y, shape.maxRadius);
+        } else {
+          g.lineStyle(shape.thickness, color, 0.6);
+          g.strokeCircle(shape.x, shape.y, getWaveRadius(hazard));
+        }
+        break;
+    }
+  }
+}
+
+function getPhase(hazard: BossHazard): BossHazardPhase {
+  const { telegraphTime, activeTime } = hazard.spec;
+  if (hazard.elapsed < telegraphTime) return 'telegraph';
+  if (hazard.elapsed < telegraphTime + activeTime) return 'active';
+  return 'done';
+}
+
+function getWaveRadius(hazard: BossHazard): number {
+  const shape = hazard.spec.shape;
+  if (shape.kind !== 'wave') return 0;
+  const progress = (hazard.elapsed - hazard.spec.telegraphTime) / hazard.spec.activeTime;
+  return shape.maxRadius * Math.min(1, Math.max(0, progress));
+}
+
+// Hit test for a circle of the given radius
+export function hazardContains(hazard: BossHazard, x: number, y: number, radius: number): boolean {
+  const shape = hazard.spec.shape;
+
+  switch (shape.kind) {
+    case 'circle':
+      return Math.hypot(x - shape.x, y - shape.y) <= shape.radius + radius;
+
+    case 'line':
+      return distanceToSegment(x, y, shape.x1, shape.y1, shape.x2, shape.y2) <= shape.width / 2 + radius;
+
+    case 'wave': {
+      const distance = Math.hypot(x - shape.x, y - shape.y);
+      return Math.abs(distance - getWaveRadius(hazard)) <= shape.thickness / 2 + radius;
+    }
+  }
+}
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared)) : 0;
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
@@ -1,8 +1,5 @@
 import { Scene } from 'phaser';
-
-export interface ComboCallback {
-  (comboCount: number, multiplier: number): void;
-}
+import { GameEventBus } from './GameEventBus';
 
 export class ComboSystem {
   private scene: Scene;
@@ -13,12 +10,11 @@ export class ComboSystem {
   private comboText?: Phaser.GameObjects.Text;
   private comboDisplay?: Phaser.GameObjects.Container;
   
-  // Callbacks for combo events
-  public onComboIncrease?: ComboCallback;
-  public onComboReset?: ComboCallback;
+  private events: GameEventBus;
   
-  constructor(scene: Scene) {
+  constructor(scene: Scene, events: GameEventBus) {
     this.scene = scene;
+    this.events = events;
     this.createComboDisplay();
   }
   
@@ -70,10 +66,8 @@ export class ComboSystem {
       this.showComboDisplay();
     }
     
-    // Trigger callback
-    if (this.onComboIncrease) {
-      this.onComboIncrease(this.comboCount, this.comboMultiplier);
-    }
+    // Announce the new combo
+    this.events.emit('comboChanged', { count: this.comboCount, multiplier: this.comboMultiplier });
     
     // Special effects for high combos
     if (this.comboCount >= 5) {
@@ -194,9 +188,6 @@ export class ComboSystem {
   resetCombo(): void {
     if (this.comboCount === 0) return; // Already reset
     
-    const oldCount = this.comboCount;
-    const oldMultiplier = this.comboMultiplier;
-    
     this.comboCount = 0;
     this.comboMultiplier = 1.0;
     
@@ -217,10 +208,8 @@ export class ComboSystem {
       });
     }
     
-    // Trigger callback
-    if (this.onComboReset) {
-      this.onComboReset(oldCount, oldMultiplier);
-    }
+    // Announce the drop
+    this.events.emit('comboChanged', { count: 0, multiplier: this.comboMultiplier });
   }
   
   // Get current multiplier for damage calculations
@@ -1,69 +1,38 @@
 import { Scene } from 'phaser';
 import { Enemy } from '../entities/Enemy';
 import { Boss } from '../entities/Boss';
-import { KickableObject, ObjectType } from '../entities/KickableObject';
+import { KickableObject } from '../entities/KickableObject';
 import { PoolManager } from '../managers/PoolManager';
 import { Vector2 } from '../utils/Vector2';
 import { ENEMY_TYPES } from '../config/enemyTypes';
-import { EnemyTypeId } from '../enemies/EnemyType';
+import { EnemyTypeConfig } from '../enemies/EnemyType';
 import { CharacterManager } from '../entities/Character';
-
-export enum EnemyState {
-  STATIONARY = 'stationary',
-  PATROLLING = 'patrolling', 
-  AGGROED = 'aggroed',
-  COMBAT = 'combat',
-  FLEEING = 'fleeing'
-}
-
-export interface GameZone {
-  id: string;
-  name: string;
-  bounds: { x: number; y: number; width: number; height: number };
-  enemies: StationaryEnemy[];
-  kickableObjects: KickableObjectConfig[];
-  boss?: BossConfig;
-  theme: ZoneTheme;
-  requiredCharacters: string[];
-  isUnlocked: boolean;
-}
-
-export interface StationaryEnemy {
-  position: Vector2;
-  enemyType: EnemyTypeId;
-  aggroRadius: number;
-  patrolPath?: Vector2[];
-  state: EnemyState;
-  enemy?: Enemy; // Runtime enemy instance
-}
-
-export interface KickableObjectConfig {
-  position: Vector2;
-  type: ObjectType;
-  object?: KickableObject; // Runtime object instance
-}
-
-export interface BossConfig {
-  type: string;
-  name: string;
-  position: Vector2;
-  health: number;
-  phases: BossPhase[];
-  arenaRadius: number;
-  unlockCharacter: string;
+import { SaveManager } from '../managers/SaveManager';
+import { loadZoneDefinitions } from './ZoneLoader';
+import { GameEventBus } from './GameEventBus';
+import { GameZone, StationaryEnemy, EnemyState, BossConfig } from './ZoneTypes';
+
+// Zone types live in ZoneTypes.ts so the zone loader can share them
+export { EnemyState } from './ZoneTypes';
+export type {
+  GameZone,
+  StationaryEnemy,
+  KickableObjectConfig,
+  BossConfig,
+  BossPhase,
+  ZoneTheme
+} from './ZoneTypes';
+
+export interface ZoneClearedCallback {
+  (zone: GameZone): void;
 }
 
-export interface BossPhase {
-  healthThreshold: number;
-  abilities: string[];
-  movementPattern: string;
+export interface BossFightStartedCallback {
+  (boss: BossConfig): void;
 }
 
-export interface ZoneTheme {
-  backgroundColor: number;
-  groundTexture: string;
-  ambientColor: number;
-  musicTrack: string;
+export interface BossDefeatedCallback {
+  (boss: BossConfig, unlockedCharacterId: string | null): void;
 }
 
 export class EncounterSystem {
@@ -71,12 +40,18 @@ export class EncounterSystem {
   private zones: GameZone[] = [];
   private currentZone: GameZone | null = null;
   private activeEnemies: Map<string, Enemy> = new Map();
+  private spawnedEnemies: Enemy[] = []; // Extras like splitter children - never respawned
   private activeObjects: Map<string, KickableObject> = new Map();
   private currentBoss: Boss | null = null;
   private isBossFight: boolean = false;
   private aggroRadius: number = 150; // Default aggro distance
   
-  constructor(private scene: Scene) {
+  // Callbacks
+  public onZoneCleared?: ZoneClearedCallback;
+  public onBossFightStarted?: BossFightStartedCallback;
+  public onBossDefeated?: BossDefeatedCallback;
+  
+  constructor(private scene: Scene, private events: GameEventBus) {
     // Create enemy pool
     this.enemyPool = new PoolManager(
       () => new Enemy(scene),
@@ -85,134 +60,7 @@ export class EncounterSystem {
     );
     
     // Initialize zones
-    this.createGameZones();
-  }
-
-  private createGameZones(): void {
-    // Zone 1: Tutorial Grove - Easy introduction
-    this.zones.push({
-      id: 'tutorial-grove',
-      name: 'Tutorial Grove',
-      bounds: { x: 0, y: 0, width: 1200, height: 800 },
-      enemies: [
-        { position: new Vector2(300, 200), enemyType: EnemyTypeId.BASIC, aggroRadius: 100, state: EnemyState.STATIONARY },
-        { position: new Vector2(500, 300), enemyType: EnemyTypeId.BASIC, aggroRadius: 120, state: EnemyState.STATIONARY },
-        { position: new Vector2(700, 150), enemyType: EnemyTypeId.FAST, aggroRadius: 140, state: EnemyState.STATIONARY },
-        { position: new Vector2(400, 500), enemyType: EnemyTypeId.BASIC, aggroRadius: 110, state: EnemyState.STATIONARY },
-        { position: new Vector2(800, 400), enemyType: EnemyTypeId.FAST, aggroRadius: 130, state: EnemyState.STATIONARY }
-      ],
-      kickableObjects: [
-        { position: new Vector2(350, 250), type: ObjectType.BARREL },
-        { position: new Vector2(600, 200), type: ObjectType.BOX },
-        { position: new Vector2(450, 400), type: ObjectType.STONE }
-      ],
-      boss: {
-        type: 'swarm-king',
-        name: 'Swarm King Chimpanzini',
-        position: new Vector2(900, 600),
-        health: 300,
-        phases: [
-          { healthThreshold: 1.0, abilities: ['summon-swarm'], movementPattern: 'circle' },
-          { healthThreshold: 0.5, abilities: ['summon-swarm', 'charge-attack'], movementPattern: 'aggressive' }
-        ],
-        arenaRadius: 200,
-        unlockCharacter: 'chimpanzini-bananini'
-      },
-      theme: {
-        backgroundColor: 0x2d5a27,
-        groundTexture: 'grass',
-        ambientColor: 0x90ff90,
-        musicTrack: 'forest-theme'
-      },
-      requiredCharacters: [],
-      isUnlocked: true
-    });
-
-    // Zone 2: Desert Outpost - Medium difficulty
-    this.zones.push({
-      id: 'desert-outpost', 
-      name: 'Desert Outpost',
-      bounds: { x: 1500, y: 0, width: 1400, height: 900 },
-      enemies: [
-        { position: new Vector2(1700, 200), enemyType: EnemyTypeId.TANK, aggroRadius: 120, state: EnemyState.PATROLLING, 
-          patrolPath: [new Vector2(1700, 200), new Vector2(1900, 200), new Vector2(1900, 400), new Vector2(1700, 400)] },
-        { position: new Vector2(2000, 300), enemyType: EnemyTypeId.FAST, aggroRadius: 160, state: EnemyState.STATIONARY },
-        { position: new Vector2(2200, 150), enemyType: EnemyTypeId.FAST, aggroRadius: 140, state: EnemyState.STATIONARY },
-        { position: new Vector2(1800, 500), enemyType: EnemyTypeId.BASIC, aggroRadius: 100, state: EnemyState.STATIONARY },
-        { position: new Vector2(2100, 600), enemyType: EnemyTypeId.TANK, aggroRadius: 130, state: EnemyState.STATIONARY },
-        { position: new Vector2(2300, 450), enemyType: EnemyTypeId.SWARM, aggroRadius: 180, state: EnemyState.STATIONARY }
-      ],
-      kickableObjects: [
-        { position: new Vector2(1750, 300), type: ObjectType.BARREL },
-        { position: new Vector2(2050, 250), type: ObjectType.STONE },
-        { position: new Vector2(2150, 500), type: ObjectType.LOG }
-      ],
-      boss: {
-        type: 'desert-bomber',
-        name: 'Bombardiro Crocodilo',
-        position: new Vector2(2500, 700),
-        health: 500,
-        phases: [
-          { healthThreshold: 1.0, abilities: ['bomb-barrage'], movementPattern: 'stationary' },
-          { healthThreshold: 0.7, abilities: ['bomb-barrage', 'charge-slam'], movementPattern: 'chase' },
-          { healthThreshold: 0.3, abilities: ['mega-bomb', 'charge-slam'], movementPattern: 'berserker' }
-        ],
-        arenaRadius: 250,
-        unlockCharacter: 'bombardiro-crocodilo'
-      },
-      theme: {
-        backgroundColor: 0x8b7355,
-        groundTexture: 'sand',
-        ambientColor: 0xffdd88,
-        musicTrack: 'desert-theme'
-      },
-      requiredCharacters: ['chimpanzini-bananini'],
-      isUnlocked: false
-    });
-
-    // Zone 3: Arctic Laboratory - High difficulty
-    this.zones.push({
-      id: 'arctic-lab',
-      name: 'Arctic Laboratory', 
-      bounds: { x: 0, y: 1200, width: 1600, height: 1000 },
-      enemies: [
-        { position: new Vector2(200, 1400), enemyType: EnemyTypeId.ELITE, aggroRadius: 200, state: EnemyState.PATROLLING,
-          patrolPath: [new Vector2(200, 1400), new Vector2(400, 1400), new Vector2(400, 1600), new Vector2(200, 1600)] },
-        { position: new Vector2(600, 1300), enemyType: EnemyTypeId.TANK, aggroRadius: 140, state: EnemyState.STATIONARY },
-        { position: new Vector2(800, 1500), enemyType: EnemyTypeId.TANK, aggroRadius: 130, state: EnemyState.STATIONARY },
-        { position: new Vector2(1000, 1350), enemyType: EnemyTypeId.SWARM, aggroRadius: 160, state: EnemyState.STATIONARY },
-        { position: new Vector2(1200, 1450), enemyType: EnemyTypeId.ELITE, aggroRadius: 180, state: EnemyState.STATIONARY },
-        { position: new Vector2(900, 1700), enemyType: EnemyTypeId.FAST, aggroRadius: 170, state: EnemyState.STATIONARY },
-        { position: new Vector2(1100, 1650), enemyType: EnemyTypeId.FAST, aggroRadius: 160, state: EnemyState.STATIONARY }
-      ],
-      kickableObjects: [
-        { position: new Vector2(300, 1500), type: ObjectType.BARREL },
-        { position: new Vector2(700, 1400), type: ObjectType.BOX },
-        { position: new Vector2(950, 1600), type: ObjectType.STONE },
-        { position: new Vector2(1300, 1500), type: ObjectType.BARREL }
-      ],
-      boss: {
-        type: 'ice-shark',
-        name: 'Tralalero Tralala', 
-        position: new Vector2(1400, 1800),
-        health: 700,
-        phases: [
-          { healthThreshold: 1.0, abilities: ['ice-dash'], movementPattern: 'swimming' },
-          { healthThreshold: 0.6, abilities: ['ice-dash', 'freeze-wave'], movementPattern: 'aggressive-swim' },
-          { healthThreshold: 0.2, abilities: ['mega-freeze', 'triple-dash'], movementPattern: 'frenzy' }
-        ],
-        arenaRadius: 300,
-        unlockCharacter: 'tralalero-tralala'
-      },
-      theme: {
-        backgroundColor: 0x4a7c7e,
-        groundTexture: 'ice',
-        ambientColor: 0xaaffff,
-        musicTrack: 'arctic-theme'
-      },
-      requiredCharacters: ['bombardiro-crocodilo'],
-      isUnlocked: false
-    });
+    this.zones = loadZoneDefinitions();
   }
 
   loadZone(zoneId: string): void {
@@ -263,7 +111,8 @@ export class EncounterSystem {
         this.scene,
         objectConfig.position.x,
         objectConfig.position.y,
-        objectConfig.type
+        objectConfig.type,
+        this.events
       );
       
       // Store object reference
@@ -281,6 +130,8 @@ export class EncounterSystem {
       this.enemyPool.release(enemy);
     });
     this.activeEnemies.clear();
+    this.spawnedEnemies.forEach(enemy => this.enemyPool.release(enemy));
+    this.spawnedEnemies = [];
     
     // Clean up all active objects
     this.activeObjects.forEach(obj => {
@@ -311,7 +162,7 @@ export class EncounterSystem {
       
       // Check if boss was defeated
       if (this.currentBoss.health <= 0 && this.currentBoss.isDying) {
-        this.onBossDefeated();
+        this.handleBossDefeated();
       }
     }
 
@@ -398,6 +249,13 @@ export class EncounterSystem {
       this.activeEnemies.delete(key);
     });
     
+    // Spawned extras go back to the pool once their death plays out
+    this.spawnedEnemies = this.spawnedEnemies.filter(enemy => {
+      if (enemy.sprite.active) return true;
+      this.enemyPool.release(enemy);
+      return false;
+    });
+    
     // Clean up broken objects
     const brokenObjects: string[] = [];
     this.activeObjects.forEach((obj, key) => {
@@ -441,8 +299,8 @@ export class EncounterSystem {
         if (distanceToPlayer > aggroRange * 1.5) { // Hysteresis to prevent flapping
           this.loseAggro(enemy, enemyConfig);
         } else {
-          // Continue normal homing behavior (handled by Enemy.update)
-          (enemy as any).movementType = 'homing';
+          // Continue normal chase behavior (handled by Enemy.update)
+          (enemy as any).movementType = this.getChaseMovement(enemy);
         }
         break;
     }
@@ -451,7 +309,7 @@ export class EncounterSystem {
   private triggerAggro(enemy: Enemy, config: StationaryEnemy): void {
     (enemy as any).hasAggro = true;
     config.state = EnemyState.AGGROED;
-    (enemy as any).movementType = 'homing';
+    (enemy as any).movementType = this.getChaseMovement(enemy);
     
     // Visual/audio feedback for aggro trigger
     enemy.sprite.setTint(0xff9999); // Slight red tint when aggroed
@@ -459,6 +317,11 @@ export class EncounterSystem {
     console.log(`Enemy aggroed at position ${enemy.sprite.x}, ${enemy.sprite.y}`);
   }
 
+  // Ranged and support enemies keep their distance once aggroed
+  private getChaseMovement(enemy: Enemy): Enemy['movementType'] {
+    return enemy.enemyType?.preferredRange !== undefined ? 'kiting' : 'homing';
+  }
+
   private loseAggro(enemy: Enemy, config: StationaryEnemy): void {
     (enemy as any).hasAggro = false;
     
@@ -509,6 +372,14 @@ export class EncounterSystem {
     return this.currentZone;
   }
 
+  getZone(zoneId: string): GameZone | undefined {
+    return this.zones.find(zone => zone.id === zoneId);
+  }
+
+  getAllZones(): GameZone[] {
+    return this.zones;
+  }
+
   getAvailableZones(): GameZone[] {
     return this.zones.filter(zone => zone.isUnlocked);
   }
@@ -517,10 +388,20 @@ export class EncounterSystem {
     const zone = this.zones.find(z => z.id === zoneId);
     if (zone) {
       zone.isUnlocked = true;
+      SaveManager.getInstance().unlockZone(zone.id);
       console.log(`Zone ${zone.name} unlocked!`);
     }
   }
 
+  // Re-apply zone unlocks persisted from previous sessions
+  restoreUnlockedZones(unlockedZoneIds: string[]): void {
+    this.zones.forEach(zone => {
+      if (unlockedZoneIds.includes(zone.id)) {
+        zone.isUnlocked = true;
+      }
+    });
+  }
+
   private startBossFight(): void {
     if (!this.currentZone?.boss) return;
     
@@ -533,7 +414,7 @@ export class EncounterSystem {
     this.activeEnemies.clear();
     
     // Create and spawn boss
-    this.currentBoss = new Boss(this.scene, this.currentZone.boss);
+    this.currentBoss = new Boss(this.scene, this.currentZone.boss, this.events);
     
     // Use appropriate enemy type for boss visual
     let bossEnemyType;
@@ -559,11 +440,12 @@ export class EncounterSystem {
     
     this.isBossFight = true;
     
-    // TODO: Show boss introduction screen
+    // Scene shows the intro card
+    this.onBossFightStarted?.(this.currentZone.boss);
     // TODO: Play boss music
   }
 
-  private onBossDefeated(): void {
+  private handleBossDefeated(): void {
     if (!this.currentBoss || !this.currentZone?.boss) return;
     
     console.log(`Boss ${this.currentZone.boss.name} defeated!`);
@@ -572,12 +454,15 @@ export class EncounterSystem {
     const characterManager = CharacterManager.getInstance();
     const unlocked = characterManager.unlockCharacterByBoss(this.currentZone.boss.type);
     
+    // Persist the kill (and the character unlock along with it)
+    SaveManager.getInstance().recordBossDefeat(this.currentZone.boss.type);
+    
     if (unlocked) {
       console.log(`🎉 New Italian Brainrot character unlocked: ${this.currentZone.boss.unlockCharacter}`);
-      // TODO: Show character unlock animation/screen
     }
     
-    // TODO: Show victory screen
+    // Scene shows the victory screen and unlock reveal
+    this.onBossDefeated?.(this.currentZone.boss, unlocked ? this.currentZone.boss.unlockCharacter : null);
     // TODO: Play victory music
     
     // Unlock next zone if applicable
@@ -588,7 +473,8 @@ export class EncounterSystem {
     this.currentBoss = null;
     this.isBossFight = false;
     
-    // TODO: Return to zone selection or continue
+    // Let the scene decide where to go next (zone selection)
+    this.onZoneCleared?.(this.currentZone);
   }
 
   private unlockNextZone(): void {
@@ -596,6 +482,7 @@ export class EncounterSystem {
     if (currentZoneIndex !== -1 && currentZoneIndex < this.zones.length - 1) {
       const nextZone = this.zones[currentZoneIndex + 1];
       nextZone.isUnlocked = true;
+      SaveManager.getInstance().unlockZone(nextZone.id);
       console.log(`Zone ${nextZone.name} unlocked!`);
     }
   }
@@ -608,8 +495,16 @@ export class EncounterSystem {
     return this.isBossFight && this.currentBoss !== null;
   }
 
+  // Extra enemy outside the zone layout, chasing the player straight away
+  spawnEnemyAt(x: number, y: number, enemyType: EnemyTypeConfig, movementAngle?: number): Enemy {
+    const enemy = this.enemyPool.acquire();
+    enemy.spawn(x, y, enemyType, movementAngle);
+    this.spawnedEnemies.push(enemy);
+    return enemy;
+  }
+
   getActiveEnemies(): Enemy[] {
-    const regularEnemies = Array.from(this.activeEnemies.values()).filter(enemy => enemy.sprite.active);
+    const regularEnemies = Array.from(this.activeEnemies.values()).concat(this.spawnedEnemies).filter(enemy => enemy.sprite.active);
     
     // Include boss in enemy list for collision detection
     if (this.currentBoss && this.currentBoss.sprite.active) {
@@ -0,0 +1,192 @@
+import { Scene } from 'phaser';
+import { Player } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { EnemyTypeConfig, HealAuraConfig, RangedAttackConfig, SplitConfig } from '../enemies/EnemyType';
+import { ENEMY_TYPES } from '../config/enemyTypes';
+
+export interface EnemyProjectile {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  damage: number;
+  radius: number;
+  remaining: number; // ms before it fizzles out
+}
+
+export interface EnemyProjectileHitCallback {
+  (projectile: EnemyProjectile, damage: number): void;
+}
+
+export interface EnemySpawnCallback {
+  (x: number, y: number, enemyType: EnemyTypeConfig, direction: number): void;
+}
+
+interface ActiveEnemyProjectile extends EnemyProjectile {
+  graphics: Phaser.GameObjects.Graphics;
+}
+
+const PLAYER_RADIUS = 20;
+const SPLIT_SPREAD = 12; // Children start this far out so they don't stack
+const PROJECTILE_COLOR = 0x66ff99;
+const HEAL_PULSE_COLOR = 0x66ff66;
+
+// Ranged shots, healer pulses and splitter deaths - everything an enemy does besides walking into the player
+export class EnemyArchetypeSystem {
+  private scene: Scene;
+  private random: () => number;
+  private projectiles: ActiveEnemyProjectile[] = [];
+
+  public onPlayerHit?: EnemyProjectileHitCallback;
+  public onSpawnEnemy?: EnemySpawnCallback;
+
+  constructor(scene: Scene, random: () => number = Math.random) {
+    this.scene = scene;
+    this.random = random;
+  }
+
+  update(deltaTime: number, player: Player, enemies: Enemy[]): void {
+    enemies.forEach(enemy => {
+      if (!enemy.sprite.active) return;
+
+      const type = enemy.enemyType;
+      if (enemy.isDying) {
+        if (type.splitOnDeath && !enemy.hasSplit) {
+          this.split(enemy, type.splitOnDeath);
+        }
+        return;
+      }
+
+      if (!type.ranged && !type.healAura) return;
+      if (!this.isEngaged(enemy)) return;
+
+      enemy.attackCooldown = Math.max(0, enemy.attackCooldown - deltaTime);
+      if (enemy.attackCooldown > 0) return;
+
+      if (type.ranged) {
+        this.fire(enemy, type.ranged, player);
+      } else if (type.healAura) {
+        this.pulseHeal(enemy, type.healAura, enemies);
+      }
+    });
+
+    this.updateProjectiles(deltaTime, player);
+  }
+
+  getProjectiles(): EnemyProjectile[] {
+    return [...this.projectiles];
+  }
+
+  clear(): void {
+    this.projectiles.forEach(projectile => projectile.graphics.destroy());
+    this.projectiles = [];
+  }
+
+  // Idle zone enemies wait for aggro before they start shooting or healing
+  private isEngaged(enemy: Enemy): boolean {
+    return enemy.movementType !== 'stationary' && enemy.movementType !== 'patrol';
+  }
+
+  private fire(enemy: Enemy, attack: RangedAttackConfig, player: Player): void {
+    const dx = player.sprite.x - enemy.x;
+    const dy = player.sprite.y - enemy.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    // Out of range - stay loaded and fire the moment the player comes close
+    if (distance > attack.range || distance === 0) return;
+
+    enemy.attackCooldown = attack.fireInterval;
+
+    const graphics = this.scene.add.graphics();
+    graphics.setDepth(9); // Over enemies, under the player
+    graphics.fillStyle(PROJECTILE_COLOR, 1);
+    graphics.fillCircle(0, 0, attack.projectileRadius);
+    graphics.setPosition(enemy.x, enemy.y);
+
+    this.projectiles.push({
+      x: enemy.x,
+      y: enemy.y,
+      velocityX: (dx / distance) * attack.projectileSpeed,
+      velocityY: (dy / distance) * attack.projectileSpeed,
+      damage: attack.projectileDamage,
+      radius: attack.projectileRadius,
+      remaining: attack.projectileLifetime,
+      graphics
+    });
+  }
+
+  private pulseHeal(healer: Enemy, aura: HealAuraConfig, enemies: Enemy[]): void {
+    healer.attackCooldown = aura.interval;
+
+    enemies.forEach(ally => {
+      if (ally === healer || !ally.sprite.active || ally.isDying) return;
+
+      const dx = ally.x - healer.x;
+      const dy = ally.y - healer.y;
+      if (dx * dx + dy * dy > aura.radius * aura.radius) return;
+
+      ally.health = Math.min(ally.maxHealth, ally.health + aura.healAmount);
+      ally.buffMultiplier = aura.speedBuff;
+      ally.buffRemaining = aura.buffDuration;
+    });
+
+    this.drawHealPulse(healer.x, healer.y, aura.radius);
+  }
+
+  private split(enemy: Enemy, split: SplitConfig): void {
+    enemy.hasSplit = true;
+
+    const childType = ENEMY_TYPES[split.enemyType];
+    const rotation = this.random() * Math.PI * 2;
+
+    // Burst outward, evenly spread
+    for (let i = 0; i < split.count; i++) {
+      const direction = rotation + (i / split.count) * Math.PI * 2;
+      this.onSpawnEnemy?.(
+        enemy.x + Math.cos(direction) * SPLIT_SPREAD,
+        enemy.y + Math.sin(direction) * SPLIT_SPREAD,
+        childType,
+        direction
+      );
+    }
+  }
+
+  private updateProjectiles(deltaTime: number, player: Player): void {
+    this.projectiles = this.projectiles.filter(projectile => {
+      projectile.x += projectile.velocityX * deltaTime / 1000;
+      projectile.y += projectile.velocityY * deltaTime / 1000;
+      projectile.remaining -= deltaTime;
+
+      const dx = player.sprite.x - projectile.x;
+      const dy = player.sprite.y - projectile.y;
+      const hit = Math.sqrt(dx * dx + dy * dy) <= PLAYER_RADIUS + projectile.radius;
+
+      if (hit) {
+        player.takeDamage(projectile.damage);
+        this.onPlayerHit?.(projectile, projectile.damage);
+      }
+
+      if (hit || projectile.remaining <= 0) {
+        projectile.graphics.destroy();
+        return false;
+      }
+
+      projectile.graphics.setPosition(projectile.x, projectile.y);
+      return true;
+    });
+  }
+
+  private drawHealPulse(x: number, y: number, radius: number): void {
+    const ring = this.scene.add.graphics();
+    ring.setDepth(7); // Under the enemies it heals
+    ring.lineStyle(3, HEAL_PULSE_COLOR, 0.8);
+    ring.strokeCircle(x, y, radius);
+
+    this.scene.tweens.add({
+      targets: ring,
+      alpha: 0,
+      duration: 400,
+      onComplete: () => ring.destroy()
+    });
+  }
+}
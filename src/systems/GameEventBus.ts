@@ -0,0 +1,61 @@
+import type { Boss } from '../entities/Boss';
+import type { Enemy } from '../entities/Enemy';
+import type { KickableObject } from '../entities/KickableObject';
+import type { BossPhase } from './ZoneTypes';
+
+// What landed the hit - kicks, chain collisions, explosions or character abilities
+export type DamageSource = 'kick' | 'chain' | 'explosion' | 'ability';
+
+// Every run-wide event and its payload
+export interface GameEvents {
+  enemyKilled: { x: number; y: number; isCritical: boolean; source: DamageSource };
+  damageDealt: { amount: number; source: DamageSource; target: Enemy };
+  comboChanged: { count: number; multiplier: number }; // count 0 = the combo dropped
+  levelUp: { level: number };
+  bossPhaseChanged: { boss: Boss; phaseIndex: number; phase: BossPhase };
+  objectBroken: { object: KickableObject; x: number; y: number };
+}
+
+export type GameEventName = keyof GameEvents;
+
+export interface GameEventHandler<K extends GameEventName> {
+  (payload: GameEvents[K]): void;
+}
+
+type HandlerSets = { [K in GameEventName]?: Set<GameEventHandler<K>> };
+
+// Systems publish here, stats/audio/achievements subscribe - one per run, owned by RunContext
+export class GameEventBus {
+  private handlers: HandlerSets = {};
+
+  // Returns an unsubscribe function
+  on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+    const handlers = (this.handlers[event] ?? new Set()) as Set<GameEventHandler<K>>;
+    handlers.add(handler);
+    (this.handlers as Record<K, Set<GameEventHandler<K>>>)[event] = handlers;
+    return () => this.off(event, handler);
+  }
+
+  off<K extends GameEventName>(event: K, handler: GameEventHandler<K>): void {
+    (this.handlers[event] as Set<GameEventHandler<K>> | undefined)?.delete(handler);
+  }
+
+  emit<K extends GameEventName>(event: K, payload: GameEvents[K]): void {
+    const handlers = this.handlers[event] as Set<GameEventHandler<K>> | undefined;
+    if (!handlers) return;
+
+    // Copy so handlers can unsubscribe while the event is going out
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Game event handler for ${event} failed:`, error);
+      }
+    });
+  }
+
+  // New run - drop every subscriber from the last one
+  clear(): void {
+    this.handlers = {};
+  }
+}
@@ -0,0 +1,80 @@
+import { Character } from '../entities/Character';
+import { UpgradeLevels } from '../managers/UpgradeManager';
+import { getUpgradeValue } from '../config/upgrades';
+
+// Kick stats as multipliers on a weapon's own numbers - 1 everywhere is the reference character with no upgrades
+export interface KickStats {
+  force: number;
+  speed: number;
+  range: number;
+}
+
+// Temporary multipliers the player carries - set by AbilitySystem
+export interface KickBuffs {
+  kickForceMultiplier: number;
+  kickRangeMultiplier: number;
+}
+
+// Patapim's base stats - every other character is measured against these
+export const REFERENCE_KICK_STATS: KickStats = { force: 100, speed: 1.0, range: 80 };
+
+export const NEUTRAL_KICK_STATS: KickStats = { force: 1, speed: 1, range: 1 };
+
+// Character base -> passive -> upgrades -> buffs, multiplied together
+export class KickStatPipeline {
+  static getCharacterStats(character: Character): KickStats {
+    return {
+      force: character.getKickForce() / REFERENCE_KICK_STATS.force,
+      speed: character.getKickSpeed() / REFERENCE_KICK_STATS.speed,
+      range: character.getKickRange() / REFERENCE_KICK_STATS.range
+    };
+  }
+
+  static getPassiveStats(character: Character): KickStats {
+    const effect = character.config.passiveAbility?.effect;
+    return {
+      force: effect?.kickForceMultiplier ?? 1,
+      speed: effect?.kickSpeedMultiplier ?? 1,
+      range: effect?.kickRangeMultiplier ?? 1
+    };
+  }
+
+  static getUpgradeStats(upgrades?: UpgradeLevels): KickStats {
+    if (!upgrades) return { ...NEUTRAL_KICK_STATS };
+    return {
+      force: getUpgradeValue('kickForce', upgrades),
+      speed: getUpgradeValue('kickSpeed', upgrades),
+      range: getUpgradeValue('kickRange', upgrades)
+    };
+  }
+
+  static getBuffStats(buffs: KickBuffs): KickStats {
+    return {
+      force: buffs.kickForceMultiplier,
+      speed: 1,
+      range: buffs.kickRangeMultiplier
+    };
+  }
+
+  static combine(...layers: KickStats[]): KickStats {
+    return layers.reduce((total, layer) => ({
+      force: total.force * layer.force,
+      speed: total.speed * layer.speed,
+      range: total.range * layer.range
+    }), { ...NEUTRAL_KICK_STATS });
+  }
+
+  // Everything that lasts the whole run - baked into kick weapons when they are built
+  static getRunStats(character: Character, upgrades?: UpgradeLevels): KickStats {
+    return this.combine(
+      this.getCharacterStats(character),
+      this.getPassiveStats(character),
+      this.getUpgradeStats(upgrades)
+    );
+  }
+
+  // Run stats plus whatever ability buffs are running right now
+  static getCurrentStats(character: Character, buffs: KickBuffs, upgrades?: UpgradeLevels): KickStats {
+    return this.combine(this.getRunStats(character, upgrades), this.getBuffStats(buffs));
+  }
+}
@@ -2,6 +2,7 @@ import { Scene } from 'phaser';
 import { Player } from '../entities/Player';
 import { XPGem } from '../entities/XPGem';
 import { PoolManager } from '../managers/PoolManager';
+import { RunContext } from '../managers/RunContext';
 import { GameConfig } from '../config/game';
 import { SpatialGrid } from '../utils/SpatialGrid';
 
@@ -10,7 +11,7 @@ export class PickupSystem {
   private activeGems: Set<XPGem> = new Set();
   private spatialGrid: SpatialGrid<XPGem>;
 
-  constructor(private scene: Scene) {
+  constructor(private scene: Scene, private context: RunContext) {
     // Initialize gem pool
     this.gemPool = new PoolManager(
       () => new XPGem(scene),
@@ -34,9 +35,7 @@ export class PickupSystem {
     const playerY = player.sprite.y;
     
     // Apply magnet range upgrade
-    const upgradeManager = (window as any).upgradeManager;
-    const magnetMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('xpMagnet') * 0.3)) : 1;
+    const magnetMultiplier = 1 + (this.context.getUpgradeLevel('xpMagnet') * 0.3);
     
     const magnetRange = GameConfig.pickups.xpGem.magnetRange * magnetMultiplier;
     const collectRadius = GameConfig.pickups.xpGem.collectRadius;
@@ -53,8 +52,7 @@ export class PickupSystem {
     const nearbyGems = this.spatialGrid.getNearby(playerX, playerY, magnetRange);
     
     // Calculate player's current speed (with upgrades)
-    const speedMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('moveSpeed') * 0.1)) : 1;
+    const speedMultiplier = 1 + (this.context.getUpgradeLevel('moveSpeed') * 0.1);
     const playerSpeed = GameConfig.player.speed * speedMultiplier;
     
     // Update all active gems
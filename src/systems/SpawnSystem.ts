@@ -1,11 +1,46 @@
 import { Scene } from 'phaser';
 import { Enemy } from '../entities/Enemy';
+import { Boss } from '../entities/Boss';
+import { KickableObject, ObjectType } from '../entities/KickableObject';
 import { PoolManager } from '../managers/PoolManager';
+import { RunContext } from '../managers/RunContext';
 import { GameConfig } from '../config/game';
+import { MobileConfig } from '../mobile/MobileConfig';
 import { Vector2 } from '../utils/Vector2';
 import { getAvailableEnemyTypes, getRandomEnemyType, ENEMY_TYPES } from '../config/enemyTypes';
-import { EnemyTypeId } from '../enemies/EnemyType';
-import { getWaveConfig, WaveConfig } from '../config/waveConfig';
+import { EnemyTypeId, EnemyTypeConfig } from '../enemies/EnemyType';
+import { getWaveConfig, WaveConfig, WaveFormation } from '../config/waveConfig';
+import { BossConfig } from './ZoneTypes';
+import { WaveEvent, WaveEventContext, WaveEventEffects, WaveEventRegistry } from '../waves/WaveEventRegistry';
+import { FormationType, FormationArea, buildFormation } from '../waves/SpawnFormations';
+
+const ENEMY_POOL_SIZE = 800; // Increased for VS-level density
+
+// Each trip through the boss roster makes its bosses tougher
+const BOSS_LOOP_HEALTH_BONUS = 0.5;
+
+export interface SurvivalBossCallback {
+  (boss: BossConfig): void;
+}
+
+export interface SpecialEventCallback {
+  (event: string): void;
+}
+
+interface ActiveWaveEvent {
+  event: WaveEvent;
+  context: WaveEventContext;
+  startTime: number;
+  ticks: number;
+  cleanups: (() => void)[];
+}
+
+// Until the scene provides real effects, events still spawn enemies and objects
+const NO_EVENT_EFFECTS: WaveEventEffects = {
+  announce: () => {},
+  spawnGem: () => {},
+  setDarkness: () => {}
+};
 
 export class SpawnSystem {
   private lastSpawnTime: number = 0;
@@ -17,15 +52,31 @@ export class SpawnSystem {
   private rapidSpawnMode: boolean = false;
   private lastRapidSpawn: number = 0;
   private rapidSpawnInterval: number = 100; // 100ms for quota filling
+  private triggeredMinutes: Set<number> = new Set();
+  private currentBoss: Boss | null = null;
+  private bossesSpawned: number = 0;
+  private activeEvents: ActiveWaveEvent[] = [];
+  private activeObjects: KickableObject[] = [];
+  private eventEffects: WaveEventEffects = NO_EVENT_EFFECTS;
+  private lastFormationTimes: Map<string, number> = new Map();
+  private maxEnemies: number;
 
-  constructor(private scene: Scene) {
+  public onBossSpawned?: SurvivalBossCallback;
+  public onBossDefeated?: SurvivalBossCallback;
+  public onSpecialEvent?: SpecialEventCallback;
+
+  // Bosses for bossSpawn minutes come from the roster in order, looping when it runs out
+  constructor(private scene: Scene, private context: RunContext, private bossRoster: BossConfig[] = []) {
     // Create enemy pool
     this.enemyPool = new PoolManager(
       () => new Enemy(scene),
       (enemy) => enemy.reset(),
-      800 // Increased for VS-level density
+      ENEMY_POOL_SIZE
     );
     
+    // Mobile caps the crowd - every spawn path stays under it
+    this.maxEnemies = (window as any).isMobile ? MobileConfig.performance.maxEnemies : ENEMY_POOL_SIZE;
+    
     // Initialize with first wave
     this.currentWave = getWaveConfig(0);
   }
@@ -57,14 +108,31 @@ export class SpawnSystem {
       }
     }
     
+    this.updateFormations(currentTime, playerPos);
+    
     // Boss spawns at minute marks
     if (this.currentWave.bossSpawn && currentTime - this.lastEliteSpawn >= this.eliteSpawnInterval) {
       this.lastEliteSpawn = currentTime;
       this.spawnElite(playerPos);
     }
     
+    // Bosses and special events fire once, when their minute starts
+    if (!this.triggeredMinutes.has(currentMinute)) {
+      this.triggeredMinutes.add(currentMinute);
+      if (this.currentWave.bossSpawn) {
+        this.spawnBoss(playerPos);
+      }
+      if (this.currentWave.specialEvent) {
+        this.startSpecialEvent(this.currentWave.specialEvent, playerPos);
+      }
+    }
+    
+    this.updateEvents(currentTime, playerPos);
+    this.updateBoss(playerPos);
+    this.updateObjects();
+    
     // Clean up dead enemies - but only if they're not playing death animation
-    const enemies = this.getActiveEnemies();
+    const enemies = this.enemyPool.getActive();
     const enemiesToRelease: Enemy[] = [];
     
     enemies.forEach(enemy => {
@@ -89,7 +157,7 @@ export class SpawnSystem {
     // Spawn burst of enemies - scale with deficit size and time
     const timeMinutes = this.survivalTime / 60000;
     const burstPercent = timeMinutes < 1 ? 0.08 : 0.15; // Gentler in first minute
-    const burstSize = Math.min(deficit, Math.max(1, Math.ceil(deficit * burstPercent)));
+    const burstSize = Math.min(deficit, Math.max(1, Math.ceil(deficit * burstPercent)), this.getSpawnBudget());
     const availableTypes = this.getAvailableTypesForWave();
     if (availableTypes.length === 0) return;
     
@@ -128,6 +196,12 @@ export class SpawnSystem {
           case 'swarm': return ENEMY_TYPES.swarm;
           case 'tank': return ENEMY_TYPES.tank;
           case 'elite': return ENEMY_TYPES.elite;
+          case 'ranged': return ENEMY_TYPES.ranged;
+          case 'healer': return ENEMY_TYPES.healer;
+          case 'shielder': return ENEMY_TYPES.shielder;
+          case 'splitter': return ENEMY_TYPES.splitter;
+          case 'bomb_goblin': return ENEMY_TYPES.bomb_goblin;
+          case 'fuse_runner': return ENEMY_TYPES.fuse_runner;
           default: return null;
         }
       })
@@ -140,6 +214,8 @@ export class SpawnSystem {
   }
   
   private spawnSingleEnemy(playerPos: Vector2, enemyType: any): void {
+    if (this.getSpawnBudget() <= 0) return;
+    
     const enemy = this.enemyPool.acquire();
     
     // Calculate spawn position (off-screen)
@@ -176,58 +252,47 @@ export class SpawnSystem {
   }
   
   private spawnSwarmGroup(playerPos: Vector2, enemyType: any): void {
-    // VS-style: spawn 8-12 swarm enemies in a line formation
-    const swarmSize = 8 + Math.floor(Math.random() * 5); // 8-12 enemies
-    
-    // Pick a random side of the screen to spawn from
-    const side = Math.floor(Math.random() * 4); // 0=top, 1=right, 2=bottom, 3=left
-    const screenW = this.scene.scale.width;
-    const screenH = this.scene.scale.height;
-    
-    let startX, startY, angle;
-    
-    switch(side) {
-      case 0: // Top - sweep downward
-        startX = playerPos.x - screenW/3 + Math.random() * (screenW * 2/3);
-        startY = playerPos.y - screenH/2 - 100;
-        angle = Math.PI/2 + (Math.random() - 0.5) * 0.5; // Roughly downward
-        break;
-      case 1: // Right - sweep leftward  
-        startX = playerPos.x + screenW/2 + 100;
-        startY = playerPos.y - screenH/3 + Math.random() * (screenH * 2/3);
-        angle = Math.PI + (Math.random() - 0.5) * 0.5; // Roughly leftward
-        break;
-      case 2: // Bottom - sweep upward
-        startX = playerPos.x - screenW/3 + Math.random() * (screenW * 2/3);
-        startY = playerPos.y + screenH/2 + 100;
-        angle = -Math.PI/2 + (Math.random() - 0.5) * 0.5; // Roughly upward
-        break;
-      default: // Left - sweep rightward
-        startX = playerPos.x - screenW/2 - 100;
-        startY = playerPos.y - screenH/3 + Math.random() * (screenH * 2/3);
-        angle = (Math.random() - 0.5) * 0.5; // Roughly rightward
-        break;
-    }
-    
-    // Spawn swarm in formation
-    for (let i = 0; i < swarmSize; i++) {
-      const enemy = this.enemyPool.acquire();
-      
-      // Spread enemies in a line formation
-      const spacing = 30; // Distance between swarm members
-      const offsetX = (i - swarmSize/2) * spacing * Math.cos(angle + Math.PI/2);
-      const offsetY = (i - swarmSize/2) * spacing * Math.sin(angle + Math.PI/2);
-      
-      const finalX = startX + offsetX;
-      const finalY = startY + offsetY;
+    // VS-style: 8-12 swarm enemies sweeping in as a line from one side
+    const swarmSize = 8 + Math.floor(Math.random() * 5);
+    this.spawnFormationOf(FormationType.WALL, enemyType, swarmSize, playerPos);
+  }
+  
+  private updateFormations(currentTime: number, playerPos: Vector2): void {
+    (this.currentWave.formations || []).forEach(formation => {
+      // First one goes out as soon as its wave starts
+      const key = `${formation.type}:${formation.enemyType}`;
+      const last = this.lastFormationTimes.get(key);
+      if (last !== undefined && currentTime - last < formation.interval) return;
       
-      // Apply progressive health scaling for swarm enemies too
-      const scaledEnemyType = this.applyHealthScaling(enemyType);
-      enemy.spawn(finalX, finalY, scaledEnemyType, angle);
-      // All swarm members move in the same direction
+      this.lastFormationTimes.set(key, currentTime);
+      this.spawnFormation(formation, playerPos);
+    });
+  }
+  
+  private spawnFormation(formation: WaveFormation, playerPos: Vector2): void {
+    const enemyType = ENEMY_TYPES[formation.enemyType as EnemyTypeId];
+    if (!enemyType) {
+      console.warn(`Unknown formation enemy type: ${formation.enemyType}`);
+      return;
     }
     
-    // VS-style swarm spawned successfully
+    this.spawnFormationOf(formation.type, enemyType, formation.count, playerPos);
+  }
+  
+  // Cut short rather than skipped when the enemy cap is close
+  private spawnFormationOf(type: string, enemyType: any, count: number, playerPos: Vector2): void {
+    const area: FormationArea = { playerPos, spawnDistance: this.getSpawnDistance() };
+    const slots = buildFormation(type, area, Math.min(count, this.getSpawnBudget()), () => this.context.random.next());
+    
+    // Apply progressive health scaling for formation enemies too
+    const scaledEnemyType = this.applyHealthScaling(enemyType);
+    slots.forEach(slot => {
+      this.enemyPool.acquire().spawn(slot.x, slot.y, scaledEnemyType, slot.direction);
+    });
+  }
+  
+  private getSpawnBudget(): number {
+    return Math.max(0, this.maxEnemies - this.enemyPool.getActive().length);
   }
   
   private applyHealthScaling(enemyType: any): any {
@@ -256,15 +321,184 @@ export class SpawnSystem {
     // Visual/audio feedback for elite spawn could go here
   }
 
-  spawnEnemyAt(x: number, y: number, enemyType: any): Enemy {
-    // Public method for manual enemy spawning (e.g., initial enemies)
+  setEventEffects(effects: WaveEventEffects): void {
+    this.eventEffects = effects;
+  }
+
+  // Events can also be started by hand, e.g. from the browser console
+  startSpecialEvent(id: string, playerPos: Vector2): boolean {
+    const event = WaveEventRegistry.getInstance().getEvent(id);
+    if (!event) {
+      console.warn(`Unknown wave event: ${id}`);
+      return false;
+    }
+    
+    const cleanups: (() => void)[] = [];
+    const active: ActiveWaveEvent = {
+      event,
+      context: this.createEventContext(event, playerPos, cleanups),
+      startTime: this.survivalTime,
+      ticks: 0,
+      cleanups
+    };
+    
+    this.eventEffects.announce(event.config.banner, event.config.color);
+    event.start(active.context);
+    this.activeEvents.push(active);
+    
+    this.onSpecialEvent?.(id);
+    return true;
+  }
+
+  private createEventContext(event: WaveEvent, playerPos: Vector2, cleanups: (() => void)[]): WaveEventContext {
+    return {
+      config: event.config,
+      playerPos: playerPos.clone(),
+      spawnDistance: this.getSpawnDistance(),
+      random: () => this.context.random.next(), // Same seed, same event layout
+      effects: this.eventEffects,
+      spawnEnemy: (x: number, y: number, enemyType: EnemyTypeConfig, direction?: number) => {
+        if (this.getSpawnBudget() <= 0) return;
+        this.enemyPool.acquire().spawn(x, y, this.applyHealthScaling(enemyType), direction);
+      },
+      spawnObject: (x: number, y: number) => {
+        const object = new KickableObject(this.scene, x, y, ObjectType.BARREL, this.context.events);
+        this.activeObjects.push(object);
+        cleanups.push(() => this.removeObject(object));
+        return object;
+      },
+      onCleanup: (callback: () => void) => {
+        cleanups.push(callback);
+      }
+    };
+  }
+
+  private updateEvents(currentTime: number, playerPos: Vector2): void {
+    this.activeEvents.forEach(active => {
+      active.context.playerPos = playerPos.clone();
+      const { duration, tickInterval } = active.event.config;
+      const elapsed = Math.min(currentTime - active.startTime, duration);
+      
+      if (active.event.tick && tickInterval) {
+        const due = Math.floor(elapsed / tickInterval);
+        while (active.ticks < due) {
+          active.ticks++;
+          active.event.tick(active.context, active.ticks);
+        }
+      }
+    });
+    
+    const finished = this.activeEvents.filter(active => currentTime - active.startTime >= active.event.config.duration);
+    finished.forEach(active => this.endEvent(active));
+  }
+
+  private endEvent(active: ActiveWaveEvent): void {
+    active.cleanups.forEach(cleanup => cleanup());
+    this.activeEvents = this.activeEvents.filter(event => event !== active);
+  }
+
+  private updateObjects(): void {
+    this.activeObjects.forEach(object => {
+      object.update(16); // Assume 60fps for delta
+    });
+    
+    // Broken barrels are done
+    this.activeObjects
+      .filter(object => object.isBroken)
+      .forEach(object => this.removeObject(object));
+  }
+
+  private removeObject(object: KickableObject): void {
+    if (!this.activeObjects.includes(object)) return;
+    
+    object.destroy();
+    this.activeObjects = this.activeObjects.filter(active => active !== object);
+  }
+
+  private spawnBoss(playerPos: Vector2): void {
+    // One boss at a time - a boss minute passes quietly while the last one is alive
+    if (this.bossRoster.length === 0 || this.currentBoss) return;
+    
+    const rosterBoss = this.bossRoster[this.bossesSpawned % this.bossRoster.length];
+    const loop = Math.floor(this.bossesSpawned / this.bossRoster.length);
+    this.bossesSpawned++;
+    
+    // No arena in survival - the boss fights around wherever the player is
+    const bossConfig: BossConfig = {
+      ...rosterBoss,
+      position: playerPos.clone(),
+      health: Math.ceil(rosterBoss.health * (1 + loop * BOSS_LOOP_HEALTH_BONUS))
+    };
+    
+    const angle = this.context.random.next() * Math.PI * 2;
+    const distance = this.getSpawnDistance();
+    this.currentBoss = new Boss(this.scene, bossConfig, this.context.events);
+    this.currentBoss.spawn(
+      playerPos.x + Math.cos(angle) * distance,
+      playerPos.y + Math.sin(angle) * distance,
+      bossConfig.type === 'desert-bomber' ? ENEMY_TYPES.tank : ENEMY_TYPES.elite // Same sprites as the zone fights
+    );
+    
+    console.log(`👑 Survival boss: ${bossConfig.name}`);
+    this.onBossSpawned?.(bossConfig);
+  }
+
+  private updateBoss(playerPos: Vector2): void {
+    if (!this.currentBoss || !this.currentBoss.sprite.active) return;
+    
+    this.currentBoss.update(16, playerPos); // Assume 60fps for delta
+    
+    if (this.currentBoss.health <= 0 && this.currentBoss.isDying) {
+      const bossConfig = this.currentBoss.bossConfig;
+      this.currentBoss.reset();
+      this.currentBoss = null;
+      this.onBossDefeated?.(bossConfig);
+    }
+  }
+
+  // Just outside the viewport, whatever the player's position
+  private getSpawnDistance(): number {
+    const screenRadius = Math.sqrt(
+      Math.pow(this.scene.scale.width / 2, 2) + 
+      Math.pow(this.scene.scale.height / 2, 2)
+    );
+    return screenRadius + GameConfig.spawning.spawnDistance;
+  }
+
+  spawnEnemyAt(x: number, y: number, enemyType: any, movementAngle?: number): Enemy | null {
+    // Public method for manual enemy spawning (e.g., initial enemies, splitter children)
+    // Held to the enemy cap like every other spawn - null when there's no room
+    if (this.getSpawnBudget() <= 0) return null;
+    
     const enemy = this.enemyPool.acquire();
-    enemy.spawn(x, y, enemyType);
+    enemy.spawn(x, y, enemyType, movementAngle);
     return enemy;
   }
 
   getActiveEnemies(): Enemy[] {
-    return this.enemyPool.getActive();
+    const enemies = this.enemyPool.getActive();
+    
+    // Include boss in enemy list for collision detection
+    if (this.currentBoss && this.currentBoss.sprite.active) {
+      return [...enemies, this.currentBoss];
+    }
+    return enemies;
+  }
+
+  getBoss(): Boss | null {
+    return this.currentBoss;
+  }
+
+  getActiveObjects(): KickableObject[] {
+    return this.activeObjects.filter(object => !object.isBroken);
+  }
+
+  getActiveEventIds(): string[] {
+    return this.activeEvents.map(active => active.event.config.id);
+  }
+
+  getSurvivalTime(): number {
+    return this.survivalTime;
   }
 
   releaseEnemy(enemy: Enemy): void {
@@ -276,5 +510,13 @@ export class SpawnSystem {
     this.lastSpawnTime = 0;
     this.currentWave = getWaveConfig(0);
     this.rapidSpawnMode = false;
+    this.lastEliteSpawn = 0;
+    this.triggeredMinutes.clear();
+    this.lastFormationTimes.clear();
+    [...this.activeEvents].forEach(active => this.endEvent(active));
+    [...this.activeObjects].forEach(object => this.removeObject(object));
+    this.bossesSpawned = 0;
+    this.currentBoss?.reset();
+    this.currentBoss = null;
   }
 }
\ No newline at end of file
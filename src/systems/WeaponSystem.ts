@@ -4,33 +4,51 @@ import { Enemy } from '../entities/Enemy';
 import { Weapon } from '../entities/Weapon';
 import { Projectile } from '../entities/Projectile';
 import { PoolManager } from '../managers/PoolManager';
+import { RunContext } from '../managers/RunContext';
 import { WeaponFactory, WeaponType } from '../weapons/WeaponFactory';
 import { Vector2 } from '../utils/Vector2';
 import { WeaponEffectSystem } from './WeaponEffectSystem';
 import { ScreenShake } from '../utils/ScreenShake';
 import { ParticleEffects } from '../utils/ParticleEffects';
 import { ComboSystem } from './ComboSystem';
+import { GameEventBus } from './GameEventBus';
+import { UPGRADES, PhysicsUpgradeEffects } from '../config/upgrades';
+import { EvolutionDefinition } from '../config/evolutions';
+import { FRIENDLY_FIRE_DAMAGE } from '../config/enemyTypes';
+import { GameConfig } from '../config/game';
 
-export interface EnemyDeathCallback {
-  (x: number, y: number): void;
-}
+// Physics upgrade tuning - per-level numbers live in config/upgrades
+const CHAIN_EXPLOSION_RADIUS = 80;
+const MAX_STICKY_RADIUS = 60;
+const MAGNET_FIELD_BASE_RADIUS = 120; // Magnetic Pull adds its magnetRadius on top
+const MAGNET_STOP_DISTANCE = 20; // Leave a gap so pulled enemies stop at kick range
+const EARTHQUAKE_ERUPTION_RADIUS = 60;
+const EARTHQUAKE_ERUPTION_DAMAGE_RATIO = 0.5; // Share of the stomp damage each eruption deals
+const CHAIN_FUSE_TIME = 150; // ms - explosives caught in a blast go off one after another
 
-export interface DamageDealtCallback {
-  (damage: number): void;
-}
+// Projectile weapon types that kick - base techniques and their evolutions
+const KICK_WEAPON_TYPES = ['brattack', 'uppercut', 'spinningkick', 'groundpound', 'dominokick', 'earthquakestomp'];
+const KICK_WEAPON_FACTORY_TYPES: Record<string, WeaponType> = {
+  brattack: WeaponType.BRATTACK,
+  uppercut: WeaponType.UPPERCUT,
+  spinningkick: WeaponType.SPINNING_KICK,
+  groundpound: WeaponType.GROUND_POUND,
+  dominokick: WeaponType.DOMINO_KICK,
+  earthquakestomp: WeaponType.EARTHQUAKE_STOMP
+};
 
 export class WeaponSystem {
   private weapons: Weapon[] = [];
   private projectilePool: PoolManager<Projectile>;
   private activeProjectiles: Set<Projectile> = new Set();
-  public onEnemyDeath?: EnemyDeathCallback;
-  public onDamageDealt?: DamageDealtCallback;
+  private events: GameEventBus;
   private weaponEffectSystem?: WeaponEffectSystem;
   private screenShake?: ScreenShake;
   private particleEffects?: ParticleEffects;
   private comboSystem: ComboSystem;
+  private magnetField?: Phaser.GameObjects.Graphics;
 
-  constructor(private scene: Scene) {
+  constructor(private scene: Scene, private context: RunContext) {
     // Initialize projectile pool
     this.projectilePool = new PoolManager(
       () => new Projectile(scene),
@@ -38,11 +56,13 @@ export class WeaponSystem {
       100 // Increased for multi-shot
     );
     
+    this.events = context.events;
+    
     // Initialize combo system
-    this.comboSystem = new ComboSystem(scene);
+    this.comboSystem = new ComboSystem(scene, context.events);
     
     // Create kick variation weapons based on unlocked upgrades
-    const kickWeapons = WeaponFactory.createKickVariationWeapons();
+    const kickWeapons = WeaponFactory.createKickVariationWeapons(context);
     kickWeapons.forEach(weapon => this.addWeapon(weapon));
   }
   
@@ -73,59 +93,48 @@ export class WeaponSystem {
   
   refreshKickWeapons(): void {
     // Recreate all kick weapons to apply current upgrade multipliers
-    const currentKickTypes = this.weapons
-      .filter(weapon => ['brattack', 'uppercut', 'spinningkick', 'groundpound']
-        .includes(this.getWeaponTypeFromBehavior(weapon.behavior)))
-      .map(weapon => this.getWeaponTypeFromBehavior(weapon.behavior));
+    const currentKickWeapons = this.weapons.filter(weapon => KICK_WEAPON_TYPES
+      .includes(this.getWeaponTypeFromBehavior(weapon.behavior)));
     
     // Remove old kick weapons
     this.weapons = this.weapons.filter(weapon => 
-      !['brattack', 'uppercut', 'spinningkick', 'groundpound']
+      !KICK_WEAPON_TYPES
         .includes(this.getWeaponTypeFromBehavior(weapon.behavior)));
     
     // Recreate kick weapons with updated stats
-    currentKickTypes.forEach(kickType => {
-      switch (kickType) {
-        case 'brattack':
-          this.addWeapon(WeaponFactory.createWeapon(WeaponType.BRATTACK));
-          break;
-        case 'uppercut':
-          this.addWeapon(WeaponFactory.createWeapon(WeaponType.UPPERCUT));
-          break;
-        case 'spinningkick':
-          this.addWeapon(WeaponFactory.createWeapon(WeaponType.SPINNING_KICK));
-          break;
-        case 'groundpound':
-          this.addWeapon(WeaponFactory.createWeapon(WeaponType.GROUND_POUND));
-          break;
-      }
+    const stats = this.context.getKickStats();
+    currentKickWeapons.forEach(oldWeapon => {
+      const weaponType = KICK_WEAPON_FACTORY_TYPES[this.getWeaponTypeFromBehavior(oldWeapon.behavior)];
+      if (!weaponType) return;
+      
+      const weapon = WeaponFactory.createWeapon(weaponType, stats);
+      weapon.lastFireTime = oldWeapon.lastFireTime; // A rebuild shouldn't skip the cooldown
+      this.addWeapon(weapon);
     });
   }
   
   updateKickVariations(): void {
-    const upgradeManager = (window as any).upgradeManager;
-    if (!upgradeManager) return;
-    
     // Get current kick variation weapons
     const currentKickTypes = new Set(this.weapons
-      .filter(weapon => ['brattack', 'uppercut', 'spinningkick', 'groundpound']
+      .filter(weapon => KICK_WEAPON_TYPES
         .includes(weapon.behavior.constructor.name.toLowerCase().replace('behavior', '')))
       .map(weapon => this.getWeaponTypeFromBehavior(weapon.behavior)));
     
     // Check for newly unlocked variations
-    const shouldHaveUppercut = upgradeManager.getUpgradeLevel('uppercutVariation') > 0;
-    const shouldHaveSpinning = upgradeManager.getUpgradeLevel('spinningKickVariation') > 0;
-    const shouldHaveGroundPound = upgradeManager.getUpgradeLevel('groundPoundVariation') > 0;
+    const shouldHaveUppercut = this.context.getUpgradeLevel('uppercutVariation') > 0;
+    const shouldHaveSpinning = this.context.getUpgradeLevel('spinningKickVariation') > 0;
+    const shouldHaveGroundPound = this.context.getUpgradeLevel('groundPoundVariation') > 0;
     
     // Add missing kick variations
+    const stats = this.context.getKickStats();
     if (shouldHaveUppercut && !currentKickTypes.has('uppercut')) {
-      this.addWeapon(WeaponFactory.createWeapon(WeaponType.UPPERCUT));
+      this.addWeapon(WeaponFactory.createWeapon(WeaponType.UPPERCUT, stats));
     }
     if (shouldHaveSpinning && !currentKickTypes.has('spinningkick')) {
-      this.addWeapon(WeaponFactory.createWeapon(WeaponType.SPINNING_KICK));
+      this.addWeapon(WeaponFactory.createWeapon(WeaponType.SPINNING_KICK, stats));
     }
-    if (shouldHaveGroundPound && !currentKickTypes.has('groundpound')) {
-      this.addWeapon(WeaponFactory.createWeapon(WeaponType.GROUND_POUND));
+    if (shouldHaveGroundPound && !currentKickTypes.has('groundpound') && !currentKickTypes.has('earthquakestomp')) {
+      this.addWeapon(WeaponFactory.createWeapon(WeaponType.GROUND_POUND, stats));
     }
   }
   
@@ -135,8 +144,19 @@ export class WeaponSystem {
     if (behaviorName.includes('spinning')) return 'spinningkick';
     if (behaviorName.includes('ground')) return 'groundpound';
     if (behaviorName.includes('brattack')) return 'brattack';
+    if (behaviorName.includes('domino')) return 'dominokick';
+    if (behaviorName.includes('earthquake')) return 'earthquakestomp';
     return 'unknown';
   }
+  
+  // Swap the base kick for its evolved version
+  evolveWeapon(evolution: EvolutionDefinition): void {
+    const replacedType = evolution.replaces.toLowerCase();
+    this.weapons = this.weapons.filter(weapon =>
+      this.getWeaponTypeFromBehavior(weapon.behavior) !== replacedType);
+    
+    this.addWeapon(WeaponFactory.createWeapon(evolution.weaponType, this.context.getKickStats()));
+  }
 
   update(deltaTime: number, currentTime: number, player: Player, enemies: Enemy[]): void {
     // Update all active projectiles
@@ -172,25 +192,36 @@ export class WeaponSystem {
             }
             
             // CRITICAL HIT SYSTEM - 15% chance for 2x damage
-            const isCritical = Math.random() < 0.15;
+            const isCritical = this.context.random.chance(0.15);
             if (isCritical) {
               damage *= 2;
             }
             
+            // Shielders soak kicks that land on their front arc
+            const isKick = projectile.weaponType !== undefined && KICK_WEAPON_TYPES.includes(projectile.weaponType);
+            if (isKick && enemy.isShielding(player.sprite.x, player.sprite.y)) {
+              damage *= enemy.enemyType.frontShield!.damageMultiplier;
+            }
+            
             const wasDying = enemy.isDying;
             const isDead = enemy.takeDamage(damage);
             
             // Apply knockback for kick-based projectiles (even if enemy dies!)
-            if ((projectile.weaponType === 'brattack' || projectile.weaponType === 'uppercut' || 
-                 projectile.weaponType === 'spinningkick' || projectile.weaponType === 'groundpound') && !wasDying) {
+            if (projectile.weaponType && KICK_WEAPON_TYPES.includes(projectile.weaponType) && !wasDying) {
               // Reset combo for new kick sequence
               this.comboSystem.resetCombo();
               
               // Calculate knockback based on kick type
               this.applyKickKnockback(projectile.weaponType, enemy, player);
               
-              // Handle explosive enemies
-              if (enemy.enemyType.explosiveRadius && enemy.enemyType.explosiveDamage) {
+              // Earthquake Stomp - the ground erupts under every enemy it hits
+              if (projectile.weaponType === 'earthquakestomp') {
+                this.createExplosion(enemy.x, enemy.y, EARTHQUAKE_ERUPTION_RADIUS,
+                                   damage * EARTHQUAKE_ERUPTION_DAMAGE_RATIO, enemies);
+              }
+              
+              // Handle explosive enemies - fused ones arm in applyKickKnockback instead
+              if (enemy.enemyType.explosiveRadius && enemy.enemyType.explosiveDamage && !enemy.enemyType.fuse) {
                 this.createExplosion(enemy.x, enemy.y, enemy.enemyType.explosiveRadius, 
                                    enemy.enemyType.explosiveDamage, enemies);
               }
@@ -219,15 +250,11 @@ export class WeaponSystem {
               }
               
               // Track damage dealt
-              if (this.onDamageDealt) {
-                this.onDamageDealt(damage);
-              }
+              this.events.emit('damageDealt', { amount: damage, source: 'kick', target: enemy });
               
               if (isDead) {
-                // Enemy died - notify callback (only once)
-                if (this.onEnemyDeath) {
-                  this.onEnemyDeath(enemy.x, enemy.y);
-                }
+                // Enemy died - announce it (only once)
+                this.events.emit('enemyKilled', { x: enemy.x, y: enemy.y, isCritical, source: 'kick' });
               }
             }
             
@@ -262,21 +289,25 @@ export class WeaponSystem {
       this.projectilePool.release(projectile);
     });
     
+    // Magnetic Pull drags enemies into kick range before anything fires
+    this.applyMagneticPull(deltaTime, player, enemies);
+    
     // Fire weapons using their behaviors
     const playerPos = player.getPosition();
     
     this.weapons.forEach(weapon => {
-      if (!weapon.canFire(currentTime)) return;
+      if (!weapon.canFire(currentTime, this.context.upgrades)) return;
       
       // Use weapon behavior to determine projectiles
       const projectileFires = weapon.behavior.fire(
         playerPos,
         enemies,
         this.projectilePool,
-        weapon.getDamage(),
-        weapon.range,
+        weapon.getDamage(this.context.upgrades),
+        weapon.range * player.kickRangeMultiplier,
         player,
-        this.weaponEffectSystem
+        this.weaponEffectSystem,
+        this.context.upgrades
       );
       
       // Fire each projectile
@@ -286,7 +317,7 @@ export class WeaponSystem {
           startY ?? playerPos.y,
           targetX,
           targetY,
-          weapon.getDamage(),
+          weapon.getDamage(this.context.upgrades),
           visuals,
           speed ?? weapon.projectileSpeed, // Use custom speed or weapon's speed
           followTarget,
@@ -304,6 +335,12 @@ export class WeaponSystem {
     // Check for enemy-to-enemy collisions from knockback
     this.checkKnockbackCollisions(enemies, player);
     
+    // Burn down lit fuses and set off explosives that hit something
+    this.updateFuses(deltaTime, enemies, player);
+    
+    // Set off enemies that have bounced enough
+    this.checkChainExplosions(enemies);
+    
     // Update combo system
     this.comboSystem.update();
   }
@@ -316,6 +353,14 @@ export class WeaponSystem {
     
     // Reset combo system
     this.comboSystem.forceReset();
+    
+    this.magnetField?.setVisible(false);
+  }
+  
+  // Effect values for an owned upgrade, undefined until it has been picked
+  private getUpgradeEffect<K extends keyof PhysicsUpgradeEffects>(upgradeId: K): PhysicsUpgradeEffects[K] | undefined {
+    const level = this.context.getUpgradeLevel(upgradeId);
+    return level > 0 ? UPGRADES[upgradeId].effect(level) : undefined;
   }
   
   private checkKnockbackCollisions(enemies: Enemy[], player: Player): void {
@@ -327,6 +372,9 @@ export class WeaponSystem {
     // Check each knocked-back enemy against all other enemies
     knockedBackEnemies.forEach(projectileEnemy => {
       enemies.forEach(targetEnemy => {
+        // Blew up on an earlier target
+        if (!projectileEnemy.isKnockedBack) return;
+        
         // Skip self, inactive, dying, or already knocked-back enemies
         if (projectileEnemy === targetEnemy || 
             !targetEnemy.sprite.active || 
@@ -340,10 +388,16 @@ export class WeaponSystem {
         const dy = projectileEnemy.y - targetEnemy.y;
         const distance = Math.sqrt(dx * dx + dy * dy);
         
-        // Check collision using combined hitbox radii
-        const collisionDistance = projectileEnemy.hitboxRadius + targetEnemy.hitboxRadius;
+        // Check collision using combined hitbox radii (clumps reach further)
+        const collisionDistance = projectileEnemy.hitboxRadius + projectileEnemy.stickyRadius + targetEnemy.hitboxRadius;
         
         if (distance < collisionDistance && distance > 0) {
+          // Armed explosives go off on the first enemy they hit
+          if (projectileEnemy.fuseRemaining > 0) {
+            this.detonate(projectileEnemy, enemies, player);
+            return;
+          }
+          
           // Add to combo system for chain hits
           this.comboSystem.addChainHit();
           
@@ -357,23 +411,30 @@ export class WeaponSystem {
           // Create damage number for chain hit with combo indicator
           this.createDamageNumber(targetEnemy.x, targetEnemy.y, chainDamage, false, true);
           
-          // Apply secondary knockback (even if enemy dies from chain hit!)
-          // ALWAYS push away from player, not based on collision direction
-          const playerPos = player.getPosition();
-          const toDx = targetEnemy.x - playerPos.x;
-          const toDy = targetEnemy.y - playerPos.y;
-          const toPlayerDistance = Math.sqrt(toDx * toDx + toDy * toDy);
-          
-          // Calculate chain force with upgrades
-          const upgradeManager = (window as any).upgradeManager;
-          const chainForceMultiplier = upgradeManager ? 
-            (1 + (upgradeManager.getUpgradeLevel('chainPower') * 0.30)) : 1;
-          
-          const baseChainForce = 400;
-          const chainForce = baseChainForce * chainForceMultiplier;
-          const knockbackX = (toDx / toPlayerDistance) * chainForce;
-          const knockbackY = (toDy / toPlayerDistance) * chainForce;
-          targetEnemy.applyKnockback(knockbackX, knockbackY);
+          // Sticky Combos - the target joins the flying enemy instead of being knocked aside
+          const sticky = this.getUpgradeEffect('stickyEnemies');
+          if (sticky && this.context.random.chance(sticky.stickyChance)) {
+            this.stickTogether(projectileEnemy, targetEnemy, sticky.stickyRadius);
+          } else {
+            // Apply secondary knockback (even if enemy dies from chain hit!)
+            // ALWAYS push away from player, not based on collision direction
+            const playerPos = player.getPosition();
+            const toDx = targetEnemy.x - playerPos.x;
+            const toDy = targetEnemy.y - playerPos.y;
+            const toPlayerDistance = Math.sqrt(toDx * toDx + toDy * toDy);
+            
+            // Calculate chain force with upgrades
+            const chainForceMultiplier = 1 + (this.context.getUpgradeLevel('chainPower') * 0.30);
+            
+            const baseChainForce = 400;
+            const chainForce = baseChainForce * chainForceMultiplier;
+            const knockbackX = (toDx / toPlayerDistance) * chainForce;
+            const knockbackY = (toDy / toPlayerDistance) * chainForce;
+            targetEnemy.applyKnockback(knockbackX, knockbackY);
+            
+            // Flying enemy bounces off the one it hit (Bouncy Physics) - counts toward Chain Explosions either way
+            projectileEnemy.registerImpact(dx / distance, dy / distance);
+          }
           
           // Visual effects for chain hit (special chain effect)
           if (this.particleEffects) {
@@ -386,13 +447,11 @@ export class WeaponSystem {
           }
           
           // Track damage dealt
-          if (this.onDamageDealt) {
-            this.onDamageDealt(chainDamage);
-          }
+          this.events.emit('damageDealt', { amount: chainDamage, source: 'chain', target: targetEnemy });
           
           // Track enemy death
-          if (isDead && this.onEnemyDeath) {
-            this.onEnemyDeath(targetEnemy.x, targetEnemy.y);
+          if (isDead) {
+            this.events.emit('enemyKilled', { x: targetEnemy.x, y: targetEnemy.y, isCritical: false, source: 'chain' });
           }
         }
       });
@@ -405,12 +464,14 @@ export class WeaponSystem {
     const dy = enemy.y - playerPos.y;
     const playerDistance = Math.sqrt(dx * dx + dy * dy);
     
-    // Get upgrade multipliers
-    const upgradeManager = (window as any).upgradeManager;
-    const forceMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('kickForce') * 0.25)) : 1;
+    // Character, passive, upgrade and buff force in one multiplier
+    const forceMultiplier = player.getKickStats().force;
     
-    const weightMultiplier = enemy.enemyType.kickMultiplier || 1.0;
+    // Weight class, cut further when the kick hits a shield head-on
+    let weightMultiplier = enemy.enemyType.kickMultiplier || 1.0;
+    if (enemy.isShielding(playerPos.x, playerPos.y)) {
+      weightMultiplier *= enemy.enemyType.frontShield!.kickMultiplier;
+    }
     
     let knockbackX = 0;
     let knockbackY = 0;
@@ -440,12 +501,26 @@ export class WeaponSystem {
       case 'groundpound':
         // Powerful outward knockback with slight randomness
         const poundForce = 1000 * forceMultiplier * weightMultiplier;
-        const randomAngle = (Math.random() - 0.5) * 0.3; // Small random variation
+        const randomAngle = (this.context.random.next() - 0.5) * 0.3; // Small random variation
         const angle = Math.atan2(dy, dx) + randomAngle;
         knockbackX = Math.cos(angle) * poundForce;
         knockbackY = Math.sin(angle) * poundForce;
         break;
         
+      case 'dominokick':
+        // Straight along the kick line so the dominoes keep falling the same way
+        const dominoForce = 850 * forceMultiplier * weightMultiplier;
+        knockbackX = (dx / playerDistance) * dominoForce;
+        knockbackY = (dy / playerDistance) * dominoForce;
+        break;
+        
+      case 'earthquakestomp':
+        // Outward like a ground pound, but harder
+        const quakeForce = 1100 * forceMultiplier * weightMultiplier;
+        knockbackX = (dx / playerDistance) * quakeForce;
+        knockbackY = (dy / playerDistance) * quakeForce;
+        break;
+        
       default:
         // Fallback to basic knockback
         const defaultForce = 800 * forceMultiplier * weightMultiplier;
@@ -455,6 +530,125 @@ export class WeaponSystem {
     }
     
     enemy.applyKnockback(knockbackX, knockbackY);
+    
+    // Fresh flight - Bouncy Physics rides along with the kick
+    enemy.bouncesRemaining = this.getUpgradeEffect('bouncyEnemies')?.additionalBounces ?? 0;
+    enemy.bounceCount = 0;
+    enemy.stickyRadius = 0;
+    
+    // Kicking an explosive lights its fuse - kicking it again doesn't reset it
+    const fuse = enemy.enemyType.fuse;
+    if (fuse && enemy.fuseRemaining <= 0) {
+      enemy.fuseRemaining = fuse.fuseTime;
+    }
+  }
+  
+  private stickTogether(projectileEnemy: Enemy, targetEnemy: Enemy, stickyRadius: number): void {
+    // Ride along at the same velocity and grow the clump
+    targetEnemy.applyKnockback(projectileEnemy.knockbackVelocity.x, projectileEnemy.knockbackVelocity.y);
+    projectileEnemy.stickyRadius = Math.min(projectileEnemy.stickyRadius + stickyRadius, MAX_STICKY_RADIUS);
+    targetEnemy.stickyRadius = projectileEnemy.stickyRadius;
+    
+    // Green splat where they stuck
+    this.createExplosionRing(targetEnemy.x, targetEnemy.y, projectileEnemy.hitboxRadius + projectileEnemy.stickyRadius, 0x66FF66);
+  }
+  
+  private checkChainExplosions(enemies: Enemy[]): void {
+    const explosive = this.getUpgradeEffect('explosiveChains');
+    if (!explosive) return;
+    
+    enemies.forEach(enemy => {
+      if (!enemy.sprite.active || enemy.bounceCount < explosive.explosionThreshold) return;
+      
+      // Start counting again so long bouncy flights can go off more than once
+      enemy.bounceCount = 0;
+      this.createExplosion(enemy.x, enemy.y, CHAIN_EXPLOSION_RADIUS, explosive.explosionDamage, enemies);
+    });
+  }
+  
+  private updateFuses(deltaTime: number, enemies: Enemy[], player: Player): void {
+    enemies.forEach(enemy => {
+      if (!enemy.sprite.active || enemy.fuseRemaining <= 0) return;
+      
+      enemy.fuseRemaining -= deltaTime;
+      
+      // Wall and pillar hits count as impacts, same as a bounce
+      if (enemy.bounceCount > 0 || enemy.fuseRemaining <= 0) {
+        this.detonate(enemy, enemies, player);
+      }
+    });
+  }
+  
+  private detonate(enemy: Enemy, enemies: Enemy[], player: Player): void {
+    const { explosiveRadius = CHAIN_EXPLOSION_RADIUS, explosiveDamage = 0, fuse } = enemy.enemyType;
+    
+    // Blown apart - stops flying and counts as a kill
+    enemy.fuseRemaining = 0;
+    enemy.knockbackVelocity.set(0, 0);
+    enemy.isKnockedBack = false;
+    if (!enemy.isDying) {
+      enemy.takeDamage(enemy.health);
+      this.events.emit('enemyKilled', { x: enemy.x, y: enemy.y, isCritical: false, source: 'explosion' });
+    }
+    
+    // Other explosives in the blast light up on a short fuse so the chain ripples outward
+    enemies.forEach(other => {
+      if (other === enemy || !other.sprite.active || !other.enemyType.fuse || other.fuseRemaining > 0) return;
+      const dx = other.x - enemy.x;
+      const dy = other.y - enemy.y;
+      if (dx * dx + dy * dy <= explosiveRadius * explosiveRadius) {
+        other.fuseRemaining = CHAIN_FUSE_TIME;
+      }
+    });
+    
+    this.createExplosion(enemy.x, enemy.y, explosiveRadius, explosiveDamage, enemies);
+    
+    // Friendly fire rules decide how much of the blast reaches the player
+    const friendlyFire = fuse ? FRIENDLY_FIRE_DAMAGE[fuse.friendlyFire] : 0;
+    if (friendlyFire > 0) {
+      const playerPos = player.getPosition();
+      const reach = explosiveRadius + GameConfig.player.hitboxRadius;
+      if (Vector2.distance(playerPos, new Vector2(enemy.x, enemy.y)) <= reach) {
+        player.takeDamage(explosiveDamage * friendlyFire);
+      }
+    }
+  }
+  
+  private applyMagneticPull(deltaTime: number, player: Player, enemies: Enemy[]): void {
+    const magnet = this.getUpgradeEffect('magneticKicks');
+    if (!magnet) {
+      this.magnetField?.setVisible(false);
+      return;
+    }
+    
+    const playerPos = player.getPosition();
+    const fieldRadius = MAGNET_FIELD_BASE_RADIUS + magnet.magnetRadius;
+    const pullStep = magnet.magnetForce * deltaTime / 1000;
+    
+    enemies.forEach(enemy => {
+      // Flying and dying enemies keep their own momentum
+      if (!enemy.sprite.active || enemy.isDying || enemy.isKnockedBack) return;
+      
+      const dx = playerPos.x - enemy.x;
+      const dy = playerPos.y - enemy.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const stopDistance = enemy.hitboxRadius + MAGNET_STOP_DISTANCE;
+      if (distance > fieldRadius || distance <= stopDistance) return;
+      
+      const pull = Math.min(pullStep, distance - stopDistance);
+      enemy.sprite.x += (dx / distance) * pull;
+      enemy.sprite.y += (dy / distance) * pull;
+    });
+    
+    // Faint blue ring shows the field
+    if (!this.magnetField) {
+      this.magnetField = this.scene.add.graphics();
+      this.magnetField.setDepth(5); // Under enemies
+    }
+    this.magnetField.clear();
+    this.magnetField.lineStyle(2, 0x66CCFF, 0.3);
+    this.magnetField.strokeCircle(playerPos.x, playerPos.y, fieldRadius);
+    this.magnetField.setVisible(true);
   }
   
   private createExplosion(x: number, y: number, radius: number, damage: number, enemies: Enemy[]): void {
@@ -480,13 +674,11 @@ export class WeaponSystem {
         }
         
         // Track damage dealt
-        if (this.onDamageDealt) {
-          this.onDamageDealt(damage);
-        }
+        this.events.emit('damageDealt', { amount: damage, source: 'explosion', target: enemy });
         
         // Track enemy death
-        if (enemy.health <= 0 && this.onEnemyDeath) {
-          this.onEnemyDeath(enemy.x, enemy.y);
+        if (enemy.health <= 0) {
+          this.events.emit('enemyKilled', { x: enemy.x, y: enemy.y, isCritical: false, source: 'explosion' });
         }
       }
     });
@@ -507,13 +699,13 @@ export class WeaponSystem {
     }
   }
   
-  private createExplosionRing(x: number, y: number, radius: number): void {
+  private createExplosionRing(x: number, y: number, radius: number, color: number = 0xFF6600): void {
     const ring = this.scene.add.graphics();
     ring.setPosition(x, y);
     ring.setDepth(60); // Above everything
     
     // Draw explosion ring
-    ring.lineStyle(4, 0xFF6600, 1); // Orange explosion
+    ring.lineStyle(4, color, 1); // Orange explosion by default
     ring.strokeCircle(0, 0, radius);
     
     // Animate ring expansion and fade
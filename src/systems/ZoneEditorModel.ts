@@ -0,0 +1,189 @@
+import { ZoneDefinition, ZoneValidationError, parseZoneFile } from './ZoneLoader';
+import { EnemyTypeId } from '../enemies/EnemyType';
+import { ObjectType } from '../entities/KickableObject';
+
+export type EditorTool = 'enemy' | 'object' | 'patrol' | 'boss';
+
+export type EditorSelection =
+  | { kind: 'enemy'; index: number }
+  | { kind: 'object'; index: number }
+  | { kind: 'boss' }
+  | null;
+
+const DEFAULT_AGGRO_RADIUS = 120;
+const MIN_AGGRO_RADIUS = 20;
+const MIN_ARENA_RADIUS = 50;
+
+// Editing state for ZoneEditorScene - plain zone JSON in, zone JSON out, no Phaser
+export class ZoneEditorModel {
+  readonly zone: ZoneDefinition;
+  tool: EditorTool = 'enemy';
+  selection: EditorSelection = null;
+  enemyType: EnemyTypeId = EnemyTypeId.BASIC;
+  objectType: ObjectType = ObjectType.BARREL;
+
+  constructor(zone: ZoneDefinition) {
+    // Work on a copy so cancelling leaves the source untouched
+    this.zone = JSON.parse(JSON.stringify(zone));
+  }
+
+  // Entity under the cursor - enemies win over objects, objects over the boss
+  hitTest(x: number, y: number, radius: number = 20): EditorSelection {
+    const enemyIndex = this.zone.enemies.findIndex(enemy => distance(enemy.position, x, y) <= radius);
+    if (enemyIndex !== -1) return { kind: 'enemy', index: enemyIndex };
+
+    const objectIndex = this.zone.kickableObjects.findIndex(object => distance(object.position, x, y) <= radius);
+    if (objectIndex !== -1) return { kind: 'object', index: objectIndex };
+
+    if (this.zone.boss && distance(this.zone.boss.position, x, y) <= radius * 1.5) {
+      return { kind: 'boss' };
+    }
+    return null;
+  }
+
+  // Aggro radius handles sit on the right edge of each enemy's aggro circle
+  hitTestAggroHandle(x: number, y: number, radius: number = 12): number | null {
+    const index = this.zone.enemies.findIndex(enemy =>
+      distance({ x: enemy.position.x + enemy.aggroRadius, y: enemy.position.y }, x, y) <= radius
+    );
+    return index === -1 ? null : index;
+  }
+
+  hitTestArenaHandle(x: number, y: number, radius: number = 12): boolean {
+    const boss = this.zone.boss;
+    if (!boss) return false;
+    return distance({ x: boss.position.x + boss.arenaRadius, y: boss.position.y }, x, y) <= radius;
+  }
+
+  placeEnemy(x: number, y: number): number {
+    this.zone.enemies.push({
+      position: point(x, y),
+      enemyType: this.enemyType,
+      aggroRadius: DEFAULT_AGGRO_RADIUS,
+      state: 'stationary'
+    });
+    const index = this.zone.enemies.length - 1;
+    this.selection = { kind: 'enemy', index };
+    return index;
+  }
+
+  placeObject(x: number, y: number): number {
+    this.zone.kickableObjects.push({ position: point(x, y), type: this.objectType });
+    const index = this.zone.kickableObjects.length - 1;
+    this.selection = { kind: 'object', index };
+    return index;
+  }
+
+  moveSelection(x: number, y: number): void {
+    const selection = this.selection;
+    if (!selection) return;
+
+    if (selection.kind === 'enemy') {
+      this.zone.enemies[selection.index].position = point(x, y);
+    } else if (selection.kind === 'object') {
+      this.zone.kickableObjects[selection.index].position = point(x, y);
+    } else if (this.zone.boss) {
+      this.zone.boss.position = point(x, y);
+    }
+  }
+
+  setAggroRadius(index: number, radius: number): void {
+    const enemy = this.zone.enemies[index];
+    if (!enemy) return;
+    enemy.aggroRadius = Math.max(MIN_AGGRO_RADIUS, Math.round(radius));
+  }
+
+  setArenaRadius(radius: number): void {
+    if (!this.zone.boss) return;
+    this.zone.boss.arenaRadius = Math.max(MIN_ARENA_RADIUS, Math.round(radius));
+  }
+
+  // Adds a waypoint to the selected enemy - the first one also records its start position
+  addPatrolPoint(x: number, y: number): boolean {
+    const enemy = this.getSelectedEnemy();
+    if (!enemy) return false;
+
+    if (!enemy.patrolPath || enemy.patrolPath.length === 0) {
+      enemy.patrolPath = [{ ...enemy.position }];
+    }
+    enemy.patrolPath.push(point(x, y));
+    enemy.state = 'patrolling';
+    return true;
+  }
+
+  removeLastPatrolPoint(): boolean {
+    const enemy = this.getSelectedEnemy();
+    if (!enemy?.patrolPath) return false;
+
+    enemy.patrolPath.pop();
+    // A single point left is just the start position - back to standing still
+    if (enemy.patrolPath.length <= 1) {
+      delete enemy.patrolPath;
+      enemy.state = 'stationary';
+    }
+    return true;
+  }
+
+  deleteSelection(): boolean {
+    const selection = this.selection;
+    if (!selection || selection.kind === 'boss') return false;
+
+    if (selection.kind === 'enemy') {
+      this.zone.enemies.splice(selection.index, 1);
+    } else {
+      this.zone.kickableObjects.splice(selection.index, 1);
+    }
+    this.selection = null;
+    return true;
+  }
+
+  cycleEnemyType(): EnemyTypeId {
+    this.enemyType = nextValue(Object.values(EnemyTypeId), this.enemyType);
+
+    // Retype the selected enemy too, so placing then cycling works
+    const enemy = this.getSelectedEnemy();
+    if (enemy) enemy.enemyType = this.enemyType;
+    return this.enemyType;
+  }
+
+  cycleObjectType(): ObjectType {
+    this.objectType = nextValue(Object.values(ObjectType), this.objectType);
+
+    if (this.selection?.kind === 'object') {
+      this.zone.kickableObjects[this.selection.index].type = this.objectType;
+    }
+    return this.objectType;
+  }
+
+  getSelectedEnemy() {
+    return this.selection?.kind === 'enemy' ? this.zone.enemies[this.selection.index] : undefined;
+  }
+
+  // Same checks the game runs on zones.json
+  validate(): string[] {
+    try {
+      parseZoneFile({ zones: [this.zone] });
+      return [];
+    } catch (error) {
+      if (error instanceof ZoneValidationError) return error.errors;
+      throw error;
+    }
+  }
+
+  // Paste-ready entry for src/config/zones.json
+  toJson(): string {
+    return JSON.stringify(this.zone, null, 2);
+  }
+}
+
+function point(x: number, y: number): { x: number; y: number } {
+  return { x: Math.round(x), y: Math.round(y) };
+}
+
+function distance(position: { x: number; y: number }, x: number, y: number): number {
+  return Math.hypot(position.x - x, position.y - y);
+}
+
+function nextValue<T>(values: T[], current: T): T {
+  return values[(values.indexOf(current) + 1) % values.length];
+}
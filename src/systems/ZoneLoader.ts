@@ -0,0 +1,408 @@
+import { GameZone, StationaryEnemy, KickableObjectConfig, BossConfig, BossPhase, ZoneTheme, EnemyState, ArenaHazard, ArenaHazardType } from './ZoneTypes';
+import { MovementPattern } from '../enemies/BossAttack';
+import { BossAbilityRegistry } from '../enemies/BossAbilityRegistry';
+import { ObjectType } from '../entities/KickableObject';
+import { EnemyTypeId } from '../enemies/EnemyType';
+import { ITALIAN_BRAINROT_CHARACTERS } from '../entities/Character';
+import { Vector2 } from '../utils/Vector2';
+import zoneData from '../config/zones.json';
+
+// JSON schema - mirrors GameZone & co. with plain data: Vector2 -> { x, y }, colours -> '#rrggbb'
+export interface PointDefinition {
+  x: number;
+  y: number;
+}
+
+export interface StationaryEnemyDefinition {
+  position: PointDefinition;
+  enemyType: string; // EnemyTypeId value
+  aggroRadius: number;
+  state: string; // EnemyState value
+  patrolPath?: PointDefinition[];
+}
+
+export interface KickableObjectDefinition {
+  position: PointDefinition;
+  type: string; // ObjectType value
+}
+
+export interface BossPhaseDefinition {
+  healthThreshold: number;
+  abilities: string[]; // Registered boss abilities - 'summon-swarm' and 'summon_swarm' both resolve
+  movementPattern: string; // Registered movement pattern
+  attackDamage?: Record<string, number>; // Ability -> damage
+}
+
+export interface BossDefinition {
+  type: string;
+  name: string;
+  title?: string;
+  position: PointDefinition;
+  health: number;
+  phases: BossPhaseDefinition[];
+  arenaRadius: number;
+  unlockCharacter: string;
+  hazards?: ArenaHazardDefinition[];
+}
+
+export interface ArenaHazardDefinition {
+  type: string; // ArenaHazardType value
+  offset: PointDefinition; // From the boss position
+  radius: number;
+}
+
+export interface ZoneThemeDefinition {
+  backgroundColor: string;
+  groundTexture: string;
+  ambientColor: string;
+  musicTrack: string;
+}
+
+export interface ZoneDefinition {
+  id: string;
+  name: string;
+  bounds: { x: number; y: number; width: number; height: number };
+  enemies: StationaryEnemyDefinition[];
+  kickableObjects: KickableObjectDefinition[];
+  boss?: BossDefinition;
+  theme: ZoneThemeDefinition;
+  requiredCharacters: string[];
+  isUnlocked: boolean;
+}
+
+export interface ZoneFile {
+  zones: ZoneDefinition[];
+}
+
+export class ZoneValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid zone data:\n  - ${errors.join('\n  - ')}`);
+    this.name = 'ZoneValidationError';
+  }
+}
+
+// Collects every problem in one pass so designers can fix a file in one go
+class ZoneValidator {
+  readonly errors: string[] = [];
+
+  error(path: string, message: string): void {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  isObject(value: unknown, path: string): value is Record<string, any> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return true;
+    this.error(path, 'expected an object');
+    return false;
+  }
+
+  isArray(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.error(path, 'expected an array');
+    return false;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value === 'string' && value.length > 0) return value;
+    this.error(path, 'expected a non-empty string');
+    return '';
+  }
+
+  number(value: unknown, path: string, min: number = -Infinity, max: number = Infinity): number {
+    if (typeof value === 'number' && isFinite(value) && value >= min && value <= max) return value;
+    const range = min === -Infinity && max === Infinity ? '' : ` between ${min} and ${max}`;
+    this.error(path, `expected a number${range}, got ${JSON.stringify(value)}`);
+    return 0;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[], label: string): T {
+    if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+    this.error(path, `unknown ${label} ${JSON.stringify(value)} (expected one of: ${allowed.join(', ')})`);
+    return allowed[0];
+  }
+
+  // Like oneOf, but loosely spelled names resolve to their registered id
+  registered(value: unknown, path: string, resolve: (name: string) => string | undefined, allowed: string[], label: string): string {
+    const id = typeof value === 'string' ? resolve(value) : undefined;
+    return id ?? this.oneOf(value, path, allowed, label);
+  }
+
+  point(value: unknown, path: string): Vector2 {
+    if (!this.isObject(value, path)) return new Vector2(0, 0);
+    return new Vector2(this.number(value.x, `${path}.x`), this.number(value.y, `${path}.y`));
+  }
+
+  colour(value: unknown, path: string): number {
+    if (typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value)) {
+      return parseInt(value.slice(1), 16);
+    }
+    this.error(path, `expected a colour like "#2d5a27", got ${JSON.stringify(value)}`);
+    return 0;
+  }
+}
+
+const ENEMY_TYPE_IDS = Object.values(EnemyTypeId);
+const ENEMY_STATES = Object.values(EnemyState);
+const OBJECT_TYPES = Object.values(ObjectType);
+const HAZARD_TYPES = Object.values(ArenaHazardType);
+
+function parseEnemy(v: ZoneValidator, data: unknown, path: string): StationaryEnemy {
+  const enemy: StationaryEnemy = {
+    position: new Vector2(0, 0),
+    enemyType: EnemyTypeId.BASIC,
+    aggroRadius: 0,
+    state: EnemyState.STATIONARY
+  };
+  if (!v.isObject(data, path)) return enemy;
+
+  enemy.position = v.point(data.position, `${path}.position`);
+  enemy.enemyType = v.oneOf(data.enemyType, `${path}.enemyType`, ENEMY_TYPE_IDS, 'enemy type');
+  enemy.aggroRadius = v.number(data.aggroRadius, `${path}.aggroRadius`, 0);
+  enemy.state = v.oneOf(data.state, `${path}.state`, ENEMY_STATES, 'enemy state');
+
+  if (data.patrolPath !== undefined && v.isArray(data.patrolPath, `${path}.patrolPath`)) {
+    enemy.patrolPath = data.patrolPath.map((point, i) => v.point(point, `${path}.patrolPath[${i}]`));
+  }
+  if (enemy.state === EnemyState.PATROLLING && (!enemy.patrolPath || enemy.patrolPath.length === 0)) {
+    v.error(`${path}.patrolPath`, 'patrolling enemies need at least one patrol point');
+  }
+
+  return enemy;
+}
+
+function parseKickableObject(v: ZoneValidator, data: unknown, path: string): KickableObjectConfig {
+  if (!v.isObject(data, path)) return { position: new Vector2(0, 0), type: ObjectType.BARREL };
+  return {
+    position: v.point(data.position, `${path}.position`),
+    type: v.oneOf(data.type, `${path}.type`, OBJECT_TYPES, 'object type')
+  };
+}
+
+function parseBossPhase(v: ZoneValidator, data: unknown, path: string): BossPhase {
+  if (!v.isObject(data, path)) return { healthThreshold: 1, abilities: [], movementPattern: MovementPattern.STATIONARY };
+
+  const registry = BossAbilityRegistry.getInstance();
+  const abilityIds = registry.getAbilityIds();
+  const resolveAbility = (name: string) => registry.resolveAbility(name);
+
+  const abilities = v.isArray(data.abilities, `${path}.abilities`)
+    ? data.abilities.map((ability, i) => v.registered(ability, `${path}.abilities[${i}]`, resolveAbility, abilityIds, 'ability'))
+    : [];
+
+  const phase: BossPhase = {
+    healthThreshold: v.number(data.healthThreshold, `${path}.healthThreshold`, 0, 1),
+    abilities,
+    movementPattern: v.registered(data.movementPattern, `${path}.movementPattern`, name => registry.resolveMovement(name), registry.getMovementIds(), 'movement pattern')
+  };
+
+  if (data.attackDamage !== undefined && v.isObject(data.attackDamage, `${path}.attackDamage`)) {
+    phase.attackDamage = {};
+    Object.entries(data.attackDamage).forEach(([attack, damage]) => {
+      const attackPath = `${path}.attackDamage.${attack}`;
+      phase.attackDamage![v.registered(attack, attackPath, resolveAbility, abilityIds, 'ability')] = v.number(damage, attackPath, 0);
+    });
+  }
+  return phase;
+}
+
+function parseArenaHazard(v: ZoneValidator, data: unknown, path: string, arenaRadius: number): ArenaHazard {
+  if (!v.isObject(data, path)) return { type: ArenaHazardType.PILLAR, offset: new Vector2(0, 0), radius: 0 };
+
+  const hazard: ArenaHazard = {
+    type: v.oneOf(data.type, `${path}.type`, HAZARD_TYPES, 'hazard type'),
+    offset: v.point(data.offset, `${path}.offset`),
+    radius: v.number(data.radius, `${path}.radius`, 1)
+  };
+  if (hazard.offset.magnitude() > arenaRadius) {
+    v.error(`${path}.offset`, `hazard centre is outside the ${arenaRadius}px arena`);
+  }
+  return hazard;
+}
+
+function parseBoss(v: ZoneValidator, data: unknown, path: string, characterIds: string[]): BossConfig | undefined {
+  if (!v.isObject(data, path)) return undefined;
+
+  const phases = v.isArray(data.phases, `${path}.phases`)
+    ? data.phases.map((phase, i) => parseBossPhase(v, phase, `${path}.phases[${i}]`))
+    : [];
+  if (phases.length === 0) {
+    v.error(`${path}.phases`, 'a boss needs at least one phase');
+  }
+
+  const boss: BossConfig = {
+    type: v.string(data.type, `${path}.type`),
+    name: v.string(data.name, `${path}.name`),
+    position: v.point(data.position, `${path}.position`),
+    health: v.number(data.health, `${path}.health`, 1),
+    phases,
+    arenaRadius: v.number(data.arenaRadius, `${path}.arenaRadius`, 0),
+    unlockCharacter: v.oneOf(data.unlockCharacter, `${path}.unlockCharacter`, characterIds, 'character')
+  };
+  if (data.title !== undefined) {
+    boss.title = v.string(data.title, `${path}.title`);
+  }
+  if (data.hazards !== undefined && v.isArray(data.hazards, `${path}.hazards`)) {
+    boss.hazards = data.hazards.map((hazard, i) => parseArenaHazard(v, hazard, `${path}.hazards[${i}]`, boss.arenaRadius));
+  }
+  return boss;
+}
+
+function parseTheme(v: ZoneValidator, data: unknown, path: string): ZoneTheme {
+  if (!v.isObject(data, path)) {
+    return { backgroundColor: 0, groundTexture: '', ambientColor: 0, musicTrack: '' };
+  }
+  return {
+    backgroundColor: v.colour(data.backgroundColor, `${path}.backgroundColor`),
+    groundTexture: v.string(data.groundTexture, `${path}.groundTexture`),
+    ambientColor: v.colour(data.ambientColor, `${path}.ambientColor`),
+    musicTrack: v.string(data.musicTrack, `${path}.musicTrack`)
+  };
+}
+
+function parseZone(v: ZoneValidator, data: unknown, path: string, characterIds: string[]): GameZone | null {
+  if (!v.isObject(data, path)) return null;
+
+  const bounds = v.isObject(data.bounds, `${path}.bounds`)
+    ? {
+        x: v.number(data.bounds.x, `${path}.bounds.x`),
+        y: v.number(data.bounds.y, `${path}.bounds.y`),
+        width: v.number(data.bounds.width, `${path}.bounds.width`, 1),
+        height: v.number(data.bounds.height, `${path}.bounds.height`, 1)
+      }
+    : { x: 0, y: 0, width: 0, height: 0 };
+
+  const enemies = v.isArray(data.enemies, `${path}.enemies`)
+    ? data.enemies.map((enemy, i) => parseEnemy(v, enemy, `${path}.enemies[${i}]`))
+    : [];
+
+  const kickableObjects = v.isArray(data.kickableObjects, `${path}.kickableObjects`)
+    ? data.kickableObjects.map((object, i) => parseKickableObject(v, object, `${path}.kickableObjects[${i}]`))
+    : [];
+
+  const requiredCharacters = v.isArray(data.requiredCharacters, `${path}.requiredCharacters`)
+    ? data.requiredCharacters.map((id, i) => v.oneOf(id, `${path}.requiredCharacters[${i}]`, characterIds, 'character'))
+    : [];
+
+  if (typeof data.isUnlocked !== 'boolean') {
+    v.error(`${path}.isUnlocked`, 'expected true or false');
+  }
+
+  return {
+    id: v.string(data.id, `${path}.id`),
+    name: v.string(data.name, `${path}.name`),
+    bounds,
+    enemies,
+    kickableObjects,
+    boss: data.boss !== undefined ? parseBoss(v, data.boss, `${path}.boss`, characterIds) : undefined,
+    theme: parseTheme(v, data.theme, `${path}.theme`),
+    requiredCharacters,
+    isUnlocked: data.isUnlocked === true
+  };
+}
+
+// Validate raw zone JSON and build runtime GameZones - throws ZoneValidationError listing every problem
+export function parseZoneFile(data: unknown): GameZone[] {
+  const v = new ZoneValidator();
+  const characterIds = ITALIAN_BRAINROT_CHARACTERS.map(char => char.id);
+  const zones: GameZone[] = [];
+
+  if (v.isObject(data, 'zones.json') && v.isArray(data.zones, 'zones')) {
+    data.zones.forEach((zoneData, i) => {
+      const zone = parseZone(v, zoneData, `zones[${i}]`, characterIds);
+      if (!zone) return;
+
+      if (zone.id && zones.some(existing => existing.id === zone.id)) {
+        v.error(`zones[${i}].id`, `duplicate zone id "${zone.id}"`);
+      }
+      zones.push(zone);
+    });
+
+    if (data.zones.length === 0) {
+      v.error('zones', 'at least one zone is required');
+    }
+  }
+
+  if (v.errors.length > 0) {
+    throw new ZoneValidationError(v.errors);
+  }
+  return zones;
+}
+
+function toPointDefinition(point: Vector2): PointDefinition {
+  return { x: point.x, y: point.y };
+}
+
+function toColourDefinition(colour: number): string {
+  return `#${colour.toString(16).padStart(6, '0')}`;
+}
+
+// Inverse of parseZoneFile for a single zone - used by the zone editor export
+export function zoneToDefinition(zone: GameZone): ZoneDefinition {
+  const definition: ZoneDefinition = {
+    id: zone.id,
+    name: zone.name,
+    bounds: { ...zone.bounds },
+    enemies: zone.enemies.map(enemy => {
+      const enemyDefinition: StationaryEnemyDefinition = {
+        position: toPointDefinition(enemy.position),
+        enemyType: enemy.enemyType,
+        aggroRadius: enemy.aggroRadius,
+        state: enemy.state
+      };
+      if (enemy.patrolPath) {
+        enemyDefinition.patrolPath = enemy.patrolPath.map(toPointDefinition);
+      }
+      return enemyDefinition;
+    }),
+    kickableObjects: zone.kickableObjects.map(object => ({
+      position: toPointDefinition(object.position),
+      type: object.type
+    })),
+    theme: {
+      backgroundColor: toColourDefinition(zone.theme.backgroundColor),
+      groundTexture: zone.theme.groundTexture,
+      ambientColor: toColourDefinition(zone.theme.ambientColor),
+      musicTrack: zone.theme.musicTrack
+    },
+    requiredCharacters: [...zone.requiredCharacters],
+    isUnlocked: zone.isUnlocked
+  };
+
+  if (zone.boss) {
+    definition.boss = {
+      type: zone.boss.type,
+      name: zone.boss.name,
+      position: toPointDefinition(zone.boss.position),
+      health: zone.boss.health,
+      phases: zone.boss.phases.map(phase => {
+        const phaseDefinition: BossPhaseDefinition = {
+          healthThreshold: phase.healthThreshold,
+          abilities: [...phase.abilities],
+          movementPattern: phase.movementPattern
+        };
+        if (phase.attackDamage) {
+          phaseDefinition.attackDamage = { ...phase.attackDamage };
+        }
+        return phaseDefinition;
+      }),
+      arenaRadius: zone.boss.arenaRadius,
+      unlockCharacter: zone.boss.unlockCharacter
+    };
+    if (zone.boss.title !== undefined) {
+      definition.boss.title = zone.boss.title;
+    }
+    if (zone.boss.hazards) {
+      definition.boss.hazards = zone.boss.hazards.map(hazard => ({
+        type: hazard.type,
+        offset: toPointDefinition(hazard.offset),
+        radius: hazard.radius
+      }));
+    }
+  }
+
+  return definition;
+}
+
+// Fresh GameZones from src/config/zones.json
+export function loadZoneDefinitions(): GameZone[] {
+  return parseZoneFile(zoneData);
+}
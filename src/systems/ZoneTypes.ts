@@ -0,0 +1,89 @@
+import { Enemy } from '../entities/Enemy';
+import { KickableObject, ObjectType } from '../entities/KickableObject';
+import { Vector2 } from '../utils/Vector2';
+import { EnemyTypeId } from '../enemies/EnemyType';
+
+export enum EnemyState {
+  STATIONARY = 'stationary',
+  PATROLLING = 'patrolling', 
+  AGGROED = 'aggroed',
+  COMBAT = 'combat',
+  FLEEING = 'fleeing'
+}
+
+export interface GameZone {
+  id: string;
+  name: string;
+  bounds: { x: number; y: number; width: number; height: number };
+  enemies: StationaryEnemy[];
+  kickableObjects: KickableObjectConfig[];
+  boss?: BossConfig;
+  theme: ZoneTheme;
+  requiredCharacters: string[];
+  isUnlocked: boolean;
+}
+
+export interface StationaryEnemy {
+  position: Vector2;
+  enemyType: EnemyTypeId;
+  aggroRadius: number;
+  patrolPath?: Vector2[];
+  state: EnemyState;
+  enemy?: Enemy; // Runtime enemy instance
+}
+
+export interface KickableObjectConfig {
+  position: Vector2;
+  type: ObjectType;
+  object?: KickableObject; // Runtime object instance
+}
+
+export interface BossConfig {
+  type: string;
+  name: string;
+  title?: string; // Subtitle on the boss intro card
+  position: Vector2;
+  health: number;
+  phases: BossPhase[];
+  arenaRadius: number;
+  unlockCharacter: string;
+  hazards?: ArenaHazard[];
+}
+
+export enum ArenaHazardType {
+  ICE_PATCH = 'ice_patch',
+  SAND_PIT = 'sand_pit',
+  PILLAR = 'pillar'
+}
+
+export interface ArenaHazard {
+  type: ArenaHazardType;
+  offset: Vector2; // From the arena centre (boss position)
+  radius: number;
+}
+
+// Tuning shared by every hazard of a type - see config/arenaHazards.ts
+export interface ArenaHazardConfig {
+  type: ArenaHazardType;
+  name: string;
+  color: number;
+  solid: boolean; // Blocks movement and bounces kicked things
+  health?: number; // Solid hazards break after this much impact damage
+  playerFriction: number; // 1 = normal grip, lower slides
+  playerSpeedMultiplier: number;
+  slideFriction: number; // Kicked objects/enemies - below 1 slides further, above 1 stops sooner
+}
+
+export interface BossPhase {
+  healthThreshold: number;
+  abilities: string[]; // BossAbilityRegistry ids
+  movementPattern: string; // BossAbilityRegistry movement id
+  attackDamage?: Record<string, number>; // Ability id -> damage override for this phase
+}
+
+export interface ZoneTheme {
+  backgroundColor: number;
+  groundTexture: string;
+  ambientColor: number;
+  musicTrack: string;
+}
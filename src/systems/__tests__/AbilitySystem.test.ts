@@ -0,0 +1,198 @@
+import { AbilitySystem } from '../AbilitySystem';
+import { GameEventBus } from '../GameEventBus';
+import { Character, CharacterAbility } from '../../entities/Character';
+import { Vector2 } from '../../utils/Vector2';
+
+jest.mock('../../entities/Player');
+
+function createMockScene(): any {
+  return {
+    add: {
+      graphics: jest.fn(() => ({
+        setDepth: jest.fn(),
+        lineStyle: jest.fn(),
+        strokeCircle: jest.fn(),
+        setPosition: jest.fn(),
+        setScale: jest.fn(),
+        destroy: jest.fn()
+      }))
+    },
+    tweens: { add: jest.fn() }
+  };
+}
+
+function createAbility(id: string, effect: CharacterAbility['effect'], cooldown: number = 5000): CharacterAbility {
+  return { id, name: id, description: '', cooldown, effect };
+}
+
+function createPlayer(abilities: CharacterAbility[]): any {
+  const character = new Character({
+    id: 'test',
+    name: 'Test',
+    title: '',
+    description: '',
+    baseKickForce: 100,
+    baseKickSpeed: 1,
+    baseKickRange: 80,
+    specialAbilities: abilities,
+    spriteKey: 'test',
+    unlockRequirement: '',
+    isUnlocked: true
+  });
+
+  return {
+    currentCharacter: character,
+    velocity: new Vector2(0, 0),
+    kickForceMultiplier: 1,
+    kickRangeMultiplier: 1,
+    speedBonus: 0,
+    isInvincible: false,
+    getPosition: () => new Vector2(0, 0),
+    getKickForce: () => 100,
+    getCharacterAbilities: () => abilities
+  };
+}
+
+function createEnemy(x: number, y: number): any {
+  return {
+    x,
+    y,
+    sprite: { active: true },
+    isDying: false,
+    hitboxRadius: 10,
+    enemyType: { kickMultiplier: 1 },
+    speedMultiplier: 1,
+    takeDamage: jest.fn(() => false),
+    applyKnockback: jest.fn()
+  };
+}
+
+function createObject(x: number, y: number): any {
+  return { x, y, radius: 10, isBroken: false, applyKick: jest.fn() };
+}
+
+describe('AbilitySystem', () => {
+  let system: AbilitySystem;
+  let events: GameEventBus;
+
+  beforeEach(() => {
+    events = new GameEventBus();
+    system = new AbilitySystem(createMockScene(), events);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('area attacks', () => {
+    it('should damage and launch enemies in range and kick nearby objects', () => {
+      const player = createPlayer([createAbility('stomp', { type: 'area_attack', areaRadius: 100, damage: 25 })]);
+      const near = createEnemy(50, 0);
+      const far = createEnemy(300, 0);
+      const barrel = createObject(0, 60);
+      const onDamageDealt = jest.fn();
+      events.on('damageDealt', onDamageDealt);
+
+      expect(system.useAbility(0, player, [near, far], [barrel])).toBe(true);
+
+      expect(near.takeDamage).toHaveBeenCalledWith(25);
+      expect(near.applyKnockback.mock.calls[0][0]).toBeGreaterThan(0);
+      expect(far.takeDamage).not.toHaveBeenCalled();
+      expect(barrel.applyKick).toHaveBeenCalledWith(0, 600, 100);
+      expect(onDamageDealt).toHaveBeenCalledTimes(1);
+      expect(onDamageDealt).toHaveBeenCalledWith({ amount: 25, source: 'ability', target: near });
+    });
+
+    it('should freeze enemies hit by a time freeze until it runs out', () => {
+      const player = createPlayer([
+        createAbility('shockwave', { type: 'area_attack', areaRadius: 100, duration: 2000, specialEffect: 'time_freeze' })
+      ]);
+      const enemy = createEnemy(50, 0);
+
+      system.useAbility(0, player, [enemy], []);
+      expect(enemy.speedMultiplier).toBe(0);
+
+      system.update(2500, player, [enemy]);
+      expect(enemy.speedMultiplier).toBe(1);
+    });
+  });
+
+  describe('timed effects', () => {
+    it('should boost kicks until the buff expires', () => {
+      const player = createPlayer([
+        createAbility('power', { type: 'kick_modifier', kickForceMultiplier: 2, kickRangeMultiplier: 1.5, duration: 3000 })
+      ]);
+
+      system.useAbility(0, player, [], []);
+      expect(player.kickForceMultiplier).toBe(2);
+      expect(player.kickRangeMultiplier).toBe(1.5);
+      expect(system.getCooldowns(player)[0].isActive).toBe(true);
+
+      system.update(3500, player, []);
+      expect(player.kickForceMultiplier).toBe(1);
+      expect(player.kickRangeMultiplier).toBe(1);
+    });
+
+    it('should not run down while the game is paused', () => {
+      const player = createPlayer([createAbility('power', { type: 'kick_modifier', kickForceMultiplier: 2, duration: 3000 })]);
+      jest.spyOn(Date, 'now').mockReturnValue(10000);
+
+      system.useAbility(0, player, [], []);
+      (Date.now as jest.Mock).mockReturnValue(60000); // Sat in the pause menu
+      system.update(16, player, []);
+
+      expect(player.kickForceMultiplier).toBe(2);
+    });
+
+    it('should apply movement bonuses and invincibility', () => {
+      const player = createPlayer([
+        createAbility('dash', { type: 'movement', movementSpeedBonus: 200, duration: 1000, specialEffect: 'invincibility' })
+      ]);
+
+      system.useAbility(0, player, [], []);
+
+      expect(player.speedBonus).toBe(200);
+      expect(player.isInvincible).toBe(true);
+    });
+
+    it('should slow enemies during environmental effects and restore them after', () => {
+      const player = createPlayer([createAbility('slowmo', { type: 'environmental', duration: 2000 })]);
+      const enemy = createEnemy(500, 500);
+
+      system.useAbility(0, player, [enemy], []);
+      expect(enemy.speedMultiplier).toBeLessThan(1);
+
+      system.clear(player);
+      expect(enemy.speedMultiplier).toBe(1);
+    });
+  });
+
+  describe('cooldowns', () => {
+    it('should block reuse until the cooldown has passed', () => {
+      const player = createPlayer([createAbility('stomp', { type: 'area_attack' }, 4000)]);
+
+      expect(system.useAbility(0, player, [], [])).toBe(true);
+      expect(system.useAbility(0, player, [], [])).toBe(false);
+
+      system.update(1000, player, []);
+      expect(system.getCooldowns(player)[0]).toEqual(expect.objectContaining({ remaining: 3000, progress: 0.25 }));
+
+      system.update(3000, player, []);
+      expect(system.useAbility(0, player, [], [])).toBe(true);
+    });
+
+    it('should start each run with fresh cooldowns even on the same character', () => {
+      const player = createPlayer([createAbility('stomp', { type: 'area_attack' }, 4000)]);
+      system.useAbility(0, player, [], []);
+
+      const nextRun = new AbilitySystem(createMockScene(), new GameEventBus());
+
+      expect(nextRun.useAbility(0, player, [], [])).toBe(true);
+    });
+
+    it('should ignore empty slots', () => {
+      const player = createPlayer([]);
+      expect(system.useAbility(1, player, [], [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { ArenaSystem } from '../ArenaSystem';
+import { ArenaHazardType, BossConfig } from '../ZoneTypes';
+import { ARENA_HAZARDS } from '../../config/arenaHazards';
+import { Vector2 } from '../../utils/Vector2';
+
+jest.mock('../../entities/Player');
+jest.mock('../../entities/Enemy');
+jest.mock('../../entities/KickableObject');
+
+function createMockScene(): any {
+  const graphics = {
+    setDepth: jest.fn(),
+    clear: jest.fn(),
+    fillStyle: jest.fn(),
+    fillCircle: jest.fn(),
+    fillRect: jest.fn(),
+    lineStyle: jest.fn(),
+    strokeCircle: jest.fn(),
+    setPosition: jest.fn(),
+    destroy: jest.fn()
+  };
+  return {
+    add: { graphics: jest.fn(() => graphics) },
+    tweens: { add: jest.fn() }
+  };
+}
+
+function createBoss(): BossConfig {
+  return {
+    type: 'ice-shark',
+    name: 'Test Shark',
+    position: new Vector2(500, 500),
+    health: 100,
+    phases: [{ healthThreshold: 1, abilities: [], movementPattern: 'circle' }],
+    arenaRadius: 200,
+    unlockCharacter: 'tralalero-tralala',
+    hazards: [
+      { type: ArenaHazardType.ICE_PATCH, offset: new Vector2(-100, 0), radius: 50 },
+      { type: ArenaHazardType.SAND_PIT, offset: new Vector2(100, 0), radius: 50 },
+      { type: ArenaHazardType.PILLAR, offset: new Vector2(0, -100), radius: 20 }
+    ]
+  };
+}
+
+function createPlayer(x: number, y: number): any {
+  return {
+    sprite: { x, y },
+    velocity: new Vector2(),
+    surfaceFriction: 1,
+    surfaceSpeedMultiplier: 1
+  };
+}
+
+function createObject(x: number, y: number, velocity: Vector2): any {
+  return {
+    sprite: { x, y },
+    get x() { return this.sprite.x; },
+    get y() { return this.sprite.y; },
+    radius: 10,
+    velocity,
+    isFlying: true,
+    isBroken: false,
+    surfaceFriction: 1,
+    config: { damage: 40 },
+    takeDamage: jest.fn()
+  };
+}
+
+describe('ArenaSystem', () => {
+  let arena: ArenaSystem;
+
+  beforeEach(() => {
+    arena = new ArenaSystem(createMockScene());
+    arena.activate(createBoss());
+  });
+
+  it('should place hazards relative to the arena centre', () => {
+    const hazards = arena.getHazards();
+
+    expect(hazards).toHaveLength(3);
+    expect(hazards[0].position).toEqual(new Vector2(400, 500));
+    expect(hazards[2].health).toBe(ARENA_HAZARDS[ArenaHazardType.PILLAR].health);
+  });
+
+  it('should keep the player inside the ring', () => {
+    const player = createPlayer(900, 500);
+
+    arena.update(player, null, [], []);
+
+    expect(player.sprite.x).toBeCloseTo(680); // Radius 200 minus player radius 20
+    expect(player.sprite.y).toBeCloseTo(500);
+  });
+
+  it('should keep the boss inside the ring', () => {
+    const boss: any = { sprite: { x: 500, y: 100, active: true }, hitboxRadius: 40 };
+
+    arena.update(createPlayer(500, 500), boss, [boss], []);
+
+    expect(boss.sprite.y).toBeCloseTo(340);
+  });
+
+  it('should make ice slippery and sand slow for the player', () => {
+    const onIce = createPlayer(400, 500);
+    arena.update(onIce, null, [], []);
+    expect(onIce.surfaceFriction).toBe(ARENA_HAZARDS[ArenaHazardType.ICE_PATCH].playerFriction);
+
+    const inSand = createPlayer(600, 500);
+    arena.update(inSand, null, [], []);
+    expect(inSand.surfaceSpeedMultiplier).toBe(0.5);
+  });
+
+  it('should change how far kicked objects slide', () => {
+    const onIce = createObject(400, 500, new Vector2(100, 0));
+    const inSand = createObject(600, 500, new Vector2(100, 0));
+
+    arena.update(createPlayer(500, 500), null, [], [onIce, inSand]);
+
+    expect(onIce.surfaceFriction).toBeLessThan(1);
+    expect(inSand.surfaceFriction).toBeGreaterThan(1);
+  });
+
+  it('should bounce kicked objects off pillars and chip them', () => {
+    const object = createObject(500, 425, new Vector2(0, -300)); // Flying up into the pillar at (500, 400)
+    const startHealth = arena.getHazards()[2].health;
+
+    arena.update(createPlayer(500, 500), null, [], [object]);
+
+    expect(object.velocity.y).toBeGreaterThan(0);
+    expect(object.takeDamage).toHaveBeenCalled();
+    expect(arena.getHazards()[2].health).toBe(startHealth - 40);
+  });
+
+  it('should destroy pillars that take enough hits', () => {
+    const onHazardDestroyed = jest.fn();
+    arena.onHazardDestroyed = onHazardDestroyed;
+
+    for (let i = 0; i < 3; i++) {
+      arena.update(createPlayer(500, 500), null, [], [createObject(500, 425, new Vector2(0, -300))]);
+    }
+
+    expect(onHazardDestroyed).toHaveBeenCalledWith(expect.objectContaining({ isDestroyed: true }));
+    expect(arena.getHazards()).toHaveLength(2);
+  });
+
+  it('should bounce knocked-back enemies off the ring', () => {
+    const enemy: any = {
+      sprite: { x: 710, y: 500, active: true },
+      hitboxRadius: 10,
+      isKnockedBack: true,
+      knockbackVelocity: new Vector2(400, 0),
+      surfaceFriction: 1,
+      bounceCount: 0
+    };
+
+    arena.update(createPlayer(500, 500), null, [enemy], []);
+
+    expect(enemy.knockbackVelocity.x).toBeLessThan(0);
+    expect(enemy.sprite.x).toBeCloseTo(700);
+    expect(enemy.bounceCount).toBe(1); // Counts as an impact
+  });
+
+  it('should leave objects outside the arena alone', () => {
+    const object = createObject(2000, 2000, new Vector2(300, 0));
+
+    arena.update(createPlayer(500, 500), null, [], [object]);
+
+    expect(object.velocity.x).toBe(300);
+    expect(object.sprite.x).toBe(2000);
+  });
+
+  it('should restore normal ground when deactivated', () => {
+    const player = createPlayer(600, 500);
+    const object = createObject(400, 500, new Vector2(100, 0));
+    arena.update(player, null, [], [object]);
+
+    arena.deactivate();
+
+    expect(arena.isActive()).toBe(false);
+    expect(player.surfaceSpeedMultiplier).toBe(1);
+    expect(object.surfaceFriction).toBe(1);
+  });
+});
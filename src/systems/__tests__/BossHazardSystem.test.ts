@@ -0,0 +1,142 @@
+import { BossHazardSystem, BossHazardSpec } from '../BossHazardSystem';
+
+jest.mock('../../entities/Player');
+
+function createMockScene(): any {
+  return {
+    add: {
+      graphics: jest.fn(() => ({
+        setDepth: jest.fn(),
+        clear: jest.fn(),
+        fillStyle: jest.fn(),
+        fillCircle: jest.fn(),
+        lineStyle: jest.fn(),
+        strokeCircle: jest.fn(),
+        lineBetween: jest.fn(),
+        destroy: jest.fn()
+      }))
+    }
+  };
+}
+
+function createPlayer(x: number, y: number): any {
+  return {
+    sprite: { x, y },
+    takeDamage: jest.fn(),
+    applySlow: jest.fn()
+  };
+}
+
+function createSpec(overrides: Partial<BossHazardSpec> = {}): BossHazardSpec {
+  return {
+    shape: { kind: 'circle', x: 100, y: 100, radius: 50 },
+    telegraphTime: 500,
+    activeTime: 200,
+    damage: 10,
+    color: 0xff0000,
+    ...overrides
+  };
+}
+
+describe('BossHazardSystem', () => {
+  let scene: any;
+  let system: BossHazardSystem;
+
+  beforeEach(() => {
+    scene = createMockScene();
+    system = new BossHazardSystem(scene);
+  });
+
+  it('should not hit the player during the telegraph', () => {
+    const player = createPlayer(100, 100);
+    system.spawn(createSpec());
+
+    system.update(400, player);
+
+    expect(system.getHazards()[0].phase).toBe('telegraph');
+    expect(player.takeDamage).not.toHaveBeenCalled();
+  });
+
+  it('should damage the player once during the active frames', () => {
+    const player = createPlayer(120, 100);
+    const onPlayerHit = jest.fn();
+    system.onPlayerHit = onPlayerHit;
+    system.spawn(createSpec());
+
+    system.update(550, player);
+    system.update(50, player);
+    system.update(50, player);
+
+    expect(player.takeDamage).toHaveBeenCalledTimes(1);
+    expect(player.takeDamage).toHaveBeenCalledWith(10);
+    expect(onPlayerHit).toHaveBeenCalledWith(expect.objectContaining({ phase: 'active' }), 10);
+  });
+
+  it('should miss a player outside the hitbox', () => {
+    const player = createPlayer(300, 100);
+    system.spawn(createSpec());
+
+    system.update(550, player);
+
+    expect(player.takeDamage).not.toHaveBeenCalled();
+  });
+
+  it('should hit along a charge lane', () => {
+    system.spawn(createSpec({ shape: { kind: 'line', x1: 0, y1: 0, x2: 400, y2: 0, width: 60 } }));
+    const inLane = createPlayer(200, 40);
+    const outOfLane = createPlayer(200, 80);
+
+    system.update(550, inLane);
+    system.update(10, outOfLane);
+
+    expect(inLane.takeDamage).toHaveBeenCalled();
+    expect(outOfLane.takeDamage).not.toHaveBeenCalled();
+  });
+
+  it('should only hit where the freeze wave currently is', () => {
+    system.spawn(createSpec({
+      shape: { kind: 'wave', x: 0, y: 0, maxRadius: 300, thickness: 40 },
+      activeTime: 1000
+    }));
+    const farPlayer = createPlayer(250, 0);
+
+    // Half way through, the ring is at 150px
+    system.update(1000, farPlayer);
+    expect(farPlayer.takeDamage).not.toHaveBeenCalled();
+
+    system.update(300, farPlayer);
+    expect(farPlayer.takeDamage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep slowing the player while they stand in a freeze hazard', () => {
+    const player = createPlayer(100, 100);
+    system.spawn(createSpec({ slow: { multiplier: 0.5, duration: 2000 } }));
+
+    system.update(550, player);
+    system.update(50, player);
+
+    expect(player.applySlow).toHaveBeenCalledTimes(2);
+    expect(player.applySlow).toHaveBeenCalledWith(0.5, 2000);
+    expect(player.takeDamage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clean up hazards once they are done', () => {
+    const player = createPlayer(1000, 1000);
+    system.spawn(createSpec());
+    const graphics = scene.add.graphics.mock.results[0].value;
+
+    system.update(800, player);
+
+    expect(system.getHazards()).toHaveLength(0);
+    expect(graphics.destroy).toHaveBeenCalled();
+  });
+
+  it('should remove every hazard on clear', () => {
+    system.spawn(createSpec());
+    system.spawn(createSpec());
+
+    system.clear();
+
+    expect(system.getHazards()).toHaveLength(0);
+  });
+});
@@ -1,9 +1,12 @@
 import { EncounterSystem, EnemyState, GameZone } from '../EncounterSystem';
+import { loadZoneDefinitions } from '../ZoneLoader';
+import { ZONE_IDS } from '../../config/zones';
 import { Vector2 } from '../../utils/Vector2';
 import { Enemy } from '../../entities/Enemy';
 import { Boss } from '../../entities/Boss';
 import { KickableObject, ObjectType } from '../../entities/KickableObject';
 import { ENEMY_TYPES } from '../../config/enemyTypes';
+import { GameEventBus } from '../GameEventBus';
 
 // Mock Phaser Scene
 const mockScene = {
@@ -69,6 +72,8 @@ jest.mock('../../entities/Enemy', () => ({
 
 // Mock Boss class  
 jest.mock('../../entities/Boss', () => ({
+  BossAttack: jest.requireActual('../../entities/Boss').BossAttack,
+  MovementPattern: jest.requireActual('../../entities/Boss').MovementPattern,
   Boss: jest.fn().mockImplementation(() => ({
     spawn: jest.fn(),
     reset: jest.fn(),
@@ -104,17 +109,30 @@ const mockCharacterManager = {
 };
 
 jest.mock('../../entities/Character', () => ({
+  ITALIAN_BRAINROT_CHARACTERS: jest.requireActual('../../entities/Character').ITALIAN_BRAINROT_CHARACTERS,
   CharacterManager: {
     getInstance: jest.fn(() => mockCharacterManager)
   }
 }));
 
+// Mock SaveManager
+const mockSaveManager = {
+  unlockZone: jest.fn(),
+  recordBossDefeat: jest.fn()
+};
+
+jest.mock('../../managers/SaveManager', () => ({
+  SaveManager: {
+    getInstance: jest.fn(() => mockSaveManager)
+  }
+}));
+
 describe('EncounterSystem', () => {
   let encounterSystem: EncounterSystem;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    encounterSystem = new EncounterSystem(mockScene);
+    encounterSystem = new EncounterSystem(mockScene, new GameEventBus());
   });
 
   describe('initialization', () => {
@@ -323,6 +341,57 @@ describe('EncounterSystem', () => {
       }
     });
 
+    it('should report the cleared zone after boss defeat', () => {
+      const onZoneCleared = jest.fn();
+      encounterSystem.onZoneCleared = onZoneCleared;
+      const playerPos = new Vector2(900, 600);
+
+      encounterSystem.update(16, playerPos); // Start boss fight
+
+      const boss = encounterSystem.getBoss();
+      if (boss) {
+        boss.health = 0;
+        boss.isDying = true;
+
+        encounterSystem.update(16, playerPos);
+
+        expect(onZoneCleared).toHaveBeenCalledWith(expect.objectContaining({ id: 'tutorial-grove' }));
+      }
+    });
+
+    it('should announce the boss when the fight starts', () => {
+      const onBossFightStarted = jest.fn();
+      encounterSystem.onBossFightStarted = onBossFightStarted;
+
+      encounterSystem.update(16, new Vector2(900, 600));
+
+      expect(onBossFightStarted).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Swarm King Chimpanzini',
+        title: 'Monarch of the Buzzing Grove'
+      }));
+    });
+
+    it('should report the unlocked character on boss defeat', () => {
+      const onBossDefeated = jest.fn();
+      encounterSystem.onBossDefeated = onBossDefeated;
+      const playerPos = new Vector2(900, 600);
+
+      encounterSystem.update(16, playerPos); // Start boss fight
+
+      const boss = encounterSystem.getBoss();
+      if (boss) {
+        boss.health = 0;
+        boss.isDying = true;
+
+        encounterSystem.update(16, playerPos);
+
+        expect(onBossDefeated).toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'swarm-king' }),
+          'chimpanzini-bananini'
+        );
+      }
+    });
+
     it('should include boss in active enemies list', () => {
       const playerPos = new Vector2(900, 600);
       
@@ -338,6 +407,24 @@ describe('EncounterSystem', () => {
   });
 
   describe('zone management', () => {
+    it('should define every zone the save system knows about', () => {
+      expect(loadZoneDefinitions().map(zone => zone.id)).toEqual(ZONE_IDS);
+    });
+
+    it('should create independent zone definitions on each call', () => {
+      const first = loadZoneDefinitions();
+      const second = loadZoneDefinitions();
+
+      first[1].isUnlocked = true;
+      expect(second[1].isUnlocked).toBe(false);
+    });
+
+    it('should look up zones by id, locked or not', () => {
+      expect(encounterSystem.getZone('arctic-lab')?.name).toBe('Arctic Laboratory');
+      expect(encounterSystem.getZone('missing-zone')).toBeUndefined();
+      expect(encounterSystem.getAllZones()).toHaveLength(3);
+    });
+
     it('should unlock zones correctly', () => {
       const initialUnlocked = encounterSystem.getAvailableZones().length;
       
@@ -345,6 +432,16 @@ describe('EncounterSystem', () => {
       
       const finalUnlocked = encounterSystem.getAvailableZones().length;
       expect(finalUnlocked).toBe(initialUnlocked + 1);
+      expect(mockSaveManager.unlockZone).toHaveBeenCalledWith('desert-outpost');
+    });
+
+    it('should restore previously unlocked zones', () => {
+      encounterSystem.restoreUnlockedZones(['desert-outpost', 'unknown-zone']);
+
+      const zoneIds = encounterSystem.getAvailableZones().map(zone => zone.id);
+      expect(zoneIds).toContain('desert-outpost');
+      expect(zoneIds).not.toContain('unknown-zone');
+      expect(mockSaveManager.unlockZone).not.toHaveBeenCalled();
     });
 
     it('should unlock next zone after boss defeat', () => {
@@ -0,0 +1,170 @@
+import { EnemyArchetypeSystem } from '../EnemyArchetypeSystem';
+import { ENEMY_TYPES } from '../../config/enemyTypes';
+import { EnemyTypeConfig } from '../../enemies/EnemyType';
+
+jest.mock('../../entities/Player');
+
+function createMockScene(): any {
+  return {
+    add: {
+      graphics: jest.fn(() => ({
+        setDepth: jest.fn(),
+        setPosition: jest.fn(),
+        fillStyle: jest.fn(),
+        fillCircle: jest.fn(),
+        lineStyle: jest.fn(),
+        strokeCircle: jest.fn(),
+        destroy: jest.fn()
+      }))
+    },
+    tweens: { add: jest.fn() }
+  };
+}
+
+function createPlayer(x: number, y: number): any {
+  return {
+    sprite: { x, y },
+    takeDamage: jest.fn()
+  };
+}
+
+function createEnemy(enemyType: EnemyTypeConfig, x: number, y: number, overrides: any = {}): any {
+  return {
+    sprite: { active: true },
+    x,
+    y,
+    enemyType,
+    movementType: 'kiting',
+    isDying: false,
+    health: enemyType.health,
+    maxHealth: enemyType.health,
+    attackCooldown: 0,
+    buffMultiplier: 1,
+    buffRemaining: 0,
+    hasSplit: false,
+    ...overrides
+  };
+}
+
+describe('EnemyArchetypeSystem', () => {
+  let system: EnemyArchetypeSystem;
+
+  beforeEach(() => {
+    system = new EnemyArchetypeSystem(createMockScene(), () => 0);
+  });
+
+  describe('ranged enemies', () => {
+    it('should fire at the player once in range and then wait for the cooldown', () => {
+      const archer = createEnemy(ENEMY_TYPES.ranged, 0, 0);
+      const player = createPlayer(300, 0);
+
+      system.update(16, player, [archer]);
+      system.update(16, player, [archer]);
+
+      expect(system.getProjectiles()).toHaveLength(1);
+      expect(system.getProjectiles()[0].velocityX).toBeGreaterThan(0);
+      expect(archer.attackCooldown).toBe(ENEMY_TYPES.ranged.ranged!.fireInterval - 16);
+    });
+
+    it('should hold fire while the player is out of range', () => {
+      const archer = createEnemy(ENEMY_TYPES.ranged, 0, 0);
+
+      system.update(16, createPlayer(1000, 0), [archer]);
+
+      expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('should not shoot while idle in a zone', () => {
+      const archer = createEnemy(ENEMY_TYPES.ranged, 0, 0, { movementType: 'stationary' });
+
+      system.update(16, createPlayer(100, 0), [archer]);
+
+      expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('should damage the player once when a projectile connects', () => {
+      const archer = createEnemy(ENEMY_TYPES.ranged, 0, 0);
+      const player = createPlayer(100, 0);
+      const onPlayerHit = jest.fn();
+      system.onPlayerHit = onPlayerHit;
+
+      system.update(16, player, [archer]);
+      for (let i = 0; i < 30; i++) {
+        system.update(16, player, []);
+      }
+
+      const attack = ENEMY_TYPES.ranged.ranged!;
+      expect(player.takeDamage).toHaveBeenCalledTimes(1);
+      expect(player.takeDamage).toHaveBeenCalledWith(attack.projectileDamage);
+      expect(onPlayerHit).toHaveBeenCalledTimes(1);
+      expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('should let a missed projectile fizzle out', () => {
+      const archer = createEnemy(ENEMY_TYPES.ranged, 0, 0);
+      const player = createPlayer(300, 0);
+
+      system.update(16, player, [archer]);
+      player.sprite.y = 500; // Dodged
+
+      system.update(ENEMY_TYPES.ranged.ranged!.projectileLifetime, player, []);
+
+      expect(player.takeDamage).not.toHaveBeenCalled();
+      expect(system.getProjectiles()).toHaveLength(0);
+    });
+  });
+
+  describe('healers', () => {
+    it('should heal and speed up allies in range but not itself', () => {
+      const aura = ENEMY_TYPES.healer.healAura!;
+      const healer = createEnemy(ENEMY_TYPES.healer, 0, 0, { health: 1 });
+      const near = createEnemy(ENEMY_TYPES.tank, aura.radius - 10, 0, { health: 10 });
+      const far = createEnemy(ENEMY_TYPES.tank, aura.radius + 10, 0, { health: 10 });
+
+      system.update(16, createPlayer(500, 500), [healer, near, far]);
+
+      expect(near.health).toBe(10 + aura.healAmount);
+      expect(near.buffMultiplier).toBe(aura.speedBuff);
+      expect(near.buffRemaining).toBe(aura.buffDuration);
+      expect(far.health).toBe(10);
+      expect(healer.health).toBe(1);
+    });
+
+    it('should not heal past max health', () => {
+      const healer = createEnemy(ENEMY_TYPES.healer, 0, 0);
+      const ally = createEnemy(ENEMY_TYPES.basic, 20, 0, { health: ENEMY_TYPES.basic.health - 1 });
+
+      system.update(16, createPlayer(500, 500), [healer, ally]);
+
+      expect(ally.health).toBe(ENEMY_TYPES.basic.health);
+    });
+  });
+
+  describe('splitters', () => {
+    it('should burst into swarm enemies once when it dies', () => {
+      const onSpawnEnemy = jest.fn();
+      system.onSpawnEnemy = onSpawnEnemy;
+      const splitter = createEnemy(ENEMY_TYPES.splitter, 100, 100, { isDying: true });
+
+      system.update(16, createPlayer(0, 0), [splitter]);
+      system.update(16, createPlayer(0, 0), [splitter]);
+
+      const split = ENEMY_TYPES.splitter.splitOnDeath!;
+      expect(onSpawnEnemy).toHaveBeenCalledTimes(split.count);
+      expect(onSpawnEnemy.mock.calls[0][2]).toBe(ENEMY_TYPES[split.enemyType]);
+      expect(splitter.hasSplit).toBe(true);
+
+      // Evenly spread outward
+      const directions = onSpawnEnemy.mock.calls.map(call => call[3]);
+      expect(directions[1] - directions[0]).toBeCloseTo(Math.PI * 2 / split.count);
+    });
+  });
+
+  it('should remove every projectile on clear', () => {
+    system.update(16, createPlayer(300, 0), [createEnemy(ENEMY_TYPES.ranged, 0, 0)]);
+
+    system.clear();
+
+    expect(system.getProjectiles()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { GameEventBus } from '../GameEventBus';
+
+describe('GameEventBus', () => {
+  let bus: GameEventBus;
+
+  beforeEach(() => {
+    bus = new GameEventBus();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should deliver payloads to every subscriber of an event', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const other = jest.fn();
+    bus.on('enemyKilled', first);
+    bus.on('enemyKilled', second);
+    bus.on('levelUp', other);
+
+    bus.emit('enemyKilled', { x: 10, y: 20, isCritical: true, source: 'kick' });
+
+    expect(first).toHaveBeenCalledWith({ x: 10, y: 20, isCritical: true, source: 'kick' });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after unsubscribing', () => {
+    const viaReturn = jest.fn();
+    const viaOff = jest.fn();
+    const unsubscribe = bus.on('damageDealt', viaReturn);
+    bus.on('damageDealt', viaOff);
+
+    unsubscribe();
+    bus.off('damageDealt', viaOff);
+    bus.emit('damageDealt', { amount: 5, source: 'chain', target: {} as any });
+
+    expect(viaReturn).not.toHaveBeenCalled();
+    expect(viaOff).not.toHaveBeenCalled();
+  });
+
+  it('should drop every subscriber on clear', () => {
+    const handler = jest.fn();
+    bus.on('comboChanged', handler);
+
+    bus.clear();
+    bus.emit('comboChanged', { count: 3, multiplier: 1.5 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should keep delivering when a handler throws', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const after = jest.fn();
+    bus.on('levelUp', () => {
+      throw new Error('boom');
+    });
+    bus.on('levelUp', after);
+
+    bus.emit('levelUp', { level: 2 });
+
+    expect(after).toHaveBeenCalledWith({ level: 2 });
+    expect(errorSpy).toHaveBeenCalled();
+  });
+});
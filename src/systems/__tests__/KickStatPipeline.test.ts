@@ -0,0 +1,74 @@
+import { KickStatPipeline, NEUTRAL_KICK_STATS } from '../KickStatPipeline';
+import { Character, ITALIAN_BRAINROT_CHARACTERS } from '../../entities/Character';
+import { WeaponFactory, WeaponType } from '../../weapons/WeaponFactory';
+import { UPGRADES } from '../../config/upgrades';
+
+function getCharacter(id: string): Character {
+  return new Character(ITALIAN_BRAINROT_CHARACTERS.find(config => config.id === id)!);
+}
+
+function createUpgradeManager(levels: Record<string, number>): any {
+  return { getUpgradeLevel: (id: string) => levels[id] || 0 };
+}
+
+describe('KickStatPipeline', () => {
+  const noBuffs = { kickForceMultiplier: 1, kickRangeMultiplier: 1 };
+
+  it('should measure character base stats against the reference character', () => {
+    expect(KickStatPipeline.getCharacterStats(getCharacter('br-br-patapim'))).toEqual(NEUTRAL_KICK_STATS);
+
+    const crocodilo = KickStatPipeline.getCharacterStats(getCharacter('bombardiro-crocodilo'));
+    expect(crocodilo.force).toBeCloseTo(0.9);
+    expect(crocodilo.speed).toBeCloseTo(0.8);
+    expect(crocodilo.range).toBeCloseTo(1.25);
+  });
+
+  it('should apply the passive ability on top of base stats', () => {
+    const stats = KickStatPipeline.getRunStats(getCharacter('br-br-patapim'), createUpgradeManager({}));
+
+    // Natural Balance: 1.1x force and range
+    expect(stats.force).toBeCloseTo(1.1);
+    expect(stats.speed).toBeCloseTo(1);
+    expect(stats.range).toBeCloseTo(1.1);
+  });
+
+  it('should layer upgrades and buffs multiplicatively', () => {
+    const upgrades = createUpgradeManager({ kickForce: 2, kickSpeed: 1, kickRange: 2 });
+    const stats = KickStatPipeline.getCurrentStats(
+      getCharacter('br-br-patapim'),
+      { kickForceMultiplier: 2, kickRangeMultiplier: 1 },
+      upgrades
+    );
+
+    expect(stats.force).toBeCloseTo(1.1 * 1.5 * 2);
+    expect(stats.speed).toBeCloseTo(1.2);
+    expect(stats.range).toBeCloseTo(1.1 * 1.3);
+  });
+
+  it('should follow the upgrade table when it is retuned', () => {
+    const getValue = jest.spyOn(UPGRADES.kickRange, 'getValue').mockReturnValue(3);
+
+    const stats = KickStatPipeline.getUpgradeStats(createUpgradeManager({ kickRange: 1 }));
+
+    expect(getValue).toHaveBeenCalledWith(1);
+    expect(stats.range).toBe(3);
+    getValue.mockRestore();
+  });
+
+  it('should make characters play differently', () => {
+    const upgrades = createUpgradeManager({});
+    const chimp = KickStatPipeline.getCurrentStats(getCharacter('chimpanzini-bananini'), noBuffs, upgrades);
+    const ninja = KickStatPipeline.getCurrentStats(getCharacter('cappuccino-assassino'), noBuffs, upgrades);
+
+    expect(chimp.force).toBeGreaterThan(ninja.force);
+    expect(ninja.speed).toBeGreaterThan(chimp.speed);
+  });
+
+  it('should feed kick weapon fire rate and range', () => {
+    const baseline = WeaponFactory.createWeapon(WeaponType.BRATTACK, NEUTRAL_KICK_STATS);
+    const boosted = WeaponFactory.createWeapon(WeaponType.BRATTACK, { force: 1, speed: 1.5, range: 2 });
+
+    expect(boosted.fireRate).toBeCloseTo(baseline.fireRate * 1.5);
+    expect(boosted.range).toBeCloseTo(baseline.range * 2);
+  });
+});
@@ -2,6 +2,7 @@ import { SpawnSystem } from '../SpawnSystem';
 import { Scene } from 'phaser';
 import { Vector2 } from '../../utils/Vector2';
 import { getWaveConfig } from '../../config/waveConfig';
+import { RunContext } from '../../managers/RunContext';
 
 // Mock minimal dependencies
 jest.mock('../../config/waveConfig');
@@ -37,7 +38,7 @@ describe('SpawnSystem - Potential Bugs', () => {
       bossSpawn: false
     });
     
-    spawnSystem = new SpawnSystem(mockScene);
+    spawnSystem = new SpawnSystem(mockScene, new RunContext({ seed: 1 }));
   });
 
   describe('spawn position bugs', () => {
@@ -1,14 +1,20 @@
 import { SpawnSystem } from '../SpawnSystem';
 import { Scene } from 'phaser';
 import { PoolManager } from '../../managers/PoolManager';
+import { RunContext } from '../../managers/RunContext';
 import { Enemy } from '../../entities/Enemy';
+import { Boss } from '../../entities/Boss';
+import { KickableObject } from '../../entities/KickableObject';
 import { Vector2 } from '../../utils/Vector2';
 import { getWaveConfig } from '../../config/waveConfig';
+import { MobileConfig } from '../../mobile/MobileConfig';
 import { EnemyTypeId } from '../../enemies/EnemyType';
 
 // Mock dependencies
 jest.mock('../../managers/PoolManager');
 jest.mock('../../entities/Enemy');
+jest.mock('../../entities/Boss');
+jest.mock('../../entities/KickableObject');
 jest.mock('../../config/waveConfig');
 jest.mock('../../config/enemyTypes', () => ({
   ENEMY_TYPES: {
@@ -23,6 +29,7 @@ jest.mock('../../config/enemyTypes', () => ({
 
 describe('SpawnSystem', () => {
   let spawnSystem: SpawnSystem;
+  let runContext: RunContext;
   let mockScene: jest.Mocked<Scene>;
   let mockEnemyPool: jest.Mocked<PoolManager<Enemy>>;
   let mockEnemies: jest.Mocked<Enemy>[];
@@ -72,7 +79,8 @@ describe('SpawnSystem', () => {
     }));
     
     // Create spawn system
-    spawnSystem = new SpawnSystem(mockScene);
+    runContext = new RunContext({ seed: 1 });
+    spawnSystem = new SpawnSystem(mockScene, runContext);
   });
 
   describe('wave progression', () => {
@@ -290,4 +298,254 @@ describe('SpawnSystem', () => {
       expect(endTime - startTime).toBeLessThan(10);
     });
   });
-});
\ No newline at end of file
+
+  describe('survival bosses and events', () => {
+    const bossConfig = (type: string) => ({ type, name: type, health: 1000, position: new Vector2(0, 0) } as any);
+    const playerPos = new Vector2(400, 300);
+    let bosses: any[];
+
+    const waveAt = (wave: object) => {
+      (getWaveConfig as jest.Mock).mockReturnValue({ minEnemies: 0, spawnInterval: 1000, types: ['basic'], ...wave });
+    };
+
+    beforeEach(() => {
+      bosses = [];
+      (Boss as jest.MockedClass<typeof Boss>).mockImplementation((_scene, config) => {
+        const boss = { bossConfig: config, sprite: { active: true }, health: config.health, isDying: false, spawn: jest.fn(), update: jest.fn(), reset: jest.fn() };
+        bosses.push(boss);
+        return boss as any;
+      });
+      spawnSystem = new SpawnSystem(mockScene, runContext, [bossConfig('swarm-king'), bossConfig('desert-bomber')]);
+    });
+
+    it('should spawn one boss when a boss minute starts', () => {
+      const onBossSpawned = jest.fn();
+      spawnSystem.onBossSpawned = onBossSpawned;
+      waveAt({ bossSpawn: true });
+
+      spawnSystem.update(60000, playerPos);
+      spawnSystem.update(61000, playerPos);
+
+      expect(bosses).toHaveLength(1);
+      expect(onBossSpawned).toHaveBeenCalledWith(expect.objectContaining({ type: 'swarm-king' }));
+      expect(spawnSystem.getActiveEnemies()).toContain(bosses[0]);
+    });
+
+    it('should place the boss with the run RNG', () => {
+      jest.spyOn(runContext.random, 'next').mockReturnValue(0.25); // Straight below the player
+      waveAt({ bossSpawn: true });
+
+      spawnSystem.update(60000, playerPos);
+
+      const [x, y] = bosses[0].spawn.mock.calls[0];
+      expect(x).toBeCloseTo(playerPos.x);
+      expect(y).toBeGreaterThan(playerPos.y);
+    });
+
+    it('should work through the roster and toughen bosses on the next loop', () => {
+      const onBossDefeated = jest.fn();
+      spawnSystem.onBossDefeated = onBossDefeated;
+      waveAt({ bossSpawn: true });
+
+      for (let minute = 1; minute <= 3; minute++) {
+        spawnSystem.update(minute * 60000, playerPos);
+        const boss = spawnSystem.getBoss() as any;
+        boss.health = 0;
+        boss.isDying = true;
+        spawnSystem.update(minute * 60000 + 100, playerPos);
+      }
+
+      expect(bosses.map(boss => boss.bossConfig.type)).toEqual(['swarm-king', 'desert-bomber', 'swarm-king']);
+      expect(bosses[2].bossConfig.health).toBe(1500);
+      expect(onBossDefeated).toHaveBeenCalledTimes(3);
+      expect(spawnSystem.getBoss()).toBeNull();
+    });
+
+    it('should not stack bosses while one is still alive', () => {
+      waveAt({ bossSpawn: true });
+
+      spawnSystem.update(60000, playerPos);
+      spawnSystem.update(120000, playerPos);
+
+      expect(bosses).toHaveLength(1);
+    });
+
+    it('should surround the player with elites once for the elite wave event', () => {
+      const onSpecialEvent = jest.fn();
+      spawnSystem.onSpecialEvent = onSpecialEvent;
+      mockEnemies.forEach(enemy => { enemy.sprite.active = false; });
+      waveAt({ specialEvent: 'elite_wave' });
+
+      spawnSystem.update(300000, playerPos);
+      spawnSystem.update(301000, playerPos);
+
+      const eliteSpawns = mockEnemies.flatMap(enemy => enemy.spawn.mock.calls)
+        .filter(call => call[2]?.id === EnemyTypeId.ELITE);
+      expect(eliteSpawns).toHaveLength(8);
+      expect(onSpecialEvent).toHaveBeenCalledTimes(1);
+      expect(onSpecialEvent).toHaveBeenCalledWith('elite_wave');
+    });
+  });
+
+  describe('wave events', () => {
+    const playerPos = new Vector2(400, 300);
+    let effects: { announce: jest.Mock; spawnGem: jest.Mock; setDarkness: jest.Mock };
+
+    beforeEach(() => {
+      (getWaveConfig as jest.Mock).mockReturnValue({ minEnemies: 0, spawnInterval: 100000, types: ['basic'] });
+      effects = { announce: jest.fn(), spawnGem: jest.fn(), setDarkness: jest.fn() };
+      spawnSystem.setEventEffects(effects);
+    });
+
+    it('should announce an event and end it after its duration', () => {
+      spawnSystem.update(1000, playerPos);
+      spawnSystem.startSpecialEvent('darkness', playerPos);
+
+      expect(effects.announce).toHaveBeenCalledWith('The lights go out...', expect.any(String));
+      expect(effects.setDarkness).toHaveBeenCalledWith(200);
+      expect(spawnSystem.getActiveEventIds()).toEqual(['darkness']);
+
+      spawnSystem.update(20999, playerPos);
+      expect(effects.setDarkness).not.toHaveBeenCalledWith(null);
+
+      spawnSystem.update(21000, playerPos);
+      expect(effects.setDarkness).toHaveBeenLastCalledWith(null);
+      expect(spawnSystem.getActiveEventIds()).toEqual([]);
+    });
+
+    it('should tick events at their interval, catching up on long frames', () => {
+      spawnSystem.startSpecialEvent('gem_frenzy', playerPos);
+
+      spawnSystem.update(250, playerPos);
+      expect(effects.spawnGem).toHaveBeenCalledTimes(2);
+
+      spawnSystem.update(1000, playerPos);
+      expect(effects.spawnGem).toHaveBeenCalledTimes(8);
+    });
+
+    it('should clear barrels left standing when barrel rain ends', () => {
+      const barrels: any[] = [];
+      (KickableObject as jest.MockedClass<typeof KickableObject>).mockImplementation(() => {
+        const barrel = { isBroken: false, update: jest.fn(), destroy: jest.fn() };
+        barrels.push(barrel);
+        return barrel as any;
+      });
+
+      spawnSystem.startSpecialEvent('barrel_rain', playerPos);
+      spawnSystem.update(1800, playerPos);
+
+      expect(spawnSystem.getActiveObjects()).toHaveLength(3);
+
+      spawnSystem.update(12000, playerPos);
+      expect(barrels.every(barrel => barrel.destroy.mock.calls.length === 1)).toBe(true);
+      expect(spawnSystem.getActiveObjects()).toHaveLength(0);
+    });
+
+    it('should place event spawns with the run RNG', () => {
+      const next = jest.spyOn(runContext.random, 'next');
+      (KickableObject as jest.MockedClass<typeof KickableObject>).mockImplementation(() => ({ isBroken: false, update: jest.fn() }) as any);
+
+      spawnSystem.startSpecialEvent('barrel_rain', playerPos);
+      spawnSystem.update(1800, playerPos);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should ignore event ids nobody registered', () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(spawnSystem.startSpecialEvent('meteor_shower', playerPos)).toBe(false);
+      expect(effects.announce).not.toHaveBeenCalled();
+    });
+
+    it('should end running events on reset', () => {
+      (mockEnemyPool as any).releaseAll = jest.fn();
+      spawnSystem.startSpecialEvent('darkness', playerPos);
+
+      spawnSystem.reset();
+
+      expect(effects.setDarkness).toHaveBeenLastCalledWith(null);
+      expect(spawnSystem.getActiveEventIds()).toEqual([]);
+    });
+  });
+
+  describe('formations', () => {
+    const playerPos = new Vector2(400, 300);
+    const spawnCount = () => mockEnemies.reduce((sum, enemy) => sum + enemy.spawn.mock.calls.length, 0);
+
+    beforeEach(() => {
+      mockEnemies.forEach(enemy => { enemy.sprite.active = false; });
+      (getWaveConfig as jest.Mock).mockReturnValue({
+        minEnemies: 0,
+        spawnInterval: 100000,
+        types: ['basic'],
+        formations: [{ type: 'ring', enemyType: 'basic', count: 6, interval: 20000 }]
+      });
+    });
+
+    afterEach(() => {
+      delete (window as any).isMobile;
+    });
+
+    it('should spawn a wave formation when the wave starts and again every interval', () => {
+      spawnSystem.update(0, playerPos);
+      expect(spawnCount()).toBe(6);
+
+      mockEnemies.forEach(enemy => { enemy.sprite.active = false; });
+      spawnSystem.update(19999, playerPos);
+      expect(spawnCount()).toBe(6);
+
+      spawnSystem.update(20000, playerPos);
+      expect(spawnCount()).toBe(12);
+    });
+
+    it('should send formation enemies in with their slot direction', () => {
+      spawnSystem.update(0, playerPos);
+
+      const [x, y, , direction] = mockEnemies[0].spawn.mock.calls[0];
+      expect(Math.atan2(playerPos.y - y, playerPos.x - x)).toBeCloseTo(direction!);
+    });
+
+    it('should lay formations out with the run RNG', () => {
+      const next = jest.spyOn(runContext.random, 'next');
+
+      spawnSystem.update(0, playerPos);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should cut formations short at the mobile enemy cap', () => {
+      (window as any).isMobile = true;
+      spawnSystem = new SpawnSystem(mockScene, runContext);
+      mockEnemyPool.getActive.mockReturnValue(new Array(MobileConfig.performance.maxEnemies - 2));
+
+      spawnSystem.update(0, playerPos);
+
+      expect(spawnCount()).toBe(2);
+    });
+  });
+
+  describe('manual spawns', () => {
+    afterEach(() => {
+      delete (window as any).isMobile;
+    });
+
+    it('should spawn at the given spot and heading', () => {
+      mockEnemies.forEach(enemy => { enemy.sprite.active = false; });
+
+      const enemy = spawnSystem.spawnEnemyAt(10, 20, { id: 'swarm' }, 1.5);
+
+      expect(enemy).toBe(mockEnemies[0]);
+      expect(mockEnemies[0].spawn).toHaveBeenCalledWith(10, 20, { id: 'swarm' }, 1.5);
+    });
+
+    it('should drop spawns past the mobile enemy cap', () => {
+      (window as any).isMobile = true;
+      spawnSystem = new SpawnSystem(mockScene, runContext);
+      mockEnemyPool.getActive.mockReturnValue(new Array(MobileConfig.performance.maxEnemies));
+
+      expect(spawnSystem.spawnEnemyAt(10, 20, { id: 'swarm' })).toBeNull();
+      expect(mockEnemyPool.acquire).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { WeaponSystem } from '../WeaponSystem';
+import { RunContext } from '../../managers/RunContext';
 import { Scene } from 'phaser';
 import { Player } from '../../entities/Player';
 import { Enemy } from '../../entities/Enemy';
@@ -13,6 +14,7 @@ import { Vector2 } from '../../utils/Vector2';
 
 describe('WeaponSystem - Potential Bugs', () => {
   let weaponSystem: WeaponSystem;
+  let runContext: RunContext;
   let mockScene: jest.Mocked<Scene>;
   
   beforeEach(() => {
@@ -40,7 +42,8 @@ describe('WeaponSystem - Potential Bugs', () => {
       tweens: { add: jest.fn() }
     } as any;
     
-    weaponSystem = new WeaponSystem(mockScene);
+    runContext = new RunContext({ seed: 1 });
+    weaponSystem = new WeaponSystem(mockScene, runContext);
   });
 
   describe('projectile collision bugs', () => {
@@ -200,13 +203,14 @@ describe('WeaponSystem - Potential Bugs', () => {
       };
       
       weaponSystem['activeProjectiles'].add(mockProjectile as any);
-      weaponSystem.onEnemyDeath = jest.fn();
+      const onEnemyDeath = jest.fn();
+      runContext.events.on('enemyKilled', onEnemyDeath);
       
       // Enemy checked as !isDying in loop, but dies during collision handling
       weaponSystem.update(16, 1000, { getPosition: () => new Vector2(0, 0) } as any, [mockEnemy] as any);
       
       // Death callback might be called multiple times or not at all
-      expect(weaponSystem.onEnemyDeath).toHaveBeenCalledTimes(1);
+      expect(onEnemyDeath).toHaveBeenCalledTimes(1);
     });
   });
 
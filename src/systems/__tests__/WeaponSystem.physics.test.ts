@@ -0,0 +1,359 @@
+import { WeaponSystem } from '../WeaponSystem';
+import { Scene } from 'phaser';
+import { Enemy } from '../../entities/Enemy';
+import { Player } from '../../entities/Player';
+import { RunContext } from '../../managers/RunContext';
+import { Vector2 } from '../../utils/Vector2';
+import { ENEMY_TYPES, FRIENDLY_FIRE_DAMAGE } from '../../config/enemyTypes';
+import { FriendlyFire } from '../../enemies/EnemyType';
+
+// Mock Phaser
+(global as any).Phaser = {
+  GameObjects: {
+    Graphics: class MockGraphics {}
+  }
+};
+
+// Mock dependencies
+jest.mock('../../managers/PoolManager');
+jest.mock('../../weapons/WeaponFactory', () => ({
+  ...jest.requireActual('../../weapons/WeaponFactory'),
+  WeaponFactory: { createKickVariationWeapons: jest.fn(() => []), createWeapon: jest.fn() }
+}));
+jest.mock('../ComboSystem', () => ({
+  ComboSystem: jest.fn().mockImplementation(() => ({
+    addChainHit: jest.fn(),
+    getCurrentMultiplier: jest.fn(() => 1),
+    resetCombo: jest.fn(),
+    forceReset: jest.fn(),
+    update: jest.fn()
+  }))
+}));
+
+function createMockGraphics(): any {
+  return {
+    setDepth: jest.fn(),
+    setPosition: jest.fn(),
+    setVisible: jest.fn(),
+    clear: jest.fn(),
+    lineStyle: jest.fn(),
+    strokeCircle: jest.fn(),
+    destroy: jest.fn()
+  };
+}
+
+// Real Enemy physics without the sprite setup
+function createEnemy(x: number, y: number, overrides: Partial<Enemy> = {}): Enemy {
+  const enemy = Object.create(Enemy.prototype) as Enemy;
+  Object.assign(enemy, {
+    sprite: { active: true, x, y },
+    isDying: false,
+    isKnockedBack: false,
+    knockbackVelocity: new Vector2(),
+    knockbackThreshold: 80,
+    hitboxRadius: 15,
+    health: 100,
+    enemyType: { kickMultiplier: 1, chainDamageMultiplier: 1 },
+    bouncesRemaining: 0,
+    bounceCount: 0,
+    stickyRadius: 0,
+    fuseRemaining: 0
+  }, overrides);
+  return enemy;
+}
+
+function launch(enemy: Enemy, vx: number, vy: number): Enemy {
+  enemy.applyKnockback(vx, vy);
+  return enemy;
+}
+
+describe('WeaponSystem physics upgrades', () => {
+  let weaponSystem: WeaponSystem;
+  let runContext: RunContext;
+  let mockScene: jest.Mocked<Scene>;
+  let mockPlayer: jest.Mocked<Player>;
+  let graphics: any[];
+
+  const pickUpgrade = (id: string, times: number = 1) => {
+    for (let i = 0; i < times; i++) {
+      runContext.upgrades.applyUpgrade(id);
+    }
+  };
+
+  beforeEach(() => {
+    graphics = [];
+    mockScene = {
+      add: {
+        graphics: jest.fn(() => {
+          const g = createMockGraphics();
+          graphics.push(g);
+          return g;
+        }),
+        text: jest.fn().mockReturnValue({
+          setOrigin: jest.fn(),
+          setDepth: jest.fn(),
+          setScale: jest.fn(),
+          destroy: jest.fn()
+        })
+      },
+      tweens: { add: jest.fn() },
+      time: { delayedCall: jest.fn() }
+    } as any;
+
+    mockPlayer = {
+      getPosition: jest.fn(() => new Vector2(0, 0)),
+      getKickStats: jest.fn(() => ({ force: 1, speed: 1, range: 1 })),
+      takeDamage: jest.fn()
+    } as any;
+
+    runContext = new RunContext({ seed: 7 });
+    weaponSystem = new WeaponSystem(mockScene, runContext);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Bouncy Physics', () => {
+    it('should give kicked enemies two extra bounces per level', () => {
+      const enemy = createEnemy(50, 0);
+
+      weaponSystem['applyKickKnockback']('brattack', enemy, mockPlayer);
+      expect(enemy.bouncesRemaining).toBe(0);
+
+      pickUpgrade('bouncyEnemies', 2);
+      weaponSystem['applyKickKnockback']('brattack', enemy, mockPlayer);
+
+      expect(enemy.bouncesRemaining).toBe(4);
+      expect(enemy.bounceCount).toBe(0);
+    });
+
+    it('should deflect a flying enemy off the enemy it hits', () => {
+      const flying = launch(createEnemy(100, 0, { bouncesRemaining: 2 }), 600, 0);
+      const target = createEnemy(120, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [flying, target]);
+
+      expect(flying.knockbackVelocity.x).toBeLessThan(0);
+      expect(flying.bouncesRemaining).toBe(1);
+      expect(flying.bounceCount).toBe(1);
+    });
+
+    it('should ricochet off the world edge while bounces last', () => {
+      const enemy = launch(createEnemy(90, 300, { bouncesRemaining: 1, scene: mockScene } as any), -600, 0);
+      (mockScene as any).scale = { width: 800, height: 600 };
+
+      enemy['bounceOffWorldBounds']();
+
+      expect(enemy.x).toBe(100);
+      expect(enemy.knockbackVelocity.x).toBeCloseTo(510); // 600 * 0.85
+      expect(enemy.bouncesRemaining).toBe(0);
+    });
+
+    it('should keep flying straight through without bounces', () => {
+      const flying = launch(createEnemy(100, 0), 600, 0);
+      const target = createEnemy(120, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [flying, target]);
+
+      expect(flying.knockbackVelocity.x).toBe(600);
+      expect(target.isKnockedBack).toBe(true);
+    });
+  });
+
+  describe('Sticky Combos', () => {
+    it('should clump the hit enemy onto the flying one and grow its reach', () => {
+      pickUpgrade('stickyEnemies');
+      jest.spyOn(runContext.random, 'chance').mockReturnValue(true);
+      const flying = launch(createEnemy(100, 0), 600, 200);
+      const target = createEnemy(120, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [flying, target]);
+
+      expect(target.knockbackVelocity.x).toBe(600);
+      expect(target.knockbackVelocity.y).toBe(200);
+      expect(flying.stickyRadius).toBe(15);
+      expect(target.stickyRadius).toBe(15);
+      expect(graphics.some(g => g.lineStyle.mock.calls.some((call: any[]) => call[1] === 0x66FF66))).toBe(true);
+    });
+
+    it('should hit enemies further away once the clump has grown', () => {
+      const flying = launch(createEnemy(100, 0, { stickyRadius: 30 }), 600, 0);
+      const target = createEnemy(150, 0); // Out of reach for a plain 15 + 15 hitbox
+
+      weaponSystem.update(16, 1000, mockPlayer, [flying, target]);
+
+      expect(target.health).toBeLessThan(100);
+    });
+  });
+
+  describe('Chain Explosions', () => {
+    it('should explode once an enemy has bounced enough', () => {
+      pickUpgrade('explosiveChains'); // Level 1 - 3 bounces, 10 damage
+      const onDamageDealt = jest.fn();
+      runContext.events.on('damageDealt', onDamageDealt);
+      const bouncer = createEnemy(0, 500, { bounceCount: 3 });
+      const bystander = createEnemy(50, 500);
+
+      weaponSystem.update(16, 1000, mockPlayer, [bouncer, bystander]);
+
+      expect(bystander.health).toBe(90);
+      expect(bouncer.bounceCount).toBe(0);
+      expect(onDamageDealt).toHaveBeenCalledWith(expect.objectContaining({ amount: 10, source: 'explosion' }));
+    });
+
+    it('should not explode below the threshold or without the upgrade', () => {
+      const bouncer = createEnemy(0, 500, { bounceCount: 5 });
+      const bystander = createEnemy(50, 500);
+
+      weaponSystem.update(16, 1000, mockPlayer, [bouncer, bystander]);
+      expect(bystander.health).toBe(100);
+
+      pickUpgrade('explosiveChains');
+      bouncer.bounceCount = 2;
+      weaponSystem.update(16, 1000, mockPlayer, [bouncer, bystander]);
+      expect(bystander.health).toBe(100);
+    });
+  });
+
+  describe('Magnetic Pull', () => {
+    it('should pull nearby enemies toward the player and show the field', () => {
+      pickUpgrade('magneticKicks', 2); // 160px field, 200 px/s
+      const near = createEnemy(100, 0);
+      const far = createEnemy(400, 0);
+
+      weaponSystem.update(100, 1000, mockPlayer, [near, far]);
+
+      expect(near.x).toBeCloseTo(80);
+      expect(far.x).toBe(400);
+      expect(graphics[0].strokeCircle).toHaveBeenCalledWith(0, 0, 160);
+    });
+
+    it('should stop pulling at kick range and leave flying enemies alone', () => {
+      pickUpgrade('magneticKicks', 4);
+      const close = createEnemy(40, 0);
+      const flying = launch(createEnemy(0, 100), 0, 500);
+
+      weaponSystem.update(1000, 1000, mockPlayer, [close, flying]);
+
+      expect(close.x).toBe(35); // hitbox 15 + 20 gap
+      expect(flying.y).toBe(100);
+    });
+
+    it('should do nothing without the upgrade', () => {
+      const enemy = createEnemy(100, 0);
+
+      weaponSystem.update(100, 1000, mockPlayer, [enemy]);
+
+      expect(enemy.x).toBe(100);
+      expect(mockScene.add.graphics).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Front shields', () => {
+    it('should absorb most of a kick that lands on the shield', () => {
+      const facingPlayer = createEnemy(50, 0, { enemyType: ENEMY_TYPES.shielder, facingAngle: Math.PI });
+
+      weaponSystem['applyKickKnockback']('brattack', facingPlayer, mockPlayer);
+
+      expect(facingPlayer.knockbackVelocity.x).toBeCloseTo(800 * 0.7 * 0.2);
+    });
+
+    it('should take the full kick from behind', () => {
+      const facingAway = createEnemy(50, 0, { enemyType: ENEMY_TYPES.shielder, facingAngle: 0 });
+
+      weaponSystem['applyKickKnockback']('brattack', facingAway, mockPlayer);
+
+      expect(facingAway.knockbackVelocity.x).toBeCloseTo(800 * 0.7);
+    });
+  });
+
+  describe('Explosive enemies', () => {
+    // Explosives die in their own blast, so they need the death animation bits
+    const createExplosive = (x: number, y: number, overrides: Partial<Enemy> = {}): Enemy => {
+      const enemy = createEnemy(x, y, {
+        enemyType: ENEMY_TYPES.bomb_goblin,
+        health: ENEMY_TYPES.bomb_goblin.health,
+        velocity: new Vector2(),
+        ...overrides
+      });
+      (enemy.sprite as any).setAlpha = jest.fn();
+      (enemy as any)['scene'] = mockScene;
+      return enemy;
+    };
+
+    it('should light the fuse on a kick instead of going off', () => {
+      const goblin = createExplosive(50, 0);
+
+      weaponSystem['applyKickKnockback']('brattack', goblin, mockPlayer);
+
+      expect(goblin.fuseRemaining).toBe(ENEMY_TYPES.bomb_goblin.fuse!.fuseTime);
+      expect(goblin.isDying).toBe(false);
+    });
+
+    it('should go off on the first enemy an armed explosive hits', () => {
+      const goblin = launch(createExplosive(300, 0, { fuseRemaining: 1000 }), 600, 0);
+      const target = createEnemy(310, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [goblin, target]);
+
+      expect(goblin.isDying).toBe(true);
+      expect(goblin.isKnockedBack).toBe(false);
+      expect(target.health).toBe(100 - ENEMY_TYPES.bomb_goblin.explosiveDamage!);
+    });
+
+    it('should go off on a wall hit or when the fuse burns out', () => {
+      const hitWall = createExplosive(300, 0, { fuseRemaining: 1000, bounceCount: 1 });
+      const burntOut = createExplosive(-300, 0, { fuseRemaining: 10 });
+
+      weaponSystem.update(16, 1000, mockPlayer, [hitWall, burntOut]);
+
+      expect(hitWall.isDying).toBe(true);
+      expect(burntOut.isDying).toBe(true);
+    });
+
+    it('should leave an unlit explosive alone', () => {
+      const goblin = createExplosive(300, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [goblin]);
+
+      expect(goblin.isDying).toBe(false);
+    });
+
+    it('should chain into other explosives caught in the blast', () => {
+      const first = createExplosive(500, 0, { fuseRemaining: 10 });
+      const second = createExplosive(550, 0);
+      const outOfFirstReach = createEnemy(620, 0);
+
+      weaponSystem.update(16, 1000, mockPlayer, [first, second, outOfFirstReach]);
+
+      expect(second.fuseRemaining).toBeGreaterThan(0);
+      expect(outOfFirstReach.health).toBe(100);
+
+      weaponSystem.update(200, 1200, mockPlayer, [first, second, outOfFirstReach]);
+
+      expect(second.fuseRemaining).toBe(0);
+      expect(outOfFirstReach.health).toBe(100 - ENEMY_TYPES.bomb_goblin.explosiveDamage!);
+    });
+
+    it('should hurt the player by the friendly fire rule', () => {
+      const runner = createExplosive(30, 0, { enemyType: ENEMY_TYPES.fuse_runner, fuseRemaining: 10 });
+      weaponSystem.update(16, 1000, mockPlayer, [runner]);
+      expect(mockPlayer.takeDamage).toHaveBeenLastCalledWith(ENEMY_TYPES.fuse_runner.explosiveDamage);
+
+      const goblin = createExplosive(30, 0, { fuseRemaining: 10 });
+      weaponSystem.update(16, 1000, mockPlayer, [goblin]);
+      expect(mockPlayer.takeDamage).toHaveBeenLastCalledWith(
+        ENEMY_TYPES.bomb_goblin.explosiveDamage! * FRIENDLY_FIRE_DAMAGE[FriendlyFire.REDUCED]);
+    });
+
+    it('should keep the player safe outside the blast', () => {
+      const runner = createExplosive(400, 0, { enemyType: ENEMY_TYPES.fuse_runner, fuseRemaining: 10 });
+
+      weaponSystem.update(16, 1000, mockPlayer, [runner]);
+
+      expect(runner.isDying).toBe(true);
+      expect(mockPlayer.takeDamage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,7 +5,9 @@ import { Enemy } from '../../entities/Enemy';
 import { Weapon } from '../../entities/Weapon';
 import { Projectile } from '../../entities/Projectile';
 import { PoolManager } from '../../managers/PoolManager';
-import { WeaponFactory } from '../../weapons/WeaponFactory';
+import { RunContext } from '../../managers/RunContext';
+import { WeaponFactory, WeaponType } from '../../weapons/WeaponFactory';
+import { BrAttackBehavior } from '../../weapons/behaviors/BrAttackBehavior';
 import { IWeaponBehavior } from '../../weapons/IWeaponBehavior';
 import { Vector2 } from '../../utils/Vector2';
 
@@ -22,6 +24,15 @@ jest.mock('../../weapons/WeaponFactory');
 jest.mock('../../entities/Player');
 jest.mock('../../entities/Enemy');
 jest.mock('../../entities/Projectile');
+jest.mock('../ComboSystem', () => ({
+  ComboSystem: jest.fn().mockImplementation(() => ({
+    addChainHit: jest.fn(),
+    getCurrentMultiplier: jest.fn(() => 1),
+    resetCombo: jest.fn(),
+    forceReset: jest.fn(),
+    update: jest.fn()
+  }))
+}));
 
 // Mock weapon behavior
 class MockWeaponBehavior implements IWeaponBehavior {
@@ -32,6 +43,7 @@ class MockWeaponBehavior implements IWeaponBehavior {
 
 describe('WeaponSystem', () => {
   let weaponSystem: WeaponSystem;
+  let runContext: RunContext;
   let mockScene: jest.Mocked<Scene>;
   let mockPlayer: jest.Mocked<Player>;
   let mockEnemies: jest.Mocked<Enemy>[];
@@ -70,6 +82,7 @@ describe('WeaponSystem', () => {
       y: 100,
       sprite: { active: true },
       isDying: false,
+      hitboxRadius: 15,
       takeDamage: jest.fn().mockReturnValue(false),
       enemyType: { color: 0xff0000 }
     })) as any[];
@@ -109,10 +122,13 @@ describe('WeaponSystem', () => {
     } as any;
     
     // Mock WeaponFactory
-    (WeaponFactory.createStarterWeapon as jest.Mock).mockReturnValue(mockWeapon);
+    (WeaponFactory.createKickVariationWeapons as jest.Mock).mockReturnValue([mockWeapon]);
+    (WeaponFactory.createWeapon as jest.Mock).mockImplementation(() => ({ ...mockWeapon }));
     
-    // Create weapon system
-    weaponSystem = new WeaponSystem(mockScene);
+    // Create weapon system - no crits so damage stays predictable
+    runContext = new RunContext({ seed: 1 });
+    jest.spyOn(runContext.random, 'chance').mockReturnValue(false);
+    weaponSystem = new WeaponSystem(mockScene, runContext);
   });
 
   describe('initialization', () => {
@@ -122,7 +138,7 @@ describe('WeaponSystem', () => {
         expect.any(Function),
         100
       );
-      expect(WeaponFactory.createStarterWeapon).toHaveBeenCalled();
+      expect(WeaponFactory.createKickVariationWeapons).toHaveBeenCalledWith(runContext);
     });
   });
 
@@ -156,7 +172,7 @@ describe('WeaponSystem', () => {
       
       weaponSystem.update(16, 1000, mockPlayer, mockEnemies);
       
-      expect(mockWeapon.canFire).toHaveBeenCalledWith(1000);
+      expect(mockWeapon.canFire).toHaveBeenCalledWith(1000, runContext.upgrades);
       expect(mockBehavior.fire).toHaveBeenCalled();
       expect(mockWeapon.updateFireTime).toHaveBeenCalledWith(1000);
       expect(mockProjectile.fire).toHaveBeenCalled();
@@ -224,11 +240,11 @@ describe('WeaponSystem', () => {
       expect(mockProjectilePool.release).toHaveBeenCalledWith(mockProjectile);
     });
 
-    it('should trigger callbacks on enemy death', () => {
+    it('should publish damage and kill events on enemy death', () => {
       const onEnemyDeath = jest.fn();
       const onDamageDealt = jest.fn();
-      weaponSystem.onEnemyDeath = onEnemyDeath;
-      weaponSystem.onDamageDealt = onDamageDealt;
+      runContext.events.on('enemyKilled', onEnemyDeath);
+      runContext.events.on('damageDealt', onDamageDealt);
       
       // Enemy dies on hit
       mockEnemies[0].takeDamage.mockReturnValue(true);
@@ -245,8 +261,8 @@ describe('WeaponSystem', () => {
       
       weaponSystem.update(16, 1000, mockPlayer, mockEnemies);
       
-      expect(onDamageDealt).toHaveBeenCalledWith(25);
-      expect(onEnemyDeath).toHaveBeenCalledWith(150, 100);
+      expect(onDamageDealt).toHaveBeenCalledWith({ amount: 25, source: 'kick', target: mockEnemies[0] });
+      expect(onEnemyDeath).toHaveBeenCalledWith(expect.objectContaining({ x: 150, y: 100, source: 'kick' }));
     });
   });
 
@@ -283,13 +299,24 @@ describe('WeaponSystem', () => {
 
   describe('weapon upgrades', () => {
     it('should update weapons when upgrades change', () => {
-      (window as any).upgradeManager = {
-        getUpgradeLevel: jest.fn().mockReturnValue(2)
-      };
+      const getUpgradeLevel = jest.spyOn(runContext, 'getUpgradeLevel').mockReturnValue(2);
       
       weaponSystem.updateWeaponsForUpgrades();
       
-      expect((window as any).upgradeManager.getUpgradeLevel).toHaveBeenCalledWith('projectileCount');
+      expect(getUpgradeLevel).toHaveBeenCalledWith('uppercutVariation');
+    });
+
+    it('should rebuild kick weapons with the current kick stats and keep their cooldown', () => {
+      const kick = { ...mockWeapon, behavior: new BrAttackBehavior(), lastFireTime: 900 };
+      weaponSystem['weapons'] = [kick as any];
+      runContext.upgrades.applyUpgrade('kickRange');
+      
+      weaponSystem.refreshKickWeapons();
+      
+      expect(WeaponFactory.createWeapon).toHaveBeenCalledWith(WeaponType.BRATTACK, runContext.getKickStats());
+      expect(weaponSystem['weapons']).toHaveLength(1);
+      expect(weaponSystem['weapons'][0]).not.toBe(kick);
+      expect(weaponSystem['weapons'][0].lastFireTime).toBe(900);
     });
   });
 
@@ -0,0 +1,132 @@
+import { ZoneEditorModel } from '../ZoneEditorModel';
+import { loadZoneDefinitions, parseZoneFile, zoneToDefinition } from '../ZoneLoader';
+import { EnemyState } from '../ZoneTypes';
+
+function createModel(): ZoneEditorModel {
+  return new ZoneEditorModel(zoneToDefinition(loadZoneDefinitions()[0]));
+}
+
+describe('ZoneEditorModel', () => {
+  it('should edit a copy of the zone', () => {
+    const definition = zoneToDefinition(loadZoneDefinitions()[0]);
+    const model = new ZoneEditorModel(definition);
+
+    model.placeEnemy(10, 10);
+
+    expect(model.zone.enemies).toHaveLength(definition.enemies.length + 1);
+  });
+
+  it('should place and select enemies with the current type', () => {
+    const model = createModel();
+    model.cycleEnemyType();
+
+    const index = model.placeEnemy(50.4, 60.6);
+
+    expect(model.zone.enemies[index]).toEqual({
+      position: { x: 50, y: 61 },
+      enemyType: 'fast',
+      aggroRadius: 120,
+      state: 'stationary'
+    });
+    expect(model.selection).toEqual({ kind: 'enemy', index });
+  });
+
+  it('should hit-test enemies before objects', () => {
+    const model = createModel();
+    model.placeObject(500, 500);
+    model.placeEnemy(505, 505);
+
+    expect(model.hitTest(502, 502)).toEqual({ kind: 'enemy', index: model.zone.enemies.length - 1 });
+    expect(model.hitTest(-500, -500)).toBeNull();
+  });
+
+  it('should move the selection and the boss', () => {
+    const model = createModel();
+    model.placeObject(100, 100);
+    model.moveSelection(150, 175);
+
+    model.selection = { kind: 'boss' };
+    model.moveSelection(700, 500);
+
+    expect(model.zone.kickableObjects[model.zone.kickableObjects.length - 1].position).toEqual({ x: 150, y: 175 });
+    expect(model.zone.boss!.position).toEqual({ x: 700, y: 500 });
+  });
+
+  it('should resize aggro and arena radii from their handles', () => {
+    const model = createModel();
+    const index = model.placeEnemy(1000, 1000);
+
+    expect(model.hitTestAggroHandle(1120, 1000)).toBe(index);
+    model.setAggroRadius(index, 5);
+    model.setArenaRadius(333.3);
+
+    expect(model.zone.enemies[index].aggroRadius).toBe(20);
+    expect(model.zone.boss!.arenaRadius).toBe(333);
+    const boss = model.zone.boss!;
+    expect(model.hitTestArenaHandle(boss.position.x + 333, boss.position.y)).toBe(true);
+  });
+
+  it('should draw patrol paths starting from the enemy position', () => {
+    const model = createModel();
+    model.placeEnemy(100, 100);
+
+    model.addPatrolPoint(200, 100);
+    model.addPatrolPoint(200, 200);
+
+    const enemy = model.getSelectedEnemy()!;
+    expect(enemy.state).toBe('patrolling');
+    expect(enemy.patrolPath).toEqual([{ x: 100, y: 100 }, { x: 200, y: 100 }, { x: 200, y: 200 }]);
+  });
+
+  it('should go back to stationary once the last waypoint is removed', () => {
+    const model = createModel();
+    model.placeEnemy(100, 100);
+    model.addPatrolPoint(200, 100);
+
+    model.removeLastPatrolPoint();
+
+    const enemy = model.getSelectedEnemy()!;
+    expect(enemy.state).toBe('stationary');
+    expect(enemy.patrolPath).toBeUndefined();
+  });
+
+  it('should not add waypoints without a selected enemy', () => {
+    const model = createModel();
+
+    expect(model.addPatrolPoint(10, 10)).toBe(false);
+  });
+
+  it('should delete enemies and objects but not the boss', () => {
+    const model = createModel();
+    const count = model.zone.enemies.length;
+    model.placeEnemy(10, 10);
+
+    expect(model.deleteSelection()).toBe(true);
+    expect(model.zone.enemies).toHaveLength(count);
+
+    model.selection = { kind: 'boss' };
+    expect(model.deleteSelection()).toBe(false);
+    expect(model.zone.boss).toBeDefined();
+  });
+
+  it('should export JSON the zone loader accepts', () => {
+    const model = createModel();
+    model.placeEnemy(100, 100);
+    model.addPatrolPoint(300, 100);
+    model.placeObject(400, 400);
+
+    expect(model.validate()).toEqual([]);
+
+    const [zone] = parseZoneFile({ zones: [JSON.parse(model.toJson())] });
+    const patroller = zone.enemies[zone.enemies.length - 1];
+    expect(patroller.state).toBe(EnemyState.PATROLLING);
+    expect(patroller.patrolPath).toHaveLength(2);
+  });
+
+  it('should report validation errors instead of exporting broken zones', () => {
+    const model = createModel();
+    model.zone.enemies.push({ position: { x: 0, y: 0 }, enemyType: 'zombie', aggroRadius: 100, state: 'stationary' });
+
+    expect(model.validate()[0]).toContain('unknown enemy type "zombie"');
+  });
+});
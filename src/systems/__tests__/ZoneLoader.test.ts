@@ -0,0 +1,238 @@
+import { loadZoneDefinitions, parseZoneFile, zoneToDefinition, ZoneValidationError, ZoneDefinition } from '../ZoneLoader';
+import { EnemyState, ArenaHazardType } from '../ZoneTypes';
+import { Vector2 } from '../../utils/Vector2';
+import { BossAttack, MovementPattern } from '../../enemies/BossAttack';
+import zoneData from '../../config/zones.json';
+
+// Minimal valid zone for building broken variants
+function createZoneDefinition(overrides: Partial<ZoneDefinition> = {}): ZoneDefinition {
+  return {
+    id: 'test-zone',
+    name: 'Test Zone',
+    bounds: { x: 0, y: 0, width: 800, height: 600 },
+    enemies: [
+      { position: { x: 100, y: 100 }, enemyType: 'basic', aggroRadius: 100, state: 'stationary' }
+    ],
+    kickableObjects: [
+      { position: { x: 200, y: 200 }, type: 'barrel' }
+    ],
+    boss: {
+      type: 'test-boss',
+      name: 'Test Boss',
+      position: { x: 400, y: 300 },
+      health: 100,
+      phases: [{ healthThreshold: 1.0, abilities: ['summon_swarm'], movementPattern: 'circle' }],
+      arenaRadius: 150,
+      unlockCharacter: 'chimpanzini-bananini'
+    },
+    theme: {
+      backgroundColor: '#2d5a27',
+      groundTexture: 'grass',
+      ambientColor: '#90ff90',
+      musicTrack: 'forest-theme'
+    },
+    requiredCharacters: [],
+    isUnlocked: true,
+    ...overrides
+  };
+}
+
+function getValidationErrors(data: unknown): string[] {
+  try {
+    parseZoneFile(data);
+  } catch (error) {
+    if (error instanceof ZoneValidationError) return error.errors;
+    throw error;
+  }
+  return [];
+}
+
+describe('ZoneLoader', () => {
+  describe('shipped zones', () => {
+    it('should load every zone in zones.json', () => {
+      const zones = loadZoneDefinitions();
+
+      expect(zones.map(zone => zone.id)).toEqual(['tutorial-grove', 'desert-outpost', 'arctic-lab']);
+      expect(zones.length).toBe(zoneData.zones.length);
+    });
+
+    it('should build runtime values from plain JSON', () => {
+      const grove = loadZoneDefinitions()[0];
+
+      expect(grove.enemies[0].position).toBeInstanceOf(Vector2);
+      expect(grove.enemies[0].state).toBe(EnemyState.STATIONARY);
+      expect(grove.boss?.position).toEqual(new Vector2(900, 600));
+      expect(grove.theme.backgroundColor).toBe(0x2d5a27);
+      expect(grove.isUnlocked).toBe(true);
+    });
+
+    it('should build patrol paths', () => {
+      const outpost = loadZoneDefinitions()[1];
+      const patroller = outpost.enemies[0];
+
+      expect(patroller.state).toBe(EnemyState.PATROLLING);
+      expect(patroller.patrolPath).toHaveLength(4);
+      expect(patroller.patrolPath![1]).toEqual(new Vector2(1900, 200));
+    });
+
+    it('should build boss arena hazards', () => {
+      const lab = loadZoneDefinitions()[2];
+
+      expect(lab.boss?.hazards?.[0]).toEqual({ type: ArenaHazardType.ICE_PATCH, offset: new Vector2(0, 0), radius: 120 });
+    });
+
+    it('should return fresh objects on every load', () => {
+      const first = loadZoneDefinitions();
+      const second = loadZoneDefinitions();
+
+      first[0].enemies[0].position.x = 9999;
+      expect(second[0].enemies[0].position.x).toBe(300);
+    });
+  });
+
+  describe('zoneToDefinition', () => {
+    it('should round-trip the shipped zones', () => {
+      const zones = loadZoneDefinitions();
+
+      expect(parseZoneFile({ zones: zones.map(zoneToDefinition) })).toEqual(zones);
+    });
+
+    it('should write colours back as hex strings', () => {
+      const definition = zoneToDefinition(loadZoneDefinitions()[0]);
+
+      expect(definition.theme.backgroundColor).toBe('#2d5a27');
+      expect(definition.enemies[0].position).toEqual({ x: 300, y: 200 });
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a minimal valid zone', () => {
+      expect(getValidationErrors({ zones: [createZoneDefinition()] })).toEqual([]);
+    });
+
+    it('should report unknown enemy types with their path', () => {
+      const zone = createZoneDefinition({
+        enemies: [{ position: { x: 0, y: 0 }, enemyType: 'zombie', aggroRadius: 100, state: 'stationary' }]
+      });
+
+      const errors = getValidationErrors({ zones: [zone] });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('zones[0].enemies[0].enemyType');
+      expect(errors[0]).toContain('unknown enemy type "zombie"');
+      expect(errors[0]).toContain('basic, fast, tank, swarm, elite');
+    });
+
+    it('should report unknown object types', () => {
+      const zone = createZoneDefinition({ kickableObjects: [{ position: { x: 0, y: 0 }, type: 'piano' }] });
+
+      expect(getValidationErrors({ zones: [zone] })).toEqual([
+        expect.stringContaining('zones[0].kickableObjects[0].type: unknown object type "piano"')
+      ]);
+    });
+
+    it('should resolve kebab-case boss abilities and movement patterns to registry ids', () => {
+      const zone = createZoneDefinition();
+      zone.boss!.phases = [{
+        healthThreshold: 1.0,
+        abilities: ['summon-swarm', 'Charge Attack'],
+        movementPattern: 'aggressive-swim',
+        attackDamage: { 'summon-swarm': 3 }
+      }];
+
+      const phase = parseZoneFile({ zones: [zone] })[0].boss!.phases[0];
+
+      expect(phase.abilities).toEqual([BossAttack.SUMMON_SWARM, BossAttack.CHARGE_ATTACK]);
+      expect(phase.movementPattern).toBe(MovementPattern.AGGRESSIVE_SWIM);
+      expect(phase.attackDamage).toEqual({ [BossAttack.SUMMON_SWARM]: 3 });
+    });
+
+    it('should report unknown boss abilities and movement patterns', () => {
+      const zone = createZoneDefinition();
+      zone.boss!.phases = [{ healthThreshold: 1.0, abilities: ['laser-beam'], movementPattern: 'teleport' }];
+
+      const errors = getValidationErrors({ zones: [zone] });
+
+      expect(errors).toEqual([
+        expect.stringContaining('zones[0].boss.phases[0].abilities[0]: unknown ability "laser-beam"'),
+        expect.stringContaining('zones[0].boss.phases[0].movementPattern: unknown movement pattern "teleport"')
+      ]);
+    });
+
+    it('should report unknown attacks and negative damage in attackDamage', () => {
+      const zone = createZoneDefinition();
+      zone.boss!.phases[0].attackDamage = { laser_beam: 10, mega_bomb: -5 };
+
+      expect(getValidationErrors({ zones: [zone] })).toEqual([
+        expect.stringContaining('zones[0].boss.phases[0].attackDamage.laser_beam: unknown ability "laser_beam"'),
+        expect.stringContaining('zones[0].boss.phases[0].attackDamage.mega_bomb: expected a number between 0')
+      ]);
+    });
+
+    it('should report unknown hazards and hazards outside the arena', () => {
+      const zone = createZoneDefinition();
+      zone.boss!.hazards = [
+        { type: 'lava', offset: { x: 0, y: 0 }, radius: 40 },
+        { type: 'pillar', offset: { x: 400, y: 0 }, radius: 20 }
+      ];
+
+      expect(getValidationErrors({ zones: [zone] })).toEqual([
+        expect.stringContaining('zones[0].boss.hazards[0].type: unknown hazard type "lava"'),
+        'zones[0].boss.hazards[1].offset: hazard centre is outside the 150px arena'
+      ]);
+    });
+
+    it('should report unknown characters', () => {
+      const zone = createZoneDefinition({ requiredCharacters: ['cappuccino-assassino-v0'] });
+
+      expect(getValidationErrors({ zones: [zone] })[0]).toContain('zones[0].requiredCharacters[0]: unknown character');
+    });
+
+    it('should require patrol points for patrolling enemies', () => {
+      const zone = createZoneDefinition({
+        enemies: [{ position: { x: 0, y: 0 }, enemyType: 'tank', aggroRadius: 100, state: 'patrolling' }]
+      });
+
+      expect(getValidationErrors({ zones: [zone] })).toEqual([
+        'zones[0].enemies[0].patrolPath: patrolling enemies need at least one patrol point'
+      ]);
+    });
+
+    it('should report malformed colours and numbers', () => {
+      const zone = createZoneDefinition();
+      zone.theme.backgroundColor = '0x2d5a27';
+      zone.boss!.phases[0].healthThreshold = 1.5;
+
+      const errors = getValidationErrors({ zones: [zone] });
+
+      expect(errors).toContain('zones[0].boss.phases[0].healthThreshold: expected a number between 0 and 1, got 1.5');
+      expect(errors).toContain('zones[0].theme.backgroundColor: expected a colour like "#2d5a27", got "0x2d5a27"');
+    });
+
+    it('should report duplicate zone ids', () => {
+      const errors = getValidationErrors({ zones: [createZoneDefinition(), createZoneDefinition()] });
+
+      expect(errors).toEqual(['zones[1].id: duplicate zone id "test-zone"']);
+    });
+
+    it('should collect every problem in one error', () => {
+      const broken = createZoneDefinition({ name: '', isUnlocked: 'yes' as any });
+      broken.kickableObjects = [{ position: { x: 0, y: 0 }, type: 'piano' }];
+
+      const errors = getValidationErrors({ zones: [broken] });
+
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should reject files without a zones array', () => {
+      expect(() => parseZoneFile({})).toThrow(ZoneValidationError);
+      expect(() => parseZoneFile({ zones: [] })).toThrow('at least one zone is required');
+    });
+
+    it('should put every problem in the error message', () => {
+      const zone = createZoneDefinition({ kickableObjects: [{ position: { x: 0, y: 0 }, type: 'piano' }] });
+
+      expect(() => parseZoneFile({ zones: [zone] })).toThrow(/Invalid zone data:\n {2}- zones\[0\]\.kickableObjects\[0\]\.type/);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Upgrade Offer Analysis
+ *
+ * Shows how likely each upgrade is to be dealt on the next level-up:
+ * - Rarity weights and luck from config/upgrades
+ * - The 2-weapon guarantee and overdue pity rules
+ * - Banished and maxed upgrades drop out of the pool
+ */
+
+import { UpgradeManager } from '../managers/UpgradeManager';
+import { UPGRADES, UpgradeRarity } from '../config/upgrades';
+import { WEAPON_UPGRADES } from '../config/weaponUpgrades';
+import { EVOLUTIONS } from '../config/evolutions';
+
+interface OfferOdds {
+  id: string;
+  name: string;
+  rarity: UpgradeRarity;
+  probability: number; // Chance of being one of the dealt cards
+}
+
+export class UpgradeOfferAnalyzer {
+
+  static analyzeOffers(upgrades: UpgradeManager, count: number = 3): OfferOdds[] {
+    const odds: OfferOdds[] = [];
+
+    upgrades.getOfferProbabilities(count).forEach((probability, id) => {
+      const definition = UPGRADES[id] ?? WEAPON_UPGRADES[id] ?? EVOLUTIONS[id];
+      odds.push({
+        id,
+        name: definition?.name ?? id,
+        rarity: definition?.rarity ?? 'common',
+        probability
+      });
+    });
+
+    return odds.sort((a, b) => b.probability - a.probability);
+  }
+
+  // Chance that at least one card of the given rarity is dealt - cards are not independent, so this is an estimate
+  static estimateRarityChance(odds: OfferOdds[], rarity: UpgradeRarity): number {
+    const missAll = odds
+      .filter(offer => offer.rarity === rarity)
+      .reduce((chance, offer) => chance * (1 - offer.probability), 1);
+    return 1 - missAll;
+  }
+
+  static printOfferTable(upgrades: UpgradeManager, count: number = 3): void {
+    const odds = this.analyzeOffers(upgrades, count);
+
+    console.log(`🎲 NEXT OFFER ODDS (${count} cards, luck ${upgrades.getLuck().toFixed(1)}):`);
+    odds.forEach(offer => {
+      const percent = (offer.probability * 100).toFixed(1).padStart(5);
+      console.log(`   ${percent}%  ${offer.name} [${offer.rarity}]`);
+    });
+
+    console.log(`\n💎 Rare or better: ~${(this.estimateRarityChance(odds, 'rare') * 100).toFixed(0)}% rare, ` +
+      `~${(this.estimateRarityChance(odds, 'epic') * 100).toFixed(0)}% epic`);
+  }
+
+  // Quick test for browser console - a fresh run unless one is passed in
+  static quickOfferCheck(upgrades: UpgradeManager = new UpgradeManager()): void {
+    this.printOfferTable(upgrades);
+  }
+}
+
+// Export for browser console
+if (typeof window !== 'undefined') {
+  (window as any).testUpgradeOffers = () => UpgradeOfferAnalyzer.quickOfferCheck();
+}
@@ -116,18 +116,18 @@ export class KickUpgradeTester {
     const WeaponFactory = require('../weapons/WeaponFactory').WeaponFactory;
     const WeaponType = require('../weapons/WeaponFactory').WeaponType;
     
-    // Mock empty upgrade manager for base values
-    (global as any).upgradeManager = {
-      getUpgradeLevel: () => 0
-    };
+    const RunContext = require('../managers/RunContext').RunContext;
+    
+    // Fresh run with no upgrades for base values
+    const context = new RunContext();
     
     switch (upgradeId) {
       case 'kickSpeed':
-        const baseKick = WeaponFactory.createWeapon(WeaponType.BRATTACK);
+        const baseKick = WeaponFactory.createWeapon(WeaponType.BRATTACK, context.getKickStats());
         return baseKick.fireRate;
         
       case 'kickRange':
-        const baseRangeKick = WeaponFactory.createWeapon(WeaponType.BRATTACK);
+        const baseRangeKick = WeaponFactory.createWeapon(WeaponType.BRATTACK, context.getKickStats());
         return baseRangeKick.range;
         
       case 'kickForce':
@@ -142,7 +142,7 @@ export class KickUpgradeTester {
       case 'uppercutVariation':
       case 'spinningKickVariation':
       case 'groundPoundVariation':
-        const baseWeapons = WeaponFactory.createKickVariationWeapons();
+        const baseWeapons = WeaponFactory.createKickVariationWeapons(context);
         return baseWeapons.length; // Should be 1 (just basic kick)
         
       default:
@@ -151,21 +151,23 @@ export class KickUpgradeTester {
   }
   
   private static getKickUpgradeMaxValue(upgradeId: string, maxLevel: number): number {
-    // Mock upgrade manager with max level
-    (global as any).upgradeManager = {
-      getUpgradeLevel: (id: string) => id === upgradeId ? maxLevel : 0
-    };
-    
     const WeaponFactory = require('../weapons/WeaponFactory').WeaponFactory;
     const WeaponType = require('../weapons/WeaponFactory').WeaponType;
+    const RunContext = require('../managers/RunContext').RunContext;
+    
+    // Fresh run with just this upgrade maxed
+    const context = new RunContext();
+    for (let i = 0; i < maxLevel; i++) {
+      context.upgrades.applyUpgrade(upgradeId);
+    }
     
     switch (upgradeId) {
       case 'kickSpeed':
-        const speedKick = WeaponFactory.createWeapon(WeaponType.BRATTACK);
+        const speedKick = WeaponFactory.createWeapon(WeaponType.BRATTACK, context.getKickStats());
         return speedKick.fireRate;
         
       case 'kickRange':
-        const rangeKick = WeaponFactory.createWeapon(WeaponType.BRATTACK);
+        const rangeKick = WeaponFactory.createWeapon(WeaponType.BRATTACK, context.getKickStats());
         return rangeKick.range;
         
       case 'kickForce':
@@ -182,7 +184,7 @@ export class KickUpgradeTester {
       case 'uppercutVariation':
       case 'spinningKickVariation':
       case 'groundPoundVariation':
-        const maxWeapons = WeaponFactory.createKickVariationWeapons();
+        const maxWeapons = WeaponFactory.createKickVariationWeapons(context);
         return maxWeapons.length; // Should be more than 1
         
       default:
@@ -0,0 +1,113 @@
+import { Scene } from 'phaser';
+import { CharacterAbility } from '../entities/Character';
+import { AbilityCooldown } from '../systems/AbilitySystem';
+import { MobileConfig } from '../mobile/MobileConfig';
+
+export interface AbilityActivateCallback {
+  (slot: number): void;
+}
+
+// Keyboard bindings per ability slot
+export const ABILITY_KEYS = ['Q', 'E'];
+
+interface AbilitySlot {
+  cooldownGraphics: Phaser.GameObjects.Graphics;
+  timerText: Phaser.GameObjects.Text;
+  radius: number;
+}
+
+// Bottom-right ability buttons with radial cooldown sweeps - tappable on mobile
+export class AbilityHUD {
+  private slots: AbilitySlot[] = [];
+  private container: Phaser.GameObjects.Container;
+
+  public onActivate?: AbilityActivateCallback;
+
+  constructor(scene: Scene, abilities: CharacterAbility[], isMobile: boolean) {
+    const radius = isMobile ? Math.max(40, MobileConfig.ui.buttonMinSize / 2) : 26;
+    const gap = isMobile ? 20 : 12;
+    const padding = isMobile ? 32 : 16;
+    const bottomInset = isMobile
+      ? MobileConfig.ui.xpBarHeight + MobileConfig.ui.safeAreaInsets.bottom
+      : 6; // Clear the XP bar
+    const y = scene.scale.height - bottomInset - padding - radius;
+
+    this.container = scene.add.container(0, 0);
+    this.container.setScrollFactor(0);
+    this.container.setDepth(150);
+
+    abilities.forEach((ability, slot) => {
+      // Slot 0 sits furthest left so the keys read Q, E left to right
+      const x = scene.scale.width - padding - radius - (abilities.length - 1 - slot) * (radius * 2 + gap);
+
+      const background = scene.add.circle(x, y, radius, 0x000000, 0.5);
+      background.setStrokeStyle(3, 0xffdd00, 0.9);
+
+      const initials = ability.name.split(' ').map(word => word[0]).join('').toUpperCase();
+      const label = scene.add.text(x, y - (isMobile ? 6 : 4), initials, {
+        fontSize: isMobile ? '18px' : '13px',
+        fontFamily: 'Arial Black',
+        color: '#ffffff'
+      });
+      label.setOrigin(0.5);
+
+      const keyText = scene.add.text(x, y + radius - (isMobile ? 12 : 9), isMobile ? '' : ABILITY_KEYS[slot] ?? '', {
+        fontSize: '11px',
+        fontFamily: 'monospace',
+        color: '#ffdd00'
+      });
+      keyText.setOrigin(0.5);
+
+      const cooldownGraphics = scene.add.graphics();
+      cooldownGraphics.setPosition(x, y);
+
+      const timerText = scene.add.text(x, y, '', {
+        fontSize: isMobile ? '20px' : '16px',
+        fontFamily: 'monospace',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 3
+      });
+      timerText.setOrigin(0.5);
+
+      background.setInteractive({ useHandCursor: !isMobile });
+      background.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+        pointer.event?.stopPropagation();
+        this.onActivate?.(slot);
+      });
+
+      this.container.add([background, label, keyText, cooldownGraphics, timerText]);
+      this.slots.push({ cooldownGraphics, timerText, radius });
+    });
+  }
+
+  update(cooldowns: AbilityCooldown[]): void {
+    cooldowns.forEach((cooldown, slot) => {
+      const hudSlot = this.slots[slot];
+      if (!hudSlot) return;
+
+      const g = hudSlot.cooldownGraphics;
+      g.clear();
+
+      // Dark sweep over the part of the cooldown still left, clockwise from the top
+      if (cooldown.remaining > 0) {
+        const start = -Math.PI / 2;
+        g.fillStyle(0x000000, 0.65);
+        g.slice(0, 0, hudSlot.radius, start, start + Math.PI * 2 * (1 - cooldown.progress), false);
+        g.fillPath();
+      }
+
+      if (cooldown.isActive) {
+        g.lineStyle(4, 0x00ffff, 1);
+        g.strokeCircle(0, 0, hudSlot.radius + 3);
+      }
+
+      hudSlot.timerText.setText(cooldown.remaining > 0 ? `${Math.ceil(cooldown.remaining / 1000)}` : '');
+    });
+  }
+
+  destroy(): void {
+    this.container.destroy();
+    this.slots = [];
+  }
+}
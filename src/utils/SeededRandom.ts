@@ -0,0 +1,25 @@
+// Seeded random number generator (mulberry32) - same seed, same run
+export class SeededRandom {
+  private state: number;
+
+  constructor(public readonly seed: number = Math.floor(Math.random() * 0xFFFFFFFF)) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1) - drop-in for Math.random()
+  next(): number {
+    let t = this.state = (this.state + 0x6D2B79F5) >>> 0;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  }
+
+  // Float in [min, max)
+  between(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
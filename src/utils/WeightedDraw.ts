@@ -0,0 +1,66 @@
+// One step of a draw without replacement - e.g. "2 weapon upgrades", then "fill the rest from anything"
+export interface DrawStage<T> {
+  draws: (picked: T[]) => number;
+  candidates: (picked: T[]) => T[]; // Already picked items are skipped automatically
+}
+
+// Runs the stages in order, picking each item with probability proportional to its weight
+export function drawWeighted<T>(stages: DrawStage<T>[], weightOf: (item: T) => number, random: () => number): T[] {
+  const picked: T[] = [];
+
+  for (const stage of stages) {
+    const draws = stage.draws(picked);
+    for (let i = 0; i < draws; i++) {
+      const candidates = remainingCandidates(stage, picked);
+      if (candidates.length === 0) break;
+
+      picked.push(pickOne(candidates, weightOf, random()));
+    }
+  }
+
+  return picked;
+}
+
+// Exact chance of each item ending up in the draw - walks every possible draw order, so keep pools small
+export function getInclusionProbabilities<T>(stages: DrawStage<T>[], weightOf: (item: T) => number): Map<T, number> {
+  const probabilities = new Map<T, number>();
+
+  const walk = (stageIndex: number, drawsLeft: number | undefined, picked: T[], probability: number): void => {
+    if (stageIndex >= stages.length) {
+      picked.forEach(item => probabilities.set(item, (probabilities.get(item) || 0) + probability));
+      return;
+    }
+
+    const stage = stages[stageIndex];
+    const left = drawsLeft ?? stage.draws(picked);
+    const candidates = left > 0 ? remainingCandidates(stage, picked) : [];
+    if (candidates.length === 0) {
+      walk(stageIndex + 1, undefined, picked, probability);
+      return;
+    }
+
+    const totalWeight = candidates.reduce((sum, item) => sum + weightOf(item), 0);
+    candidates.forEach(item => {
+      walk(stageIndex, left - 1, [...picked, item], probability * weightOf(item) / totalWeight);
+    });
+  };
+
+  walk(0, undefined, [], 1);
+  return probabilities;
+}
+
+function remainingCandidates<T>(stage: DrawStage<T>, picked: T[]): T[] {
+  return stage.candidates(picked).filter(item => !picked.includes(item));
+}
+
+function pickOne<T>(candidates: T[], weightOf: (item: T) => number, roll: number): T {
+  const totalWeight = candidates.reduce((sum, item) => sum + weightOf(item), 0);
+  let threshold = roll * totalWeight;
+
+  for (const item of candidates) {
+    threshold -= weightOf(item);
+    if (threshold < 0) return item;
+  }
+
+  return candidates[candidates.length - 1]; // Float rounding
+}
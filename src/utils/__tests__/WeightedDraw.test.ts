@@ -0,0 +1,41 @@
+import { DrawStage, drawWeighted, getInclusionProbabilities } from '../WeightedDraw';
+
+describe('WeightedDraw', () => {
+  const weights: Record<string, number> = { a: 1, b: 1, c: 2 };
+  const weightOf = (item: string) => weights[item];
+  const fromAll = (draws: number): DrawStage<string> => ({ draws: () => draws, candidates: () => ['a', 'b', 'c'] });
+
+  it('should pick in proportion to weight', () => {
+    expect(drawWeighted([fromAll(1)], weightOf, () => 0)).toEqual(['a']);
+    expect(drawWeighted([fromAll(1)], weightOf, () => 0.49)).toEqual(['b']);
+    expect(drawWeighted([fromAll(1)], weightOf, () => 0.5)).toEqual(['c']);
+  });
+
+  it('should never pick the same item twice and stop when candidates run out', () => {
+    const picked = drawWeighted([fromAll(5)], weightOf, () => 0.99);
+
+    expect(picked).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should compute exact inclusion probabilities', () => {
+    const single = getInclusionProbabilities([fromAll(1)], weightOf);
+    expect(single.get('a')).toBeCloseTo(0.25);
+    expect(single.get('c')).toBeCloseTo(0.5);
+
+    // c first (1/2) or after a or b (1/4 * 2/3 each)
+    const pair = getInclusionProbabilities([fromAll(2)], weightOf);
+    expect(pair.get('c')).toBeCloseTo(0.5 + 2 * (0.25 * 2 / 3));
+    expect([...pair.values()].reduce((sum, p) => sum + p, 0)).toBeCloseTo(2);
+  });
+
+  it('should let later stages see earlier picks', () => {
+    const stages: DrawStage<string>[] = [
+      { draws: () => 1, candidates: () => ['a', 'b'] },
+      { draws: picked => picked.includes('a') ? 1 : 0, candidates: () => ['c'] }
+    ];
+
+    const probabilities = getInclusionProbabilities(stages, weightOf);
+
+    expect(probabilities.get('c')).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,97 @@
+import { Vector2 } from '../utils/Vector2';
+
+export enum FormationType {
+  RING = 'ring',
+  WALL = 'wall',
+  PINCER = 'pincer',
+  SPIRAL = 'spiral'
+}
+
+// Where the formation is built - around the player, just off-screen
+export interface FormationArea {
+  playerPos: Vector2;
+  spawnDistance: number;
+}
+
+export interface FormationSlot {
+  x: number;
+  y: number;
+  direction: number; // Radians - swarm enemies keep flying this way
+}
+
+export type FormationBuilder = (area: FormationArea, count: number, random: () => number) => FormationSlot[];
+
+const WALL_SPACING = 30; // Same gap as the classic swarm line
+const SPIRAL_TURNS = 1.5;
+const SPIRAL_DEPTH = 300; // How far past the spawn distance the spiral's tail reaches
+
+function towardsPlayer(area: FormationArea, x: number, y: number): number {
+  return Math.atan2(area.playerPos.y - y, area.playerPos.x - x);
+}
+
+// Line across one side of the view, marching straight over the player
+function buildWall(area: FormationArea, count: number, sideAngle: number): FormationSlot[] {
+  const { playerPos, spawnDistance } = area;
+  const centerX = playerPos.x + Math.cos(sideAngle) * spawnDistance;
+  const centerY = playerPos.y + Math.sin(sideAngle) * spawnDistance;
+  const direction = sideAngle + Math.PI;
+
+  // The wall runs perpendicular to its march
+  const alongX = Math.cos(sideAngle + Math.PI / 2);
+  const alongY = Math.sin(sideAngle + Math.PI / 2);
+
+  return Array.from({ length: count }, (_, i) => {
+    const offset = (i - (count - 1) / 2) * WALL_SPACING;
+    return { x: centerX + alongX * offset, y: centerY + alongY * offset, direction };
+  });
+}
+
+// Every VS-style shape SpawnSystem can build - WaveConfig.formations names them by type
+export const FORMATIONS: Record<FormationType, FormationBuilder> = {
+  [FormationType.RING]: (area, count, random) => {
+    // Evenly spaced all the way around, no gap to run through
+    const rotation = random() * Math.PI * 2;
+    return Array.from({ length: count }, (_, i) => {
+      const angle = rotation + (i / count) * Math.PI * 2;
+      const x = area.playerPos.x + Math.cos(angle) * area.spawnDistance;
+      const y = area.playerPos.y + Math.sin(angle) * area.spawnDistance;
+      return { x, y, direction: towardsPlayer(area, x, y) };
+    });
+  },
+
+  [FormationType.WALL]: (area, count, random) => {
+    // One of the four screen sides
+    const side = Math.floor(random() * 4);
+    return buildWall(area, count, side * Math.PI / 2);
+  },
+
+  [FormationType.PINCER]: (area, count, random) => {
+    // Two walls closing from opposite sides
+    const sideAngle = Math.floor(random() * 4) * Math.PI / 2;
+    const first = Math.ceil(count / 2);
+    return [
+      ...buildWall(area, first, sideAngle),
+      ...buildWall(area, count - first, sideAngle + Math.PI)
+    ];
+  },
+
+  [FormationType.SPIRAL]: (area, count, random) => {
+    // Arm winding outward from the spawn distance - the head arrives first, the tail keeps coming
+    const rotation = random() * Math.PI * 2;
+    return Array.from({ length: count }, (_, i) => {
+      const progress = count > 1 ? i / (count - 1) : 0;
+      const angle = rotation + progress * SPIRAL_TURNS * Math.PI * 2;
+      const distance = area.spawnDistance + progress * SPIRAL_DEPTH;
+      const x = area.playerPos.x + Math.cos(angle) * distance;
+      const y = area.playerPos.y + Math.sin(angle) * distance;
+      return { x, y, direction: towardsPlayer(area, x, y) };
+    });
+  }
+};
+
+// Unknown types build nothing so a typo in WaveConfig can't break spawning
+export function buildFormation(type: string, area: FormationArea, count: number, random: () => number = Math.random): FormationSlot[] {
+  const builder = FORMATIONS[type as FormationType];
+  if (!builder || count <= 0) return [];
+  return builder(area, count, random);
+}
@@ -0,0 +1,17 @@
+export enum WaveEventId {
+  ELITE_WAVE = 'elite_wave',
+  SWARM_RING = 'swarm_ring',
+  BARREL_RAIN = 'barrel_rain',
+  GEM_FRENZY = 'gem_frenzy',
+  DARKNESS = 'darkness'
+}
+
+export interface WaveEventConfig {
+  id: string; // WaveEventId value for built-in events, anything for registered ones
+  banner: string; // Announced when the event starts
+  color: string; // Banner text colour
+  duration: number; // ms until the event ends and its cleanup runs
+  tickInterval?: number; // ms between ticks for events that keep going
+  count: number; // Enemies, barrels or gems per start or tick
+  radius: number; // Around the player - ring size, drop area or light radius
+}
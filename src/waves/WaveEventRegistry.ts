@@ -0,0 +1,68 @@
+import { Vector2 } from '../utils/Vector2';
+import { EnemyTypeConfig } from '../enemies/EnemyType';
+import type { KickableObject } from '../entities/KickableObject';
+import { WaveEventConfig } from './WaveEvent';
+import { WAVE_EVENTS } from '../config/waveEvents';
+import { BUILT_IN_WAVE_EVENTS } from './WaveEvents';
+
+// Scene-side effects a wave event can ask for - SpawnSystem handles enemies and objects itself
+export interface WaveEventEffects {
+  announce(text: string, color: string): void;
+  spawnGem(x: number, y: number, value: number): void;
+  setDarkness(radius: number | null): void; // null lifts it
+}
+
+// Everything one running event can touch - a fresh context per trigger
+export interface WaveEventContext {
+  config: WaveEventConfig;
+  playerPos: Vector2; // Kept current while the event runs
+  spawnDistance: number; // Just outside the viewport
+  random: () => number;
+  effects: WaveEventEffects;
+  spawnEnemy(x: number, y: number, enemyType: EnemyTypeConfig, direction?: number): void;
+  spawnObject(x: number, y: number): KickableObject; // Barrels still standing are cleared when the event ends
+  onCleanup(callback: () => void): void;
+}
+
+export interface WaveEventHandlers {
+  start: (context: WaveEventContext) => void;
+  tick?: (context: WaveEventContext, tick: number) => void; // Every config.tickInterval until the event ends
+}
+
+export interface WaveEvent extends WaveEventHandlers {
+  config: WaveEventConfig;
+}
+
+// Every event WaveConfig.specialEvent can name
+export class WaveEventRegistry {
+  private static instance: WaveEventRegistry;
+  private events: Map<string, WaveEvent> = new Map();
+
+  private constructor() {
+    Object.values(WAVE_EVENTS).forEach(config => {
+      this.registerEvent(config, BUILT_IN_WAVE_EVENTS[config.id as keyof typeof BUILT_IN_WAVE_EVENTS]);
+    });
+  }
+
+  static getInstance(): WaveEventRegistry {
+    if (!WaveEventRegistry.instance) {
+      WaveEventRegistry.instance = new WaveEventRegistry();
+    }
+    return WaveEventRegistry.instance;
+  }
+
+  registerEvent(config: WaveEventConfig, handlers: WaveEventHandlers): void {
+    if (this.events.has(config.id)) {
+      console.warn(`Wave event ${config.id} registered twice, replacing it`);
+    }
+    this.events.set(config.id, { ...handlers, config });
+  }
+
+  getEvent(id: string): WaveEvent | undefined {
+    return this.events.get(id);
+  }
+
+  getEventIds(): string[] {
+    return Array.from(this.events.keys());
+  }
+}
@@ -0,0 +1,74 @@
+import { ENEMY_TYPES } from '../config/enemyTypes';
+import { WaveEventId } from './WaveEvent';
+import type { WaveEventContext, WaveEventHandlers } from './WaveEventRegistry';
+
+// Random point within the event radius around the player
+function pointNearPlayer(context: WaveEventContext): { x: number; y: number } {
+  const angle = context.random() * Math.PI * 2;
+  const distance = Math.sqrt(context.random()) * context.config.radius; // Even spread over the disc
+  return {
+    x: context.playerPos.x + Math.cos(angle) * distance,
+    y: context.playerPos.y + Math.sin(angle) * distance
+  };
+}
+
+// Built-in wave events - each one reads its tuning from WAVE_EVENTS
+export const BUILT_IN_WAVE_EVENTS: Record<WaveEventId, WaveEventHandlers> = {
+  [WaveEventId.ELITE_WAVE]: {
+    start: (context) => {
+      // Ring of elites closing in from every side
+      const { count } = context.config;
+      for (let i = 0; i < count; i++) {
+        const angle = (i / count) * Math.PI * 2;
+        context.spawnEnemy(
+          context.playerPos.x + Math.cos(angle) * context.spawnDistance,
+          context.playerPos.y + Math.sin(angle) * context.spawnDistance,
+          ENEMY_TYPES.elite
+        );
+      }
+    }
+  },
+
+  [WaveEventId.SWARM_RING]: {
+    start: (context) => {
+      // Tight ring of swarm enemies, all flying inward
+      const { count, radius } = context.config;
+      for (let i = 0; i < count; i++) {
+        const angle = (i / count) * Math.PI * 2;
+        context.spawnEnemy(
+          context.playerPos.x + Math.cos(angle) * radius,
+          context.playerPos.y + Math.sin(angle) * radius,
+          ENEMY_TYPES.swarm,
+          angle + Math.PI
+        );
+      }
+    }
+  },
+
+  [WaveEventId.BARREL_RAIN]: {
+    start: () => {},
+    tick: (context) => {
+      for (let i = 0; i < context.config.count; i++) {
+        const point = pointNearPlayer(context);
+        context.spawnObject(point.x, point.y);
+      }
+    }
+  },
+
+  [WaveEventId.GEM_FRENZY]: {
+    start: () => {},
+    tick: (context) => {
+      for (let i = 0; i < context.config.count; i++) {
+        const point = pointNearPlayer(context);
+        context.effects.spawnGem(point.x, point.y, 1);
+      }
+    }
+  },
+
+  [WaveEventId.DARKNESS]: {
+    start: (context) => {
+      context.effects.setDarkness(context.config.radius);
+      context.onCleanup(() => context.effects.setDarkness(null));
+    }
+  }
+};
@@ -0,0 +1,73 @@
+import { FORMATIONS, FormationType, FormationArea, buildFormation } from '../SpawnFormations';
+import { WAVE_CONFIG } from '../../config/waveConfig';
+import { ENEMY_TYPES } from '../../config/enemyTypes';
+import { Vector2 } from '../../utils/Vector2';
+
+describe('SpawnFormations', () => {
+  const area: FormationArea = { playerPos: new Vector2(1000, 1000), spawnDistance: 600 };
+  const fixedRandom = () => 0;
+  const distanceToPlayer = (slot: { x: number; y: number }) => Vector2.distance(new Vector2(slot.x, slot.y), area.playerPos);
+
+  // Where a slot's enemy would be after moving a little along its direction
+  const stepAlong = (slot: { x: number; y: number; direction: number }) => ({
+    x: slot.x + Math.cos(slot.direction) * 50,
+    y: slot.y + Math.sin(slot.direction) * 50
+  });
+
+  it('should build the requested number of slots for every formation', () => {
+    Object.values(FormationType).forEach(type => {
+      expect(buildFormation(type, area, 13, fixedRandom)).toHaveLength(13);
+    });
+  });
+
+  it('should only name known formations and enemy types in the wave timeline', () => {
+    WAVE_CONFIG.forEach(wave => {
+      (wave.formations || []).forEach(formation => {
+        expect(FORMATIONS[formation.type as FormationType]).toBeDefined();
+        expect(ENEMY_TYPES[formation.enemyType as keyof typeof ENEMY_TYPES]).toBeDefined();
+      });
+    });
+  });
+
+  it('ring should surround the player evenly at the spawn distance', () => {
+    const slots = buildFormation(FormationType.RING, area, 8, fixedRandom);
+
+    slots.forEach(slot => {
+      expect(distanceToPlayer(slot)).toBeCloseTo(600);
+      expect(distanceToPlayer(stepAlong(slot))).toBeCloseTo(550);
+    });
+    expect(slots[2].x).toBeCloseTo(1000);
+    expect(slots[2].y).toBeCloseTo(1600);
+  });
+
+  it('wall should line up on one side and march the same way', () => {
+    const slots = buildFormation(FormationType.WALL, area, 5, fixedRandom);
+
+    slots.forEach(slot => {
+      expect(slot.x).toBeCloseTo(1600);
+      expect(slot.direction).toBeCloseTo(Math.PI);
+    });
+    expect(slots.map(slot => slot.y)).toEqual([940, 970, 1000, 1030, 1060]);
+  });
+
+  it('pincer should split between opposite sides', () => {
+    const slots = buildFormation(FormationType.PINCER, area, 7, fixedRandom);
+
+    expect(slots.filter(slot => slot.x > area.playerPos.x)).toHaveLength(4);
+    expect(slots.filter(slot => slot.x < area.playerPos.x)).toHaveLength(3);
+    slots.forEach(slot => expect(distanceToPlayer(stepAlong(slot))).toBeLessThan(distanceToPlayer(slot)));
+  });
+
+  it('spiral should wind outward from the spawn distance', () => {
+    const slots = buildFormation(FormationType.SPIRAL, area, 10, fixedRandom);
+    const distances = slots.map(distanceToPlayer);
+
+    expect(distances[0]).toBeCloseTo(600);
+    distances.slice(1).forEach((distance, i) => expect(distance).toBeGreaterThan(distances[i]));
+  });
+
+  it('should build nothing for unknown types or empty counts', () => {
+    expect(buildFormation('hexagon', area, 10)).toEqual([]);
+    expect(buildFormation(FormationType.RING, area, 0)).toEqual([]);
+  });
+});
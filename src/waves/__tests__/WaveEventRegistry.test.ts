@@ -0,0 +1,118 @@
+import { WaveEventRegistry, WaveEventContext } from '../WaveEventRegistry';
+import { WaveEventId, WaveEventConfig } from '../WaveEvent';
+import { WAVE_EVENTS } from '../../config/waveEvents';
+import { WAVE_CONFIG } from '../../config/waveConfig';
+import { ENEMY_TYPES } from '../../config/enemyTypes';
+import { Vector2 } from '../../utils/Vector2';
+
+function createContext(id: WaveEventId): WaveEventContext {
+  return {
+    config: WAVE_EVENTS[id],
+    playerPos: new Vector2(500, 500),
+    spawnDistance: 600,
+    random: () => 0.5,
+    effects: { announce: jest.fn(), spawnGem: jest.fn(), setDarkness: jest.fn() },
+    spawnEnemy: jest.fn(),
+    spawnObject: jest.fn(),
+    onCleanup: jest.fn()
+  };
+}
+
+describe('WaveEventRegistry', () => {
+  const registry = WaveEventRegistry.getInstance();
+
+  describe('built-ins', () => {
+    it('should register every WaveEventId with its tuning', () => {
+      Object.values(WaveEventId).forEach(id => {
+        const event = registry.getEvent(id);
+        expect(event?.config).toEqual(WAVE_EVENTS[id]);
+        expect(typeof event?.start).toBe('function');
+      });
+    });
+
+    it('should know every event the wave timeline names', () => {
+      WAVE_CONFIG
+        .filter(wave => wave.specialEvent)
+        .forEach(wave => expect(registry.getEvent(wave.specialEvent!)).toBeDefined());
+    });
+
+    it('should only give ticking events a tick interval', () => {
+      Object.values(WaveEventId).forEach(id => {
+        const event = registry.getEvent(id)!;
+        expect(!!event.tick).toBe(!!event.config.tickInterval);
+      });
+    });
+  });
+
+  describe('events', () => {
+    it('elite wave should ring the player with elites just off-screen', () => {
+      const context = createContext(WaveEventId.ELITE_WAVE);
+
+      registry.getEvent(WaveEventId.ELITE_WAVE)!.start(context);
+
+      const spawns = (context.spawnEnemy as jest.Mock).mock.calls;
+      expect(spawns).toHaveLength(WAVE_EVENTS.elite_wave.count);
+      spawns.forEach(([x, y, type]) => {
+        expect(Vector2.distance(new Vector2(x, y), context.playerPos)).toBeCloseTo(600);
+        expect(type).toBe(ENEMY_TYPES.elite);
+      });
+    });
+
+    it('swarm ring should send every swarm enemy towards the player', () => {
+      const context = createContext(WaveEventId.SWARM_RING);
+
+      registry.getEvent(WaveEventId.SWARM_RING)!.start(context);
+
+      (context.spawnEnemy as jest.Mock).mock.calls.forEach(([x, y, type, direction]) => {
+        expect(type).toBe(ENEMY_TYPES.swarm);
+        const step = new Vector2(x + Math.cos(direction) * 10, y + Math.sin(direction) * 10);
+        expect(Vector2.distance(step, context.playerPos)).toBeLessThan(WAVE_EVENTS.swarm_ring.radius);
+      });
+    });
+
+    it('barrel rain and gem frenzy should drop near the player every tick', () => {
+      const barrels = createContext(WaveEventId.BARREL_RAIN);
+      const gems = createContext(WaveEventId.GEM_FRENZY);
+
+      registry.getEvent(WaveEventId.BARREL_RAIN)!.tick!(barrels, 1);
+      registry.getEvent(WaveEventId.GEM_FRENZY)!.tick!(gems, 1);
+
+      expect(barrels.spawnObject).toHaveBeenCalledTimes(WAVE_EVENTS.barrel_rain.count);
+      expect(gems.effects.spawnGem).toHaveBeenCalledTimes(WAVE_EVENTS.gem_frenzy.count);
+      const [x, y] = (gems.effects.spawnGem as jest.Mock).mock.calls[0];
+      expect(Vector2.distance(new Vector2(x, y), gems.playerPos)).toBeLessThanOrEqual(WAVE_EVENTS.gem_frenzy.radius);
+    });
+
+    it('darkness should lift itself on cleanup', () => {
+      const context = createContext(WaveEventId.DARKNESS);
+
+      registry.getEvent(WaveEventId.DARKNESS)!.start(context);
+      expect(context.effects.setDarkness).toHaveBeenCalledWith(WAVE_EVENTS.darkness.radius);
+
+      (context.onCleanup as jest.Mock).mock.calls[0][0]();
+      expect(context.effects.setDarkness).toHaveBeenLastCalledWith(null);
+    });
+  });
+
+  describe('registration', () => {
+    it('should let new events register and be found by id', () => {
+      const config: WaveEventConfig = { id: 'test_meteor', banner: 'Meteors!', color: '#ff0000', duration: 1000, count: 1, radius: 100 };
+      const start = jest.fn();
+
+      registry.registerEvent(config, { start });
+
+      expect(registry.getEvent('test_meteor')).toEqual({ config, start });
+      expect(registry.getEventIds()).toContain('test_meteor');
+    });
+
+    it('should warn when an id is registered twice', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      registry.registerEvent(WAVE_EVENTS.darkness, { start: jest.fn() });
+      registry.registerEvent(WAVE_EVENTS.darkness, registry.getEvent(WaveEventId.DARKNESS)!);
+
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { Enemy } from '../entities/Enemy';
 import { Player } from '../entities/Player';
 import { Projectile, ProjectileVisuals, FollowTarget, LiveTarget } from '../entities/Projectile';
 import { PoolManager } from '../managers/PoolManager';
+import { UpgradeLevels } from '../managers/UpgradeManager';
 
 export interface ProjectileFire {
   projectile: Projectile;
@@ -25,7 +26,8 @@ export interface IWeaponBehavior {
     damage: number,
     range: number,
     player?: Player,
-    weaponEffectSystem?: any
+    weaponEffectSystem?: any,
+    upgrades?: UpgradeLevels
   ): ProjectileFire[];
   
   // Get valid targets for this weapon
@@ -1,26 +1,30 @@
 import { Weapon, WeaponConfig } from '../entities/Weapon';
+import { KickStats, NEUTRAL_KICK_STATS } from '../systems/KickStatPipeline';
+import type { RunContext } from '../managers/RunContext';
 // ONLY KICK-BASED BEHAVIORS - This is a physics brawler!
 import { BrAttackBehavior } from './behaviors/BrAttackBehavior';
 import { UppercutBehavior } from './behaviors/UppercutBehavior';
 import { SpinningKickBehavior } from './behaviors/SpinningKickBehavior';
 import { GroundPoundBehavior } from './behaviors/GroundPoundBehavior';
+import { DominoKickBehavior } from './behaviors/DominoKickBehavior';
+import { EarthquakeStompBehavior } from './behaviors/EarthquakeStompBehavior';
 
 export enum WeaponType {
   // ONLY KICK-BASED WEAPONS - This is a physics brawler!
   BRATTACK = 'brattack',
   UPPERCUT = 'uppercut',
   SPINNING_KICK = 'spinningKick',
-  GROUND_POUND = 'groundPound'
+  GROUND_POUND = 'groundPound',
+  // Evolutions - see config/evolutions
+  DOMINO_KICK = 'dominoKick',
+  EARTHQUAKE_STOMP = 'earthquakeStomp'
 }
 
 export class WeaponFactory {
-  static createWeapon(type: WeaponType): Weapon {
-    // Apply global kick upgrades to all kick weapons
-    const upgradeManager = (window as any).upgradeManager;
-    const kickSpeedMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('kickSpeed') * 0.20)) : 1;
-    const kickRangeMultiplier = upgradeManager ? 
-      (1 + (upgradeManager.getUpgradeLevel('kickRange') * 0.15)) : 1;
+  static createWeapon(type: WeaponType, stats: KickStats = NEUTRAL_KICK_STATS): Weapon {
+    // Character base stats, passive and kick upgrades apply to all kick weapons
+    const kickSpeedMultiplier = stats.speed;
+    const kickRangeMultiplier = stats.range;
     
     switch (type) {
       case WeaponType.BRATTACK:
@@ -59,6 +63,24 @@ export class WeaponFactory {
           behavior: new GroundPoundBehavior()
         });
         
+      case WeaponType.DOMINO_KICK:
+        return new Weapon({
+          damage: 16, // Evolved BrAttack - every enemy in the line takes it
+          fireRate: 1.8 * kickSpeedMultiplier,
+          projectileSpeed: 700,
+          range: 35 * kickRangeMultiplier,
+          behavior: new DominoKickBehavior()
+        });
+        
+      case WeaponType.EARTHQUAKE_STOMP:
+        return new Weapon({
+          damage: 14, // Evolved Ground Pound - eruptions add their own damage
+          fireRate: 3.0 * kickSpeedMultiplier,
+          projectileSpeed: 350,
+          range: 60 * kickRangeMultiplier, // Behavior reaches 1.5x further
+          behavior: new EarthquakeStompBehavior()
+        });
+        
       default:
         // Fallback to basic kick if unknown type
         return new Weapon({
@@ -71,29 +93,31 @@ export class WeaponFactory {
     }
   }
   
-  static createStarterWeapon(): Weapon {
+  static createStarterWeapon(context: RunContext): Weapon {
     // Always start with basic kick - this is a physics brawler!
-    return this.createWeapon(WeaponType.BRATTACK);
+    return this.createWeapon(WeaponType.BRATTACK, context.getKickStats());
   }
   
-  static createKickVariationWeapons(): Weapon[] {
-    const upgradeManager = (window as any).upgradeManager;
+  static createKickVariationWeapons(context: RunContext): Weapon[] {
+    const stats = context.getKickStats();
     const weapons: Weapon[] = [];
     
-    // Always start with basic kick
-    weapons.push(this.createWeapon(WeaponType.BRATTACK));
+    // Always start with basic kick - or its evolution
+    weapons.push(this.createWeapon(
+      context.upgrades.hasEvolution('dominoKick') ? WeaponType.DOMINO_KICK : WeaponType.BRATTACK, stats));
     
     // Add unlocked variations
-    if (upgradeManager?.getUpgradeLevel('uppercutVariation') > 0) {
-      weapons.push(this.createWeapon(WeaponType.UPPERCUT));
+    if (context.getUpgradeLevel('uppercutVariation') > 0) {
+      weapons.push(this.createWeapon(WeaponType.UPPERCUT, stats));
     }
     
-    if (upgradeManager?.getUpgradeLevel('spinningKickVariation') > 0) {
-      weapons.push(this.createWeapon(WeaponType.SPINNING_KICK));
+    if (context.getUpgradeLevel('spinningKickVariation') > 0) {
+      weapons.push(this.createWeapon(WeaponType.SPINNING_KICK, stats));
     }
     
-    if (upgradeManager?.getUpgradeLevel('groundPoundVariation') > 0) {
-      weapons.push(this.createWeapon(WeaponType.GROUND_POUND));
+    if (context.getUpgradeLevel('groundPoundVariation') > 0) {
+      weapons.push(this.createWeapon(
+        context.upgrades.hasEvolution('earthquakeStomp') ? WeaponType.EARTHQUAKE_STOMP : WeaponType.GROUND_POUND, stats));
     }
     
     return weapons;
@@ -4,6 +4,7 @@ import { Enemy } from '../../entities/Enemy';
 import { Player } from '../../entities/Player';
 import { Projectile } from '../../entities/Projectile';
 import { PoolManager } from '../../managers/PoolManager';
+import { UpgradeLevels } from '../../managers/UpgradeManager';
 
 export class BrAttackBehavior implements IWeaponBehavior {
   fire(
@@ -13,12 +14,12 @@ export class BrAttackBehavior implements IWeaponBehavior {
     damage: number,
     range: number,
     player?: Player,
-    weaponEffectSystem?: any
+    weaponEffectSystem?: any,
+    upgrades?: UpgradeLevels
   ): ProjectileFire[] {
     // Check for multi-kick upgrade
-    const upgradeManager = (window as any).upgradeManager;
-    const additionalTargets = upgradeManager ? 
-      upgradeManager.getUpgradeLevel('multiKick') : 0;
+    const additionalTargets = upgrades ? 
+      upgrades.getUpgradeLevel('multiKick') : 0;
     const maxTargets = 1 + additionalTargets;
     
     // Find enemies to target
@@ -0,0 +1,87 @@
+import { IWeaponBehavior, ProjectileFire } from '../IWeaponBehavior';
+import { Vector2 } from '../../utils/Vector2';
+import { Enemy } from '../../entities/Enemy';
+import { Player } from '../../entities/Player';
+import { Projectile } from '../../entities/Projectile';
+import { PoolManager } from '../../managers/PoolManager';
+
+const DOMINO_LENGTH_MULTIPLIER = 6; // How far behind the first enemy the line reaches, in kick ranges
+const DOMINO_LANE_WIDTH = 30; // Max sideways distance from the kick line
+const MAX_DOMINO_TARGETS = 8;
+
+// Evolved BrAttack (maxed Multi-Kick + Chain Power) - the kick carries through the whole line
+export class DominoKickBehavior implements IWeaponBehavior {
+  fire(
+    position: Vector2, 
+    enemies: Enemy[], 
+    projectilePool: PoolManager<Projectile>,
+    _damage: number,
+    range: number,
+    player?: Player
+  ): ProjectileFire[] {
+    const targets = this.getTargets(position, enemies, range, MAX_DOMINO_TARGETS);
+    if (targets.length === 0) return [];
+    
+    // Trigger player attack animation
+    if (player) {
+      player.playAttackAnimation();
+    }
+    
+    return targets.map((target): ProjectileFire => {
+      const projectile = projectilePool.acquire();
+      projectile.weaponType = 'dominokick';
+      
+      return {
+        projectile,
+        targetX: target.sprite.x,
+        targetY: target.sprite.y,
+        visuals: {
+          color: 0xFFCC00, // Gold for evolutions
+          shape: 'circle',
+          size: 4,
+          alpha: 0.8
+        }
+      };
+    });
+  }
+  
+  getTargets(
+    position: Vector2, 
+    enemies: Enemy[], 
+    range: number, 
+    maxTargets: number
+  ): Enemy[] {
+    const candidates = enemies
+      .filter(enemy => enemy.sprite.active && !enemy.isDying)
+      .map(enemy => ({
+        enemy,
+        distance: position.distanceTo(new Vector2(enemy.sprite.x, enemy.sprite.y))
+      }))
+      .sort((a, b) => a.distance - b.distance);
+    
+    // First domino has to be in kick range
+    const first = candidates[0];
+    if (!first || first.distance > range || first.distance === 0) return [];
+    
+    const dirX = (first.enemy.sprite.x - position.x) / first.distance;
+    const dirY = (first.enemy.sprite.y - position.y) / first.distance;
+    const maxAlong = first.distance + range * DOMINO_LENGTH_MULTIPLIER;
+    
+    // Everyone lined up behind it falls too
+    const lined = candidates.slice(1).filter(({ enemy }) => {
+      const offsetX = enemy.sprite.x - position.x;
+      const offsetY = enemy.sprite.y - position.y;
+      const along = offsetX * dirX + offsetY * dirY;
+      const sideways = Math.abs(offsetX * dirY - offsetY * dirX);
+      return along > first.distance && along <= maxAlong && sideways <= DOMINO_LANE_WIDTH;
+    });
+    
+    return [first, ...lined]
+      .slice(0, maxTargets)
+      .map(({ enemy }) => enemy);
+  }
+  
+  getDescription(): string {
+    return 'Evolved kick that knocks down every enemy lined up behind the first one';
+  }
+}
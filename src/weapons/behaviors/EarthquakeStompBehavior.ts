@@ -0,0 +1,63 @@
+import { IWeaponBehavior, ProjectileFire } from '../IWeaponBehavior';
+import { Vector2 } from '../../utils/Vector2';
+import { Enemy } from '../../entities/Enemy';
+import { Player } from '../../entities/Player';
+import { Projectile } from '../../entities/Projectile';
+import { PoolManager } from '../../managers/PoolManager';
+
+const EARTHQUAKE_RANGE_MULTIPLIER = 1.5; // Reaches further than a plain ground pound
+const MAX_EARTHQUAKE_TARGETS = 16;
+
+// Evolved Ground Pound (Ground Pound + Explosive Chains) - WeaponSystem makes every hit enemy erupt
+export class EarthquakeStompBehavior implements IWeaponBehavior {
+  fire(
+    position: Vector2, 
+    enemies: Enemy[], 
+    projectilePool: PoolManager<Projectile>,
+    _damage: number,
+    range: number,
+    player?: Player
+  ): ProjectileFire[] {
+    const targets = this.getTargets(position, enemies, range * EARTHQUAKE_RANGE_MULTIPLIER, MAX_EARTHQUAKE_TARGETS);
+    if (targets.length === 0) return [];
+    
+    // Trigger player attack animation
+    if (player) {
+      player.playAttackAnimation();
+    }
+    
+    return targets.map((target): ProjectileFire => {
+      const projectile = projectilePool.acquire();
+      projectile.weaponType = 'earthquakestomp';
+      
+      return {
+        projectile,
+        targetX: target.sprite.x,
+        targetY: target.sprite.y,
+        visuals: {
+          color: 0xFF5500, // Lava orange
+          shape: 'circle',
+          size: 6,
+          alpha: 0.8
+        },
+        speed: 350 // Rolling shockwave
+      };
+    });
+  }
+  
+  getTargets(
+    position: Vector2, 
+    enemies: Enemy[], 
+    range: number, 
+    maxTargets: number
+  ): Enemy[] {
+    return enemies
+      .filter(enemy => enemy.sprite.active && !enemy.isDying)
+      .filter(enemy => position.distanceTo(new Vector2(enemy.sprite.x, enemy.sprite.y)) <= range)
+      .slice(0, maxTargets);
+  }
+  
+  getDescription(): string {
+    return 'Evolved ground pound that splits the earth - every enemy it hits erupts';
+  }
+}